@@ -0,0 +1,369 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Coins, Cpu, Mic, Plus, RefreshCw, Save, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import {
+  formatCost,
+  formatTokens,
+  groupUsage,
+  totalUsage,
+  usageMonth,
+  type AIModelPrice,
+  type AIUsageRecord,
+  type AIUsageTotals,
+} from '@/lib/aiUsage';
+
+interface AIUsagePanelProps {
+  users: { id: string; name: string; email: string }[];
+}
+
+interface PriceDraft {
+  model: string;
+  input_per_million: string;
+  output_per_million: string;
+  audio_per_minute: string;
+}
+
+const toDraft = (price: AIModelPrice): PriceDraft => ({
+  model: price.model,
+  input_per_million: String(price.input_per_million),
+  output_per_million: String(price.output_per_million),
+  audio_per_minute: String(price.audio_per_minute),
+});
+
+const EMPTY_DRAFT: PriceDraft = { model: '', input_per_million: '0', output_per_million: '0', audio_per_minute: '0' };
+
+const UsageTable = ({ title, label, rows, formatKey }: {
+  title: string;
+  label: string;
+  rows: AIUsageTotals[];
+  formatKey?: (key: string) => string;
+}) => (
+  <Card>
+    <CardHeader>
+      <CardTitle className="text-lg">{title}</CardTitle>
+    </CardHeader>
+    <CardContent className="p-0">
+      {rows.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">No AI usage recorded yet</div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{label}</TableHead>
+              <TableHead className="text-right">Calls</TableHead>
+              <TableHead className="text-right">Tokens (in / out)</TableHead>
+              <TableHead className="text-right">Audio</TableHead>
+              <TableHead className="text-right">Est. Cost</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(row => (
+              <TableRow key={row.key}>
+                <TableCell className="font-medium">{formatKey ? formatKey(row.key) : row.key}</TableCell>
+                <TableCell className="text-right">{row.calls}</TableCell>
+                <TableCell className="text-right">{formatTokens(row.inputTokens)} / {formatTokens(row.outputTokens)}</TableCell>
+                <TableCell className="text-right">{(row.audioSeconds / 60).toFixed(1)} min</TableCell>
+                <TableCell className="text-right">
+                  {formatCost(row.cost)}
+                  {row.unpricedCalls > 0 && (
+                    <Badge variant="outline" className="ml-2 text-amber-700" title="Calls made with a model that had no price">
+                      {row.unpricedCalls} unpriced
+                    </Badge>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </CardContent>
+  </Card>
+);
+
+export const AIUsagePanel = ({ users }: AIUsagePanelProps) => {
+  const [usage, setUsage] = useState<AIUsageRecord[]>([]);
+  const [prices, setPrices] = useState<AIModelPrice[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, PriceDraft>>({});
+  const [newPrice, setNewPrice] = useState<PriceDraft>(EMPTY_DRAFT);
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchUsage = useCallback(async () => {
+    setLoading(true);
+    const [usageResult, pricesResult] = await Promise.all([
+      supabase.from('ai_usage').select('*').order('created_at', { ascending: false }),
+      supabase.from('ai_model_prices').select('*').order('model'),
+    ]);
+
+    if (usageResult.error) {
+      console.error('Error fetching AI usage:', usageResult.error);
+    } else {
+      setUsage(usageResult.data || []);
+    }
+
+    if (pricesResult.error) {
+      console.error('Error fetching AI model prices:', pricesResult.error);
+    } else {
+      setPrices(pricesResult.data || []);
+      setDrafts(Object.fromEntries((pricesResult.data || []).map(price => [price.id, toDraft(price)])));
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchUsage();
+  }, [fetchUsage]);
+
+  const totals = useMemo(() => totalUsage(usage), [usage]);
+  const byUser = useMemo(() => groupUsage(usage, record => record.user_id || 'unknown'), [usage]);
+  const byModel = useMemo(() => groupUsage(usage, record => record.model), [usage]);
+  const byMonth = useMemo(
+    () => groupUsage(usage, usageMonth).sort((a, b) => b.key.localeCompare(a.key)),
+    [usage]
+  );
+  const monthlyChart = useMemo(
+    () => [...byMonth].reverse().map(row => ({ month: row.key, cost: Number(row.cost.toFixed(4)) })),
+    [byMonth]
+  );
+
+  const userLabel = (userId: string) => {
+    const usageUser = users.find(u => u.id === userId);
+    return usageUser?.name || usageUser?.email || 'Unknown User';
+  };
+
+  const monthLabel = (month: string) =>
+    new Date(`${month}-01T00:00:00`).toLocaleDateString(undefined, { year: 'numeric', month: 'long' });
+
+  const parsePrice = (draft: PriceDraft) => {
+    const values = {
+      input_per_million: Number(draft.input_per_million),
+      output_per_million: Number(draft.output_per_million),
+      audio_per_minute: Number(draft.audio_per_minute),
+    };
+    return Object.values(values).every(value => Number.isFinite(value) && value >= 0) ? values : null;
+  };
+
+  const handleSavePrice = async (price: AIModelPrice) => {
+    const values = parsePrice(drafts[price.id]);
+    if (!values) {
+      toast({ title: "Invalid price", description: "Prices must be zero or positive numbers.", variant: "destructive" });
+      return;
+    }
+
+    setSavingId(price.id);
+    const { error } = await supabase
+      .from('ai_model_prices')
+      .update({ ...values, updated_at: new Date().toISOString() })
+      .eq('id', price.id);
+    setSavingId(null);
+
+    if (error) {
+      console.error('Error updating AI model price:', error);
+      toast({ title: "Error saving price", description: "Failed to update the model price.", variant: "destructive" });
+      return;
+    }
+    toast({ title: "Price updated", description: `New ${price.model} calls will use this price.` });
+    fetchUsage();
+  };
+
+  const handleAddPrice = async () => {
+    const values = parsePrice(newPrice);
+    if (!newPrice.model.trim() || !values) {
+      toast({ title: "Invalid price", description: "Enter a model name and zero or positive prices.", variant: "destructive" });
+      return;
+    }
+
+    setSavingId('new');
+    const { error } = await supabase
+      .from('ai_model_prices')
+      .insert({ model: newPrice.model.trim(), ...values });
+    setSavingId(null);
+
+    if (error) {
+      console.error('Error adding AI model price:', error);
+      toast({ title: "Error adding price", description: "Failed to add the model price. Is the model already listed?", variant: "destructive" });
+      return;
+    }
+    setNewPrice(EMPTY_DRAFT);
+    fetchUsage();
+  };
+
+  const handleDeletePrice = async (price: AIModelPrice) => {
+    const { error } = await supabase.from('ai_model_prices').delete().eq('id', price.id);
+    if (error) {
+      console.error('Error deleting AI model price:', error);
+      toast({ title: "Error deleting price", description: "Failed to delete the model price.", variant: "destructive" });
+      return;
+    }
+    fetchUsage();
+  };
+
+  const updateDraft = (id: string, field: keyof PriceDraft, value: string) => {
+    setDrafts(current => ({ ...current, [id]: { ...current[id], [field]: value } }));
+  };
+
+  if (loading) {
+    return <div className="text-center py-8 text-gray-500">Loading AI usage...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Estimated Cost</CardTitle>
+            <Coins className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCost(totals.cost)}</div>
+            {totals.unpricedCalls > 0 && (
+              <p className="text-xs text-amber-700">{totals.unpricedCalls} calls without a price</p>
+            )}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">AI Calls</CardTitle>
+            <RefreshCw className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{totals.calls}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Tokens (in / out)</CardTitle>
+            <Cpu className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatTokens(totals.inputTokens)} / {formatTokens(totals.outputTokens)}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Audio Transcribed</CardTitle>
+            <Mic className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{(totals.audioSeconds / 60).toFixed(1)} min</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {monthlyChart.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Estimated Cost by Month</CardTitle>
+            <CardDescription>Costs are estimated with the prices in effect when each call was made.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="h-[300px] w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={monthlyChart} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="month" tick={{ fontSize: 12 }} tickFormatter={monthLabel} />
+                  <YAxis tickFormatter={(value) => formatCost(Number(value))} />
+                  <Tooltip labelFormatter={(value) => monthLabel(String(value))} formatter={(value) => [formatCost(Number(value)), 'Cost']} />
+                  <Bar dataKey="cost" fill="#8b5cf6" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <UsageTable title="By User" label="User" rows={byUser} formatKey={userLabel} />
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <UsageTable title="By Month" label="Month" rows={byMonth} formatKey={monthLabel} />
+        <UsageTable title="By Model" label="Model" rows={byModel} />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Model Prices</CardTitle>
+          <CardDescription>
+            USD per million tokens and per minute of audio. A price also applies to dated versions of the model (e.g. gpt-4o-2024-08-06). Changes only affect new calls.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Model</TableHead>
+                <TableHead>Input / 1M tokens</TableHead>
+                <TableHead>Output / 1M tokens</TableHead>
+                <TableHead>Audio / minute</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {prices.map(price => (
+                <TableRow key={price.id}>
+                  <TableCell className="font-mono text-sm">{price.model}</TableCell>
+                  {(['input_per_million', 'output_per_million', 'audio_per_minute'] as const).map(field => (
+                    <TableCell key={field}>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={drafts[price.id]?.[field] ?? ''}
+                        onChange={(e) => updateDraft(price.id, field, e.target.value)}
+                        className="w-28"
+                      />
+                    </TableCell>
+                  ))}
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Button size="sm" variant="outline" onClick={() => handleSavePrice(price)} disabled={savingId === price.id}>
+                        <Save className="w-3 h-3" />
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => handleDeletePrice(price)} className="text-red-600 hover:text-red-700">
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+              <TableRow>
+                <TableCell>
+                  <Input
+                    value={newPrice.model}
+                    onChange={(e) => setNewPrice({ ...newPrice, model: e.target.value })}
+                    placeholder="Model name"
+                    className="font-mono text-sm"
+                  />
+                </TableCell>
+                {(['input_per_million', 'output_per_million', 'audio_per_minute'] as const).map(field => (
+                  <TableCell key={field}>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={newPrice[field]}
+                      onChange={(e) => setNewPrice({ ...newPrice, [field]: e.target.value })}
+                      className="w-28"
+                    />
+                  </TableCell>
+                ))}
+                <TableCell>
+                  <Button size="sm" onClick={handleAddPrice} disabled={savingId === 'new'}>
+                    <Plus className="w-3 h-3 mr-1" />
+                    Add
+                  </Button>
+                </TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -5,8 +5,15 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line, PieChart, Pie, Cell, Legend } from 'recharts';
 import { TrendingUp, Target, Users, MessageSquare, Calendar, FileText } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
 import { ReprocessTranscriptsButton } from './ReprocessTranscriptsButton';
 import { DeleteSubmissionDialog } from './DeleteSubmissionDialog';
+import { FlaggedEvidenceBadge } from './EvidenceBadge';
+import { ChartConfidenceToggle } from './ChartConfidenceToggle';
+import { useConfidenceThresholds } from '@/hooks/useConfidenceThresholds';
+import { kpiMetricKey, type ExtractedKPIValue } from '@/lib/kpis';
+import { countFlaggedEvidence } from '@/lib/evidence';
+import { confirmedInsights } from '@/lib/confidence';
 
 interface UserSubmission {
   id: string;
@@ -15,8 +22,13 @@ interface UserSubmission {
   status: string;
   sentiment?: string | null;
   key_points?: string[] | null;
-  extracted_kpis?: string[] | null;
+  key_point_confidences?: number[] | null;
+  confirmed_key_points?: string[] | null;
+  sentiment_confidence?: number | null;
+  confirmed_sentiment?: string | null;
+  extracted_kpi_values: ExtractedKPIValue[];
   ai_quotes?: string[] | null;
+  quote_evidence?: Json;
   profiles?: {
     name: string;
     email: string;
@@ -49,6 +61,8 @@ export const AdminDashboard = () => {
   const [loading, setLoading] = useState(true);
   const [selectedTimeframe, setSelectedTimeframe] = useState('all');
   const [userColors, setUserColors] = useState<Record<string, string>>({});
+  const [confirmedOnly, setConfirmedOnly] = useState(true);
+  const { thresholds } = useConfidenceThresholds();
 
   useEffect(() => {
     fetchDashboardData();
@@ -124,7 +138,7 @@ export const AdminDashboard = () => {
       // Fetch ALL completed submissions (not filtered by user) - this should work for admins
       const { data: submissionsData, error: submissionsError } = await supabase
         .from('submissions')
-        .select('*')
+        .select('*, extracted_kpi_values(*)')
         .eq('status', 'completed')
         .order('created_at', { ascending: false });
 
@@ -145,8 +159,13 @@ export const AdminDashboard = () => {
           status: submission.status,
           sentiment: submission.sentiment,
           key_points: submission.key_points,
-          extracted_kpis: submission.extracted_kpis,
+          key_point_confidences: submission.key_point_confidences,
+          confirmed_key_points: submission.confirmed_key_points,
+          sentiment_confidence: submission.sentiment_confidence,
+          confirmed_sentiment: submission.confirmed_sentiment,
+          extracted_kpi_values: submission.extracted_kpi_values || [],
           ai_quotes: submission.ai_quotes,
+          quote_evidence: submission.quote_evidence,
           profiles: userProfile ? {
             name: userProfile.name,
             email: userProfile.email
@@ -184,31 +203,34 @@ export const AdminDashboard = () => {
     }
   });
 
+  // Low-confidence items stay out of the charts until confirmed, unless "All" is selected
+  const chartSubmissions = confirmedOnly
+    ? filteredSubmissions.map(submission => confirmedInsights(submission, thresholds))
+    : filteredSubmissions;
+
   // Process KPI data with user identification
   const processKPIData = () => {
-    const kpiMap = new Map<string, { total: number; users: Record<string, number> }>();
+    const kpiMap = new Map<string, { name: string; total: number; users: Record<string, number> }>();
     
-    filteredSubmissions.forEach(submission => {
-      if (submission.extracted_kpis) {
-        submission.extracted_kpis.forEach(kpi => {
-          const kpiName = kpi.split(':')[0].trim();
-          const userId = submission.user_id;
-          
-          if (!kpiMap.has(kpiName)) {
-            kpiMap.set(kpiName, { total: 0, users: {} });
-          }
-          
-          const kpiData = kpiMap.get(kpiName)!;
-          kpiData.total += 1;
-          kpiData.users[userId] = (kpiData.users[userId] || 0) + 1;
-        });
-      }
+    chartSubmissions.forEach(submission => {
+      submission.extracted_kpi_values.forEach(kpi => {
+        const kpiKey = kpiMetricKey(kpi.metric_name);
+        const userId = submission.user_id;
+        
+        if (!kpiMap.has(kpiKey)) {
+          kpiMap.set(kpiKey, { name: kpi.metric_name, total: 0, users: {} });
+        }
+        
+        const kpiData = kpiMap.get(kpiKey)!;
+        kpiData.total += 1;
+        kpiData.users[userId] = (kpiData.users[userId] || 0) + 1;
+      });
     });
 
-    return Array.from(kpiMap.entries())
-      .map(([kpi, data]) => ({
-        name: kpi.length > 20 ? kpi.substring(0, 20) + '...' : kpi,
-        fullName: kpi,
+    return Array.from(kpiMap.values())
+      .map(data => ({
+        name: data.name.length > 20 ? data.name.substring(0, 20) + '...' : data.name,
+        fullName: data.name,
         total: data.total,
         ...Object.fromEntries(
           Object.entries(data.users).map(([userId, count]) => [
@@ -225,7 +247,7 @@ export const AdminDashboard = () => {
   const processTimelineData = () => {
     const timelineMap = new Map<string, Record<string, number>>();
     
-    filteredSubmissions.forEach(submission => {
+    chartSubmissions.forEach(submission => {
       const date = new Date(submission.created_at).toLocaleDateString();
       const userId = submission.user_id;
       const userEmail = submission.profiles?.email || 'Unknown';
@@ -235,7 +257,7 @@ export const AdminDashboard = () => {
       }
       
       const dayData = timelineMap.get(date)!;
-      dayData[userEmail] = (dayData[userEmail] || 0) + (submission.extracted_kpis?.length || 0);
+      dayData[userEmail] = (dayData[userEmail] || 0) + submission.extracted_kpi_values.length;
     });
 
     return Array.from(timelineMap.entries())
@@ -251,8 +273,8 @@ export const AdminDashboard = () => {
   // User performance summary
   const processUserPerformance = () => {
     const userStats = users.map(user => {
-      const userSubmissions = filteredSubmissions.filter(s => s.user_id === user.id);
-      const totalKPIs = userSubmissions.reduce((sum, s) => sum + (s.extracted_kpis?.length || 0), 0);
+      const userSubmissions = chartSubmissions.filter(s => s.user_id === user.id);
+      const totalKPIs = userSubmissions.reduce((sum, s) => sum + s.extracted_kpi_values.length, 0);
       const totalKeyPoints = userSubmissions.reduce((sum, s) => sum + (s.key_points?.length || 0), 0);
       const positiveSubmissions = userSubmissions.filter(s => s.sentiment === 'positive').length;
       
@@ -290,7 +312,8 @@ export const AdminDashboard = () => {
       <div className="flex items-center justify-between">
         <h2 className="text-2xl font-bold">Admin Dashboard - All User Submissions</h2>
         <div className="flex items-center gap-4">
-          <ReprocessTranscriptsButton />
+          <ReprocessTranscriptsButton users={users} onCompleted={fetchDashboardData} />
+          <ChartConfidenceToggle confirmedOnly={confirmedOnly} onChange={setConfirmedOnly} />
           <Select value={selectedTimeframe} onValueChange={setSelectedTimeframe}>
             <SelectTrigger className="w-40">
               <SelectValue />
@@ -337,7 +360,7 @@ export const AdminDashboard = () => {
               <Target className="w-5 h-5 text-purple-600" />
               <div>
                 <p className="text-2xl font-bold">
-                  {filteredSubmissions.reduce((sum, s) => sum + (s.extracted_kpis?.length || 0), 0)}
+                  {filteredSubmissions.reduce((sum, s) => sum + s.extracted_kpi_values.length, 0)}
                 </p>
                 <p className="text-sm text-gray-600">Total KPIs Extracted</p>
               </div>
@@ -424,7 +447,10 @@ export const AdminDashboard = () => {
                       <p className="text-xs text-gray-600">{new Date(submission.created_at).toLocaleTimeString()}</p>
                     </td>
                     <td className="p-2">
-                      <Badge variant="default">{submission.extracted_kpis?.length || 0}</Badge>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="default">{submission.extracted_kpi_values.length}</Badge>
+                        <FlaggedEvidenceBadge count={countFlaggedEvidence(submission)} />
+                      </div>
                     </td>
                     <td className="p-2">
                       <Badge 
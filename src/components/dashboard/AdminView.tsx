@@ -9,15 +9,35 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { WordCloudChart } from './charts/WordCloudChart';
 import { KPIChart } from './charts/KPIChart';
 import { SentimentChart } from './charts/SentimentChart';
+import { AspectSentimentChart } from './charts/AspectSentimentChart';
 import { AdminDashboard } from './AdminDashboard';
-import { Users, TrendingUp, MessageSquare, BarChart3, Plus, Edit, Trash2, Target, Lightbulb, PieChart, RefreshCw } from 'lucide-react';
+import { KPIMatchReviewQueue } from './KPIMatchReviewQueue';
+import { KPIAlertsInbox } from './KPIAlertsInbox';
+import { DuplicateReviewQueue } from './DuplicateReviewQueue';
+import { AnalysisHistoryDialog } from './AnalysisHistoryDialog';
+import { PromptTemplatesPanel } from './PromptTemplatesPanel';
+import { AIUsagePanel } from './AIUsagePanel';
+import { MediaRetentionPanel } from './MediaRetentionPanel';
+import { ThemesPanel } from './ThemesPanel';
+import { AssistantPanel } from './AssistantPanel';
+import { ExecutiveReportsPanel } from './ExecutiveReportsPanel';
+import { WebhooksPanel } from './WebhooksPanel';
+import { FlaggedEvidenceBadge } from './EvidenceBadge';
+import { ConfidenceReviewPanel } from './ConfidenceReviewPanel';
+import { ChartConfidenceToggle } from './ChartConfidenceToggle';
+import { Users, TrendingUp, MessageSquare, BarChart3, Plus, Edit, Trash2, Target, Lightbulb, PieChart, RefreshCw, AlertTriangle } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
+import { useConfidenceThresholds } from '@/hooks/useConfidenceThresholds';
+import { useThemes } from '@/hooks/useThemes';
 import type { Json } from '@/integrations/supabase/types';
+import { formatKPIValue, kpiMetricKey, sortKPIValues, type ExtractedKPIValue } from '@/lib/kpis';
+import { countFlaggedEvidence, isFlagged } from '@/lib/evidence';
+import { confirmedInsights, formatConfidence, kpiNeedsConfirmation } from '@/lib/confidence';
+import { weeklySentimentTrend, type AspectSentimentRow } from '@/lib/sentiment';
 
 interface KPIDefinition {
   id: string;
@@ -26,6 +46,7 @@ interface KPIDefinition {
   category?: string;
   target_value?: number;
   unit?: string;
+  synonyms: string[];
   is_active: boolean;
   created_at: string;
 }
@@ -37,8 +58,16 @@ interface UserSubmission {
   status: string;
   sentiment?: string | null;
   key_points?: string[] | null;
-  extracted_kpis?: string[] | null;
+  key_point_confidences?: number[] | null;
+  confirmed_key_points?: string[] | null;
+  sentiment_confidence?: number | null;
+  confirmed_sentiment?: string | null;
+  sentiment_score?: number | null;
+  submission_aspect_sentiments: AspectSentimentRow[];
+  extracted_kpi_values: ExtractedKPIValue[];
   ai_quotes?: string[] | null;
+  quote_evidence?: Json;
+  active_analysis_id?: string | null;
   video_files: Json;
   docx_file?: string | null;
   profiles?: {
@@ -47,6 +76,17 @@ interface UserSubmission {
   } | null;
 }
 
+// Extracted KPI values grouped by metric name and unit across submissions
+interface ExtractedKPISummary {
+  key: string;
+  name: string;
+  unit: string | null;
+  count: number;
+  submissions: string[];
+  userBreakdown: Record<string, number>;
+  values: ExtractedKPIValue[];
+}
+
 interface UserProfile {
   id: string;
   name: string;
@@ -76,14 +116,17 @@ export const AdminView = () => {
   const [kpis, setKpis] = useState<KPIDefinition[]>([]);
   const [submissions, setSubmissions] = useState<UserSubmission[]>([]);
   const [users, setUsers] = useState<UserProfile[]>([]);
-  const [extractedKPIs, setExtractedKPIs] = useState<{kpi: string, count: number, submissions: string[], userBreakdown: Record<string, number>}[]>([]);
+  const [extractedKPIs, setExtractedKPIs] = useState<ExtractedKPISummary[]>([]);
   const [loading, setLoading] = useState(true);
   const [isKPIDialogOpen, setIsKPIDialogOpen] = useState(false);
   const [editingKPI, setEditingKPI] = useState<KPIDefinition | null>(null);
   const [selectedUser, setSelectedUser] = useState<string>('all');
   const [userColors, setUserColors] = useState<Record<string, string>>({});
+  const [confirmedOnly, setConfirmedOnly] = useState(true);
   const { toast } = useToast();
   const { user } = useAuth();
+  const { thresholds, refetchThresholds } = useConfidenceThresholds();
+  const { themes } = useThemes();
 
   // KPI form state
   const [kpiForm, setKpiForm] = useState({
@@ -91,7 +134,8 @@ export const AdminView = () => {
     description: '',
     category: '',
     target_value: '',
-    unit: ''
+    unit: '',
+    synonyms: ''
   });
 
   useEffect(() => {
@@ -188,7 +232,7 @@ export const AdminView = () => {
     // Now fetch submissions
     const { data: submissionsData, error: submissionsError } = await supabase
       .from('submissions')
-      .select('*')
+      .select('*, extracted_kpi_values(*), submission_aspect_sentiments(*)')
       .order('created_at', { ascending: false });
 
     if (submissionsError) {
@@ -206,8 +250,16 @@ export const AdminView = () => {
         status: submission.status,
         sentiment: submission.sentiment,
         key_points: submission.key_points,
-        extracted_kpis: submission.extracted_kpis,
+        key_point_confidences: submission.key_point_confidences,
+        confirmed_key_points: submission.confirmed_key_points,
+        sentiment_confidence: submission.sentiment_confidence,
+        confirmed_sentiment: submission.confirmed_sentiment,
+        sentiment_score: submission.sentiment_score,
+        submission_aspect_sentiments: submission.submission_aspect_sentiments,
+        extracted_kpi_values: sortKPIValues(submission.extracted_kpi_values),
         ai_quotes: submission.ai_quotes,
+        quote_evidence: submission.quote_evidence,
+        active_analysis_id: submission.active_analysis_id,
         video_files: submission.video_files,
         docx_file: submission.docx_file,
         profiles: userProfile ? {
@@ -220,37 +272,38 @@ export const AdminView = () => {
     setSubmissions(typedSubmissions);
     
     // Process extracted KPIs with enhanced integration and user breakdown
-    const kpiMap = new Map<string, {count: number, submissions: string[], userBreakdown: Record<string, number>}>();
+    const kpiMap = new Map<string, ExtractedKPISummary>();
     
     typedSubmissions.forEach((submission: UserSubmission) => {
-      if (submission.extracted_kpis && submission.status === 'completed') {
+      if (submission.status === 'completed') {
         const userEmail = submission.profiles?.email || 'Unknown User';
-        submission.extracted_kpis.forEach((kpi: string) => {
-          // Clean and normalize KPI names for better matching
-          const cleanKpi = kpi.trim();
-          if (kpiMap.has(cleanKpi)) {
-            const existing = kpiMap.get(cleanKpi)!;
+        submission.extracted_kpi_values.forEach(kpi => {
+          // Group by normalized metric name and unit so values stay comparable
+          const key = `${kpiMetricKey(kpi.metric_name)}|${kpi.unit || ''}`;
+          const existing = kpiMap.get(key);
+          if (existing) {
             existing.count += 1;
-            existing.submissions.push(submission.id);
+            if (!existing.submissions.includes(submission.id)) {
+              existing.submissions.push(submission.id);
+            }
             existing.userBreakdown[userEmail] = (existing.userBreakdown[userEmail] || 0) + 1;
+            existing.values.push(kpi);
           } else {
-            kpiMap.set(cleanKpi, { 
+            kpiMap.set(key, { 
+              key,
+              name: kpi.metric_name,
+              unit: kpi.unit,
               count: 1, 
               submissions: [submission.id],
-              userBreakdown: { [userEmail]: 1 }
+              userBreakdown: { [userEmail]: 1 },
+              values: [kpi]
             });
           }
         });
       }
     });
 
-    const extractedKPIArray = Array.from(kpiMap.entries())
-      .map(([kpi, data]) => ({ 
-        kpi, 
-        count: data.count, 
-        submissions: data.submissions,
-        userBreakdown: data.userBreakdown
-      }))
+    const extractedKPIArray = Array.from(kpiMap.values())
       .sort((a, b) => b.count - a.count);
 
     setExtractedKPIs(extractedKPIArray);
@@ -270,6 +323,10 @@ export const AdminView = () => {
     setUsers(data || []);
   };
 
+  // Synonyms are entered as a comma-separated list
+  const parseSynonyms = (value: string) =>
+    value.split(',').map(synonym => synonym.trim()).filter(Boolean);
+
   const handleCreateKPI = async () => {
     if (!kpiForm.name.trim()) {
       toast({
@@ -289,6 +346,7 @@ export const AdminView = () => {
           category: kpiForm.category || null,
           target_value: kpiForm.target_value ? parseFloat(kpiForm.target_value) : null,
           unit: kpiForm.unit || null,
+          synonyms: parseSynonyms(kpiForm.synonyms),
           created_by: user!.id
         });
 
@@ -299,7 +357,7 @@ export const AdminView = () => {
         description: "The KPI has been successfully created.",
       });
 
-      setKpiForm({ name: '', description: '', category: '', target_value: '', unit: '' });
+      setKpiForm({ name: '', description: '', category: '', target_value: '', unit: '', synonyms: '' });
       setIsKPIDialogOpen(false);
       fetchKPIs();
     } catch (error) {
@@ -312,31 +370,16 @@ export const AdminView = () => {
     }
   };
 
-  const handleCreateKPIFromExtracted = async (extractedKPI: string) => {
-    // Parse the extracted KPI to separate name, value, and unit
-    const parts = extractedKPI.split(':');
-    let name = extractedKPI;
-    let value = '';
-    let unit = '';
-
-    if (parts.length === 2) {
-      name = parts[0].trim();
-      const valueWithUnit = parts[1].trim();
-      
-      // Try to extract numeric value and unit
-      const match = valueWithUnit.match(/^([\d.,]+)\s*(.*)$/);
-      if (match) {
-        value = match[1];
-        unit = match[2] || '';
-      }
-    }
+  const handleCreateKPIFromExtracted = async (extractedKPI: ExtractedKPISummary) => {
+    const example = extractedKPI.values[0];
 
     setKpiForm({
-      name,
-      description: `Extracted from user submissions: ${extractedKPI}`,
+      name: extractedKPI.name,
+      description: `Extracted from user submissions: ${extractedKPI.name}: ${formatKPIValue(example)}`,
       category: 'User Generated',
-      target_value: value,
-      unit
+      target_value: example.value?.toString() || '',
+      unit: example.currency || extractedKPI.unit || '',
+      synonyms: ''
     });
     setEditingKPI(null);
     setIsKPIDialogOpen(true);
@@ -353,7 +396,8 @@ export const AdminView = () => {
           description: kpiForm.description || null,
           category: kpiForm.category || null,
           target_value: kpiForm.target_value ? parseFloat(kpiForm.target_value) : null,
-          unit: kpiForm.unit || null
+          unit: kpiForm.unit || null,
+          synonyms: parseSynonyms(kpiForm.synonyms)
         })
         .eq('id', editingKPI.id);
 
@@ -365,7 +409,7 @@ export const AdminView = () => {
       });
 
       setEditingKPI(null);
-      setKpiForm({ name: '', description: '', category: '', target_value: '', unit: '' });
+      setKpiForm({ name: '', description: '', category: '', target_value: '', unit: '', synonyms: '' });
       setIsKPIDialogOpen(false);
       fetchKPIs();
     } catch (error) {
@@ -411,11 +455,12 @@ export const AdminView = () => {
         description: kpi.description || '',
         category: kpi.category || '',
         target_value: kpi.target_value?.toString() || '',
-        unit: kpi.unit || ''
+        unit: kpi.unit || '',
+        synonyms: (kpi.synonyms || []).join(', ')
       });
     } else {
       setEditingKPI(null);
-      setKpiForm({ name: '', description: '', category: '', target_value: '', unit: '' });
+      setKpiForm({ name: '', description: '', category: '', target_value: '', unit: '', synonyms: '' });
     }
     setIsKPIDialogOpen(true);
   };
@@ -439,22 +484,29 @@ export const AdminView = () => {
   const completedSubmissions = filteredSubmissions.filter(s => s.status === 'completed');
   const positiveSubmissions = completedSubmissions.filter(s => s.sentiment === 'positive');
 
+  // Low-confidence items stay out of the charts until confirmed, unless "All" is selected
+  const chartSubmissions = confirmedOnly
+    ? completedSubmissions.map(submission => confirmedInsights(submission, thresholds))
+    : completedSubmissions;
+  const chartPositiveSubmissions = chartSubmissions.filter(s => s.sentiment === 'positive');
+
   // Generate analytics data with integrated KPIs from dashboard with user colors
-  const kpiMentions = completedSubmissions.reduce((acc: Record<string, {count: number, userBreakdown: Record<string, number>}>, submission) => {
+  const kpiMentions = chartSubmissions.reduce((acc: Record<string, {name: string, count: number, userBreakdown: Record<string, number>}>, submission) => {
     const userEmail = submission.profiles?.email || 'Unknown User';
-    (submission.extracted_kpis || []).forEach(kpi => {
-      if (!acc[kpi]) {
-        acc[kpi] = { count: 0, userBreakdown: {} };
+    submission.extracted_kpi_values.forEach(kpi => {
+      const key = kpiMetricKey(kpi.metric_name);
+      if (!acc[key]) {
+        acc[key] = { name: kpi.metric_name, count: 0, userBreakdown: {} };
       }
-      acc[kpi].count += 1;
-      acc[kpi].userBreakdown[userEmail] = (acc[kpi].userBreakdown[userEmail] || 0) + 1;
+      acc[key].count += 1;
+      acc[key].userBreakdown[userEmail] = (acc[key].userBreakdown[userEmail] || 0) + 1;
     });
     return acc;
   }, {});
 
-  const topKPIs = Object.entries(kpiMentions)
-    .map(([name, data]) => ({ 
-      name, 
+  const topKPIs = Object.values(kpiMentions)
+    .map(data => ({ 
+      name: data.name, 
       count: data.count,
       userBreakdown: data.userBreakdown
     }))
@@ -465,28 +517,15 @@ export const AdminView = () => {
   const sentimentData = [
     { 
       date: new Date().toISOString(), 
-      positive: completedSubmissions.length > 0 ? Math.round((positiveSubmissions.length / completedSubmissions.length) * 100) : 0,
-      neutral: completedSubmissions.length > 0 ? Math.round((completedSubmissions.filter(s => s.sentiment === 'neutral').length / completedSubmissions.length) * 100) : 0,
-      negative: completedSubmissions.length > 0 ? Math.round((completedSubmissions.filter(s => s.sentiment === 'negative').length / completedSubmissions.length) * 100) : 0
+      positive: chartSubmissions.length > 0 ? Math.round((chartPositiveSubmissions.length / chartSubmissions.length) * 100) : 0,
+      neutral: chartSubmissions.length > 0 ? Math.round((chartSubmissions.filter(s => s.sentiment === 'neutral').length / chartSubmissions.length) * 100) : 0,
+      negative: chartSubmissions.length > 0 ? Math.round((chartSubmissions.filter(s => s.sentiment === 'negative').length / chartSubmissions.length) * 100) : 0
     }
   ];
 
-  // Word cloud data from key points - fix the interface mismatch
-  const wordCloudData = completedSubmissions
-    .flatMap(s => s.key_points || [])
-    .join(' ')
-    .split(' ')
-    .filter(word => word.length > 3)
-    .reduce((acc: Record<string, number>, word) => {
-      const cleanWord = word.toLowerCase().replace(/[^\w]/g, '');
-      acc[cleanWord] = (acc[cleanWord] || 0) + 1;
-      return acc;
-    }, {});
-
-  const topWords = Object.entries(wordCloudData)
-    .map(([word, frequency]) => ({ word, frequency }))
-    .sort((a, b) => b.frequency - a.frequency)
-    .slice(0, 50);
+  const sentimentTrend = weeklySentimentTrend(chartSubmissions);
+
+  const topThemes = themes.slice(0, 8);
 
   if (loading) {
     return (
@@ -566,7 +605,7 @@ export const AdminView = () => {
       </div>
 
       <Tabs defaultValue="dashboard" className="w-full">
-        <TabsList className="grid w-full grid-cols-6">
+        <TabsList className="flex flex-wrap h-auto w-full">
           <TabsTrigger value="dashboard">
             <PieChart className="w-4 h-4 mr-2" />
             Dashboard
@@ -574,8 +613,16 @@ export const AdminView = () => {
           <TabsTrigger value="overview">Enhanced Overview</TabsTrigger>
           <TabsTrigger value="extracted-kpis">AI Extracted KPIs</TabsTrigger>
           <TabsTrigger value="kpi-management">KPI Management</TabsTrigger>
+          <TabsTrigger value="kpi-alerts">KPI Alerts</TabsTrigger>
           <TabsTrigger value="user-performance">User Performance</TabsTrigger>
           <TabsTrigger value="submissions">All Submissions</TabsTrigger>
+          <TabsTrigger value="reports">Executive Reports</TabsTrigger>
+          <TabsTrigger value="prompts">Prompts</TabsTrigger>
+          <TabsTrigger value="themes">Themes</TabsTrigger>
+          <TabsTrigger value="assistant">Assistant</TabsTrigger>
+          <TabsTrigger value="ai-usage">AI Usage</TabsTrigger>
+          <TabsTrigger value="retention">Media Retention</TabsTrigger>
+          <TabsTrigger value="webhooks">Webhooks</TabsTrigger>
         </TabsList>
         
         <TabsContent value="dashboard" className="space-y-6">
@@ -583,6 +630,9 @@ export const AdminView = () => {
         </TabsContent>
         
         <TabsContent value="overview" className="space-y-6">
+          <div className="flex justify-end">
+            <ChartConfidenceToggle confirmedOnly={confirmedOnly} onChange={setConfirmedOnly} />
+          </div>
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             <Card>
               <CardHeader>
@@ -616,17 +666,48 @@ export const AdminView = () => {
             </Card>
           </div>
 
+          <Card>
+            <CardHeader>
+              <CardTitle>Sentiment by Aspect Over Time</CardTitle>
+              <CardDescription>
+                Weekly average sentiment from -1 (very negative) to 1 (very positive), overall and for each aspect discussed in the submissions
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {sentimentTrend.length > 0 ? (
+                <AspectSentimentChart data={sentimentTrend} />
+              ) : (
+                <p className="text-gray-500 text-center py-8">No sentiment scores available yet</p>
+              )}
+            </CardContent>
+          </Card>
+
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             <Card>
               <CardHeader>
-                <CardTitle>Key Insights Word Cloud</CardTitle>
-                <CardDescription>Most mentioned words in key points</CardDescription>
+                <CardTitle>Top Recurring Themes</CardTitle>
+                <CardDescription>Themes raised in the most submissions; see the Themes tab for trends and quotes</CardDescription>
               </CardHeader>
               <CardContent>
-                {topWords.length > 0 ? (
-                  <WordCloudChart data={topWords} />
+                {topThemes.length > 0 ? (
+                  <div className="space-y-3">
+                    {topThemes.map(theme => (
+                      <div key={theme.id} className="space-y-1">
+                        <div className="flex items-center justify-between text-sm">
+                          <span className="font-medium">{theme.label}</span>
+                          <span className="text-gray-500">{theme.submission_count} submissions</span>
+                        </div>
+                        <div className="h-2 rounded bg-gray-100">
+                          <div
+                            className="h-2 rounded bg-blue-500"
+                            style={{ width: `${(theme.submission_count / topThemes[0].submission_count) * 100}%` }}
+                          />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
                 ) : (
-                  <p className="text-gray-500 text-center py-8">No word data available yet</p>
+                  <p className="text-gray-500 text-center py-8">No themes available yet</p>
                 )}
               </CardContent>
             </Card>
@@ -649,7 +730,7 @@ export const AdminView = () => {
                       </div>
                       <p className="text-xs text-gray-500">{new Date(submission.created_at).toLocaleDateString()}</p>
                       <p className="text-sm text-gray-700 mt-1">
-                        {submission.key_points?.length || 0} insights • {submission.extracted_kpis?.length || 0} KPIs
+                        {submission.key_points?.length || 0} insights • {submission.extracted_kpi_values.length} KPIs
                       </p>
                       {submission.sentiment && (
                         <Badge className={`text-xs mt-1 ${getSentimentColor(submission.sentiment)}`}>
@@ -668,6 +749,12 @@ export const AdminView = () => {
         </TabsContent>
 
         <TabsContent value="extracted-kpis" className="space-y-6">
+          <ConfidenceReviewPanel
+            submissions={submissions}
+            thresholds={thresholds}
+            onThresholdsSaved={refetchThresholds}
+            onConfirmed={fetchSubmissions}
+          />
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
@@ -694,14 +781,34 @@ export const AdminView = () => {
                 </div>
               ) : (
                 <div className="space-y-4">
-                  {extractedKPIs.map((item, index) => (
-                    <div key={index} className="border rounded-lg p-4 hover:bg-gray-50 transition-colors">
+                  {extractedKPIs.map((item) => (
+                    <div key={item.key} className="border rounded-lg p-4 hover:bg-gray-50 transition-colors">
                       <div className="flex items-center justify-between">
                         <div className="flex-1">
-                          <h3 className="font-medium text-gray-900">{item.kpi}</h3>
+                          <h3 className="font-medium text-gray-900">
+                            {item.name}
+                            {item.unit && <span className="ml-2 text-sm font-normal text-gray-500">({item.unit})</span>}
+                          </h3>
                           <p className="text-sm text-gray-600 mt-1">
                             Mentioned {item.count} time{item.count > 1 ? 's' : ''} across {item.submissions.length} submission{item.submissions.length > 1 ? 's' : ''}
                           </p>
+                          <div className="flex flex-wrap gap-1 mt-2">
+                            {item.values.slice(0, 5).map(value => (
+                              <Badge
+                                key={value.id}
+                                variant="outline"
+                                className={`text-xs ${isFlagged(value) ? 'border-amber-300 bg-amber-50 text-amber-800' : ''} ${kpiNeedsConfirmation(value, thresholds) ? 'border-dashed text-gray-500' : ''}`}
+                                title={[value.quote, ...value.verification_issues].filter(Boolean).join('\n') || undefined}
+                              >
+                                {isFlagged(value) && <AlertTriangle className="w-3 h-3 mr-1" />}
+                                {formatKPIValue(value)}{value.period ? ` · ${value.period}` : ''}
+                                {value.confidence !== null && ` · ${formatConfidence(value.confidence)}`}
+                              </Badge>
+                            ))}
+                            {item.values.length > 5 && (
+                              <span className="text-xs text-gray-500">+{item.values.length - 5} more</span>
+                            )}
+                          </div>
                           <div className="flex flex-wrap gap-2 mt-2">
                             {Object.entries(item.userBreakdown).map(([userEmail, count]) => {
                               const user = users.find(u => u.email === userEmail);
@@ -724,7 +831,7 @@ export const AdminView = () => {
                           <Badge variant="secondary">{item.count}x</Badge>
                           <Button
                             size="sm"
-                            onClick={() => handleCreateKPIFromExtracted(item.kpi)}
+                            onClick={() => handleCreateKPIFromExtracted(item)}
                             className="bg-green-600 hover:bg-green-700"
                           >
                             <Target className="w-3 h-3 mr-1" />
@@ -796,6 +903,18 @@ export const AdminView = () => {
                       />
                     </div>
                   </div>
+                  <div>
+                    <Label htmlFor="kpi-synonyms">Synonyms</Label>
+                    <Input
+                      id="kpi-synonyms"
+                      value={kpiForm.synonyms}
+                      onChange={(e) => setKpiForm({ ...kpiForm, synonyms: e.target.value })}
+                      placeholder="e.g., CSAT, Customer Happiness"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Comma-separated names used when matching metrics extracted from submissions
+                    </p>
+                  </div>
                   <div>
                     <Label htmlFor="kpi-target">Target Value</Label>
                     <Input
@@ -840,6 +959,9 @@ export const AdminView = () => {
                           {kpi.description && (
                             <p className="text-sm text-gray-600">{kpi.description}</p>
                           )}
+                          {kpi.synonyms?.length > 0 && (
+                            <p className="text-xs text-gray-500">Also matches: {kpi.synonyms.join(', ')}</p>
+                          )}
                         </div>
                       </TableCell>
                       <TableCell>{kpi.category || '-'}</TableCell>
@@ -882,8 +1004,14 @@ export const AdminView = () => {
               )}
             </CardContent>
           </Card>
+
+          <KPIMatchReviewQueue kpis={kpis} users={users} />
         </TabsContent>
         
+        <TabsContent value="kpi-alerts" className="space-y-6">
+          <KPIAlertsInbox users={users} />
+        </TabsContent>
+
         <TabsContent value="user-performance" className="space-y-6">
           <div className="flex items-center gap-4">
             <Label>Filter by user:</Label>
@@ -923,7 +1051,7 @@ export const AdminView = () => {
               <CardContent className="p-6">
                 <div className="text-center">
                   <p className="text-2xl font-bold">
-                    {filteredSubmissions.reduce((sum, s) => sum + (s.extracted_kpis?.length || 0), 0)}
+                    {filteredSubmissions.reduce((sum, s) => sum + s.extracted_kpi_values.length, 0)}
                   </p>
                   <p className="text-sm text-gray-600">Total KPIs</p>
                 </div>
@@ -945,6 +1073,8 @@ export const AdminView = () => {
         </TabsContent>
         
         <TabsContent value="submissions" className="space-y-6">
+          <DuplicateReviewQueue users={users} onResolved={fetchSubmissions} />
+
           <Card>
             <CardHeader>
               <CardTitle>All User Submissions</CardTitle>
@@ -960,6 +1090,7 @@ export const AdminView = () => {
                     <TableHead>Sentiment</TableHead>
                     <TableHead>Key Points</TableHead>
                     <TableHead>KPIs</TableHead>
+                    <TableHead>History</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -991,7 +1122,19 @@ export const AdminView = () => {
                         ) : '-'}
                       </TableCell>
                       <TableCell>{submission.key_points?.length || 0}</TableCell>
-                      <TableCell>{submission.extracted_kpis?.length || 0}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          {submission.extracted_kpi_values.length}
+                          <FlaggedEvidenceBadge count={countFlaggedEvidence(submission)} />
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <AnalysisHistoryDialog
+                          submissionId={submission.id}
+                          activeAnalysisId={submission.active_analysis_id}
+                          userName={submission.profiles?.name || submission.profiles?.email || 'Unknown User'}
+                        />
+                      </TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
@@ -1004,6 +1147,34 @@ export const AdminView = () => {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="reports" className="space-y-6">
+          <ExecutiveReportsPanel />
+        </TabsContent>
+
+        <TabsContent value="prompts" className="space-y-6">
+          <PromptTemplatesPanel users={users} />
+        </TabsContent>
+
+        <TabsContent value="themes" className="space-y-6">
+          <ThemesPanel users={users} />
+        </TabsContent>
+
+        <TabsContent value="assistant" className="space-y-6">
+          <AssistantPanel />
+        </TabsContent>
+
+        <TabsContent value="ai-usage" className="space-y-6">
+          <AIUsagePanel users={users} />
+        </TabsContent>
+
+        <TabsContent value="retention" className="space-y-6">
+          <MediaRetentionPanel users={users} />
+        </TabsContent>
+
+        <TabsContent value="webhooks" className="space-y-6">
+          <WebhooksPanel />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -0,0 +1,272 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowRight, History, RotateCcw } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { formatKPIValue } from '@/lib/kpis';
+import {
+  ANALYSIS_TRIGGER_LABELS,
+  diffAnalyses,
+  parseAnalysisKPIs,
+  type ListDiff,
+  type SubmissionAnalysis,
+} from '@/lib/analyses';
+
+interface AnalysisHistoryDialogProps {
+  submissionId: string;
+  activeAnalysisId: string | null | undefined;
+  userName: string;
+  onRolledBack?: () => void;
+}
+
+const versionLabel = (analysis: SubmissionAnalysis) =>
+  `v${analysis.version} · ${new Date(analysis.created_at).toLocaleString()}`;
+
+const ListDiffSection = ({ title, diff }: { title: string; diff: ListDiff }) => (
+  <div className="space-y-1">
+    <h4 className="text-sm font-medium">
+      {title}
+      <span className="ml-2 text-xs font-normal text-gray-500">
+        +{diff.added.length} −{diff.removed.length} · {diff.unchanged.length} unchanged
+      </span>
+    </h4>
+    {diff.added.length === 0 && diff.removed.length === 0 ? (
+      <p className="text-xs text-gray-500">No changes</p>
+    ) : (
+      <ul className="space-y-1 text-sm">
+        {diff.removed.map((item, index) => (
+          <li key={`removed-${index}`} className="rounded bg-red-50 px-2 py-1 text-red-800">− {item}</li>
+        ))}
+        {diff.added.map((item, index) => (
+          <li key={`added-${index}`} className="rounded bg-green-50 px-2 py-1 text-green-800">+ {item}</li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+export const AnalysisHistoryDialog = ({ submissionId, activeAnalysisId, userName, onRolledBack }: AnalysisHistoryDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [analyses, setAnalyses] = useState<SubmissionAnalysis[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null);
+  const [activeId, setActiveId] = useState(activeAnalysisId || null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setActiveId(activeAnalysisId || null);
+  }, [activeAnalysisId]);
+
+  const fetchAnalyses = useCallback(async () => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from('submission_analyses')
+      .select('*')
+      .eq('submission_id', submissionId)
+      .order('version', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching analysis history:', error);
+    } else {
+      const history = data || [];
+      setAnalyses(history);
+      // Compare the active run with the valid one before it by default
+      const valid = history.filter(analysis => analysis.status === 'valid');
+      const active = valid.find(analysis => analysis.id === activeAnalysisId) || valid[0];
+      const previous = valid.find(analysis => active && analysis.version < active.version);
+      setCompareId(active?.id || null);
+      setBaseId(previous?.id || null);
+    }
+    setLoading(false);
+  }, [submissionId, activeAnalysisId]);
+
+  useEffect(() => {
+    if (open) fetchAnalyses();
+  }, [open, fetchAnalyses]);
+
+  // Invalid runs have no insights to compare or restore
+  const validAnalyses = useMemo(() => analyses.filter(analysis => analysis.status === 'valid'), [analyses]);
+  const base = analyses.find(analysis => analysis.id === baseId);
+  const compare = analyses.find(analysis => analysis.id === compareId);
+  const diff = useMemo(() => (base && compare ? diffAnalyses(base, compare) : null), [base, compare]);
+
+  const handleRollback = async (analysis: SubmissionAnalysis) => {
+    setRollingBackId(analysis.id);
+    try {
+      const { data, error } = await supabase.functions.invoke('rollback-analysis', {
+        body: { submissionId, analysisId: analysis.id }
+      });
+
+      if (error) throw error;
+
+      setActiveId(analysis.id);
+      toast({
+        title: "Analysis restored",
+        description: data?.message || `Version ${analysis.version} is now the active analysis.`,
+      });
+      onRolledBack?.();
+    } catch (error) {
+      console.error('Error rolling back analysis:', error);
+      toast({
+        title: "Rollback failed",
+        description: "Failed to restore this analysis. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setRollingBackId(null);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="ghost" size="sm" onClick={() => setOpen(true)} title="Analysis history">
+        <History className="w-4 h-4" />
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Analysis History</DialogTitle>
+            <DialogDescription>
+              Every analysis run for {userName}'s submission. Compare two runs or restore an earlier one.
+            </DialogDescription>
+          </DialogHeader>
+
+          {loading ? (
+            <div className="text-center py-8 text-gray-500">Loading analysis history...</div>
+          ) : analyses.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">No analysis runs recorded for this submission.</div>
+          ) : (
+            <div className="space-y-6">
+              <div className="space-y-2">
+                {analyses.map((analysis) => {
+                  const isActive = analysis.id === activeId;
+                  const isInvalid = analysis.status === 'invalid';
+                  return (
+                    <div key={analysis.id} className="flex items-center gap-3 rounded-lg border p-3">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">Version {analysis.version}</span>
+                          {isActive && <Badge>Active</Badge>}
+                          <Badge variant="outline">{ANALYSIS_TRIGGER_LABELS[analysis.trigger] || analysis.trigger}</Badge>
+                          {isInvalid && <Badge variant="destructive">Failed validation</Badge>}
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {new Date(analysis.created_at).toLocaleString()}
+                          {analysis.model && ` · ${analysis.provider ? `${analysis.provider}/` : ''}${analysis.model}`}
+                          {analysis.prompt_version && ` · prompt ${analysis.prompt_version}`}
+                        </p>
+                        {isInvalid ? (
+                          <ul className="mt-1 space-y-0.5 text-xs text-red-700">
+                            {analysis.validation_errors.map((error, index) => (
+                              <li key={index}>{error}</li>
+                            ))}
+                          </ul>
+                        ) : (
+                          <p className="text-xs text-gray-600 mt-1">
+                            {analysis.key_points.length} key points · {parseAnalysisKPIs(analysis.extracted_kpis).length} KPIs · {analysis.ai_quotes.length} quotes · {analysis.sentiment || 'no'} sentiment
+                            {analysis.repair_attempts > 0 && ` · repaired after ${analysis.repair_attempts} attempt(s)`}
+                          </p>
+                        )}
+                      </div>
+                      {!isActive && !isInvalid && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleRollback(analysis)}
+                          disabled={rollingBackId !== null}
+                        >
+                          <RotateCcw className="w-3 h-3 mr-1" />
+                          {rollingBackId === analysis.id ? 'Restoring...' : 'Roll back'}
+                        </Button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+
+              {validAnalyses.length > 1 && (
+                <div className="space-y-4">
+                  <div className="flex items-center gap-2">
+                    <Select value={baseId || undefined} onValueChange={setBaseId}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose a version" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {validAnalyses.map((analysis) => (
+                          <SelectItem key={analysis.id} value={analysis.id}>{versionLabel(analysis)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <ArrowRight className="w-4 h-4 shrink-0 text-gray-400" />
+                    <Select value={compareId || undefined} onValueChange={setCompareId}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose a version" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {validAnalyses.map((analysis) => (
+                          <SelectItem key={analysis.id} value={analysis.id}>{versionLabel(analysis)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {diff && (
+                    <div className="space-y-4">
+                      <div className="space-y-1">
+                        <h4 className="text-sm font-medium">Sentiment</h4>
+                        <p className="text-sm">
+                          {diff.sentiment
+                            ? <>{diff.sentiment.before || 'none'} <ArrowRight className="inline w-3 h-3" /> {diff.sentiment.after || 'none'}</>
+                            : <span className="text-xs text-gray-500">No changes</span>}
+                        </p>
+                      </div>
+
+                      <div className="space-y-1">
+                        <h4 className="text-sm font-medium">
+                          KPIs
+                          <span className="ml-2 text-xs font-normal text-gray-500">
+                            +{diff.kpis.added.length} −{diff.kpis.removed.length} ~{diff.kpis.changed.length} · {diff.kpis.unchanged.length} unchanged
+                          </span>
+                        </h4>
+                        {diff.kpis.added.length + diff.kpis.removed.length + diff.kpis.changed.length === 0 ? (
+                          <p className="text-xs text-gray-500">No changes</p>
+                        ) : (
+                          <ul className="space-y-1 text-sm">
+                            {diff.kpis.removed.map((kpi, index) => (
+                              <li key={`removed-${index}`} className="rounded bg-red-50 px-2 py-1 text-red-800">
+                                − {kpi.metric_name}: {formatKPIValue(kpi)}
+                              </li>
+                            ))}
+                            {diff.kpis.changed.map((change, index) => (
+                              <li key={`changed-${index}`} className="rounded bg-amber-50 px-2 py-1 text-amber-900">
+                                ~ {change.name}: {formatKPIValue(change.before)} <ArrowRight className="inline w-3 h-3" /> {formatKPIValue(change.after)}
+                              </li>
+                            ))}
+                            {diff.kpis.added.map((kpi, index) => (
+                              <li key={`added-${index}`} className="rounded bg-green-50 px-2 py-1 text-green-800">
+                                + {kpi.metric_name}: {formatKPIValue(kpi)}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+
+                      <ListDiffSection title="Key Points" diff={diff.keyPoints} />
+                      <ListDiffSection title="Quotes" diff={diff.quotes} />
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,266 @@
+import { useState, useEffect, type FormEvent } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { Bot, MessageSquarePlus, Send, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useAssistantConversations } from '@/hooks/useAssistantConversations';
+import { formatTimestamp } from '@/lib/transcript';
+import { SEARCH_SOURCE_LABELS, submissionLinkFor } from '@/lib/search';
+import { answerParts, parseAssistantMessage, type AssistantConversation, type AssistantMessage, type Citation } from '@/lib/assistant';
+
+const EXAMPLE_QUESTION = 'What blockers did the cloud team mention in the last month?';
+
+const AnswerText = ({ message }: { message: AssistantMessage }) => {
+  const citations = new Map(message.citations.map(citation => [citation.ref, citation]));
+  return (
+    <p className="text-sm whitespace-pre-line">
+      {answerParts(message.content).map((part, index) => {
+        const citation = part.ref !== null ? citations.get(part.ref) : undefined;
+        return citation ? (
+          <Link
+            key={index}
+            to={submissionLinkFor(citation)}
+            title={citation.content}
+            className="align-super text-[10px] font-medium text-blue-600 hover:underline"
+          >
+            {part.text}
+          </Link>
+        ) : part.text;
+      })}
+    </p>
+  );
+};
+
+const SourceList = ({ citations }: { citations: Citation[] }) => (
+  <div className="mt-3 space-y-1 border-t border-gray-200 pt-2">
+    <p className="text-xs font-medium text-gray-500">Sources</p>
+    {citations.map(citation => (
+      <Link
+        key={citation.ref}
+        to={submissionLinkFor(citation)}
+        className="block rounded px-1 py-0.5 text-xs text-gray-600 hover:bg-white"
+      >
+        <span className="font-medium text-blue-600">[{citation.ref}]</span>{' '}
+        {citation.user_name || 'Unknown User'} · {new Date(citation.submitted_at).toLocaleDateString()} · {SEARCH_SOURCE_LABELS[citation.source_type]}
+        {citation.start_seconds !== null && ` · ${formatTimestamp(citation.start_seconds)}`}
+        <span className="block truncate text-gray-500">{citation.content}</span>
+      </Link>
+    ))}
+  </div>
+);
+
+export const AssistantPanel = () => {
+  const { conversations, loading, refetchConversations } = useAssistantConversations();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<AssistantMessage[]>([]);
+  const [question, setQuestion] = useState('');
+  const [pendingQuestion, setPendingQuestion] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState<AssistantConversation | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!selectedId) {
+      setMessages([]);
+      return;
+    }
+
+    const fetchMessages = async () => {
+      const { data, error } = await supabase
+        .from('assistant_messages')
+        .select('*')
+        .eq('conversation_id', selectedId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching assistant messages:', error);
+        return;
+      }
+      setMessages((data || []).map(parseAssistantMessage));
+    };
+
+    fetchMessages();
+  }, [selectedId]);
+
+  const handleAsk = async (event: FormEvent) => {
+    event.preventDefault();
+    const asked = question.trim();
+    if (!asked) return;
+
+    setPendingQuestion(asked);
+    setQuestion('');
+    try {
+      const { data, error } = await supabase.functions.invoke('ask-assistant', {
+        body: { question: asked, conversationId: selectedId },
+      });
+      if (error) throw error;
+
+      setMessages(previous => [...previous, ...(data.messages || []).map(parseAssistantMessage)]);
+      if (data.conversationId !== selectedId) {
+        setSelectedId(data.conversationId);
+      }
+      refetchConversations();
+    } catch (error) {
+      console.error('Error asking the assistant:', error);
+      setQuestion(asked);
+      toast({
+        title: "The assistant could not answer",
+        description: "Failed to get an answer. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setPendingQuestion(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    const { error } = await supabase
+      .from('assistant_conversations')
+      .delete()
+      .eq('id', deleting.id);
+
+    if (error) {
+      console.error('Error deleting assistant conversation:', error);
+      toast({
+        title: "Delete failed",
+        description: "Failed to delete the conversation. Please try again.",
+        variant: "destructive"
+      });
+    } else {
+      if (deleting.id === selectedId) setSelectedId(null);
+      refetchConversations();
+    }
+    setDeleting(null);
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-[280px_1fr] gap-6">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-base">Conversations</CardTitle>
+          <Button variant="outline" size="sm" onClick={() => setSelectedId(null)} disabled={!!pendingQuestion}>
+            <MessageSquarePlus className="w-4 h-4 mr-1" />
+            New
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-1">
+          {loading ? (
+            <p className="text-sm text-gray-500">Loading conversations...</p>
+          ) : conversations.length === 0 ? (
+            <p className="text-sm text-gray-500">No saved conversations yet</p>
+          ) : conversations.map(conversation => (
+            <div
+              key={conversation.id}
+              className={`group flex items-center gap-1 rounded-md px-2 py-1.5 ${
+                conversation.id === selectedId ? 'bg-blue-50 text-blue-900' : 'hover:bg-gray-50'
+              }`}
+            >
+              <button
+                type="button"
+                className="flex-1 min-w-0 text-left"
+                onClick={() => setSelectedId(conversation.id)}
+                disabled={!!pendingQuestion}
+              >
+                <p className="text-sm truncate">{conversation.title}</p>
+                <p className="text-xs text-gray-500">{new Date(conversation.updated_at).toLocaleString()}</p>
+              </button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0 text-gray-400 hover:text-red-600"
+                onClick={() => setDeleting(conversation)}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Bot className="w-5 h-5" />
+            Ask Your Data
+          </CardTitle>
+          <CardDescription>
+            Answers are written from the transcripts, key points and KPIs of all submissions; every claim links to the submission it comes from.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-3">
+            {messages.length === 0 && !pendingQuestion && (
+              <p className="text-sm text-gray-500 text-center py-8">
+                Ask a question such as "{EXAMPLE_QUESTION}"
+              </p>
+            )}
+            {messages.map(message => (
+              <div
+                key={message.id}
+                className={message.role === 'user'
+                  ? 'ml-auto max-w-[80%] rounded-lg bg-blue-600 px-3 py-2 text-sm text-white'
+                  : 'max-w-[90%] rounded-lg bg-gray-50 px-3 py-2'}
+              >
+                {message.role === 'user' ? message.content : (
+                  <>
+                    <AnswerText message={message} />
+                    {message.citations.length > 0 && <SourceList citations={message.citations} />}
+                  </>
+                )}
+              </div>
+            ))}
+            {pendingQuestion && (
+              <>
+                <div className="ml-auto max-w-[80%] rounded-lg bg-blue-600 px-3 py-2 text-sm text-white">
+                  {pendingQuestion}
+                </div>
+                <div className="max-w-[90%] rounded-lg bg-gray-50 px-3 py-2 text-sm text-gray-500">
+                  Searching the submissions...
+                </div>
+              </>
+            )}
+          </div>
+
+          <form onSubmit={handleAsk} className="flex gap-2">
+            <Textarea
+              value={question}
+              onChange={(e) => setQuestion(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) handleAsk(e);
+              }}
+              placeholder={EXAMPLE_QUESTION}
+              maxLength={1000}
+              rows={2}
+              disabled={!!pendingQuestion}
+            />
+            <Button type="submit" disabled={!!pendingQuestion || !question.trim()}>
+              <Send className="w-4 h-4" />
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Conversation</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete <strong>{deleting?.title}</strong> and all of its answers? This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+              Delete Conversation
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
@@ -0,0 +1,20 @@
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+
+interface ChartConfidenceToggleProps {
+  confirmedOnly: boolean;
+  onChange: (confirmedOnly: boolean) => void;
+}
+
+// Switches aggregate charts between confirmed items only and everything the AI extracted
+export const ChartConfidenceToggle = ({ confirmedOnly, onChange }: ChartConfidenceToggleProps) => (
+  <ToggleGroup
+    type="single"
+    size="sm"
+    variant="outline"
+    value={confirmedOnly ? 'confirmed' : 'all'}
+    onValueChange={(value) => value && onChange(value === 'confirmed')}
+  >
+    <ToggleGroupItem value="confirmed" title="Hide low-confidence items no admin has confirmed">Confirmed only</ToggleGroupItem>
+    <ToggleGroupItem value="all">All</ToggleGroupItem>
+  </ToggleGroup>
+);
@@ -0,0 +1,235 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CheckCircle, Gauge, Save } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { formatKPI } from '@/lib/kpis';
+import {
+  formatConfidence,
+  INSIGHT_TYPE_LABELS,
+  keyPointNeedsConfirmation,
+  kpiNeedsConfirmation,
+  sentimentNeedsConfirmation,
+  type ConfidenceThresholds,
+  type InsightType,
+  type ScoredSubmission,
+} from '@/lib/confidence';
+
+interface ReviewSubmission extends ScoredSubmission {
+  id: string;
+  created_at: string;
+  status: string;
+  profiles?: {
+    name: string;
+    email: string;
+  } | null;
+}
+
+interface ConfidenceReviewPanelProps {
+  submissions: ReviewSubmission[];
+  thresholds: ConfidenceThresholds;
+  onThresholdsSaved: () => void;
+  onConfirmed: () => void;
+}
+
+interface ReviewItem {
+  key: string;
+  submission: ReviewSubmission;
+  type: InsightType;
+  // KPI value id or key point text passed to confirm_insight
+  item: string | null;
+  label: string;
+  confidence: number;
+}
+
+// Longest queue shown at once; confirming items brings the next ones up
+const MAX_REVIEW_ITEMS = 50;
+
+const INSIGHT_TYPES: InsightType[] = ['kpi', 'key_point', 'sentiment'];
+
+const collectReviewItems = (submissions: ReviewSubmission[], thresholds: ConfidenceThresholds): ReviewItem[] =>
+  submissions
+    .filter(submission => submission.status === 'completed')
+    .flatMap(submission => {
+      const items: ReviewItem[] = [];
+      submission.extracted_kpi_values.forEach(kpi => {
+        if (kpiNeedsConfirmation(kpi, thresholds)) {
+          items.push({ key: kpi.id, submission, type: 'kpi', item: kpi.id, label: formatKPI(kpi), confidence: kpi.confidence! });
+        }
+      });
+      (submission.key_points || []).forEach((keyPoint, index) => {
+        if (keyPointNeedsConfirmation(submission, index, thresholds)) {
+          items.push({
+            key: `${submission.id}-key-point-${index}`,
+            submission,
+            type: 'key_point',
+            item: keyPoint,
+            label: keyPoint,
+            confidence: submission.key_point_confidences![index]!,
+          });
+        }
+      });
+      if (sentimentNeedsConfirmation(submission, thresholds)) {
+        items.push({
+          key: `${submission.id}-sentiment`,
+          submission,
+          type: 'sentiment',
+          item: null,
+          label: submission.sentiment!,
+          confidence: submission.sentiment_confidence!,
+        });
+      }
+      return items;
+    })
+    .sort((a, b) => a.confidence - b.confidence);
+
+export const ConfidenceReviewPanel = ({ submissions, thresholds, onThresholdsSaved, onConfirmed }: ConfidenceReviewPanelProps) => {
+  const [drafts, setDrafts] = useState<Record<InsightType, string>>({ kpi: '', key_point: '', sentiment: '' });
+  const [savingThresholds, setSavingThresholds] = useState(false);
+  const [confirmingKey, setConfirmingKey] = useState<string | null>(null);
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  useEffect(() => {
+    setDrafts({
+      kpi: String(Math.round(thresholds.kpi * 100)),
+      key_point: String(Math.round(thresholds.key_point * 100)),
+      sentiment: String(Math.round(thresholds.sentiment * 100)),
+    });
+  }, [thresholds]);
+
+  const reviewItems = useMemo(() => collectReviewItems(submissions, thresholds), [submissions, thresholds]);
+
+  const handleSaveThresholds = async () => {
+    const values = INSIGHT_TYPES.map(type => ({ type, percent: Number(drafts[type]) }));
+    if (values.some(({ type, percent }) => drafts[type].trim() === '' || !Number.isFinite(percent) || percent < 0 || percent > 100)) {
+      toast({ title: "Invalid threshold", description: "Thresholds must be between 0 and 100%.", variant: "destructive" });
+      return;
+    }
+
+    setSavingThresholds(true);
+    const results = await Promise.all(values.map(({ type, percent }) =>
+      supabase
+        .from('confidence_thresholds')
+        .update({ threshold: percent / 100, updated_by: user?.id ?? null, updated_at: new Date().toISOString() })
+        .eq('item_type', type)
+    ));
+    setSavingThresholds(false);
+
+    const failed = results.find(result => result.error);
+    if (failed) {
+      console.error('Error saving confidence thresholds:', failed.error);
+      toast({ title: "Error saving thresholds", description: "Failed to update the confidence thresholds.", variant: "destructive" });
+      return;
+    }
+    toast({ title: "Thresholds saved", description: "Charts now use the new confidence thresholds." });
+    onThresholdsSaved();
+  };
+
+  const handleConfirm = async (reviewItem: ReviewItem) => {
+    setConfirmingKey(reviewItem.key);
+    const { error } = await supabase.rpc('confirm_insight', {
+      p_submission_id: reviewItem.submission.id,
+      p_item_type: reviewItem.type,
+      p_item: reviewItem.item ?? undefined,
+    });
+    setConfirmingKey(null);
+
+    if (error) {
+      console.error('Error confirming insight:', error);
+      toast({ title: "Error confirming item", description: error.message, variant: "destructive" });
+      return;
+    }
+    onConfirmed();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gauge className="w-5 h-5" />
+          Confidence Review
+        </CardTitle>
+        <CardDescription>
+          KPIs, key points and sentiment labels the AI scored below these thresholds are left out of
+          "confirmed only" charts until an admin confirms them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end gap-4">
+          {INSIGHT_TYPES.map(type => (
+            <div key={type} className="space-y-1">
+              <Label htmlFor={`threshold-${type}`}>{INSIGHT_TYPE_LABELS[type]} (%)</Label>
+              <Input
+                id={`threshold-${type}`}
+                type="number"
+                min={0}
+                max={100}
+                value={drafts[type]}
+                onChange={(e) => setDrafts({ ...drafts, [type]: e.target.value })}
+                className="w-28"
+              />
+            </div>
+          ))}
+          <Button onClick={handleSaveThresholds} disabled={savingThresholds}>
+            <Save className="w-4 h-4 mr-2" />
+            {savingThresholds ? 'Saving...' : 'Save Thresholds'}
+          </Button>
+        </div>
+
+        {reviewItems.length === 0 ? (
+          <p className="text-sm text-gray-500">No low-confidence items are waiting for confirmation.</p>
+        ) : (
+          <div className="space-y-2">
+            <p className="text-sm text-gray-600">
+              {reviewItems.length} item{reviewItems.length === 1 ? '' : 's'} waiting for confirmation, lowest confidence first
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="text-right">Confidence</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reviewItems.slice(0, MAX_REVIEW_ITEMS).map(reviewItem => (
+                  <TableRow key={reviewItem.key}>
+                    <TableCell>
+                      <p className="text-sm font-medium">{reviewItem.submission.profiles?.name || 'Unknown User'}</p>
+                      <p className="text-xs text-gray-500">{new Date(reviewItem.submission.created_at).toLocaleDateString()}</p>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{INSIGHT_TYPE_LABELS[reviewItem.type]}</Badge>
+                    </TableCell>
+                    <TableCell className="max-w-md text-sm">{reviewItem.label}</TableCell>
+                    <TableCell className="text-right text-sm">{formatConfidence(reviewItem.confidence)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleConfirm(reviewItem)}
+                        disabled={confirmingKey !== null}
+                      >
+                        <CheckCircle className="w-3 h-3 mr-1" />
+                        {confirmingKey === reviewItem.key ? 'Confirming...' : 'Confirm'}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
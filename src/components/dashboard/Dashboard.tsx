@@ -1,15 +1,27 @@
 
 import { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { DashboardHeader } from './DashboardHeader';
 import { VideoUpload } from './VideoUpload';
 import { InsightsView } from './InsightsView';
 import { AdminView } from './AdminView';
+import { SearchView } from './SearchView';
+import { SubmissionDialog } from './SubmissionDialog';
 import { useAuth } from '@/hooks/useAuth';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { parseSubmissionLink, SUBMISSION_LINK_PARAMS } from '@/lib/search';
 
 export const Dashboard = () => {
   const { profile } = useAuth();
   const [activeTab, setActiveTab] = useState('upload');
+  const [searchParams, setSearchParams] = useSearchParams();
+  const submissionLink = parseSubmissionLink(searchParams);
+
+  const closeSubmissionLink = () => {
+    const params = new URLSearchParams(searchParams);
+    SUBMISSION_LINK_PARAMS.forEach(param => params.delete(param));
+    setSearchParams(params);
+  };
 
   if (!profile) return null;
 
@@ -28,7 +40,7 @@ export const Dashboard = () => {
         </div>
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-3 max-w-md bg-white shadow-sm border border-gray-200">
+          <TabsList className="grid w-full grid-cols-4 max-w-xl bg-white shadow-sm border border-gray-200">
             <TabsTrigger 
               value="upload" 
               className="data-[state=active]:bg-blue-600 data-[state=active]:text-white"
@@ -41,6 +53,12 @@ export const Dashboard = () => {
             >
               My Insights
             </TabsTrigger>
+            <TabsTrigger 
+              value="search"
+              className="data-[state=active]:bg-blue-600 data-[state=active]:text-white"
+            >
+              Search
+            </TabsTrigger>
             {profile.role === 'admin' && (
               <TabsTrigger 
                 value="admin"
@@ -59,12 +77,18 @@ export const Dashboard = () => {
             <InsightsView userId={profile.id} />
           </TabsContent>
 
+          <TabsContent value="search" className="space-y-6">
+            <SearchView isAdmin={profile.role === 'admin'} />
+          </TabsContent>
+
           {profile.role === 'admin' && (
             <TabsContent value="admin" className="space-y-6">
               <AdminView />
             </TabsContent>
           )}
         </Tabs>
+
+        {submissionLink && <SubmissionDialog link={submissionLink} onClose={closeSubmissionLink} />}
       </main>
     </div>
   );
@@ -0,0 +1,172 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Copy, GitMerge, RefreshCw, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import type { Database } from '@/integrations/supabase/types';
+import { DUPLICATE_METHOD_LABELS, type DuplicateMethod } from '@/lib/duplicates';
+import { submissionLinkFor } from '@/lib/search';
+
+type SubmissionDuplicate = Database['public']['Tables']['submission_duplicates']['Row'];
+
+interface DuplicateReviewQueueProps {
+  users: { id: string; name: string; email: string }[];
+  onResolved?: () => void;
+}
+
+const SubmissionLink = ({ submissionId, label }: { submissionId: string; label: string }) => (
+  <Link
+    to={submissionLinkFor({ submission_id: submissionId, source_type: 'note', source_index: 0, segment_id: null })}
+    className="text-blue-600 hover:underline"
+  >
+    {label}
+  </Link>
+);
+
+export const DuplicateReviewQueue = ({ users, onResolved }: DuplicateReviewQueueProps) => {
+  const [duplicates, setDuplicates] = useState<SubmissionDuplicate[]>([]);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const fetchDuplicates = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('submission_duplicates')
+      .select('*')
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching duplicate submissions:', error);
+    } else {
+      setDuplicates(data || []);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchDuplicates();
+  }, [fetchDuplicates]);
+
+  const handleResolve = async (duplicate: SubmissionDuplicate, merge: boolean) => {
+    setResolvingId(duplicate.id);
+    try {
+      const { error } = await supabase.rpc('resolve_submission_duplicate', {
+        p_duplicate_id: duplicate.id,
+        p_merge: merge,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: merge ? "Submissions merged" : "Marked as not a duplicate",
+        description: merge
+          ? "The newer submission no longer counts towards KPI aggregates."
+          : "Both submissions keep counting.",
+      });
+
+      // Merging also settles the other pairs involving the merged submission
+      if (merge) {
+        fetchDuplicates();
+      } else {
+        setDuplicates(current => current.filter(item => item.id !== duplicate.id));
+      }
+      onResolved?.();
+    } catch (error) {
+      console.error('Error resolving duplicate submission:', error);
+      toast({
+        title: "Error resolving duplicate",
+        description: "Failed to resolve the duplicate. Submissions that are still processing cannot be merged.",
+        variant: "destructive"
+      });
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  if (!loading && duplicates.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Copy className="w-5 h-5" />
+          Possible Duplicates
+          {duplicates.length > 0 && <Badge variant="secondary">{duplicates.length}</Badge>}
+          <Button variant="outline" size="sm" className="ml-auto" onClick={fetchDuplicates}>
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Refresh
+          </Button>
+        </CardTitle>
+        <CardDescription>
+          Submissions that repeat an earlier upload by the same user, either as the identical file or with a near-identical transcript. Merging keeps the original and stops the copy from counting twice.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-0">
+        {loading ? (
+          <div className="text-center py-8 text-gray-500">Loading duplicates...</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>User</TableHead>
+                <TableHead>Match</TableHead>
+                <TableHead>Submissions</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {duplicates.map((duplicate) => {
+                const duplicateUser = users.find(u => u.id === duplicate.user_id);
+                return (
+                  <TableRow key={duplicate.id}>
+                    <TableCell>{duplicateUser?.name || duplicateUser?.email || 'Unknown User'}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">
+                        {DUPLICATE_METHOD_LABELS[duplicate.method as DuplicateMethod] || duplicate.method}
+                      </Badge>
+                      {duplicate.method === 'transcript' && (
+                        <p className="text-xs text-gray-500 mt-1">{Math.round(duplicate.similarity * 100)}% of phrases shared</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <SubmissionLink submissionId={duplicate.submission_id} label="Newer upload" />
+                      {' '}duplicates{' '}
+                      <SubmissionLink submissionId={duplicate.duplicate_of_id} label="original" />
+                      <p className="text-xs text-gray-500">Detected {new Date(duplicate.created_at).toLocaleString()}</p>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => handleResolve(duplicate, true)}
+                          disabled={resolvingId === duplicate.id}
+                        >
+                          <GitMerge className="w-3 h-3 mr-1" />
+                          Merge
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleResolve(duplicate, false)}
+                          disabled={resolvingId === duplicate.id}
+                        >
+                          <X className="w-3 h-3 mr-1" />
+                          Not a duplicate
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
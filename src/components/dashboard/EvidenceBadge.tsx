@@ -0,0 +1,39 @@
+import { AlertTriangle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { formatSourceRef, isFlagged, parseSourceRef, type Evidence } from '@/lib/evidence';
+
+interface EvidenceBadgeProps {
+  evidence: Evidence | null;
+  // Also show where verified items were found
+  showSource?: boolean;
+}
+
+// Warning badge for KPIs and quotes the verification pass could not find in the sources
+export const EvidenceBadge = ({ evidence, showSource = false }: EvidenceBadgeProps) => {
+  if (!evidence) return null;
+
+  if (isFlagged(evidence)) {
+    return (
+      <Badge
+        variant="outline"
+        className="text-xs border-amber-300 bg-amber-50 text-amber-800"
+        title={evidence.verification_issues.join('\n')}
+      >
+        <AlertTriangle className="w-3 h-3 mr-1" />
+        Unverified
+      </Badge>
+    );
+  }
+
+  const ref = parseSourceRef(evidence.source_ref);
+  return showSource && ref ? <span className="text-xs text-gray-500">{formatSourceRef(ref)}</span> : null;
+};
+
+// Number of unverified KPIs and quotes, for submission tables
+export const FlaggedEvidenceBadge = ({ count }: { count: number }) =>
+  count > 0 ? (
+    <Badge variant="outline" className="text-xs border-amber-300 bg-amber-50 text-amber-800">
+      <AlertTriangle className="w-3 h-3 mr-1" />
+      {count} unverified
+    </Badge>
+  ) : null;
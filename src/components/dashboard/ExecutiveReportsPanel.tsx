@@ -0,0 +1,520 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CheckCircle, Edit, FileText, Quote, RefreshCw, RotateCcw, Save, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useExecutiveReports } from '@/hooks/useExecutiveReports';
+import { formatKPIValue } from '@/lib/kpis';
+import { aspectLabel, formatSentimentScore } from '@/lib/sentiment';
+import {
+  REPORT_STATUS_LABELS,
+  currentVersion,
+  formatReportPeriod,
+  lastCompleteWeekStart,
+  reportStatus,
+  type ExecutiveReport,
+  type ReportContent,
+  type ReportKPI,
+  type ReportStatus,
+  type ReportVersion,
+} from '@/lib/executiveReports';
+
+const STATUS_STYLES: Record<ReportStatus, string> = {
+  draft: 'text-gray-700 bg-gray-50 border-gray-200',
+  published: 'text-green-700 bg-green-50 border-green-200',
+  changed: 'text-amber-700 bg-amber-50 border-amber-200',
+};
+
+interface ReportForm {
+  headline: string;
+  overview: string;
+  // One item per line
+  achievements: string;
+  risks: string;
+  sentiment_summary: string;
+  quotes: ReportContent['quotes'];
+}
+
+const toForm = (version: ReportVersion): ReportForm => ({
+  headline: version.headline,
+  overview: version.overview,
+  achievements: version.achievements.join('\n'),
+  risks: version.risks.join('\n'),
+  sentiment_summary: version.sentiment_summary,
+  quotes: version.quotes,
+});
+
+const lines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+const formatReportKPI = (kpi: ReportKPI, value: number) =>
+  formatKPIValue({ value, unit: kpi.unit, currency: kpi.currency, raw_text: null });
+
+const formatScore = (score: number | null) => score === null ? '—' : formatSentimentScore(score);
+
+const ReportItems = ({ title, items }: { title: string; items: string[] }) => (
+  <div>
+    <h4 className="text-sm font-medium mb-1">{title}</h4>
+    {items.length === 0 ? (
+      <p className="text-sm text-gray-500">None</p>
+    ) : (
+      <ul className="list-disc pl-5 space-y-1 text-sm text-gray-700">
+        {items.map((item, index) => <li key={index}>{item}</li>)}
+      </ul>
+    )}
+  </div>
+);
+
+export const ExecutiveReportsPanel = () => {
+  const { reports, loading, refetchReports } = useExecutiveReports();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [viewedVersionId, setViewedVersionId] = useState<string | null>(null);
+  const [form, setForm] = useState<ReportForm | null>(null);
+  const [weekStart, setWeekStart] = useState(lastCompleteWeekStart());
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  const report = reports.find(r => r.id === selectedId) || null;
+  const current = report ? currentVersion(report) : null;
+  const viewed = report?.versions.find(version => version.id === viewedVersionId) || current;
+
+  useEffect(() => {
+    if (!selectedId && reports.length > 0) setSelectedId(reports[0].id);
+  }, [reports, selectedId]);
+
+  useEffect(() => {
+    setViewedVersionId(null);
+    setForm(null);
+  }, [selectedId]);
+
+  const saveContent = async (target: ExecutiveReport, content: ReportContent) => {
+    const { error } = await supabase.rpc('save_executive_report_edit', {
+      p_report_id: target.id,
+      p_headline: content.headline,
+      p_overview: content.overview,
+      p_achievements: content.achievements,
+      p_risks: content.risks,
+      p_sentiment_summary: content.sentiment_summary,
+      p_quotes: content.quotes.map(quote => ({ ...quote })),
+    });
+    if (error) throw error;
+  };
+
+  const handleGenerate = async (periodStart: string, regenerate: boolean) => {
+    setBusy(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('generate-executive-summary', {
+        body: { periodStart, regenerate },
+      });
+      if (error) throw error;
+
+      toast({
+        title: data?.generated ? "Report generated" : "No new report",
+        description: data?.message || 'The executive summary has been generated.',
+      });
+      if (data?.reportId) {
+        setSelectedId(data.reportId);
+        setViewedVersionId(null);
+      }
+      refetchReports();
+    } catch (error) {
+      console.error('Error generating executive summary:', error);
+      toast({
+        title: "Generating the report failed",
+        description: "Failed to generate the executive summary. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!report || !form) return;
+    if (!form.headline.trim()) {
+      toast({
+        title: "Headline required",
+        description: "A report needs a headline.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setBusy(true);
+    try {
+      await saveContent(report, {
+        headline: form.headline,
+        overview: form.overview,
+        achievements: lines(form.achievements),
+        risks: lines(form.risks),
+        sentiment_summary: form.sentiment_summary,
+        quotes: form.quotes,
+      });
+      toast({
+        title: "Report saved",
+        description: "Your changes were saved as a new version.",
+      });
+      setForm(null);
+      setViewedVersionId(null);
+      refetchReports();
+    } catch (error) {
+      console.error('Error saving executive report:', error);
+      toast({
+        title: "Save failed",
+        description: "Failed to save the report. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRestore = async (version: ReportVersion) => {
+    if (!report) return;
+
+    setBusy(true);
+    try {
+      await saveContent(report, version);
+      toast({
+        title: "Version restored",
+        description: `Version ${version.version} is the current version again.`,
+      });
+      setViewedVersionId(null);
+      refetchReports();
+    } catch (error) {
+      console.error('Error restoring executive report version:', error);
+      toast({
+        title: "Restore failed",
+        description: "Failed to restore the version. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePublish = async () => {
+    if (!report) return;
+
+    setBusy(true);
+    const { error } = await supabase.rpc('publish_executive_report', { p_report_id: report.id });
+    if (error) {
+      console.error('Error publishing executive report:', error);
+      toast({
+        title: "Publish failed",
+        description: "Failed to publish the report. Please try again.",
+        variant: "destructive"
+      });
+    } else {
+      toast({
+        title: "Report published",
+        description: `The report for ${formatReportPeriod(report)} has been published.`,
+      });
+      refetchReports();
+    }
+    setBusy(false);
+  };
+
+  if (loading) {
+    return <div className="text-center py-8 text-gray-500">Loading reports...</div>;
+  }
+
+  const existingForWeek = reports.find(r => r.period_start === weekStart);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-col lg:flex-row lg:items-end justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <FileText className="w-5 h-5" />
+              Executive Reports
+            </CardTitle>
+            <CardDescription>
+              Weekly summaries of all completed submissions, generated every Monday for the week before. Review and edit a report before publishing it; every change is kept as a version.
+            </CardDescription>
+          </div>
+          <div className="flex items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="report-week">Week of</Label>
+              <Input
+                id="report-week"
+                type="date"
+                value={weekStart}
+                max={lastCompleteWeekStart()}
+                onChange={(e) => setWeekStart(e.target.value)}
+              />
+            </div>
+            <Button variant="outline" onClick={() => handleGenerate(weekStart, !!existingForWeek)} disabled={busy || !weekStart}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${busy ? 'animate-spin' : ''}`} />
+              {existingForWeek ? 'Regenerate' : 'Generate'}
+            </Button>
+          </div>
+        </CardHeader>
+        {reports.length === 0 && (
+          <CardContent>
+            <p className="text-gray-500 text-center py-8">
+              No reports yet. The first report is generated on Monday for the previous week.
+            </p>
+          </CardContent>
+        )}
+      </Card>
+
+      {reports.length > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-[260px_1fr] gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Weeks</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1">
+              {reports.map(r => {
+                const status = reportStatus(r);
+                return (
+                  <button
+                    key={r.id}
+                    type="button"
+                    className={`w-full rounded-md px-2 py-1.5 text-left ${
+                      r.id === selectedId ? 'bg-blue-50 text-blue-900' : 'hover:bg-gray-50'
+                    }`}
+                    onClick={() => setSelectedId(r.id)}
+                    disabled={busy}
+                  >
+                    <p className="text-sm">{formatReportPeriod(r)}</p>
+                    <Badge variant="outline" className={`mt-1 text-xs ${STATUS_STYLES[status]}`}>
+                      {REPORT_STATUS_LABELS[status]}
+                    </Badge>
+                  </button>
+                );
+              })}
+            </CardContent>
+          </Card>
+
+          {report && viewed && (
+            <Card>
+              <CardHeader className="space-y-3">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <CardTitle className="text-lg">{formatReportPeriod(report)}</CardTitle>
+                    <Badge variant="outline" className={STATUS_STYLES[reportStatus(report)]}>
+                      {REPORT_STATUS_LABELS[reportStatus(report)]}
+                    </Badge>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Select
+                      value={viewed.id}
+                      onValueChange={(value) => setViewedVersionId(value)}
+                      disabled={!!form || busy}
+                    >
+                      <SelectTrigger className="w-[220px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {report.versions.map(version => (
+                          <SelectItem key={version.id} value={version.id}>
+                            Version {version.version} · {version.source === 'edited' ? 'edited' : 'generated'}
+                            {version.id === report.current_version_id && ' (current)'}
+                            {version.id === report.published_version_id && ' (published)'}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {viewed.id !== report.current_version_id ? (
+                      <Button variant="outline" size="sm" onClick={() => handleRestore(viewed)} disabled={busy}>
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                        Restore
+                      </Button>
+                    ) : !form && (
+                      <>
+                        <Button variant="outline" size="sm" onClick={() => setForm(toForm(viewed))} disabled={busy}>
+                          <Edit className="w-4 h-4 mr-1" />
+                          Edit
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleGenerate(report.period_start, true)}
+                          disabled={busy}
+                        >
+                          <RefreshCw className="w-4 h-4 mr-1" />
+                          Regenerate
+                        </Button>
+                        {reportStatus(report) !== 'published' && (
+                          <Button size="sm" onClick={handlePublish} disabled={busy}>
+                            <CheckCircle className="w-4 h-4 mr-1" />
+                            Publish
+                          </Button>
+                        )}
+                      </>
+                    )}
+                  </div>
+                </div>
+                <CardDescription>
+                  Version {viewed.version} {viewed.source === 'edited' ? 'edited' : 'generated'} {new Date(viewed.created_at).toLocaleString()}
+                  {viewed.model && ` · written by ${viewed.model}`}
+                  {report.published_at && ` · last published ${new Date(report.published_at).toLocaleString()}`}
+                </CardDescription>
+              </CardHeader>
+
+              <CardContent className="space-y-6">
+                {form ? (
+                  <div className="space-y-4">
+                    <div className="space-y-1">
+                      <Label htmlFor="report-headline">Headline</Label>
+                      <Input
+                        id="report-headline"
+                        value={form.headline}
+                        onChange={(e) => setForm({ ...form, headline: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="report-overview">Overview</Label>
+                      <Textarea
+                        id="report-overview"
+                        value={form.overview}
+                        onChange={(e) => setForm({ ...form, overview: e.target.value })}
+                        rows={4}
+                      />
+                    </div>
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                      <div className="space-y-1">
+                        <Label htmlFor="report-achievements">Top achievements (one per line)</Label>
+                        <Textarea
+                          id="report-achievements"
+                          value={form.achievements}
+                          onChange={(e) => setForm({ ...form, achievements: e.target.value })}
+                          rows={6}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="report-risks">Emerging risks (one per line)</Label>
+                        <Textarea
+                          id="report-risks"
+                          value={form.risks}
+                          onChange={(e) => setForm({ ...form, risks: e.target.value })}
+                          rows={6}
+                        />
+                      </div>
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="report-sentiment">Sentiment</Label>
+                      <Textarea
+                        id="report-sentiment"
+                        value={form.sentiment_summary}
+                        onChange={(e) => setForm({ ...form, sentiment_summary: e.target.value })}
+                        rows={3}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Standout quotes</Label>
+                      {form.quotes.length === 0 && <p className="text-sm text-gray-500">No quotes</p>}
+                      {form.quotes.map((quote, index) => (
+                        <div key={index} className="flex items-start gap-2 text-sm text-gray-700">
+                          <p className="flex-1">"{quote.text}" <span className="text-xs text-gray-500">— {quote.user_name || 'Unknown User'}</span></p>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 w-7 p-0 text-gray-400 hover:text-red-600"
+                            onClick={() => setForm({ ...form, quotes: form.quotes.filter((_, i) => i !== index) })}
+                          >
+                            <X className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex justify-end gap-2">
+                      <Button variant="outline" onClick={() => setForm(null)} disabled={busy}>Cancel</Button>
+                      <Button onClick={handleSave} disabled={busy}>
+                        <Save className="w-4 h-4 mr-2" />
+                        Save as New Version
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <>
+                    <div className="space-y-2">
+                      <h3 className="text-xl font-semibold">{viewed.headline}</h3>
+                      {viewed.overview && <p className="text-sm text-gray-700 whitespace-pre-line">{viewed.overview}</p>}
+                    </div>
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                      <ReportItems title="Top achievements" items={viewed.achievements} />
+                      <ReportItems title="Emerging risks" items={viewed.risks} />
+                    </div>
+                    <div>
+                      <h4 className="text-sm font-medium mb-1">Sentiment</h4>
+                      {viewed.sentiment_summary && <p className="text-sm text-gray-700 mb-2">{viewed.sentiment_summary}</p>}
+                      <div className="flex flex-wrap gap-2">
+                        <Badge variant="secondary">
+                          Overall {formatScore(viewed.stats.average_score)} (previous {formatScore(viewed.stats.previous_average_score)})
+                        </Badge>
+                        {viewed.stats.aspects
+                          .filter(aspect => aspect.average !== null)
+                          .map(aspect => (
+                            <Badge key={aspect.aspect} variant="outline">
+                              {aspectLabel(aspect.aspect)} {formatScore(aspect.average)} (previous {formatScore(aspect.previous_average)})
+                            </Badge>
+                          ))}
+                      </div>
+                    </div>
+                    {viewed.quotes.length > 0 && (
+                      <div className="space-y-2">
+                        <h4 className="text-sm font-medium flex items-center gap-1">
+                          <Quote className="w-4 h-4" />
+                          Standout quotes
+                        </h4>
+                        {viewed.quotes.map((quote, index) => (
+                          <blockquote key={index} className="border-l-4 border-blue-200 pl-3 text-sm text-gray-700">
+                            "{quote.text}"
+                            <footer className="text-xs text-gray-500 mt-1">{quote.user_name || 'Unknown User'}</footer>
+                          </blockquote>
+                        ))}
+                      </div>
+                    )}
+                  </>
+                )}
+
+                <div>
+                  <h4 className="text-sm font-medium mb-1">
+                    KPIs from {viewed.stats.submissions} submissions by {viewed.stats.submitters} users
+                    <span className="text-gray-500 font-normal"> (previous week: {viewed.stats.previous_submissions} submissions)</span>
+                  </h4>
+                  {viewed.kpis.length === 0 ? (
+                    <p className="text-sm text-gray-500">No KPIs reported</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Metric</TableHead>
+                          <TableHead>Reports</TableHead>
+                          <TableHead>This week</TableHead>
+                          <TableHead>Previous week</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {viewed.kpis.map(kpi => (
+                          <TableRow key={`${kpi.name}|${kpi.unit}|${kpi.currency}`}>
+                            <TableCell className="font-medium">{kpi.name}</TableCell>
+                            <TableCell>{kpi.count}</TableCell>
+                            <TableCell>{formatReportKPI(kpi, kpi.value)}</TableCell>
+                            <TableCell className="text-gray-500">
+                              {kpi.previous_value === null ? '—' : formatReportKPI(kpi, kpi.previous_value)}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
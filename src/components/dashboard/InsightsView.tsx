@@ -3,11 +3,20 @@ import { useState, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { CalendarDays, TrendingUp, MessageSquare, Quote, FileText, Clock, BarChart3 } from 'lucide-react';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { CalendarDays, TrendingUp, MessageSquare, Quote, FileText, Clock, BarChart3, ShieldCheck, Languages } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { KPIVisualizations } from './KPIVisualizations';
+import { TranscriptViewer } from './TranscriptViewer';
+import { EvidenceBadge } from './EvidenceBadge';
 import type { Json } from '@/integrations/supabase/types';
+import { formatKPIValue, KPI_SOURCE_LABELS, sortKPIValues, type ExtractedKPIValue } from '@/lib/kpis';
+import { isFlagged, quoteEvidenceFor } from '@/lib/evidence';
+import { formatConfidence } from '@/lib/confidence';
+import { formatRedactionCounts, parseRedactionSummary } from '@/lib/redaction';
+import { languageName } from '@/lib/transcript';
+import { aspectLabel, formatSentimentScore, sentimentScoreColor, type AspectSentimentRow } from '@/lib/sentiment';
 
 interface Submission {
   id: string;
@@ -18,10 +27,17 @@ interface Submission {
   docx_file?: string | null;
   notes: string | null;
   transcript: Json | null;
+  // English version of a transcript recorded in another language
+  transcript_translated: Json | null;
+  language: string | null;
   key_points: string[] | null;
-  extracted_kpis: string[] | null;
+  extracted_kpi_values: ExtractedKPIValue[];
   sentiment: string | null;
+  sentiment_score: number | null;
+  submission_aspect_sentiments: AspectSentimentRow[];
   ai_quotes: string[] | null;
+  quote_evidence: Json;
+  pii_redaction: Json | null;
   status: string;
   processing_error?: string | null;
 }
@@ -33,6 +49,8 @@ interface InsightsViewProps {
 export const InsightsView = ({ userId }: InsightsViewProps) => {
   const [submissions, setSubmissions] = useState<Submission[]>([]);
   const [loading, setLoading] = useState(true);
+  // Submissions whose transcript is shown in English instead of the original language
+  const [showTranslated, setShowTranslated] = useState<Record<string, boolean>>({});
   const { toast } = useToast();
 
   useEffect(() => {
@@ -42,7 +60,7 @@ export const InsightsView = ({ userId }: InsightsViewProps) => {
         
         const { data, error } = await supabase
           .from('submissions')
-          .select('*')
+          .select('*, extracted_kpi_values(*), submission_aspect_sentiments(*)')
           .eq('user_id', userId)
           .order('created_at', { ascending: false });
 
@@ -57,7 +75,10 @@ export const InsightsView = ({ userId }: InsightsViewProps) => {
         }
 
         console.log('Fetched submissions:', data);
-        setSubmissions((data as Submission[]) || []);
+        setSubmissions((data || []).map(submission => ({
+          ...submission,
+          extracted_kpi_values: sortKPIValues(submission.extracted_kpi_values)
+        })));
       } catch (error) {
         console.error('Error fetching submissions:', error);
         toast({
@@ -88,6 +109,7 @@ export const InsightsView = ({ userId }: InsightsViewProps) => {
     switch (status) {
       case 'completed': return 'bg-green-100 text-green-800';
       case 'processing': return 'bg-blue-100 text-blue-800';
+      case 'needs_review': return 'bg-amber-100 text-amber-800';
       case 'failed': return 'bg-red-100 text-red-800';
       default: return 'bg-gray-100 text-gray-800';
     }
@@ -100,6 +122,18 @@ export const InsightsView = ({ userId }: InsightsViewProps) => {
     return [];
   };
 
+  const redactionNotice = (submission: Submission) => {
+    const summary = parseRedactionSummary(submission.pii_redaction);
+    const replaced = summary && formatRedactionCounts(summary);
+    if (!replaced) return null;
+    return (
+      <p className="flex items-center gap-1 text-xs text-gray-500">
+        <ShieldCheck className="w-3 h-3" />
+        Personal data replaced before storage: {replaced}
+      </p>
+    );
+  };
+
   const getVideoFilesDisplay = (videoFiles: Json): string => {
     if (Array.isArray(videoFiles)) {
       return `${videoFiles.length} video(s)`;
@@ -208,8 +242,14 @@ export const InsightsView = ({ userId }: InsightsViewProps) => {
                   <div className="flex items-center gap-2">
                     <Badge className={getStatusColor(submission.status)}>
                       {submission.status === 'processing' && <Clock className="w-3 h-3 mr-1" />}
-                      {submission.status}
+                      {submission.status.replace('_', ' ')}
                     </Badge>
+                    {submission.language && submission.language !== 'en' && (
+                      <Badge variant="outline" className="text-xs">
+                        <Languages className="w-3 h-3 mr-1" />
+                        {languageName(submission.language)}
+                      </Badge>
+                    )}
                     {submission.docx_file && (
                       <Badge variant="outline" className="text-xs">
                         <FileText className="w-3 h-3 mr-1" />
@@ -219,12 +259,23 @@ export const InsightsView = ({ userId }: InsightsViewProps) => {
                     {submission.sentiment && (
                       <Badge className={getSentimentColor(submission.sentiment)}>
                         {submission.sentiment}
+                        {submission.sentiment_score !== null && (
+                          <span className="ml-1 font-normal" title="Sentiment score from -1 to 1">
+                            {formatSentimentScore(submission.sentiment_score)}
+                          </span>
+                        )}
                       </Badge>
                     )}
                   </div>
                 </div>
               </CardHeader>
               <CardContent>
+                {submission.status === 'needs_review' && (
+                  <div className="mb-4 text-sm text-amber-800 bg-amber-50 p-3 rounded border border-amber-200">
+                    The AI analysis for this submission could not be validated, so no insights were stored yet.
+                    An admin will review and reprocess it; your transcript is available below.
+                  </div>
+                )}
                 {submission.status === 'processing' ? (
                   <div className="flex items-center justify-center py-8">
                     <div className="text-center">
@@ -253,25 +304,36 @@ export const InsightsView = ({ userId }: InsightsViewProps) => {
                     
                     <TabsContent value="transcript" className="mt-4">
                       <div className="space-y-4">
-                        {submission.transcript ? (
-                          <div className="p-4 bg-gray-50 rounded-lg">
-                            <p className="text-sm leading-relaxed">
-                              {typeof submission.transcript === 'string' 
-                                ? submission.transcript 
-                                : JSON.stringify(submission.transcript)}
-                            </p>
-                          </div>
-                        ) : (
-                          <div className="p-4 bg-gray-50 rounded-lg">
-                            <p className="text-sm text-gray-500">Transcript not available</p>
-                          </div>
+                        {submission.transcript_translated && (
+                          <ToggleGroup
+                            type="single"
+                            size="sm"
+                            variant="outline"
+                            className="justify-start"
+                            value={showTranslated[submission.id] ? 'translated' : 'original'}
+                            onValueChange={(value) => value && setShowTranslated({ ...showTranslated, [submission.id]: value === 'translated' })}
+                          >
+                            <ToggleGroupItem value="original">
+                              Original{submission.language ? ` (${languageName(submission.language)})` : ''}
+                            </ToggleGroupItem>
+                            <ToggleGroupItem value="translated">English translation</ToggleGroupItem>
+                          </ToggleGroup>
                         )}
+                        <TranscriptViewer
+                          transcript={showTranslated[submission.id] && submission.transcript_translated
+                            ? submission.transcript_translated
+                            : submission.transcript}
+                          alignedTranscript={submission.transcript_translated}
+                          keyPoints={submission.key_points}
+                          quotes={submission.ai_quotes}
+                        />
                         {submission.notes && (
                           <div className="p-4 bg-blue-50 rounded-lg">
                             <h4 className="font-medium text-sm mb-2">Additional Notes:</h4>
                             <p className="text-sm text-gray-700">{submission.notes}</p>
                           </div>
                         )}
+                        {redactionNotice(submission)}
                         <div className="text-xs text-gray-500">
                           <p>Videos: {getVideoFilesDisplay(submission.video_files)}</p>
                           {submission.docx_file && <p>DOCX: Document included</p>}
@@ -291,17 +353,56 @@ export const InsightsView = ({ userId }: InsightsViewProps) => {
                         ) : (
                           <p className="text-sm text-gray-500">No key points extracted yet</p>
                         )}
+                        {submission.submission_aspect_sentiments.length > 0 && (
+                          <div className="pt-4 space-y-2">
+                            <h4 className="text-sm font-medium">Sentiment by aspect</h4>
+                            {submission.submission_aspect_sentiments.map(aspect => (
+                              <div key={aspect.id} className="text-sm">
+                                <span className="font-medium">{aspectLabel(aspect.aspect)}</span>
+                                <span className={`ml-2 ${sentimentScoreColor(aspect.score)}`}>{formatSentimentScore(aspect.score)}</span>
+                                {aspect.quote && (
+                                  <p className="text-xs text-gray-500 italic">"{aspect.quote}"</p>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        )}
                       </div>
                     </TabsContent>
                     
                     <TabsContent value="kpis" className="mt-4">
                       <div className="space-y-2">
-                        {submission.extracted_kpis && submission.extracted_kpis.length > 0 ? (
-                          submission.extracted_kpis.map((kpi, index) => (
-                            <div key={index} className="flex items-center gap-2">
+                        {submission.extracted_kpi_values.length > 0 ? (
+                          submission.extracted_kpi_values.map((kpi) => (
+                            <div key={kpi.id} className="flex flex-wrap items-center gap-2">
                               <Badge variant="outline" className="text-sm">
-                                {kpi}
+                                {kpi.metric_name}: {formatKPIValue(kpi)}
                               </Badge>
+                              {kpi.direction && (
+                                <span className={`text-xs ${kpi.direction === 'increase' ? 'text-green-600' : 'text-red-600'}`}>
+                                  {kpi.direction === 'increase' ? '▲ increase' : '▼ decrease'}
+                                </span>
+                              )}
+                              {kpi.period && (
+                                <span className="text-xs text-gray-500">{kpi.period}</span>
+                              )}
+                              {kpi.source && (
+                                <Badge variant="secondary" className="text-xs">
+                                  {KPI_SOURCE_LABELS[kpi.source] || kpi.source}
+                                </Badge>
+                              )}
+                              <EvidenceBadge evidence={kpi} showSource />
+                              {kpi.confidence !== null && (
+                                <span className="text-xs text-gray-500" title="AI confidence">
+                                  {formatConfidence(kpi.confidence)} confidence
+                                </span>
+                              )}
+                              {kpi.quote && (
+                                <p className="w-full text-xs italic text-gray-500">"{kpi.quote}"</p>
+                              )}
+                              {isFlagged(kpi) && (
+                                <p className="w-full text-xs text-amber-700">{kpi.verification_issues.join('; ')}</p>
+                              )}
                             </div>
                           ))
                         ) : (
@@ -316,7 +417,10 @@ export const InsightsView = ({ userId }: InsightsViewProps) => {
                           submission.ai_quotes.map((quote, index) => (
                             <div key={index} className="flex items-start gap-2">
                               <Quote className="w-4 h-4 text-gray-400 mt-0.5" />
-                              <p className="text-sm italic text-gray-700">{quote}</p>
+                              <div className="space-y-1">
+                                <p className="text-sm italic text-gray-700">{quote}</p>
+                                <EvidenceBadge evidence={quoteEvidenceFor(submission.quote_evidence, quote, index)} showSource />
+                              </div>
                             </div>
                           ))
                         ) : (
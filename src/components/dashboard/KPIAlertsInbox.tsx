@@ -0,0 +1,214 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BellRing, Check, RefreshCw, RotateCcw, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import type { Database } from '@/integrations/supabase/types';
+import { formatKPIValue } from '@/lib/kpis';
+import { submissionLinkFor } from '@/lib/search';
+
+type KPIAlert = Database['public']['Tables']['kpi_alerts']['Row'];
+type AlertStatus = 'open' | 'acknowledged' | 'dismissed';
+
+interface KPIAlertsInboxProps {
+  users: { id: string; name: string; email: string }[];
+}
+
+const STATUS_LABELS: Record<AlertStatus, string> = {
+  open: 'Open',
+  acknowledged: 'Acknowledged',
+  dismissed: 'Dismissed',
+};
+
+const ANOMALY_LABELS: Record<string, string> = {
+  deviation: 'Off baseline',
+  sign_flip: 'Sign flip',
+};
+
+const formatAlertValue = (alert: KPIAlert, value: number) =>
+  formatKPIValue({ value, unit: alert.unit, currency: alert.currency, raw_text: null });
+
+export const KPIAlertsInbox = ({ users }: KPIAlertsInboxProps) => {
+  const [alerts, setAlerts] = useState<KPIAlert[]>([]);
+  const [status, setStatus] = useState<AlertStatus>('open');
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const fetchAlerts = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('kpi_alerts')
+      .select('*')
+      .eq('status', status)
+      .order('created_at', { ascending: false })
+      .limit(200);
+
+    if (error) {
+      console.error('Error fetching KPI alerts:', error);
+    } else {
+      setAlerts(data || []);
+    }
+    setLoading(false);
+  }, [status]);
+
+  useEffect(() => {
+    fetchAlerts();
+  }, [fetchAlerts]);
+
+  const handleResolve = async (alert: KPIAlert, newStatus: AlertStatus) => {
+    setResolvingId(alert.id);
+    try {
+      const { error } = await supabase.rpc('resolve_kpi_alert', {
+        p_alert_id: alert.id,
+        p_status: newStatus,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: newStatus === 'open' ? "Alert reopened" : `Alert ${STATUS_LABELS[newStatus].toLowerCase()}`,
+        description: newStatus === 'open'
+          ? "The alert is back in the inbox."
+          : `The ${alert.metric_name} alert has been ${STATUS_LABELS[newStatus].toLowerCase()}.`,
+      });
+
+      setAlerts(current => current.filter(item => item.id !== alert.id));
+    } catch (error) {
+      console.error('Error resolving KPI alert:', error);
+      toast({
+        title: "Error updating alert",
+        description: "Failed to update the alert. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="w-5 h-5" />
+          KPI Alerts
+          {status === 'open' && alerts.length > 0 && <Badge variant="secondary">{alerts.length}</Badge>}
+          <div className="ml-auto flex items-center gap-2">
+            <Select value={status} onValueChange={(value) => setStatus(value as AlertStatus)}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(STATUS_LABELS) as AlertStatus[]).map(value => (
+                  <SelectItem key={value} value={value}>{STATUS_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={fetchAlerts}>
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Refresh
+            </Button>
+          </div>
+        </CardTitle>
+        <CardDescription>
+          KPI values that stand out from the earlier reports of the same metric, by the same user or across the team. Every processed submission is checked.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-0">
+        {loading ? (
+          <div className="text-center py-8 text-gray-500">Loading alerts...</div>
+        ) : alerts.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            No {STATUS_LABELS[status].toLowerCase()} alerts.
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Alert</TableHead>
+                <TableHead>User</TableHead>
+                <TableHead>Value</TableHead>
+                <TableHead>Baseline</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {alerts.map((alert) => {
+                const alertUser = users.find(u => u.id === alert.user_id);
+                return (
+                  <TableRow key={alert.id}>
+                    <TableCell className="max-w-md">
+                      <div className="flex flex-wrap items-center gap-1 mb-1">
+                        <Badge variant={alert.severity === 'critical' ? 'destructive' : 'outline'}>
+                          {alert.severity === 'critical' ? 'Critical' : 'Warning'}
+                        </Badge>
+                        <Badge variant="outline">{ANOMALY_LABELS[alert.anomaly_type] || alert.anomaly_type}</Badge>
+                        <Badge variant="secondary">{alert.scope === 'user' ? 'vs. own history' : 'vs. team'}</Badge>
+                      </div>
+                      <p className="text-sm">{alert.message}</p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {new Date(alert.created_at).toLocaleString()} ·{' '}
+                        <Link
+                          to={submissionLinkFor({ submission_id: alert.submission_id, source_type: 'kpi', source_index: 0, segment_id: null })}
+                          className="text-blue-600 hover:underline"
+                        >
+                          View submission
+                        </Link>
+                      </p>
+                    </TableCell>
+                    <TableCell>{alertUser?.name || alertUser?.email || 'Unknown User'}</TableCell>
+                    <TableCell className="whitespace-nowrap font-medium">{formatAlertValue(alert, alert.value)}</TableCell>
+                    <TableCell className="whitespace-nowrap text-gray-600">
+                      {formatAlertValue(alert, alert.baseline)}
+                      <p className="text-xs text-gray-500">
+                        median of {alert.baseline_points}
+                        {alert.score !== null && ` · z ${alert.score > 0 ? '+' : ''}${alert.score.toFixed(1)}`}
+                      </p>
+                    </TableCell>
+                    <TableCell>
+                      {status === 'open' ? (
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            onClick={() => handleResolve(alert, 'acknowledged')}
+                            disabled={resolvingId === alert.id}
+                          >
+                            <Check className="w-3 h-3 mr-1" />
+                            Acknowledge
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleResolve(alert, 'dismissed')}
+                            disabled={resolvingId === alert.id}
+                          >
+                            <X className="w-3 h-3 mr-1" />
+                            Dismiss
+                          </Button>
+                        </div>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleResolve(alert, 'open')}
+                          disabled={resolvingId === alert.id}
+                        >
+                          <RotateCcw className="w-3 h-3 mr-1" />
+                          Reopen
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
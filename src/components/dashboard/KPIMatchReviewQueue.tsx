@@ -0,0 +1,189 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Check, ClipboardCheck, RefreshCw, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import type { Database } from '@/integrations/supabase/types';
+import { formatKPIValue, type ExtractedKPIValue } from '@/lib/kpis';
+
+type KPIMatchReview = Database['public']['Tables']['kpi_match_reviews']['Row'] & {
+  extracted_kpi_values: ExtractedKPIValue | null;
+};
+
+interface KPIMatchReviewQueueProps {
+  kpis: { id: string; name: string; unit?: string; is_active: boolean }[];
+  users: { id: string; name: string; email: string }[];
+  onResolved?: () => void;
+}
+
+export const KPIMatchReviewQueue = ({ kpis, users, onResolved }: KPIMatchReviewQueueProps) => {
+  const [reviews, setReviews] = useState<KPIMatchReview[]>([]);
+  const [selectedKPIs, setSelectedKPIs] = useState<Record<string, string>>({});
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const fetchReviews = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('kpi_match_reviews')
+      .select('*, extracted_kpi_values(*)')
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching KPI match reviews:', error);
+    } else {
+      setReviews(data || []);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchReviews();
+  }, [fetchReviews]);
+
+  const activeKPIs = kpis.filter(kpi => kpi.is_active);
+
+  const handleResolve = async (review: KPIMatchReview, approve: boolean) => {
+    const kpiId = selectedKPIs[review.id] || review.suggested_kpi_id;
+    if (approve && !kpiId) return;
+
+    setResolvingId(review.id);
+    try {
+      const { error } = await supabase.rpc('resolve_kpi_match_review', {
+        p_review_id: review.id,
+        ...(approve && kpiId ? { p_kpi_id: kpiId } : {}),
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: approve ? "Match approved" : "Match rejected",
+        description: approve
+          ? "The value has been recorded as KPI performance."
+          : "The extracted value will not be mapped to a KPI.",
+      });
+
+      setReviews(current => current.filter(item => item.id !== review.id));
+      onResolved?.();
+    } catch (error) {
+      console.error('Error resolving KPI match review:', error);
+      toast({
+        title: "Error resolving match",
+        description: "Failed to resolve the KPI match. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="w-5 h-5" />
+          KPI Match Review
+          {reviews.length > 0 && <Badge variant="secondary">{reviews.length}</Badge>}
+          <Button variant="outline" size="sm" onClick={fetchReviews} className="ml-auto">
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Refresh
+          </Button>
+        </CardTitle>
+        <CardDescription>
+          Extracted metrics that could not be matched to a KPI definition with enough confidence. Approve a match to record the value for the submission's week.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-0">
+        {loading ? (
+          <div className="text-center py-8 text-gray-500">Loading review queue...</div>
+        ) : reviews.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            No KPI matches waiting for review.
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Extracted Metric</TableHead>
+                <TableHead>User</TableHead>
+                <TableHead>Week</TableHead>
+                <TableHead>Match</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {reviews.map((review) => {
+                const extracted = review.extracted_kpi_values;
+                const reviewUser = users.find(u => u.id === review.user_id);
+                return (
+                  <TableRow key={review.id}>
+                    <TableCell className="max-w-xs">
+                      <p className="font-medium">{extracted?.metric_name || 'Unknown metric'}</p>
+                      {extracted && (
+                        <p className="text-sm text-gray-600">{formatKPIValue(extracted)}</p>
+                      )}
+                      {extracted?.quote && (
+                        <p className="text-xs italic text-gray-500 mt-1">"{extracted.quote}"</p>
+                      )}
+                    </TableCell>
+                    <TableCell>{reviewUser?.name || reviewUser?.email || 'Unknown User'}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {new Date(review.period_start).toLocaleDateString()} – {new Date(review.period_end).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell className="min-w-[220px]">
+                      <Select
+                        value={selectedKPIs[review.id] || review.suggested_kpi_id || undefined}
+                        onValueChange={(value) => setSelectedKPIs(current => ({ ...current, [review.id]: value }))}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Choose a KPI" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {activeKPIs.map((kpi) => (
+                            <SelectItem key={kpi.id} value={kpi.id}>
+                              {kpi.name}{kpi.unit ? ` (${kpi.unit})` : ''}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-gray-500 mt-1" title={review.reason || undefined}>
+                        Confidence {Math.round(review.confidence * 100)}%
+                      </p>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => handleResolve(review, true)}
+                          disabled={resolvingId === review.id || !(selectedKPIs[review.id] || review.suggested_kpi_id)}
+                          className="bg-green-600 hover:bg-green-700"
+                        >
+                          <Check className="w-3 h-3 mr-1" />
+                          Approve
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleResolve(review, false)}
+                          disabled={resolvingId === review.id}
+                        >
+                          <X className="w-3 h-3 mr-1" />
+                          Reject
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -2,6 +2,7 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line, PieChart, Pie, Cell } from 'recharts';
 import { TrendingUp, Target, Calendar, FileText, Video } from 'lucide-react';
+import { aggregateKPIsByMetric, KPI_SOURCE_LABELS, type ExtractedKPIValue } from '@/lib/kpis';
 
 interface KPIVisualizationsProps {
   submissions: any[];
@@ -10,48 +11,32 @@ interface KPIVisualizationsProps {
 export const KPIVisualizations = ({ submissions }: KPIVisualizationsProps) => {
   // Enhanced KPI data processing with source tracking
   const processKPIData = () => {
-    const kpiMap = new Map();
+    const completedKPIs: ExtractedKPIValue[] = [];
     const timelineData = [];
-    const sourceStats = { video: 0, docx: 0, mixed: 0 };
+    const sourceStats = { video: 0, docx: 0, notes: 0, unknown: 0 };
     
     submissions.forEach((submission) => {
-      if (submission.extracted_kpis && submission.status === 'completed') {
+      if (submission.extracted_kpi_values && submission.status === 'completed') {
         const date = new Date(submission.created_at).toLocaleDateString();
         const hasDocx = !!submission.docx_file;
         const hasVideo = !!submission.transcript;
+        const kpis: ExtractedKPIValue[] = submission.extracted_kpi_values;
         
-        submission.extracted_kpis.forEach((kpi: string) => {
-          // Extract metric name and value
-          const parts = kpi.split(':');
-          if (parts.length >= 2) {
-            const metricName = parts[0].trim();
-            const value = parts[1].trim();
-            
-            // Try to extract numeric value
-            const numericMatch = value.match(/[\d,]+\.?\d*/);
-            const numericValue = numericMatch ? parseFloat(numericMatch[0].replace(/,/g, '')) : 1;
-            
-            if (kpiMap.has(metricName)) {
-              kpiMap.set(metricName, kpiMap.get(metricName) + numericValue);
-            } else {
-              kpiMap.set(metricName, numericValue);
-            }
+        kpis.forEach((kpi) => {
+          completedKPIs.push(kpi);
+          
+          // Track where each KPI was found; backfilled KPIs have no source
+          if (kpi.source === 'video' || kpi.source === 'docx' || kpi.source === 'notes') {
+            sourceStats[kpi.source]++;
+          } else {
+            sourceStats.unknown++;
           }
         });
         
-        // Track source statistics
-        if (hasDocx && hasVideo) {
-          sourceStats.mixed++;
-        } else if (hasDocx) {
-          sourceStats.docx++;
-        } else if (hasVideo) {
-          sourceStats.video++;
-        }
-        
         // Add to timeline
         timelineData.push({
           date,
-          kpiCount: submission.extracted_kpis.length,
+          kpiCount: kpis.length,
           sentiment: submission.sentiment,
           hasDocx,
           hasVideo
@@ -59,11 +44,16 @@ export const KPIVisualizations = ({ submissions }: KPIVisualizationsProps) => {
       }
     });
     
-    const kpiData = Array.from(kpiMap.entries()).map(([name, value]) => ({
-      name: name.length > 15 ? name.substring(0, 15) + '...' : name,
-      value: typeof value === 'number' ? value : 1,
-      fullName: name
-    }));
+    const kpiData = aggregateKPIsByMetric(completedKPIs).map(metric => {
+      const fullName = metric.unit || metric.currency
+        ? `${metric.name} (${metric.currency || metric.unit})`
+        : metric.name;
+      return {
+        name: fullName.length > 15 ? fullName.substring(0, 15) + '...' : fullName,
+        value: metric.value,
+        fullName
+      };
+    });
     
     return { kpiData, timelineData, sourceStats };
   };
@@ -85,14 +75,14 @@ export const KPIVisualizations = ({ submissions }: KPIVisualizationsProps) => {
 
   // Source distribution data
   const sourceData = [
-    { name: 'Video Only', value: sourceStats.video, color: '#3b82f6' },
-    { name: 'DOCX Only', value: sourceStats.docx, color: '#ef4444' },
-    { name: 'Video + DOCX', value: sourceStats.mixed, color: '#22c55e' }
+    { name: KPI_SOURCE_LABELS.video, value: sourceStats.video, color: '#3b82f6' },
+    { name: KPI_SOURCE_LABELS.docx, value: sourceStats.docx, color: '#ef4444' },
+    { name: KPI_SOURCE_LABELS.notes, value: sourceStats.notes, color: '#22c55e' },
+    { name: 'Unknown', value: sourceStats.unknown, color: '#9ca3af' }
   ].filter(item => item.value > 0);
 
   const COLORS = ['#22c55e', '#f59e0b', '#ef4444'];
-  const SOURCE_COLORS = ['#3b82f6', '#ef4444', '#22c55e'];
-
+  
   if (submissions.length === 0) {
     return (
       <Card>
@@ -180,7 +170,7 @@ export const KPIVisualizations = ({ submissions }: KPIVisualizationsProps) => {
                     dataKey="value"
                   >
                     {sourceData.map((entry, index) => (
-                      <Cell key={`cell-${index}`} fill={SOURCE_COLORS[index % SOURCE_COLORS.length]} />
+                      <Cell key={`cell-${index}`} fill={entry.color} />
                     ))}
                   </Pie>
                   <Tooltip />
@@ -295,7 +285,7 @@ export const KPIVisualizations = ({ submissions }: KPIVisualizationsProps) => {
               <TrendingUp className="w-5 h-5 text-green-600" />
               <div>
                 <p className="text-2xl font-bold">
-                  {submissions.reduce((acc, s) => acc + (s.extracted_kpis?.length || 0), 0)}
+                  {submissions.reduce((acc, s) => acc + (s.extracted_kpi_values?.length || 0), 0)}
                 </p>
                 <p className="text-sm text-gray-600">Total KPIs</p>
               </div>
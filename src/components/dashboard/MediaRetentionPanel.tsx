@@ -0,0 +1,251 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Save } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  RETENTION_MODE_LABELS,
+  RETENTION_SCOPE_LABELS,
+  RETENTION_SCOPES,
+  describeRetention,
+  type RetentionMode,
+  type RetentionScope,
+} from '@/lib/retention';
+
+interface MediaRetentionPanelProps {
+  users: { id: string; name: string; email: string }[];
+}
+
+interface PolicyRow {
+  applies_to: string;
+  mode: string;
+  retention_days: number | null;
+  updated_at: string;
+}
+
+interface CleanupLogEntry {
+  id: string;
+  submission_id: string | null;
+  user_id: string | null;
+  file_path: string;
+  reason: string;
+  policy_mode: string;
+  retention_days: number | null;
+  removed_at: string;
+}
+
+// 'inherit' removes a role's own policy so the default applies again
+type PolicyDraft = { mode: RetentionMode | 'inherit'; retention_days: string };
+
+const CLEANUP_LOG_LIMIT = 50;
+
+const toDraft = (row: PolicyRow | undefined): PolicyDraft => row
+  ? { mode: row.mode as RetentionMode, retention_days: row.retention_days ? String(row.retention_days) : '30' }
+  : { mode: 'inherit', retention_days: '30' };
+
+export const MediaRetentionPanel = ({ users }: MediaRetentionPanelProps) => {
+  const [policies, setPolicies] = useState<PolicyRow[]>([]);
+  const [drafts, setDrafts] = useState<Partial<Record<RetentionScope, PolicyDraft>>>({});
+  const [cleanupLog, setCleanupLog] = useState<CleanupLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingScope, setSavingScope] = useState<RetentionScope | null>(null);
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const fetchRetention = useCallback(async () => {
+    const [policiesResult, logResult] = await Promise.all([
+      supabase.from('media_retention_policies').select('*'),
+      supabase
+        .from('media_cleanup_log')
+        .select('*')
+        .order('removed_at', { ascending: false })
+        .limit(CLEANUP_LOG_LIMIT),
+    ]);
+
+    if (policiesResult.error) {
+      console.error('Error fetching media retention policies:', policiesResult.error);
+    } else {
+      const rows = policiesResult.data || [];
+      setPolicies(rows);
+      setDrafts(Object.fromEntries(
+        RETENTION_SCOPES.map(scope => [scope, toDraft(rows.find(row => row.applies_to === scope))])
+      ));
+    }
+
+    if (logResult.error) {
+      console.error('Error fetching media cleanup log:', logResult.error);
+    } else {
+      setCleanupLog(logResult.data || []);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchRetention();
+  }, [fetchRetention]);
+
+  const userLabel = (userId: string | null) => {
+    const logUser = users.find(u => u.id === userId);
+    return logUser?.name || logUser?.email || 'Unknown User';
+  };
+
+  const updateDraft = (scope: RetentionScope, changes: Partial<PolicyDraft>) => {
+    setDrafts(current => ({ ...current, [scope]: { ...toDraft(undefined), ...current[scope], ...changes } }));
+  };
+
+  const handleSave = async (scope: RetentionScope) => {
+    const draft = drafts[scope];
+    if (!draft) return;
+
+    const days = Number(draft.retention_days);
+    if (draft.mode === 'keep_days' && (!Number.isInteger(days) || days < 1)) {
+      toast({ title: "Invalid retention period", description: "Enter a whole number of days, at least 1.", variant: "destructive" });
+      return;
+    }
+
+    setSavingScope(scope);
+    const { error } = draft.mode === 'inherit'
+      ? await supabase.from('media_retention_policies').delete().eq('applies_to', scope)
+      : await supabase.from('media_retention_policies').upsert({
+        applies_to: scope,
+        mode: draft.mode,
+        retention_days: draft.mode === 'keep_days' ? days : null,
+        updated_by: user?.id ?? null,
+        updated_at: new Date().toISOString(),
+      });
+    setSavingScope(null);
+
+    if (error) {
+      console.error('Error saving media retention policy:', error);
+      toast({ title: "Error saving policy", description: "Failed to update the media retention policy.", variant: "destructive" });
+      return;
+    }
+    toast({
+      title: "Retention policy updated",
+      description: `${RETENTION_SCOPE_LABELS[scope]} now follow ${draft.mode === 'inherit' ? 'the default policy' : 'the new policy'}. The daily cleanup applies it to existing uploads.`,
+    });
+    fetchRetention();
+  };
+
+  if (loading) {
+    return <div className="text-center py-8 text-gray-500">Loading media retention...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Media Retention</CardTitle>
+          <CardDescription>
+            How long uploaded videos and .docx files are kept after processing. Periods are counted from the upload; transcripts and insights are always kept. A user with several roles follows the most senior role that has its own policy.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Applies To</TableHead>
+                <TableHead>Policy</TableHead>
+                <TableHead>Days</TableHead>
+                <TableHead>Last Updated</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {RETENTION_SCOPES.map(scope => {
+                const draft = drafts[scope] || toDraft(undefined);
+                const saved = policies.find(row => row.applies_to === scope);
+                return (
+                  <TableRow key={scope}>
+                    <TableCell className="font-medium">{RETENTION_SCOPE_LABELS[scope]}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={draft.mode}
+                        onValueChange={(mode) => updateDraft(scope, { mode: mode as PolicyDraft['mode'] })}
+                      >
+                        <SelectTrigger className="w-56">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {scope !== 'default' && <SelectItem value="inherit">Use default</SelectItem>}
+                          {(Object.keys(RETENTION_MODE_LABELS) as RetentionMode[]).map(mode => (
+                            <SelectItem key={mode} value={mode}>{RETENTION_MODE_LABELS[mode]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      {draft.mode === 'keep_days' ? (
+                        <Input
+                          type="number"
+                          min="1"
+                          step="1"
+                          value={draft.retention_days}
+                          onChange={(e) => updateDraft(scope, { retention_days: e.target.value })}
+                          className="w-24"
+                        />
+                      ) : (
+                        <span className="text-gray-400">—</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-500">
+                      {saved ? new Date(saved.updated_at).toLocaleString() : 'Not set'}
+                    </TableCell>
+                    <TableCell>
+                      <Button size="sm" variant="outline" onClick={() => handleSave(scope)} disabled={savingScope === scope}>
+                        <Save className="w-3 h-3" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Cleanups</CardTitle>
+          <CardDescription>The last {CLEANUP_LOG_LIMIT} files removed from storage and the policy that removed them.</CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          {cleanupLog.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">No media removed yet</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Removed</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>File</TableHead>
+                  <TableHead>Policy</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {cleanupLog.map(entry => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="text-sm">{new Date(entry.removed_at).toLocaleString()}</TableCell>
+                    <TableCell>{userLabel(entry.user_id)}</TableCell>
+                    <TableCell className="font-mono text-xs break-all">{entry.file_path}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" title={entry.reason === 'retention_expired' ? 'Retention period expired' : 'Deleted after processing'}>
+                        {describeRetention({ mode: entry.policy_mode as RetentionMode, retention_days: entry.retention_days })}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
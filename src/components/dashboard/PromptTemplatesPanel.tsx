@@ -0,0 +1,392 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, CheckCircle, Eye, FileText, Save } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  ANALYSIS_PLACEHOLDERS,
+  ANALYSIS_PROMPT,
+  analysisPromptValues,
+  findPlaceholders,
+  promptVersionLabel,
+  renderPromptTemplate,
+  type PromptTemplate,
+} from '@/lib/prompts';
+
+interface PromptTemplatesPanelProps {
+  users: { id: string; name: string; email: string }[];
+}
+
+interface SampleSubmission {
+  id: string;
+  user_id: string;
+  created_at: string;
+}
+
+interface SampleContent {
+  transcript: Json | null;
+  docx_content: Json | null;
+  notes: string | null;
+}
+
+export const PromptTemplatesPanel = ({ users }: PromptTemplatesPanelProps) => {
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [baseTemplateId, setBaseTemplateId] = useState<string | null>(null);
+  const [systemPrompt, setSystemPrompt] = useState('');
+  const [userPrompt, setUserPrompt] = useState('');
+  const [changeNote, setChangeNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [activatingId, setActivatingId] = useState<string | null>(null);
+  const [samples, setSamples] = useState<SampleSubmission[]>([]);
+  const [sampleId, setSampleId] = useState<string | null>(null);
+  const [sampleContent, setSampleContent] = useState<SampleContent | null>(null);
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const loadIntoEditor = (template: PromptTemplate) => {
+    setBaseTemplateId(template.id);
+    setSystemPrompt(template.system_prompt);
+    setUserPrompt(template.user_prompt);
+    setChangeNote('');
+  };
+
+  const fetchTemplates = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('prompt_templates')
+      .select('*')
+      .eq('name', ANALYSIS_PROMPT)
+      .order('version', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching prompt templates:', error);
+    } else {
+      setTemplates(data || []);
+    }
+    setLoading(false);
+    return data || [];
+  }, []);
+
+  useEffect(() => {
+    fetchTemplates().then((data) => {
+      const active = data.find(template => template.is_active) || data[0];
+      if (active) loadIntoEditor(active);
+    });
+
+    supabase
+      .from('submissions')
+      .select('id, user_id, created_at')
+      .eq('status', 'completed')
+      .order('created_at', { ascending: false })
+      .limit(20)
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching sample submissions:', error);
+          return;
+        }
+        setSamples(data || []);
+        if (data?.[0]) setSampleId(data[0].id);
+      });
+  }, [fetchTemplates]);
+
+  // Transcripts can be large, so only the selected sample is loaded in full
+  useEffect(() => {
+    if (!sampleId) return;
+    setSampleContent(null);
+    supabase
+      .from('submissions')
+      .select('transcript, docx_content, notes')
+      .eq('id', sampleId)
+      .single()
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching sample submission:', error);
+          return;
+        }
+        setSampleContent(data);
+      });
+  }, [sampleId]);
+
+  const baseTemplate = templates.find(template => template.id === baseTemplateId);
+  const isDirty = !baseTemplate || baseTemplate.system_prompt !== systemPrompt || baseTemplate.user_prompt !== userPrompt;
+
+  const placeholderWarnings = useMemo(() => {
+    const known = ANALYSIS_PLACEHOLDERS.map(placeholder => placeholder.key);
+    const used = findPlaceholders(`${systemPrompt}\n${userPrompt}`);
+    return [
+      ...used.filter(key => !known.includes(key)).map(key => `Unknown placeholder {{${key}}} will be sent to the model as-is`),
+      ...known.filter(key => !used.includes(key)).map(key => `{{${key}}} is not used, so the model will not see this content`),
+    ];
+  }, [systemPrompt, userPrompt]);
+
+  const preview = useMemo(() => {
+    if (!sampleContent) return null;
+    const values = analysisPromptValues(sampleContent);
+    return {
+      system: renderPromptTemplate(systemPrompt, values),
+      user: renderPromptTemplate(userPrompt, values),
+    };
+  }, [sampleContent, systemPrompt, userPrompt]);
+
+  const handleActivate = async (template: PromptTemplate) => {
+    setActivatingId(template.id);
+    try {
+      const { error } = await supabase.rpc('activate_prompt_template', { p_template_id: template.id });
+      if (error) throw error;
+
+      toast({
+        title: "Prompt activated",
+        description: `${promptVersionLabel(template)} is now used for new analyses and reprocessing.`,
+      });
+      await fetchTemplates();
+    } catch (error) {
+      console.error('Error activating prompt template:', error);
+      toast({
+        title: "Error activating prompt",
+        description: "Failed to activate the prompt template. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setActivatingId(null);
+    }
+  };
+
+  const handleSave = async (activate: boolean) => {
+    if (!systemPrompt.trim() || !userPrompt.trim()) {
+      toast({
+        title: "Prompt incomplete",
+        description: "Both the system prompt and the user prompt are required.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const nextVersion = Math.max(0, ...templates.map(template => template.version)) + 1;
+      const { data, error } = await supabase
+        .from('prompt_templates')
+        .insert({
+          name: ANALYSIS_PROMPT,
+          version: nextVersion,
+          system_prompt: systemPrompt,
+          user_prompt: userPrompt,
+          change_note: changeNote.trim() || null,
+          created_by: user?.id,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      toast({
+        title: "Prompt saved",
+        description: `Saved as ${promptVersionLabel(data)}.`,
+      });
+
+      if (activate) {
+        await handleActivate(data);
+      } else {
+        await fetchTemplates();
+      }
+      loadIntoEditor(data);
+    } catch (error) {
+      console.error('Error saving prompt template:', error);
+      toast({
+        title: "Error saving prompt",
+        description: "Failed to save the prompt template. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const sampleLabel = (sample: SampleSubmission) => {
+    const sampleUser = users.find(u => u.id === sample.user_id);
+    return `${sampleUser?.name || sampleUser?.email || 'Unknown User'} · ${new Date(sample.created_at).toLocaleDateString()}`;
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileText className="w-5 h-5" />
+            Analysis Prompt
+            {baseTemplate && (
+              <Badge variant="outline">
+                {isDirty ? `editing from ${promptVersionLabel(baseTemplate)}` : promptVersionLabel(baseTemplate)}
+              </Badge>
+            )}
+          </CardTitle>
+          <CardDescription>
+            Used by submission processing and transcript reprocessing. Saving creates a new version; it is only used once activated.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2 text-xs text-gray-600">
+            {ANALYSIS_PLACEHOLDERS.map(placeholder => (
+              <Badge key={placeholder.key} variant="secondary" title={placeholder.description} className="font-mono">
+                {`{{${placeholder.key}}}`}
+              </Badge>
+            ))}
+          </div>
+
+          <div>
+            <Label htmlFor="system-prompt">System Prompt</Label>
+            <Textarea
+              id="system-prompt"
+              value={systemPrompt}
+              onChange={(e) => setSystemPrompt(e.target.value)}
+              className="font-mono text-xs min-h-[120px]"
+            />
+          </div>
+          <div>
+            <Label htmlFor="user-prompt">User Prompt</Label>
+            <Textarea
+              id="user-prompt"
+              value={userPrompt}
+              onChange={(e) => setUserPrompt(e.target.value)}
+              className="font-mono text-xs min-h-[360px]"
+            />
+          </div>
+          <div>
+            <Label htmlFor="change-note">Change Note</Label>
+            <Input
+              id="change-note"
+              value={changeNote}
+              onChange={(e) => setChangeNote(e.target.value)}
+              placeholder="What changed in this version?"
+            />
+          </div>
+
+          {placeholderWarnings.length > 0 && (
+            <div className="space-y-1">
+              {placeholderWarnings.map(warning => (
+                <p key={warning} className="flex items-center gap-1 text-xs text-amber-700">
+                  <AlertTriangle className="w-3 h-3 shrink-0" />
+                  {warning}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button onClick={() => handleSave(false)} disabled={saving || !isDirty}>
+              <Save className="w-4 h-4 mr-2" />
+              Save Version
+            </Button>
+            <Button variant="outline" onClick={() => handleSave(true)} disabled={saving || !isDirty}>
+              <CheckCircle className="w-4 h-4 mr-2" />
+              Save and Activate
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Eye className="w-5 h-5" />
+            Preview
+          </CardTitle>
+          <CardDescription>The prompt above rendered against a processed submission, as it would be sent to the model.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Select value={sampleId || undefined} onValueChange={setSampleId}>
+            <SelectTrigger className="w-full md:w-96">
+              <SelectValue placeholder="Choose a sample submission" />
+            </SelectTrigger>
+            <SelectContent>
+              {samples.map(sample => (
+                <SelectItem key={sample.id} value={sample.id}>{sampleLabel(sample)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {samples.length === 0 ? (
+            <p className="text-sm text-gray-500">No processed submissions to preview against yet.</p>
+          ) : !preview ? (
+            <p className="text-sm text-gray-500">Loading sample submission...</p>
+          ) : (
+            <div className="space-y-3">
+              <div>
+                <h4 className="text-sm font-medium mb-1">System</h4>
+                <pre className="whitespace-pre-wrap text-xs bg-gray-50 rounded-lg p-3 max-h-40 overflow-y-auto">{preview.system}</pre>
+              </div>
+              <div>
+                <h4 className="text-sm font-medium mb-1">User</h4>
+                <pre className="whitespace-pre-wrap text-xs bg-gray-50 rounded-lg p-3 max-h-96 overflow-y-auto">{preview.user}</pre>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Version History</CardTitle>
+          <CardDescription>Each analysis run records the prompt version it used.</CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="text-center py-8 text-gray-500">Loading prompt versions...</div>
+          ) : templates.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">No prompt versions yet</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Change Note</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {templates.map((template) => (
+                  <TableRow key={template.id}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">v{template.version}</span>
+                        {template.is_active && <Badge>Active</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell>{new Date(template.created_at).toLocaleString()}</TableCell>
+                    <TableCell className="max-w-md text-sm text-gray-600">{template.change_note || '-'}</TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button size="sm" variant="outline" onClick={() => loadIntoEditor(template)}>
+                          Edit
+                        </Button>
+                        {!template.is_active && (
+                          <Button
+                            size="sm"
+                            onClick={() => handleActivate(template)}
+                            disabled={activatingId !== null}
+                          >
+                            {activatingId === template.id ? 'Activating...' : 'Activate'}
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -1,39 +1,99 @@
-
 import { useState } from 'react';
 import { Button } from '@/components/ui/button';
-import { RefreshCw, Zap } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowRight, RefreshCw, Zap } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { supabase } from '@/integrations/supabase/client';
+import {
+  streamReprocess,
+  type ReprocessCounts,
+  type ReprocessFilters,
+  type ReprocessItemResult,
+  type ReprocessStatus,
+} from '@/lib/reprocess';
+
+interface ReprocessTranscriptsButtonProps {
+  users: { id: string; name: string; email: string }[];
+  // Called after a run that wrote changes
+  onCompleted?: () => void;
+}
+
+const STATUS_STYLES: Record<ReprocessStatus, { label: string; className: string }> = {
+  updated: { label: 'Updated', className: 'bg-green-100 text-green-800' },
+  would_update: { label: 'Would update', className: 'bg-blue-100 text-blue-800' },
+  skipped: { label: 'Skipped', className: 'bg-gray-100 text-gray-800' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800' },
+};
+
+const parseIds = (text: string) => text.split(/[\s,]+/).map(id => id.trim()).filter(Boolean);
 
-export const ReprocessTranscriptsButton = () => {
+export const ReprocessTranscriptsButton = ({ users, onCompleted }: ReprocessTranscriptsButtonProps) => {
+  const [open, setOpen] = useState(false);
   const [isReprocessing, setIsReprocessing] = useState(false);
+  const [selectedUserIds, setSelectedUserIds] = useState<string[]>([]);
+  const [submissionIds, setSubmissionIds] = useState('');
+  const [createdFrom, setCreatedFrom] = useState('');
+  const [createdTo, setCreatedTo] = useState('');
+  const [onlyWithoutKPIs, setOnlyWithoutKPIs] = useState(false);
+  const [dryRun, setDryRun] = useState(true);
+  const [total, setTotal] = useState<number | null>(null);
+  const [results, setResults] = useState<ReprocessItemResult[]>([]);
+  const [summary, setSummary] = useState<(ReprocessCounts & { message: string }) | null>(null);
   const { toast } = useToast();
 
+  const toggleUser = (userId: string, checked: boolean) => {
+    setSelectedUserIds(current => checked ? [...current, userId] : current.filter(id => id !== userId));
+  };
+
   const handleReprocess = async () => {
-    setIsReprocessing(true);
-    
-    try {
-      console.log('Starting transcript reprocessing...');
-      
-      const { data, error } = await supabase.functions.invoke('reprocess-transcripts', {
-        body: {}
-      });
+    const filters: ReprocessFilters = {
+      submissionIds: parseIds(submissionIds),
+      userIds: selectedUserIds,
+      // Date inputs are local days; send the full day range
+      createdFrom: createdFrom ? new Date(`${createdFrom}T00:00:00`).toISOString() : undefined,
+      createdTo: createdTo ? new Date(`${createdTo}T23:59:59.999`).toISOString() : undefined,
+      onlyWithoutKPIs,
+      dryRun,
+    };
 
-      if (error) {
-        console.error('Reprocessing error:', error);
-        throw error;
-      }
+    setIsReprocessing(true);
+    setTotal(null);
+    setResults([]);
+    setSummary(null);
 
-      console.log('Reprocessing response:', data);
+    try {
+      console.log('Starting transcript reprocessing...', filters);
+      let wroteChanges = false;
 
-      toast({
-        title: "Reprocessing Complete",
-        description: data.message || "Transcripts have been reprocessed successfully",
+      await streamReprocess(filters, (event) => {
+        switch (event.type) {
+          case 'start':
+            setTotal(event.total);
+            break;
+          case 'item':
+            setResults(current => [...current, event.result]);
+            break;
+          case 'done':
+            setSummary(event);
+            wroteChanges = !event.dryRun && event.updatedCount > 0;
+            toast({
+              title: event.dryRun ? "Dry Run Complete" : "Reprocessing Complete",
+              description: event.message,
+            });
+            break;
+          case 'error':
+            throw new Error(event.error);
+        }
       });
 
-      // Refresh the page to show updated data
-      window.location.reload();
-      
+      if (wroteChanges) onCompleted?.();
     } catch (error) {
       console.error('Error reprocessing transcripts:', error);
       toast({
@@ -46,23 +106,165 @@ export const ReprocessTranscriptsButton = () => {
     }
   };
 
+  const userName = (userId: string) => {
+    const resultUser = users.find(u => u.id === userId);
+    return resultUser?.name || resultUser?.email || 'Unknown User';
+  };
+
   return (
-    <Button
-      onClick={handleReprocess}
-      disabled={isReprocessing}
-      className="bg-purple-600 hover:bg-purple-700 text-white"
-    >
-      {isReprocessing ? (
-        <>
-          <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
-          Reprocessing...
-        </>
-      ) : (
-        <>
-          <Zap className="w-4 h-4 mr-2" />
-          Reprocess All Transcripts
-        </>
-      )}
-    </Button>
+    <>
+      <Button
+        onClick={() => setOpen(true)}
+        className="bg-purple-600 hover:bg-purple-700 text-white"
+      >
+        <Zap className="w-4 h-4 mr-2" />
+        Reprocess Transcripts
+      </Button>
+
+      <Dialog open={open} onOpenChange={(value) => !isReprocessing && setOpen(value)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Reprocess Transcripts</DialogTitle>
+            <DialogDescription>
+              Re-run the analysis on completed submissions. Leave the filters empty to reprocess everything. A dry run shows what would change without saving.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Users</Label>
+              <div className="max-h-40 overflow-y-auto rounded-md border p-2 space-y-1">
+                {users.map(u => (
+                  <label key={u.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={selectedUserIds.includes(u.id)}
+                      onCheckedChange={(checked) => toggleUser(u.id, checked === true)}
+                      disabled={isReprocessing}
+                    />
+                    {u.name || u.email}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="reprocess-submission-ids">Submission IDs</Label>
+                <Textarea
+                  id="reprocess-submission-ids"
+                  value={submissionIds}
+                  onChange={(e) => setSubmissionIds(e.target.value)}
+                  placeholder="Comma or newline separated"
+                  className="font-mono text-xs"
+                  disabled={isReprocessing}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="reprocess-from">Submitted From</Label>
+                  <Input id="reprocess-from" type="date" value={createdFrom} onChange={(e) => setCreatedFrom(e.target.value)} disabled={isReprocessing} />
+                </div>
+                <div>
+                  <Label htmlFor="reprocess-to">Submitted To</Label>
+                  <Input id="reprocess-to" type="date" value={createdTo} onChange={(e) => setCreatedTo(e.target.value)} disabled={isReprocessing} />
+                </div>
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={onlyWithoutKPIs}
+                  onCheckedChange={(checked) => setOnlyWithoutKPIs(checked === true)}
+                  disabled={isReprocessing}
+                />
+                Only submissions without extracted KPIs
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <Switch checked={dryRun} onCheckedChange={setDryRun} disabled={isReprocessing} />
+                Dry run (report changes without saving)
+              </label>
+            </div>
+          </div>
+
+          {total !== null && (
+            <div className="space-y-1">
+              <Progress value={total === 0 ? 100 : (results.length / total) * 100} />
+              <p className="text-xs text-gray-500">
+                {results.length} of {total} submissions{summary ? ` · ${summary.message}` : ''}
+              </p>
+            </div>
+          )}
+
+          {results.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>KPIs</TableHead>
+                  <TableHead>Sentiment</TableHead>
+                  <TableHead>Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {results.map((result) => (
+                  <TableRow key={result.submissionId}>
+                    <TableCell>{userName(result.userId)}</TableCell>
+                    <TableCell>{new Date(result.createdAt).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      <Badge className={STATUS_STYLES[result.status].className}>{STATUS_STYLES[result.status].label}</Badge>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {result.after ? (
+                        <>
+                          {result.before.kpis} <ArrowRight className="inline w-3 h-3" /> {result.after.kpis}
+                        </>
+                      ) : result.before.kpis}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {result.after && result.after.sentiment !== result.before.sentiment ? (
+                        <>
+                          {result.before.sentiment || '-'} <ArrowRight className="inline w-3 h-3" /> {result.after.sentiment}
+                        </>
+                      ) : result.before.sentiment || '-'}
+                    </TableCell>
+                    <TableCell className="max-w-xs text-xs text-gray-600">
+                      <p>{result.message}</p>
+                      {result.addedKPIs.length > 0 && (
+                        <p className="text-green-700">+ {result.addedKPIs.join(', ')}</p>
+                      )}
+                      {result.removedKPIs.length > 0 && (
+                        <p className="text-red-700">− {result.removedKPIs.join(', ')}</p>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)} disabled={isReprocessing}>
+              Close
+            </Button>
+            <Button
+              onClick={handleReprocess}
+              disabled={isReprocessing}
+              className="bg-purple-600 hover:bg-purple-700 text-white"
+            >
+              {isReprocessing ? (
+                <>
+                  <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                  Reprocessing...
+                </>
+              ) : (
+                <>
+                  <Zap className="w-4 h-4 mr-2" />
+                  {dryRun ? 'Start Dry Run' : 'Reprocess'}
+                </>
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
   );
 };
@@ -0,0 +1,114 @@
+import { useState, type FormEvent } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Clock, Search } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { formatTimestamp } from '@/lib/transcript';
+import { SEARCH_SOURCE_LABELS, snippetParts, submissionLinkFor, type SearchResult } from '@/lib/search';
+
+interface SearchViewProps {
+  isAdmin: boolean;
+}
+
+export const SearchView = ({ isAdmin }: SearchViewProps) => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[] | null>(null);
+  const [semantic, setSemantic] = useState(true);
+  const [searching, setSearching] = useState(false);
+  const { toast } = useToast();
+
+  const handleSearch = async (event: FormEvent) => {
+    event.preventDefault();
+    if (query.trim().length < 2) return;
+
+    setSearching(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('search-insights', {
+        body: { query: query.trim() },
+      });
+      if (error) throw error;
+
+      setResults(data?.results || []);
+      setSemantic(data?.semantic !== false);
+    } catch (error) {
+      console.error('Error searching:', error);
+      toast({
+        title: "Search failed",
+        description: "Failed to search the submissions. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Search className="w-5 h-5" />
+          Search
+        </CardTitle>
+        <CardDescription>
+          Find statements in {isAdmin ? 'all' : 'your'} transcripts, key points, KPIs and notes by wording or by meaning.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleSearch} className="flex gap-2">
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder='e.g. "Azure migration"'
+            maxLength={500}
+          />
+          <Button type="submit" disabled={searching || query.trim().length < 2}>
+            {searching ? 'Searching...' : 'Search'}
+          </Button>
+        </form>
+
+        {results && !semantic && (
+          <p className="text-xs text-amber-700">Only exact word matches are shown; meaning-based search is unavailable right now.</p>
+        )}
+
+        {results && results.length === 0 && (
+          <p className="text-gray-500 text-center py-8">No matching statements found</p>
+        )}
+
+        {results && results.length > 0 && (
+          <div className="space-y-2">
+            {results.map(result => (
+              <Link
+                key={result.id}
+                to={submissionLinkFor(result)}
+                className="block rounded-lg border border-gray-200 p-3 hover:bg-gray-50 transition-colors"
+              >
+                <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500 mb-1">
+                  <Badge variant="outline" className="text-xs">{SEARCH_SOURCE_LABELS[result.source_type]}</Badge>
+                  {isAdmin && <span className="font-medium text-gray-700">{result.user_name || 'Unknown User'}</span>}
+                  <span>{new Date(result.submitted_at).toLocaleDateString()}</span>
+                  {result.start_seconds !== null && (
+                    <span className="flex items-center gap-1">
+                      <Clock className="w-3 h-3" />
+                      {formatTimestamp(result.start_seconds)}
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm text-gray-800">
+                  {snippetParts(result.snippet).map((part, index) =>
+                    part.match
+                      ? <mark key={index} className="bg-yellow-200 rounded px-0.5">{part.text}</mark>
+                      : part.text
+                  )}
+                </p>
+              </Link>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,126 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { CalendarDays, Languages } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { TranscriptViewer } from './TranscriptViewer';
+import { formatKPI, sortKPIValues, type ExtractedKPIValue } from '@/lib/kpis';
+import { languageName } from '@/lib/transcript';
+import type { SubmissionLink } from '@/lib/search';
+
+interface LinkedSubmission {
+  id: string;
+  user_id: string;
+  created_at: string;
+  status: string;
+  notes: string | null;
+  transcript: Json | null;
+  transcript_translated: Json | null;
+  language: string | null;
+  key_points: string[] | null;
+  ai_quotes: string[] | null;
+  extracted_kpi_values: ExtractedKPIValue[];
+}
+
+interface SubmissionDialogProps {
+  link: SubmissionLink;
+  onClose: () => void;
+}
+
+// Opens the submission a link points at, e.g. a search result. Row level
+// security decides whether the submission can be seen at all.
+export const SubmissionDialog = ({ link, onClose }: SubmissionDialogProps) => {
+  const [submission, setSubmission] = useState<LinkedSubmission | null>(null);
+  const [submitter, setSubmitter] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchSubmission = async () => {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('submissions')
+        .select('id, user_id, created_at, status, notes, transcript, transcript_translated, language, key_points, ai_quotes, extracted_kpi_values(*)')
+        .eq('id', link.submissionId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching linked submission:', error);
+      }
+      setSubmission(data ? { ...data, extracted_kpi_values: sortKPIValues(data.extracted_kpi_values) } : null);
+
+      if (data) {
+        const { data: profile } = await supabase
+          .from('profiles')
+          .select('name, email')
+          .eq('id', data.user_id)
+          .maybeSingle();
+        setSubmitter(profile?.name || profile?.email || null);
+      }
+      setLoading(false);
+    };
+
+    fetchSubmission();
+  }, [link.submissionId]);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{submitter ? `Submission by ${submitter}` : 'Submission'}</DialogTitle>
+          {submission && (
+            <DialogDescription className="flex flex-wrap items-center gap-2">
+              <CalendarDays className="w-4 h-4" />
+              {new Date(submission.created_at).toLocaleString()}
+              <Badge variant="secondary">{submission.status}</Badge>
+              {submission.language && (
+                <Badge variant="outline" className="gap-1">
+                  <Languages className="w-3 h-3" />
+                  {languageName(submission.language)}
+                </Badge>
+              )}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {loading ? (
+          <div className="text-center py-8 text-gray-500">Loading submission...</div>
+        ) : !submission ? (
+          <div className="text-center py-8 text-gray-500">
+            This submission does not exist or you do not have access to it.
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <TranscriptViewer
+              key={`${link.segmentId}-${link.keyPoint}`}
+              transcript={submission.transcript}
+              alignedTranscript={submission.transcript_translated}
+              keyPoints={submission.key_points}
+              quotes={submission.ai_quotes}
+              focusSegmentId={link.segmentId}
+              focusKeyPoint={link.keyPoint}
+            />
+
+            {submission.extracted_kpi_values.length > 0 && (
+              <div>
+                <h4 className="font-medium text-sm mb-2">KPIs</h4>
+                <div className="flex flex-wrap gap-2">
+                  {submission.extracted_kpi_values.map(kpi => (
+                    <Badge key={kpi.id} variant="outline">{formatKPI(kpi)}</Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {submission.notes && (
+              <div className="p-4 bg-blue-50 rounded-lg">
+                <h4 className="font-medium text-sm mb-2">Additional Notes:</h4>
+                <p className="text-sm text-gray-700 whitespace-pre-line">{submission.notes}</p>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { BarChart, Bar, XAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { Layers, Minus, Quote, RefreshCw, Sparkles, TrendingDown, TrendingUp, Users } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useThemes } from '@/hooks/useThemes';
+import { formatTimestamp } from '@/lib/transcript';
+import { THEME_TREND_LABELS, themeTrend, type ThemeTrend } from '@/lib/themes';
+
+interface ThemesPanelProps {
+  users: { id: string; name: string; email: string }[];
+}
+
+const TREND_STYLES: Record<ThemeTrend, { icon: typeof TrendingUp; className: string }> = {
+  rising: { icon: TrendingUp, className: 'text-green-700 bg-green-50 border-green-200' },
+  falling: { icon: TrendingDown, className: 'text-red-700 bg-red-50 border-red-200' },
+  steady: { icon: Minus, className: 'text-gray-700 bg-gray-50 border-gray-200' },
+  new: { icon: Sparkles, className: 'text-blue-700 bg-blue-50 border-blue-200' },
+};
+
+const weekLabel = (week: string) => `Week of ${new Date(`${week}T00:00:00`).toLocaleDateString()}`;
+
+export const ThemesPanel = ({ users }: ThemesPanelProps) => {
+  const { themes, loading, refetchThemes } = useThemes();
+  const [rebuilding, setRebuilding] = useState(false);
+  const { toast } = useToast();
+
+  const userLabel = (userId: string) => {
+    const themeUser = users.find(u => u.id === userId);
+    return themeUser?.name || themeUser?.email || 'Unknown User';
+  };
+
+  const handleRebuild = async () => {
+    setRebuilding(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('cluster-themes', { body: {} });
+      if (error) throw error;
+
+      toast({
+        title: "Themes rebuilt",
+        description: data?.message || 'The themes have been updated.',
+      });
+      refetchThemes();
+    } catch (error) {
+      console.error('Error rebuilding themes:', error);
+      toast({
+        title: "Rebuilding themes failed",
+        description: "Failed to rebuild the themes. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setRebuilding(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-8 text-gray-500">Loading themes...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <Layers className="w-5 h-5" />
+              Recurring Themes
+            </CardTitle>
+            <CardDescription>
+              Key points and transcript statements grouped by meaning across all submissions and named by the AI.
+              {themes[0] && ` Last rebuilt ${new Date(themes[0].generated_at).toLocaleString()}; rebuilt daily.`}
+            </CardDescription>
+          </div>
+          <Button variant="outline" onClick={handleRebuild} disabled={rebuilding}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${rebuilding ? 'animate-spin' : ''}`} />
+            {rebuilding ? 'Rebuilding...' : 'Rebuild Themes'}
+          </Button>
+        </CardHeader>
+        {themes.length === 0 && (
+          <CardContent>
+            <p className="text-gray-500 text-center py-8">
+              No themes yet. Themes are built once enough submissions have been processed.
+            </p>
+          </CardContent>
+        )}
+      </Card>
+
+      {themes.map(theme => {
+        const trend = themeTrend(theme);
+        const TrendIcon = TREND_STYLES[trend].icon;
+        return (
+          <Card key={theme.id}>
+            <CardHeader>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <CardTitle className="text-lg">{theme.label}</CardTitle>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="secondary">{theme.submission_count} submissions</Badge>
+                  <Badge variant="outline">{theme.item_count} statements</Badge>
+                  <Badge variant="outline" className={TREND_STYLES[trend].className}>
+                    <TrendIcon className="w-3 h-3 mr-1" />
+                    {THEME_TREND_LABELS[trend]}
+                  </Badge>
+                </div>
+              </div>
+              {theme.description && <CardDescription>{theme.description}</CardDescription>}
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div>
+                  <h4 className="text-sm font-medium mb-2">Submissions per week</h4>
+                  <div className="h-[120px] w-full">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart data={theme.weekly_counts} margin={{ top: 5, right: 5, left: 5, bottom: 5 }}>
+                        <XAxis
+                          dataKey="week"
+                          tick={{ fontSize: 10 }}
+                          tickFormatter={(value) => new Date(`${value}T00:00:00`).toLocaleDateString()}
+                        />
+                        <Tooltip
+                          labelFormatter={(value) => weekLabel(String(value))}
+                          formatter={(value) => [value, 'Submissions']}
+                        />
+                        <Bar dataKey="submissions" fill="#3b82f6" />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+                </div>
+                <div>
+                  <h4 className="text-sm font-medium mb-2 flex items-center gap-1">
+                    <Users className="w-4 h-4" />
+                    Contributing users ({theme.user_ids.length})
+                  </h4>
+                  <div className="flex flex-wrap gap-1">
+                    {theme.user_ids.map(userId => (
+                      <Badge key={userId} variant="outline" className="text-xs">{userLabel(userId)}</Badge>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              {theme.representative_quotes.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium flex items-center gap-1">
+                    <Quote className="w-4 h-4" />
+                    Representative quotes
+                  </h4>
+                  {theme.representative_quotes.map((quote, index) => (
+                    <blockquote key={index} className="border-l-4 border-blue-200 pl-3 text-sm text-gray-700">
+                      "{quote.content}"
+                      <footer className="text-xs text-gray-500 mt-1">
+                        {userLabel(quote.user_id)}
+                        {quote.source_type === 'key_point'
+                          ? ' · key point'
+                          : quote.start_seconds !== null && ` · ${formatTimestamp(quote.start_seconds)}`}
+                      </footer>
+                    </blockquote>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,184 @@
+import { useState, useMemo, useRef, useEffect, type ReactNode } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Search, Quote, Lightbulb } from 'lucide-react';
+import type { Json } from '@/integrations/supabase/types';
+import { findSupportingSegments, formatTimestamp, parseTranscript } from '@/lib/transcript';
+
+interface TranscriptViewerProps {
+  transcript: Json | null;
+  // English translation with the same segment ids; key points and quotes are
+  // located in it when the transcript is shown in its original language
+  alignedTranscript?: Json | null;
+  keyPoints?: string[] | null;
+  quotes?: string[] | null;
+  // Segment or key point a link points at; it is highlighted and scrolled into view
+  focusSegmentId?: number | null;
+  focusKeyPoint?: number | null;
+}
+
+interface Statement {
+  key: string;
+  type: 'key_point' | 'quote';
+  text: string;
+  segmentIds: number[];
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const highlightMatches = (text: string, query: string): ReactNode => {
+  if (!query) return text;
+  const parts = text.split(new RegExp(`(${escapeRegExp(query)})`, 'gi'));
+  return parts.map((part, index) =>
+    part.toLowerCase() === query.toLowerCase()
+      ? <mark key={index} className="bg-yellow-200 rounded px-0.5">{part}</mark>
+      : part
+  );
+};
+
+export const TranscriptViewer = ({
+  transcript,
+  alignedTranscript,
+  keyPoints,
+  quotes,
+  focusSegmentId = null,
+  focusKeyPoint = null,
+}: TranscriptViewerProps) => {
+  const [search, setSearch] = useState('');
+  const [selectedKey, setSelectedKey] = useState<string | null>(
+    focusKeyPoint !== null ? `key_point-${focusKeyPoint}` : null
+  );
+  const segmentRefs = useRef(new Map<number, HTMLDivElement>());
+
+  const parsed = useMemo(() => parseTranscript(transcript), [transcript]);
+  const statementSegments = useMemo(
+    () => alignedTranscript ? parseTranscript(alignedTranscript).segments : parsed.segments,
+    [alignedTranscript, parsed.segments]
+  );
+
+  const statements = useMemo<Statement[]>(() => [
+    ...(keyPoints || []).map((text, index) => ({
+      key: `key_point-${index}`,
+      type: 'key_point' as const,
+      text,
+      segmentIds: findSupportingSegments(text, statementSegments),
+    })),
+    ...(quotes || []).map((text, index) => ({
+      key: `quote-${index}`,
+      type: 'quote' as const,
+      text,
+      segmentIds: findSupportingSegments(text, statementSegments),
+    })),
+  ], [keyPoints, quotes, statementSegments]);
+
+  const selectedStatement = statements.find(statement => statement.key === selectedKey);
+  const highlightedIds = new Set(
+    selectedStatement?.segmentIds || (focusSegmentId !== null ? [focusSegmentId] : [])
+  );
+
+  const query = search.trim();
+  const matchingIds = useMemo(
+    () => query
+      ? parsed.segments.filter(segment => segment.text.toLowerCase().includes(query.toLowerCase())).map(segment => segment.id)
+      : [],
+    [parsed.segments, query]
+  );
+
+  // Bring the first supporting segment, search hit or linked segment into view
+  const scrollTargetId = selectedStatement?.segmentIds[0] ?? matchingIds[0] ?? focusSegmentId ?? undefined;
+  useEffect(() => {
+    if (scrollTargetId === undefined) return;
+    segmentRefs.current.get(scrollTargetId)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [scrollTargetId]);
+
+  if (!parsed.text) {
+    return (
+      <div className="p-4 bg-gray-50 rounded-lg">
+        <p className="text-sm text-gray-500">Transcript not available</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search transcript..."
+            className="pl-9"
+          />
+        </div>
+        {query && (
+          <span className="text-xs text-gray-500 whitespace-nowrap">
+            {matchingIds.length} match{matchingIds.length === 1 ? '' : 'es'}
+          </span>
+        )}
+        {parsed.duration !== null && (
+          <Badge variant="outline" className="text-xs whitespace-nowrap">
+            {formatTimestamp(parsed.duration)}
+          </Badge>
+        )}
+      </div>
+
+      {statements.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs text-gray-500">Select a key point or quote to highlight the transcript segments that support it:</p>
+          <div className="flex flex-wrap gap-2">
+            {statements.map(statement => (
+              <button
+                key={statement.key}
+                type="button"
+                onClick={() => setSelectedKey(selectedKey === statement.key ? null : statement.key)}
+                title={statement.segmentIds.length === 0 ? 'No supporting segment found in the transcript' : statement.text}
+                className={`flex items-center gap-1 max-w-xs text-left text-xs rounded-full border px-2 py-1 transition-colors ${
+                  selectedKey === statement.key
+                    ? 'border-amber-400 bg-amber-50 text-amber-900'
+                    : 'border-gray-200 hover:bg-gray-50 text-gray-700'
+                } ${statement.segmentIds.length === 0 ? 'opacity-60' : ''}`}
+              >
+                {statement.type === 'quote'
+                  ? <Quote className="w-3 h-3 shrink-0" />
+                  : <Lightbulb className="w-3 h-3 shrink-0" />}
+                <span className="truncate">{statement.text}</span>
+              </button>
+            ))}
+          </div>
+          {selectedStatement && selectedStatement.segmentIds.length === 0 && (
+            <p className="text-xs text-amber-700">No supporting segment was found in the transcript for this item.</p>
+          )}
+        </div>
+      )}
+
+      <div className="max-h-96 overflow-y-auto rounded-lg bg-gray-50 p-2 space-y-1">
+        {parsed.segments.map(segment => {
+          const isHighlighted = highlightedIds.has(segment.id);
+          const isMatch = query !== '' && matchingIds.includes(segment.id);
+          return (
+            <div
+              key={segment.id}
+              ref={(element) => {
+                if (element) segmentRefs.current.set(segment.id, element);
+                else segmentRefs.current.delete(segment.id);
+              }}
+              className={`flex gap-3 rounded px-2 py-1 border-l-2 ${
+                isHighlighted
+                  ? 'bg-amber-50 border-amber-400'
+                  : isMatch ? 'bg-white border-yellow-300' : 'border-transparent'
+              }`}
+            >
+              {parsed.hasTimestamps && (
+                <span className="text-xs font-mono text-gray-400 pt-0.5 w-14 shrink-0">
+                  {segment.start !== null ? formatTimestamp(segment.start) : ''}
+                </span>
+              )}
+              <p className="text-sm leading-relaxed">{highlightMatches(segment.text, query)}</p>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
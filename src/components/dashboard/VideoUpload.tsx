@@ -2,11 +2,17 @@ import { useState, useRef, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
 import { Textarea } from '@/components/ui/textarea';
-import { Upload, Video, AlertCircle, CheckCircle, FileText, Calendar, User, PlayCircle, FileImage, MessageSquare, Plus, ChevronDown, ChevronUp, Clock, X } from 'lucide-react';
+import { Upload, Video, AlertCircle, CheckCircle, FileText, Calendar, User, PlayCircle, FileImage, MessageSquare, Plus, ChevronDown, ChevronUp, Clock, X, Archive, Copy } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
+import { useMediaRetention } from '@/hooks/useMediaRetention';
 import { supabase } from '@/integrations/supabase/client';
+import { formatKPI, sortKPIValues, type ExtractedKPIValue } from '@/lib/kpis';
+import { MAX_UPLOAD_BYTES, MAX_UPLOAD_MB } from '@/lib/config';
+import { describeRetention, mediaExpiresAt } from '@/lib/retention';
+import { DUPLICATE_METHOD_LABELS, findDuplicateUploads, sha256Hex, type DuplicateMethod, type DuplicateUpload } from '@/lib/duplicates';
 
 const PRESET_QUESTIONS = [
   "What was your biggest achievement this week?",
@@ -22,11 +28,14 @@ interface Submission {
   notes: string | null;
   transcript: any;
   key_points: string[] | null;
-  extracted_kpis: string[] | null;
+  extracted_kpi_values: ExtractedKPIValue[];
   sentiment: string | null;
   ai_quotes: string[] | null;
   status: string;
   processing_error: string | null;
+  media_deleted_at: string | null;
+  merged_into_id: string | null;
+  submission_duplicates: { method: string; status: string }[];
   created_at: string;
   updated_at: string;
   question_index?: number;
@@ -43,16 +52,39 @@ export const VideoUpload = () => {
   const [showNotes, setShowNotes] = useState<boolean[]>([false, false, false]);
   const [submissions, setSubmissions] = useState<Submission[]>([]);
   const [loadingSubmissions, setLoadingSubmissions] = useState(true);
+  const [duplicateWarning, setDuplicateWarning] = useState<{ hashes: (string | null)[]; duplicates: DuplicateUpload[] } | null>(null);
   const videoInputRefs = useRef<(HTMLInputElement | null)[]>([null, null, null]);
   const docxInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
   const { user, profile } = useAuth();
+  const retentionPolicy = useMediaRetention(user?.id);
 
-  // Load user submissions
+  // Load user submissions and follow their processing status in real time
   useEffect(() => {
-    if (user) {
-      loadSubmissions();
-    }
+    if (!user) return;
+
+    loadSubmissions();
+
+    const channel = supabase
+      .channel(`user-submissions-${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'submissions',
+          filter: `user_id=eq.${user.id}`
+        },
+        (payload) => {
+          console.log('Submission status updated:', payload);
+          loadSubmissions();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
   }, [user]);
 
   const loadSubmissions = async () => {
@@ -61,12 +93,15 @@ export const VideoUpload = () => {
     try {
       const { data, error } = await supabase
         .from('submissions')
-        .select('*')
+        .select('*, extracted_kpi_values(*), submission_duplicates!submission_duplicates_submission_id_fkey(method, status)')
         .eq('user_id', user.id)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
-      setSubmissions(data || []);
+      setSubmissions((data || []).map(submission => ({
+        ...submission,
+        extracted_kpi_values: sortKPIValues(submission.extracted_kpi_values)
+      })));
     } catch (error) {
       console.error('Error loading submissions:', error);
       toast({
@@ -100,11 +135,11 @@ export const VideoUpload = () => {
         return;
       }
       
-      // Validate file size (25MB limit)
-      if (file.size > 25 * 1024 * 1024) {
+      // Validate file size (configured via VITE_MAX_UPLOAD_MB)
+      if (file.size > MAX_UPLOAD_BYTES) {
         toast({
           title: "File too large",
-          description: `File size is ${formatFileSize(file.size)}. Please select a video under 25MB.`,
+          description: `File size is ${formatFileSize(file.size)}. Please select a video under ${MAX_UPLOAD_MB}MB.`,
           variant: "destructive"
         });
         return;
@@ -182,6 +217,44 @@ export const VideoUpload = () => {
       return;
     }
 
+    setUploading(true);
+    setProcessing(true);
+    setProcessingStatus('Checking for duplicate uploads...');
+
+    // A failed check only loses the warning; the server compares transcripts after processing anyway
+    let hashes: (string | null)[] = selectedVideos.map(() => null);
+    let duplicates: DuplicateUpload[] = [];
+    try {
+      hashes = await Promise.all(selectedVideos.map(video => video ? sha256Hex(video) : null));
+      duplicates = await findDuplicateUploads(user.id, selectedVideos, hashes);
+    } catch (error) {
+      console.error('Error checking for duplicate uploads:', error);
+    }
+
+    if (duplicates.length > 0) {
+      setDuplicateWarning({ hashes, duplicates });
+      setUploading(false);
+      setProcessing(false);
+      setProcessingStatus('');
+      return;
+    }
+
+    await uploadVideos(hashes, []);
+  };
+
+  // Uploads the selected videos, leaving out the form positions in skipIndexes
+  const uploadVideos = async (hashes: (string | null)[], skipIndexes: number[]) => {
+    if (!user) return;
+
+    const videosToUpload = selectedVideos.filter((video, index) => video !== null && !skipIndexes.includes(index));
+    if (videosToUpload.length === 0) {
+      toast({
+        title: "Nothing to upload",
+        description: "All selected videos were skipped as duplicates.",
+      });
+      return;
+    }
+
     setUploading(true);
     setProcessing(true);
     setProcessingStatus('Uploading files...');
@@ -210,9 +283,9 @@ export const VideoUpload = () => {
       
       for (let questionIndex = 0; questionIndex < selectedVideos.length; questionIndex++) {
         const selectedVideo = selectedVideos[questionIndex];
-        if (!selectedVideo) continue;
+        if (!selectedVideo || skipIndexes.includes(questionIndex)) continue;
 
-        setProcessingStatus(`Uploading video ${questionIndex + 1}/${videosToUpload.length}...`);
+        setProcessingStatus(`Uploading video ${submissionIds.length + 1}/${videosToUpload.length}...`);
         console.log(`Uploading video for question ${questionIndex + 1}`);
 
         // Upload video to Supabase Storage
@@ -242,6 +315,7 @@ export const VideoUpload = () => {
             },
             docx_file: docxFileName,
             notes: submissionNotes,
+            content_hash: hashes[questionIndex],
             status: 'processing'
           })
           .select()
@@ -255,58 +329,16 @@ export const VideoUpload = () => {
         submissionIds.push(submission.id);
       }
 
-      setUploading(false);
-      setProcessingStatus('All files uploaded! Processing videos one by one...');
-
-      // Now process videos one by one in sequence
-      for (let i = 0; i < submissionIds.length; i++) {
-        const submissionId = submissionIds[i];
-        const questionIndex = selectedVideos.findIndex((video, idx) => video !== null && i === selectedVideos.slice(0, idx + 1).filter(v => v !== null).length - 1);
-        
-        setProcessingStatus(`Processing video ${i + 1}/${submissionIds.length} (Question: ${PRESET_QUESTIONS[questionIndex] || 'Unknown'})...`);
-        
-        console.log(`Processing submission ${i + 1}/${submissionIds.length}: ${submissionId}`);
-        
-        try {
-          // Call the edge function to process this specific submission
-          const { data: functionResult, error: processingError } = await supabase.functions.invoke('process-submission', {
-            body: { submissionId }
-          });
-
-          if (processingError) {
-            console.error('Edge function processing error:', processingError);
-            await supabase
-              .from('submissions')
-              .update({ 
-                status: 'failed', 
-                processing_error: `Processing function error: ${processingError.message}` 
-              })
-              .eq('id', submissionId);
-              
-            throw new Error(`Processing failed for video ${i + 1}: ${processingError.message}`);
-          }
-
-          console.log(`Video ${i + 1} processed successfully:`, functionResult);
-          
-          // Small delay between processing to avoid overwhelming the system
-          if (i < submissionIds.length - 1) {
-            await new Promise(resolve => setTimeout(resolve, 2000));
-          }
-          
-        } catch (error) {
-          console.error(`Error processing video ${i + 1}:`, error);
-          // Continue with next video even if one fails
-          toast({
-            title: `Video ${i + 1} processing failed`,
-            description: error instanceof Error ? error.message : "Unknown error occurred",
-            variant: "destructive"
-          });
-        }
-      }
+      // Each new submission is queued for server-side processing by a database trigger.
+      // Kick the worker so processing starts right away instead of on its next scheduled run.
+      setProcessingStatus('All files uploaded! Queuing for processing...');
+      supabase.functions.invoke('process-jobs', { body: {} }).catch((error) => {
+        console.error('Error starting processing worker:', error);
+      });
 
       toast({
-        title: "All videos processed!",
-        description: `${submissionIds.length} video(s) have been uploaded and processed with DOCX support.`,
+        title: "Videos uploaded!",
+        description: `${submissionIds.length} video(s) queued for processing. You can safely close this page while we process them.`,
       });
 
       // Reset form
@@ -361,11 +393,24 @@ export const VideoUpload = () => {
       case 'completed': return 'text-green-600 bg-green-100';
       case 'processing': return 'text-blue-600 bg-blue-100';
       case 'uploaded': return 'text-yellow-600 bg-yellow-100';
+      case 'needs_review': return 'text-amber-700 bg-amber-100';
+      case 'merged': return 'text-purple-700 bg-purple-100';
+      case 'failed':
       case 'error': return 'text-red-600 bg-red-100';
       default: return 'text-gray-600 bg-gray-100';
     }
   };
 
+  // Only finished submissions are subject to retention; failed ones keep their files for retries
+  const mediaRetentionLabel = (submission: Submission) => {
+    if (submission.media_deleted_at) return 'Media deleted';
+    if (!retentionPolicy || !['completed', 'needs_review'].includes(submission.status)) return null;
+    if (retentionPolicy.mode === 'keep_forever') return 'Media kept';
+    const expiresAt = mediaExpiresAt(submission.created_at, retentionPolicy);
+    if (!expiresAt || expiresAt.getTime() <= Date.now()) return 'Media scheduled for deletion';
+    return `Media kept until ${expiresAt.toLocaleDateString()}`;
+  };
+
   const getQuestionFromSubmission = (submission: Submission) => {
     const questionIndex = submission.video_files?.question_index;
     if (questionIndex !== undefined && questionIndex >= 0 && questionIndex < PRESET_QUESTIONS.length) {
@@ -374,6 +419,11 @@ export const VideoUpload = () => {
     return 'General Submission';
   };
 
+  const pendingDuplicateMethod = (submission: Submission) => {
+    const pending = submission.submission_duplicates.find(duplicate => duplicate.status === 'pending');
+    return pending ? DUPLICATE_METHOD_LABELS[pending.method as DuplicateMethod] || pending.method : null;
+  };
+
   const hasAnyVideosSelected = selectedVideos.some(video => video !== null);
 
   return (
@@ -428,7 +478,7 @@ export const VideoUpload = () => {
                   {question}
                 </CardTitle>
                 <CardDescription className="text-sm font-medium text-gray-600">
-                  Question {questionIndex + 1} - Upload a .mp4 video (Max: 25MB)
+                  Question {questionIndex + 1} - Upload a .mp4 video (Max: {MAX_UPLOAD_MB}MB)
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
@@ -528,7 +578,7 @@ export const VideoUpload = () => {
                     {processingStatus || 'Processing...'}
                   </div>
                 ) : (
-                  `Upload & Process All Videos (${selectedVideos.filter(v => v !== null).length})`
+                  `Upload & Queue All Videos (${selectedVideos.filter(v => v !== null).length})`
                 )}
               </Button>
               {processing && processingStatus && (
@@ -556,10 +606,13 @@ export const VideoUpload = () => {
                     <p className="font-medium">Enhanced Processing Guidelines:</p>
                     <ul className="mt-1 space-y-1 text-xs">
                       <li>• Upload a video per question (3 total).</li>
-                      <li>• Keep each video under 25MB</li>
+                      <li>• Keep each video under {MAX_UPLOAD_MB}MB</li>
                       <li>• Use .docx files for KPI data.</li>
                       <li>• Include tables, charts, and structured metrics in .docx.</li>
-                      <li>• Videos processed sequentially for reliability.</li>
+                      <li>• Processing continues on our servers, even if you close this page.</li>
+                      {retentionPolicy && (
+                        <li>• Your videos and .docx file are {describeRetention(retentionPolicy)}; transcripts and insights are kept.</li>
+                      )}
                       <li>• Speak clearly and mention specific metrics.</li>
                       <li>• Include concrete examples and numbers.</li>
                       <li>• Upload all files at once with the button below.</li>
@@ -624,6 +677,12 @@ export const VideoUpload = () => {
                             <span>Notes included</span>
                           </div>
                         )}
+                        {mediaRetentionLabel(submission) && (
+                          <div className="flex items-center gap-1">
+                            <Archive className="w-4 h-4" />
+                            <span>{mediaRetentionLabel(submission)}</span>
+                          </div>
+                        )}
                       </div>
 
                       {submission.status === 'completed' && (
@@ -642,15 +701,15 @@ export const VideoUpload = () => {
                             </div>
                           )}
                           
-                          {submission.extracted_kpis && submission.extracted_kpis.length > 0 && (
+                          {submission.extracted_kpi_values.length > 0 && (
                             <div>
                               <p className="text-sm font-medium text-gray-700">Extracted KPIs:</p>
                               <ul className="text-sm text-gray-600 list-disc list-inside ml-2">
-                                {submission.extracted_kpis.slice(0, 3).map((kpi, index) => (
-                                  <li key={index}>{kpi}</li>
+                                {submission.extracted_kpi_values.slice(0, 3).map((kpi) => (
+                                  <li key={kpi.id}>{formatKPI(kpi)}</li>
                                 ))}
-                                {submission.extracted_kpis.length > 3 && (
-                                  <li>... and {submission.extracted_kpis.length - 3} more KPIs</li>
+                                {submission.extracted_kpi_values.length > 3 && (
+                                  <li>... and {submission.extracted_kpi_values.length - 3} more KPIs</li>
                                 )}
                               </ul>
                             </div>
@@ -671,6 +730,19 @@ export const VideoUpload = () => {
                         </div>
                       )}
 
+                      {submission.status === 'merged' && (
+                        <div className="text-sm text-purple-700 bg-purple-50 p-2 rounded border">
+                          An admin merged this submission into an earlier upload of the same recording, so it no longer counts towards your KPIs.
+                        </div>
+                      )}
+
+                      {submission.status !== 'merged' && pendingDuplicateMethod(submission) && (
+                        <div className="flex items-center gap-2 text-sm text-amber-700 bg-amber-50 p-2 rounded border mb-2">
+                          <Copy className="w-4 h-4" />
+                          Possible duplicate of an earlier submission ({pendingDuplicateMethod(submission)?.toLowerCase()}). An admin will review it.
+                        </div>
+                      )}
+
                       {submission.processing_error && (
                         <div className="text-sm text-red-600 bg-red-50 p-2 rounded border">
                           Error: {submission.processing_error}
@@ -680,7 +752,7 @@ export const VideoUpload = () => {
                     
                     <div className="ml-4">
                       <span className={`px-3 py-1 rounded-full text-sm font-medium capitalize ${getStatusColor(submission.status)}`}>
-                        {submission.status}
+                        {submission.status.replace('_', ' ')}
                       </span>
                     </div>
                   </div>
@@ -690,6 +762,46 @@ export const VideoUpload = () => {
           )}
         </CardContent>
       </Card>
+
+      <AlertDialog open={duplicateWarning !== null} onOpenChange={(open) => !open && setDuplicateWarning(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Already uploaded?</AlertDialogTitle>
+            <AlertDialogDescription asChild>
+              <div className="space-y-2">
+                <p>These videos look like recordings you have uploaded before. Processing them again would count the same KPIs twice.</p>
+                <ul className="list-disc list-inside">
+                  {duplicateWarning?.duplicates.map(duplicate => (
+                    <li key={duplicate.index}>
+                      <strong>{duplicate.fileName}</strong>{' '}
+                      {duplicate.existingSubmissionAt
+                        ? `(submitted ${new Date(duplicate.existingSubmissionAt).toLocaleDateString()})`
+                        : '(selected more than once)'}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-white text-gray-900 border hover:bg-gray-100"
+              onClick={() => duplicateWarning && uploadVideos(duplicateWarning.hashes, [])}
+            >
+              Upload anyway
+            </AlertDialogAction>
+            <AlertDialogAction
+              onClick={() => duplicateWarning && uploadVideos(
+                duplicateWarning.hashes,
+                duplicateWarning.duplicates.map(duplicate => duplicate.index)
+              )}
+            >
+              Skip duplicates
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
@@ -0,0 +1,502 @@
+import { useState, useEffect, useCallback, Fragment } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { ChevronDown, ChevronUp, Copy, Plus, RefreshCw, RotateCcw, Send, Trash2, Webhook } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  DELIVERY_STATUS_LABELS,
+  SIGNATURE_HEADER,
+  WEBHOOK_EVENTS,
+  WEBHOOK_EVENT_DESCRIPTIONS,
+  isValidWebhookUrl,
+  type WebhookDelivery,
+  type WebhookDeliveryStatus,
+  type WebhookEndpoint,
+  type WebhookEvent,
+} from '@/lib/webhooks';
+
+const DELIVERY_LOG_LIMIT = 100;
+
+const STATUS_VARIANTS: Record<WebhookDeliveryStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'secondary',
+  delivering: 'secondary',
+  succeeded: 'default',
+  failed: 'destructive',
+};
+
+const emptyDraft = () => ({ name: '', url: '', events: [...WEBHOOK_EVENTS] as WebhookEvent[] });
+
+export const WebhooksPanel = () => {
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [endpointFilter, setEndpointFilter] = useState('all');
+  const [statusFilter, setStatusFilter] = useState<WebhookDeliveryStatus | 'all'>('all');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [revealedSecretId, setRevealedSecretId] = useState<string | null>(null);
+  const [draft, setDraft] = useState(emptyDraft);
+  const [creating, setCreating] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [deletingEndpoint, setDeletingEndpoint] = useState<WebhookEndpoint | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const fetchEndpoints = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('webhook_endpoints')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching webhook endpoints:', error);
+    } else {
+      setEndpoints(data || []);
+    }
+  }, []);
+
+  const fetchDeliveries = useCallback(async () => {
+    let query = supabase
+      .from('webhook_deliveries')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(DELIVERY_LOG_LIMIT);
+
+    if (endpointFilter !== 'all') query = query.eq('endpoint_id', endpointFilter);
+    if (statusFilter !== 'all') query = query.eq('status', statusFilter);
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('Error fetching webhook deliveries:', error);
+    } else {
+      setDeliveries(data || []);
+    }
+    setLoading(false);
+  }, [endpointFilter, statusFilter]);
+
+  useEffect(() => {
+    fetchEndpoints();
+  }, [fetchEndpoints]);
+
+  useEffect(() => {
+    fetchDeliveries();
+  }, [fetchDeliveries]);
+
+  const endpointName = (endpointId: string) =>
+    endpoints.find(endpoint => endpoint.id === endpointId)?.name || 'Deleted endpoint';
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    setDraft(current => ({
+      ...current,
+      events: checked
+        ? WEBHOOK_EVENTS.filter(item => item === event || current.events.includes(item))
+        : current.events.filter(item => item !== event),
+    }));
+  };
+
+  const handleCreate = async () => {
+    if (!draft.name.trim() || !isValidWebhookUrl(draft.url.trim())) {
+      toast({ title: "Invalid endpoint", description: "Enter a name and an http:// or https:// URL.", variant: "destructive" });
+      return;
+    }
+    if (draft.events.length === 0) {
+      toast({ title: "No events selected", description: "Pick at least one event to send.", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase.from('webhook_endpoints').insert({
+      name: draft.name.trim(),
+      url: draft.url.trim(),
+      events: draft.events,
+      created_by: user?.id ?? null,
+    });
+    setSaving(false);
+
+    if (error) {
+      console.error('Error creating webhook endpoint:', error);
+      toast({ title: "Error adding endpoint", description: "Failed to add the webhook endpoint.", variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Endpoint added", description: "Copy its signing secret to verify deliveries on your receiver." });
+    setCreating(false);
+    setDraft(emptyDraft());
+    fetchEndpoints();
+  };
+
+  const handleToggleActive = async (endpoint: WebhookEndpoint, isActive: boolean) => {
+    const { error } = await supabase
+      .from('webhook_endpoints')
+      .update({ is_active: isActive, updated_at: new Date().toISOString() })
+      .eq('id', endpoint.id);
+
+    if (error) {
+      console.error('Error updating webhook endpoint:', error);
+      toast({ title: "Error updating endpoint", description: "Failed to update the webhook endpoint.", variant: "destructive" });
+      return;
+    }
+    setEndpoints(current => current.map(item => item.id === endpoint.id ? { ...item, is_active: isActive } : item));
+  };
+
+  const handleDelete = async () => {
+    if (!deletingEndpoint) return;
+
+    const { error } = await supabase.from('webhook_endpoints').delete().eq('id', deletingEndpoint.id);
+    if (error) {
+      console.error('Error deleting webhook endpoint:', error);
+      toast({ title: "Error deleting endpoint", description: "Failed to delete the webhook endpoint.", variant: "destructive" });
+    } else {
+      toast({ title: "Endpoint deleted", description: `${deletingEndpoint.name} and its delivery log were removed.` });
+      if (endpointFilter === deletingEndpoint.id) setEndpointFilter('all');
+      fetchEndpoints();
+      fetchDeliveries();
+    }
+    setDeletingEndpoint(null);
+  };
+
+  const handleCopySecret = async (endpoint: WebhookEndpoint) => {
+    try {
+      await navigator.clipboard.writeText(endpoint.secret);
+      toast({ title: "Secret copied", description: `Verify the ${SIGNATURE_HEADER} header with it.` });
+    } catch {
+      setRevealedSecretId(endpoint.id);
+    }
+  };
+
+  const handleSendTest = async (endpoint: WebhookEndpoint) => {
+    setBusyId(endpoint.id);
+    try {
+      const { data, error } = await supabase.functions.invoke('deliver-webhooks', {
+        body: { testEndpointId: endpoint.id },
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: data?.ok ? "Test delivered" : "Test delivery failed",
+        description: data?.ok
+          ? `${endpoint.name} responded with HTTP ${data.status} in ${data.durationMs} ms.`
+          : data?.error || "The receiver did not accept the test event.",
+        variant: data?.ok ? undefined : "destructive",
+      });
+      fetchDeliveries();
+    } catch (error) {
+      console.error('Error sending test webhook:', error);
+      toast({ title: "Error sending test", description: "Failed to send the test event.", variant: "destructive" });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRetry = async (delivery: WebhookDelivery) => {
+    setBusyId(delivery.id);
+    try {
+      const { error } = await supabase.rpc('retry_webhook_delivery', { p_delivery_id: delivery.id });
+      if (error) throw error;
+
+      // Deliver right away instead of waiting for the next scheduled run
+      await supabase.functions.invoke('deliver-webhooks', { body: {} });
+      toast({ title: "Delivery retried", description: "The event was sent again; see the log for the outcome." });
+      fetchDeliveries();
+    } catch (error) {
+      console.error('Error retrying webhook delivery:', error);
+      toast({ title: "Error retrying delivery", description: "Failed to retry the delivery.", variant: "destructive" });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Webhook className="w-5 h-5" />
+            Webhook Endpoints
+            <Button size="sm" className="ml-auto" onClick={() => setCreating(true)}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Endpoint
+            </Button>
+          </CardTitle>
+          <CardDescription>
+            Receivers that get a signed JSON POST when the selected events happen. Failed deliveries are retried with backoff for about an hour.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          {endpoints.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">No webhook endpoints yet</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Endpoint</TableHead>
+                  <TableHead>Events</TableHead>
+                  <TableHead>Signing Secret</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {endpoints.map(endpoint => (
+                  <TableRow key={endpoint.id}>
+                    <TableCell className="max-w-xs">
+                      <p className="font-medium">{endpoint.name}</p>
+                      <p className="font-mono text-xs text-gray-500 break-all">{endpoint.url}</p>
+                    </TableCell>
+                    <TableCell className="max-w-xs">
+                      <div className="flex flex-wrap gap-1">
+                        {endpoint.events.map(event => (
+                          <Badge key={event} variant="outline" className="font-mono text-xs">{event}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <button
+                          type="button"
+                          className="font-mono text-xs text-gray-600 hover:underline"
+                          onClick={() => setRevealedSecretId(revealedSecretId === endpoint.id ? null : endpoint.id)}
+                        >
+                          {revealedSecretId === endpoint.id ? endpoint.secret : 'whsec_••••••••'}
+                        </button>
+                        <Button size="sm" variant="ghost" onClick={() => handleCopySecret(endpoint)}>
+                          <Copy className="w-3 h-3" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={endpoint.is_active}
+                        onCheckedChange={(checked) => handleToggleActive(endpoint, checked)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleSendTest(endpoint)}
+                          disabled={busyId === endpoint.id}
+                        >
+                          <Send className="w-3 h-3 mr-1" />
+                          Send Test
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => setDeletingEndpoint(endpoint)}>
+                          <Trash2 className="w-3 h-3" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            Delivery Log
+            <div className="ml-auto flex items-center gap-2">
+              <Select value={endpointFilter} onValueChange={setEndpointFilter}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All endpoints</SelectItem>
+                  {endpoints.map(endpoint => (
+                    <SelectItem key={endpoint.id} value={endpoint.id}>{endpoint.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as WebhookDeliveryStatus | 'all')}>
+                <SelectTrigger className="w-[140px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  {(Object.keys(DELIVERY_STATUS_LABELS) as WebhookDeliveryStatus[]).map(status => (
+                    <SelectItem key={status} value={status}>{DELIVERY_STATUS_LABELS[status]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" size="sm" onClick={fetchDeliveries}>
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Refresh
+              </Button>
+            </div>
+          </CardTitle>
+          <CardDescription>The last {DELIVERY_LOG_LIMIT} deliveries with the outcome of their latest attempt.</CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="text-center py-8 text-gray-500">Loading deliveries...</div>
+          ) : deliveries.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">No deliveries yet</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Endpoint</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Response</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deliveries.map(delivery => {
+                  const status = delivery.status as WebhookDeliveryStatus;
+                  const expanded = expandedId === delivery.id;
+                  return (
+                    <Fragment key={delivery.id}>
+                      <TableRow>
+                        <TableCell>
+                          <p className="font-mono text-xs">{delivery.event_type}</p>
+                          <p className="text-xs text-gray-500">{new Date(delivery.created_at).toLocaleString()}</p>
+                        </TableCell>
+                        <TableCell>{endpointName(delivery.endpoint_id)}</TableCell>
+                        <TableCell>
+                          <Badge variant={STATUS_VARIANTS[status] || 'outline'}>{DELIVERY_STATUS_LABELS[status] || delivery.status}</Badge>
+                          {status === 'pending' && delivery.attempts > 0 && (
+                            <p className="text-xs text-gray-500 mt-1">
+                              Next try {new Date(delivery.next_attempt_at).toLocaleTimeString()}
+                            </p>
+                          )}
+                        </TableCell>
+                        <TableCell>{delivery.attempts}/{delivery.max_attempts}</TableCell>
+                        <TableCell className="text-sm">
+                          {delivery.response_status !== null ? `HTTP ${delivery.response_status}` : delivery.last_error ? 'No response' : '—'}
+                          {delivery.duration_ms !== null && <span className="text-xs text-gray-500"> · {delivery.duration_ms} ms</span>}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex gap-2">
+                            <Button size="sm" variant="ghost" onClick={() => setExpandedId(expanded ? null : delivery.id)}>
+                              {expanded ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+                            </Button>
+                            {status === 'failed' && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleRetry(delivery)}
+                                disabled={busyId === delivery.id}
+                              >
+                                <RotateCcw className="w-3 h-3 mr-1" />
+                                Retry
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                      {expanded && (
+                        <TableRow>
+                          <TableCell colSpan={6} className="bg-gray-50">
+                            {delivery.last_error && (
+                              <p className="text-sm text-red-600 mb-2">{delivery.last_error}</p>
+                            )}
+                            <p className="text-xs font-medium text-gray-700">Payload</p>
+                            <pre className="text-xs bg-white border rounded p-2 overflow-x-auto max-h-64">
+                              {JSON.stringify(delivery.payload, null, 2)}
+                            </pre>
+                            {delivery.response_body && (
+                              <>
+                                <p className="text-xs font-medium text-gray-700 mt-2">Response</p>
+                                <pre className="text-xs bg-white border rounded p-2 overflow-x-auto max-h-32">{delivery.response_body}</pre>
+                              </>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={creating} onOpenChange={(open) => !saving && setCreating(open)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Webhook Endpoint</DialogTitle>
+            <DialogDescription>
+              Deliveries are signed with a secret generated for the endpoint. Local receivers must be reachable from the edge functions.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="webhook-name">Name</Label>
+              <Input
+                id="webhook-name"
+                value={draft.name}
+                onChange={(e) => setDraft(current => ({ ...current, name: e.target.value }))}
+                placeholder="Team dashboard"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="webhook-url">URL</Label>
+              <Input
+                id="webhook-url"
+                value={draft.url}
+                onChange={(e) => setDraft(current => ({ ...current, url: e.target.value }))}
+                placeholder="https://example.com/webhooks/infosight"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Events</Label>
+              {WEBHOOK_EVENTS.map(event => (
+                <label key={event} className="flex items-start gap-2 text-sm">
+                  <Checkbox
+                    checked={draft.events.includes(event)}
+                    onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                    className="mt-0.5"
+                  />
+                  <span>
+                    <span className="font-mono">{event}</span>
+                    <span className="block text-xs text-gray-500">{WEBHOOK_EVENT_DESCRIPTIONS[event]}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreating(false)} disabled={saving}>Cancel</Button>
+            <Button onClick={handleCreate} disabled={saving}>Add Endpoint</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deletingEndpoint !== null} onOpenChange={(open) => !open && setDeletingEndpoint(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Webhook Endpoint</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete <strong>{deletingEndpoint?.name}</strong>? Pending deliveries and the endpoint's delivery log are removed too.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ReferenceLine, ResponsiveContainer } from 'recharts';
+import {
+  ASPECT_COLORS,
+  ASPECT_LABELS,
+  SENTIMENT_ASPECTS,
+  formatSentimentScore,
+  type SentimentTrendPoint,
+} from '@/lib/sentiment';
+
+interface AspectSentimentChartProps {
+  data: SentimentTrendPoint[];
+}
+
+const weekLabel = (value: string) => `Week of ${new Date(`${value}T00:00:00`).toLocaleDateString()}`;
+
+export const AspectSentimentChart = ({ data }: AspectSentimentChartProps) => {
+  return (
+    <div className="h-[350px] w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis
+            dataKey="week"
+            tick={{ fontSize: 12 }}
+            tickFormatter={(value) => new Date(`${value}T00:00:00`).toLocaleDateString()}
+          />
+          <YAxis domain={[-1, 1]} ticks={[-1, -0.5, 0, 0.5, 1]} />
+          <ReferenceLine y={0} stroke="#9ca3af" />
+          <Tooltip
+            labelFormatter={(value) => weekLabel(String(value))}
+            formatter={(value, name) => [formatSentimentScore(Number(value)), name]}
+          />
+          <Legend />
+          <Line
+            type="monotone"
+            dataKey="overall"
+            stroke="#111827"
+            strokeWidth={3}
+            name="Overall"
+            connectNulls
+          />
+          {SENTIMENT_ASPECTS.map(aspect => (
+            <Line
+              key={aspect}
+              type="monotone"
+              dataKey={aspect}
+              stroke={ASPECT_COLORS[aspect]}
+              strokeWidth={2}
+              name={ASPECT_LABELS[aspect]}
+              connectNulls
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
@@ -0,0 +1,29 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { AssistantConversation } from '@/lib/assistant';
+
+// The signed-in admin's assistant conversations, most recently active first
+export const useAssistantConversations = () => {
+  const [conversations, setConversations] = useState<AssistantConversation[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchConversations = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('assistant_conversations')
+      .select('*')
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching assistant conversations:', error);
+    } else {
+      setConversations(data || []);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchConversations();
+  }, [fetchConversations]);
+
+  return { conversations, loading, refetchConversations: fetchConversations };
+};
@@ -0,0 +1,30 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { DEFAULT_CONFIDENCE_THRESHOLDS, type ConfidenceThresholds, type InsightType } from '@/lib/confidence';
+
+export const useConfidenceThresholds = () => {
+  const [thresholds, setThresholds] = useState<ConfidenceThresholds>(DEFAULT_CONFIDENCE_THRESHOLDS);
+
+  const fetchThresholds = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('confidence_thresholds')
+      .select('item_type, threshold');
+
+    if (error) {
+      console.error('Error fetching confidence thresholds:', error);
+      return;
+    }
+
+    const loaded = { ...DEFAULT_CONFIDENCE_THRESHOLDS };
+    (data || []).forEach(row => {
+      if (row.item_type in loaded) loaded[row.item_type as InsightType] = Number(row.threshold);
+    });
+    setThresholds(loaded);
+  }, []);
+
+  useEffect(() => {
+    fetchThresholds();
+  }, [fetchThresholds]);
+
+  return { thresholds, refetchThresholds: fetchThresholds };
+};
@@ -0,0 +1,32 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { parseReportVersion, type ExecutiveReport } from '@/lib/executiveReports';
+
+// Executive reports with all of their versions, most recent period first
+export const useExecutiveReports = () => {
+  const [reports, setReports] = useState<ExecutiveReport[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchReports = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('executive_reports')
+      .select('*, versions:executive_report_versions!executive_report_versions_report_id_fkey(*)')
+      .order('period_start', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching executive reports:', error);
+    } else {
+      setReports((data || []).map(({ versions, ...report }) => ({
+        ...report,
+        versions: (versions || []).map(parseReportVersion).sort((a, b) => b.version - a.version),
+      })));
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchReports();
+  }, [fetchReports]);
+
+  return { reports, loading, refetchReports: fetchReports };
+};
@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { RetentionMode, RetentionPolicy } from '@/lib/retention';
+
+// The media retention policy that applies to the given user
+export const useMediaRetention = (userId: string | undefined) => {
+  const [policy, setPolicy] = useState<RetentionPolicy | null>(null);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const fetchPolicy = async () => {
+      const { data, error } = await supabase
+        .rpc('media_retention_policy_for', { p_user_id: userId })
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching media retention policy:', error);
+        return;
+      }
+      setPolicy(data ? { mode: data.mode as RetentionMode, retention_days: data.retention_days } : null);
+    };
+
+    fetchPolicy();
+  }, [userId]);
+
+  return policy;
+};
@@ -0,0 +1,30 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { parseTheme, THEME_COLUMNS, type Theme } from '@/lib/themes';
+
+// The themes of the latest clustering run, most widespread first
+export const useThemes = () => {
+  const [themes, setThemes] = useState<Theme[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchThemes = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('themes')
+      .select(THEME_COLUMNS)
+      .order('submission_count', { ascending: false })
+      .order('item_count', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching themes:', error);
+    } else {
+      setThemes((data || []).map(parseTheme));
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchThemes();
+  }, [fetchThemes]);
+
+  return { themes, loading, refetchThemes: fetchThemes };
+};
@@ -14,118 +14,1216 @@ export type Database = {
   }
   public: {
     Tables: {
+      ai_model_prices: {
+        Row: {
+          audio_per_minute: number
+          created_at: string
+          id: string
+          input_per_million: number
+          model: string
+          output_per_million: number
+          updated_at: string
+        }
+        Insert: {
+          audio_per_minute?: number
+          created_at?: string
+          id?: string
+          input_per_million?: number
+          model: string
+          output_per_million?: number
+          updated_at?: string
+        }
+        Update: {
+          audio_per_minute?: number
+          created_at?: string
+          id?: string
+          input_per_million?: number
+          model?: string
+          output_per_million?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      ai_usage: {
+        Row: {
+          audio_seconds: number | null
+          created_at: string
+          estimated_cost: number | null
+          function_name: string
+          id: string
+          input_tokens: number | null
+          model: string
+          operation: string
+          output_tokens: number | null
+          provider: string
+          submission_id: string | null
+          user_id: string | null
+        }
+        Insert: {
+          audio_seconds?: number | null
+          created_at?: string
+          estimated_cost?: number | null
+          function_name: string
+          id?: string
+          input_tokens?: number | null
+          model: string
+          operation: string
+          output_tokens?: number | null
+          provider: string
+          submission_id?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          audio_seconds?: number | null
+          created_at?: string
+          estimated_cost?: number | null
+          function_name?: string
+          id?: string
+          input_tokens?: number | null
+          model?: string
+          operation?: string
+          output_tokens?: number | null
+          provider?: string
+          submission_id?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_usage_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: false
+            referencedRelation: "submissions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      assistant_conversations: {
+        Row: {
+          created_at: string
+          id: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      assistant_messages: {
+        Row: {
+          citations: Json
+          content: string
+          conversation_id: string
+          created_at: string
+          id: string
+          role: string
+          search_query: string | null
+        }
+        Insert: {
+          citations?: Json
+          content: string
+          conversation_id: string
+          created_at?: string
+          id?: string
+          role: string
+          search_query?: string | null
+        }
+        Update: {
+          citations?: Json
+          content?: string
+          conversation_id?: string
+          created_at?: string
+          id?: string
+          role?: string
+          search_query?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "assistant_messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "assistant_conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      confidence_thresholds: {
+        Row: {
+          item_type: string
+          threshold: number
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          item_type: string
+          threshold?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          item_type?: string
+          threshold?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      executive_report_versions: {
+        Row: {
+          achievements: string[]
+          created_at: string
+          created_by: string | null
+          headline: string
+          id: string
+          kpis: Json
+          model: string | null
+          overview: string
+          quotes: Json
+          report_id: string
+          risks: string[]
+          sentiment_summary: string
+          source: string
+          stats: Json
+          version: number
+        }
+        Insert: {
+          achievements?: string[]
+          created_at?: string
+          created_by?: string | null
+          headline: string
+          id?: string
+          kpis?: Json
+          model?: string | null
+          overview?: string
+          quotes?: Json
+          report_id: string
+          risks?: string[]
+          sentiment_summary?: string
+          source: string
+          stats?: Json
+          version: number
+        }
+        Update: {
+          achievements?: string[]
+          created_at?: string
+          created_by?: string | null
+          headline?: string
+          id?: string
+          kpis?: Json
+          model?: string | null
+          overview?: string
+          quotes?: Json
+          report_id?: string
+          risks?: string[]
+          sentiment_summary?: string
+          source?: string
+          stats?: Json
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "executive_report_versions_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "executive_reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      executive_reports: {
+        Row: {
+          created_at: string
+          current_version_id: string | null
+          id: string
+          period_end: string
+          period_start: string
+          published_at: string | null
+          published_by: string | null
+          published_version_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          current_version_id?: string | null
+          id?: string
+          period_end: string
+          period_start: string
+          published_at?: string | null
+          published_by?: string | null
+          published_version_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          current_version_id?: string | null
+          id?: string
+          period_end?: string
+          period_start?: string
+          published_at?: string | null
+          published_by?: string | null
+          published_version_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "executive_reports_current_version_id_fkey"
+            columns: ["current_version_id"]
+            isOneToOne: false
+            referencedRelation: "executive_report_versions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "executive_reports_published_version_id_fkey"
+            columns: ["published_version_id"]
+            isOneToOne: false
+            referencedRelation: "executive_report_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      extracted_kpi_values: {
+        Row: {
+          confidence: number | null
+          confirmed_at: string | null
+          confirmed_by: string | null
+          created_at: string
+          currency: string | null
+          direction: string | null
+          id: string
+          kpi_definition_id: string | null
+          match_confidence: number | null
+          metric_name: string
+          period: string | null
+          position: number
+          quote: string | null
+          raw_text: string | null
+          source: string | null
+          source_ref: Json | null
+          submission_id: string
+          unit: string | null
+          user_id: string
+          value: number | null
+          verification_issues: string[]
+          verification_status: string
+        }
+        Insert: {
+          confidence?: number | null
+          confirmed_at?: string | null
+          confirmed_by?: string | null
+          created_at?: string
+          currency?: string | null
+          direction?: string | null
+          id?: string
+          kpi_definition_id?: string | null
+          match_confidence?: number | null
+          metric_name: string
+          period?: string | null
+          position?: number
+          quote?: string | null
+          raw_text?: string | null
+          source?: string | null
+          source_ref?: Json | null
+          submission_id: string
+          unit?: string | null
+          user_id: string
+          value?: number | null
+          verification_issues?: string[]
+          verification_status?: string
+        }
+        Update: {
+          confidence?: number | null
+          confirmed_at?: string | null
+          confirmed_by?: string | null
+          created_at?: string
+          currency?: string | null
+          direction?: string | null
+          id?: string
+          kpi_definition_id?: string | null
+          match_confidence?: number | null
+          metric_name?: string
+          period?: string | null
+          position?: number
+          quote?: string | null
+          raw_text?: string | null
+          source?: string | null
+          source_ref?: Json | null
+          submission_id?: string
+          unit?: string | null
+          user_id?: string
+          value?: number | null
+          verification_issues?: string[]
+          verification_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "extracted_kpi_values_kpi_definition_id_fkey"
+            columns: ["kpi_definition_id"]
+            isOneToOne: false
+            referencedRelation: "kpi_definitions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "extracted_kpi_values_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: false
+            referencedRelation: "submissions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      insight_embeddings: {
+        Row: {
+          content: string
+          created_at: string
+          embedding: string
+          id: string
+          model: string
+          search_vector: unknown | null
+          segment_id: number | null
+          source_index: number
+          source_type: string
+          start_seconds: number | null
+          submission_id: string
+          theme_id: string | null
+          user_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          embedding: string
+          id?: string
+          model: string
+          search_vector?: never
+          segment_id?: number | null
+          source_index: number
+          source_type: string
+          start_seconds?: number | null
+          submission_id: string
+          theme_id?: string | null
+          user_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          embedding?: string
+          id?: string
+          model?: string
+          search_vector?: never
+          segment_id?: number | null
+          source_index?: number
+          source_type?: string
+          start_seconds?: number | null
+          submission_id?: string
+          theme_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "insight_embeddings_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: false
+            referencedRelation: "submissions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "insight_embeddings_theme_id_fkey"
+            columns: ["theme_id"]
+            isOneToOne: false
+            referencedRelation: "themes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      kpi_alerts: {
+        Row: {
+          anomaly_type: string
+          baseline: number
+          baseline_points: number
+          created_at: string
+          currency: string | null
+          id: string
+          kpi_definition_id: string | null
+          kpi_value_id: string | null
+          message: string
+          metric_key: string
+          metric_name: string
+          resolved_at: string | null
+          resolved_by: string | null
+          scope: string
+          score: number | null
+          severity: string
+          status: string
+          submission_id: string
+          unit: string | null
+          user_id: string
+          value: number
+        }
+        Insert: {
+          anomaly_type: string
+          baseline: number
+          baseline_points: number
+          created_at?: string
+          currency?: string | null
+          id?: string
+          kpi_definition_id?: string | null
+          kpi_value_id?: string | null
+          message: string
+          metric_key: string
+          metric_name: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          scope: string
+          score?: number | null
+          severity: string
+          status?: string
+          submission_id: string
+          unit?: string | null
+          user_id: string
+          value: number
+        }
+        Update: {
+          anomaly_type?: string
+          baseline?: number
+          baseline_points?: number
+          created_at?: string
+          currency?: string | null
+          id?: string
+          kpi_definition_id?: string | null
+          kpi_value_id?: string | null
+          message?: string
+          metric_key?: string
+          metric_name?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          scope?: string
+          score?: number | null
+          severity?: string
+          status?: string
+          submission_id?: string
+          unit?: string | null
+          user_id?: string
+          value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "kpi_alerts_kpi_definition_id_fkey"
+            columns: ["kpi_definition_id"]
+            isOneToOne: false
+            referencedRelation: "kpi_definitions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kpi_alerts_kpi_value_id_fkey"
+            columns: ["kpi_value_id"]
+            isOneToOne: false
+            referencedRelation: "extracted_kpi_values"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kpi_alerts_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: false
+            referencedRelation: "submissions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       kpi_definitions: {
         Row: {
-          category: string | null
+          category: string | null
+          created_at: string
+          created_by: string
+          description: string | null
+          id: string
+          is_active: boolean
+          name: string
+          synonyms: string[]
+          target_value: number | null
+          unit: string | null
+          updated_at: string
+        }
+        Insert: {
+          category?: string | null
+          created_at?: string
+          created_by: string
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          synonyms?: string[]
+          target_value?: number | null
+          unit?: string | null
+          updated_at?: string
+        }
+        Update: {
+          category?: string | null
+          created_at?: string
+          created_by?: string
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          synonyms?: string[]
+          target_value?: number | null
+          unit?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      kpi_match_reviews: {
+        Row: {
+          confidence: number
+          created_at: string
+          extracted_kpi_value_id: string
+          id: string
+          period_end: string
+          period_start: string
+          reason: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          resolved_kpi_id: string | null
+          status: string
+          submission_id: string
+          suggested_kpi_id: string | null
+          user_id: string
+        }
+        Insert: {
+          confidence: number
+          created_at?: string
+          extracted_kpi_value_id: string
+          id?: string
+          period_end: string
+          period_start: string
+          reason?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          resolved_kpi_id?: string | null
+          status?: string
+          submission_id: string
+          suggested_kpi_id?: string | null
+          user_id: string
+        }
+        Update: {
+          confidence?: number
+          created_at?: string
+          extracted_kpi_value_id?: string
+          id?: string
+          period_end?: string
+          period_start?: string
+          reason?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          resolved_kpi_id?: string | null
+          status?: string
+          submission_id?: string
+          suggested_kpi_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "kpi_match_reviews_extracted_kpi_value_id_fkey"
+            columns: ["extracted_kpi_value_id"]
+            isOneToOne: true
+            referencedRelation: "extracted_kpi_values"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kpi_match_reviews_resolved_kpi_id_fkey"
+            columns: ["resolved_kpi_id"]
+            isOneToOne: false
+            referencedRelation: "kpi_definitions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kpi_match_reviews_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: false
+            referencedRelation: "submissions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kpi_match_reviews_suggested_kpi_id_fkey"
+            columns: ["suggested_kpi_id"]
+            isOneToOne: false
+            referencedRelation: "kpi_definitions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      media_cleanup_log: {
+        Row: {
+          file_path: string
+          id: string
+          policy_mode: string
+          reason: string
+          removed_at: string
+          retention_days: number | null
+          submission_id: string | null
+          user_id: string | null
+        }
+        Insert: {
+          file_path: string
+          id?: string
+          policy_mode: string
+          reason: string
+          removed_at?: string
+          retention_days?: number | null
+          submission_id?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          file_path?: string
+          id?: string
+          policy_mode?: string
+          reason?: string
+          removed_at?: string
+          retention_days?: number | null
+          submission_id?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "media_cleanup_log_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: false
+            referencedRelation: "submissions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      media_retention_policies: {
+        Row: {
+          applies_to: string
+          mode: string
+          retention_days: number | null
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          applies_to: string
+          mode: string
+          retention_days?: number | null
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          applies_to?: string
+          mode?: string
+          retention_days?: number | null
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      processing_jobs: {
+        Row: {
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          id: string
+          job_type: string
+          last_error: string | null
+          locked_at: string | null
+          locked_by: string | null
+          max_attempts: number
+          run_after: string
+          status: string
+          submission_id: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          job_type?: string
+          last_error?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
+          max_attempts?: number
+          run_after?: string
+          status?: string
+          submission_id: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          job_type?: string
+          last_error?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
+          max_attempts?: number
+          run_after?: string
+          status?: string
+          submission_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "processing_jobs_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: false
+            referencedRelation: "submissions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          email: string
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          id: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      prompt_templates: {
+        Row: {
+          activated_at: string | null
+          change_note: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          is_active: boolean
+          name: string
+          system_prompt: string
+          user_prompt: string
+          version: number
+        }
+        Insert: {
+          activated_at?: string | null
+          change_note?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          system_prompt: string
+          user_prompt: string
+          version: number
+        }
+        Update: {
+          activated_at?: string | null
+          change_note?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          system_prompt?: string
+          user_prompt?: string
+          version?: number
+        }
+        Relationships: []
+      }
+      submission_analyses: {
+        Row: {
+          ai_quotes: string[]
+          aspect_sentiments: Json
+          created_at: string
+          extracted_kpis: Json
+          id: string
+          key_point_confidences: number[]
+          key_points: string[]
+          model: string | null
+          prompt_template_id: string | null
+          prompt_version: string | null
+          provider: string | null
+          quote_evidence: Json
+          raw_output: string | null
+          repair_attempts: number
+          sentiment: string | null
+          sentiment_confidence: number | null
+          sentiment_score: number | null
+          status: string
+          submission_id: string
+          trigger: string
+          user_id: string
+          validation_errors: string[]
+          version: number
+        }
+        Insert: {
+          ai_quotes?: string[]
+          aspect_sentiments?: Json
+          created_at?: string
+          extracted_kpis?: Json
+          id?: string
+          key_point_confidences?: number[]
+          key_points?: string[]
+          model?: string | null
+          prompt_template_id?: string | null
+          prompt_version?: string | null
+          provider?: string | null
+          quote_evidence?: Json
+          raw_output?: string | null
+          repair_attempts?: number
+          sentiment?: string | null
+          sentiment_confidence?: number | null
+          sentiment_score?: number | null
+          status?: string
+          submission_id: string
+          trigger: string
+          user_id: string
+          validation_errors?: string[]
+          version: number
+        }
+        Update: {
+          ai_quotes?: string[]
+          aspect_sentiments?: Json
+          created_at?: string
+          extracted_kpis?: Json
+          id?: string
+          key_point_confidences?: number[]
+          key_points?: string[]
+          model?: string | null
+          prompt_template_id?: string | null
+          prompt_version?: string | null
+          provider?: string | null
+          quote_evidence?: Json
+          raw_output?: string | null
+          repair_attempts?: number
+          sentiment?: string | null
+          sentiment_confidence?: number | null
+          sentiment_score?: number | null
+          status?: string
+          submission_id?: string
+          trigger?: string
+          user_id?: string
+          validation_errors?: string[]
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "submission_analyses_prompt_template_id_fkey"
+            columns: ["prompt_template_id"]
+            isOneToOne: false
+            referencedRelation: "prompt_templates"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "submission_analyses_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: false
+            referencedRelation: "submissions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      submission_aspect_sentiments: {
+        Row: {
+          aspect: string
+          created_at: string
+          id: string
+          quote: string | null
+          score: number
+          submission_id: string
+          user_id: string
+        }
+        Insert: {
+          aspect: string
+          created_at?: string
+          id?: string
+          quote?: string | null
+          score: number
+          submission_id: string
+          user_id: string
+        }
+        Update: {
+          aspect?: string
+          created_at?: string
+          id?: string
+          quote?: string | null
+          score?: number
+          submission_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "submission_aspect_sentiments_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: false
+            referencedRelation: "submissions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      submission_duplicates: {
+        Row: {
           created_at: string
-          created_by: string
-          description: string | null
+          duplicate_of_id: string
           id: string
-          is_active: boolean
-          name: string
-          target_value: number | null
-          unit: string | null
-          updated_at: string
+          method: string
+          resolved_at: string | null
+          resolved_by: string | null
+          similarity: number
+          status: string
+          submission_id: string
+          user_id: string
         }
         Insert: {
-          category?: string | null
           created_at?: string
-          created_by: string
-          description?: string | null
+          duplicate_of_id: string
           id?: string
-          is_active?: boolean
-          name: string
-          target_value?: number | null
-          unit?: string | null
-          updated_at?: string
+          method: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          similarity: number
+          status?: string
+          submission_id: string
+          user_id: string
         }
         Update: {
-          category?: string | null
           created_at?: string
-          created_by?: string
-          description?: string | null
+          duplicate_of_id?: string
           id?: string
-          is_active?: boolean
-          name?: string
-          target_value?: number | null
-          unit?: string | null
-          updated_at?: string
+          method?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          similarity?: number
+          status?: string
+          submission_id?: string
+          user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "submission_duplicates_duplicate_of_id_fkey"
+            columns: ["duplicate_of_id"]
+            isOneToOne: false
+            referencedRelation: "submissions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "submission_duplicates_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: false
+            referencedRelation: "submissions"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      profiles: {
+      submission_pii_originals: {
         Row: {
           created_at: string
-          email: string
-          id: string
-          name: string
-          updated_at: string
+          docx_content: Json | null
+          notes: string | null
+          submission_id: string
+          transcript: Json | null
         }
         Insert: {
           created_at?: string
-          email: string
-          id: string
-          name: string
-          updated_at?: string
+          docx_content?: Json | null
+          notes?: string | null
+          submission_id: string
+          transcript?: Json | null
         }
         Update: {
           created_at?: string
-          email?: string
-          id?: string
-          name?: string
-          updated_at?: string
+          docx_content?: Json | null
+          notes?: string | null
+          submission_id?: string
+          transcript?: Json | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "submission_pii_originals_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: true
+            referencedRelation: "submissions"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       submissions: {
         Row: {
+          active_analysis_id: string | null
           ai_quotes: string[] | null
+          confirmed_key_points: string[]
+          confirmed_sentiment: string | null
+          content_hash: string | null
           created_at: string
+          docx_content: Json | null
           docx_file: string | null
+          embedded_analysis_id: string | null
           extracted_kpis: string[] | null
           id: string
+          key_point_confidences: number[]
           key_points: string[] | null
+          language: string | null
+          media_deleted_at: string | null
+          merged_at: string | null
+          merged_by: string | null
+          merged_into_id: string | null
           notes: string | null
+          pii_redaction: Json | null
           processing_error: string | null
+          quote_evidence: Json
           sentiment: string | null
+          sentiment_confidence: number | null
+          sentiment_score: number | null
           status: string
           transcript: Json | null
+          transcript_translated: Json | null
           updated_at: string
           user_id: string
           video_files: Json
         }
         Insert: {
+          active_analysis_id?: string | null
           ai_quotes?: string[] | null
+          confirmed_key_points?: string[]
+          confirmed_sentiment?: string | null
+          content_hash?: string | null
           created_at?: string
+          docx_content?: Json | null
           docx_file?: string | null
+          embedded_analysis_id?: string | null
           extracted_kpis?: string[] | null
           id?: string
+          key_point_confidences?: number[]
           key_points?: string[] | null
+          language?: string | null
+          media_deleted_at?: string | null
+          merged_at?: string | null
+          merged_by?: string | null
+          merged_into_id?: string | null
           notes?: string | null
+          pii_redaction?: Json | null
           processing_error?: string | null
+          quote_evidence?: Json
           sentiment?: string | null
+          sentiment_confidence?: number | null
+          sentiment_score?: number | null
           status?: string
           transcript?: Json | null
+          transcript_translated?: Json | null
           updated_at?: string
           user_id: string
           video_files: Json
         }
         Update: {
+          active_analysis_id?: string | null
           ai_quotes?: string[] | null
+          confirmed_key_points?: string[]
+          confirmed_sentiment?: string | null
+          content_hash?: string | null
           created_at?: string
+          docx_content?: Json | null
           docx_file?: string | null
+          embedded_analysis_id?: string | null
           extracted_kpis?: string[] | null
           id?: string
+          key_point_confidences?: number[]
           key_points?: string[] | null
+          language?: string | null
+          media_deleted_at?: string | null
+          merged_at?: string | null
+          merged_by?: string | null
+          merged_into_id?: string | null
           notes?: string | null
+          pii_redaction?: Json | null
           processing_error?: string | null
+          quote_evidence?: Json
           sentiment?: string | null
+          sentiment_confidence?: number | null
+          sentiment_score?: number | null
           status?: string
           transcript?: Json | null
+          transcript_translated?: Json | null
           updated_at?: string
           user_id?: string
           video_files?: Json
         }
+        Relationships: [
+          {
+            foreignKeyName: "submissions_active_analysis_id_fkey"
+            columns: ["active_analysis_id"]
+            isOneToOne: false
+            referencedRelation: "submission_analyses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "submissions_embedded_analysis_id_fkey"
+            columns: ["embedded_analysis_id"]
+            isOneToOne: false
+            referencedRelation: "submission_analyses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "submissions_merged_into_id_fkey"
+            columns: ["merged_into_id"]
+            isOneToOne: false
+            referencedRelation: "submissions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      themes: {
+        Row: {
+          centroid: string | null
+          description: string | null
+          generated_at: string
+          id: string
+          item_count: number
+          label: string
+          representative_quotes: Json
+          submission_count: number
+          user_ids: string[]
+          weekly_counts: Json
+        }
+        Insert: {
+          centroid?: string | null
+          description?: string | null
+          generated_at?: string
+          id?: string
+          item_count: number
+          label: string
+          representative_quotes?: Json
+          submission_count: number
+          user_ids?: string[]
+          weekly_counts?: Json
+        }
+        Update: {
+          centroid?: string | null
+          description?: string | null
+          generated_at?: string
+          id?: string
+          item_count?: number
+          label?: string
+          representative_quotes?: Json
+          submission_count?: number
+          user_ids?: string[]
+          weekly_counts?: Json
+        }
         Relationships: []
       }
       user_kpi_performance: {
@@ -197,12 +1295,385 @@ export type Database = {
         }
         Relationships: []
       }
+      webhook_deliveries: {
+        Row: {
+          attempts: number
+          created_at: string
+          delivered_at: string | null
+          duration_ms: number | null
+          endpoint_id: string
+          event_type: string
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          max_attempts: number
+          next_attempt_at: string
+          payload: Json
+          response_body: string | null
+          response_status: number | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          duration_ms?: number | null
+          endpoint_id: string
+          event_type: string
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          payload: Json
+          response_body?: string | null
+          response_status?: number | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          duration_ms?: number | null
+          endpoint_id?: string
+          event_type?: string
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          payload?: Json
+          response_body?: string | null
+          response_status?: number | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_deliveries_endpoint_id_fkey"
+            columns: ["endpoint_id"]
+            isOneToOne: false
+            referencedRelation: "webhook_endpoints"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhook_endpoints: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          events: string[]
+          id: string
+          is_active: boolean
+          name: string
+          secret: string
+          updated_at: string
+          url: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          events: string[]
+          id?: string
+          is_active?: boolean
+          name: string
+          secret?: string
+          updated_at?: string
+          url: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          events?: string[]
+          id?: string
+          is_active?: boolean
+          name?: string
+          secret?: string
+          updated_at?: string
+          url?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
-      [_ in never]: never
+      user_kpi_weekly_performance: {
+        Row: {
+          kpi_id: string | null
+          period_end: string | null
+          period_start: string | null
+          submission_id: string | null
+          user_id: string | null
+          value: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_kpi_performance_kpi_id_fkey"
+            columns: ["kpi_id"]
+            isOneToOne: false
+            referencedRelation: "kpi_definitions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_kpi_performance_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: false
+            referencedRelation: "submissions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
-      [_ in never]: never
+      activate_prompt_template: {
+        Args: {
+          p_template_id: string
+        }
+        Returns: {
+          activated_at: string | null
+          change_note: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          is_active: boolean
+          name: string
+          system_prompt: string
+          user_prompt: string
+          version: number
+        }
+      }
+      claim_processing_jobs: {
+        Args: {
+          p_limit?: number
+          p_stale_seconds?: number
+          p_worker_id: string
+        }
+        Returns: {
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          id: string
+          job_type: string
+          last_error: string | null
+          locked_at: string | null
+          locked_by: string | null
+          max_attempts: number
+          run_after: string
+          status: string
+          submission_id: string
+          updated_at: string
+        }[]
+      }
+      claim_webhook_deliveries: {
+        Args: {
+          p_limit?: number
+          p_stale_seconds?: number
+        }
+        Returns: {
+          attempts: number
+          created_at: string
+          delivered_at: string | null
+          duration_ms: number | null
+          endpoint_id: string
+          event_type: string
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          max_attempts: number
+          next_attempt_at: string
+          payload: Json
+          response_body: string | null
+          response_status: number | null
+          status: string
+          updated_at: string
+        }[]
+      }
+      confirm_insight: {
+        Args: {
+          p_item?: string
+          p_item_type: string
+          p_submission_id: string
+        }
+        Returns: undefined
+      }
+      enqueue_webhook_event: {
+        Args: {
+          p_event_type: string
+          p_payload: Json
+        }
+        Returns: number
+      }
+      media_cleanup_candidates: {
+        Args: {
+          p_limit?: number
+        }
+        Returns: {
+          created_at: string
+          docx_file: string
+          id: string
+          mode: string
+          retention_days: number
+          user_id: string
+          video_files: Json
+        }[]
+      }
+      media_retention_policy_for: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: {
+          mode: string
+          retention_days: number
+        }[]
+      }
+      publish_executive_report: {
+        Args: {
+          p_report_id: string
+        }
+        Returns: undefined
+      }
+      resolve_kpi_alert: {
+        Args: {
+          p_alert_id: string
+          p_status: string
+        }
+        Returns: {
+          anomaly_type: string
+          baseline: number
+          baseline_points: number
+          created_at: string
+          currency: string | null
+          id: string
+          kpi_definition_id: string | null
+          kpi_value_id: string | null
+          message: string
+          metric_key: string
+          metric_name: string
+          resolved_at: string | null
+          resolved_by: string | null
+          scope: string
+          score: number | null
+          severity: string
+          status: string
+          submission_id: string
+          unit: string | null
+          user_id: string
+          value: number
+        }
+      }
+      resolve_kpi_match_review: {
+        Args: {
+          p_kpi_id?: string
+          p_review_id: string
+        }
+        Returns: {
+          confidence: number
+          created_at: string
+          extracted_kpi_value_id: string
+          id: string
+          period_end: string
+          period_start: string
+          reason: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          resolved_kpi_id: string | null
+          status: string
+          submission_id: string
+          suggested_kpi_id: string | null
+          user_id: string
+        }
+      }
+      resolve_submission_duplicate: {
+        Args: {
+          p_duplicate_id: string
+          p_merge: boolean
+        }
+        Returns: {
+          created_at: string
+          duplicate_of_id: string
+          id: string
+          method: string
+          resolved_at: string | null
+          resolved_by: string | null
+          similarity: number
+          status: string
+          submission_id: string
+          user_id: string
+        }
+      }
+      retry_webhook_delivery: {
+        Args: {
+          p_delivery_id: string
+        }
+        Returns: {
+          attempts: number
+          created_at: string
+          delivered_at: string | null
+          duration_ms: number | null
+          endpoint_id: string
+          event_type: string
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          max_attempts: number
+          next_attempt_at: string
+          payload: Json
+          response_body: string | null
+          response_status: number | null
+          status: string
+          updated_at: string
+        }
+      }
+      save_executive_report_edit: {
+        Args: {
+          p_achievements: string[]
+          p_headline: string
+          p_overview: string
+          p_quotes: Json
+          p_report_id: string
+          p_risks: string[]
+          p_sentiment_summary: string
+        }
+        Returns: string
+      }
+      search_insights: {
+        Args: {
+          p_limit?: number
+          p_query: string
+          p_query_embedding?: string
+          p_source_types?: string[]
+          p_submitted_after?: string
+        }
+        Returns: {
+          content: string
+          id: string
+          score: number
+          segment_id: number
+          snippet: string
+          source_index: number
+          source_type: string
+          start_seconds: number
+          submission_id: string
+          submitted_at: string
+          user_id: string
+          user_name: string
+        }[]
+      }
+      submissions_needing_embeddings: {
+        Args: {
+          p_limit?: number
+        }
+        Returns: {
+          active_analysis_id: string
+          id: string
+          key_points: string[]
+          notes: string
+          transcript: Json
+          transcript_translated: Json
+          user_id: string
+        }[]
+      }
     }
     Enums: {
       app_role: "admin" | "team_lead" | "user"
@@ -0,0 +1,70 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type AIUsageRecord = Database['public']['Tables']['ai_usage']['Row'];
+export type AIModelPrice = Database['public']['Tables']['ai_model_prices']['Row'];
+
+export interface AIUsageTotals {
+  key: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  audioSeconds: number;
+  cost: number;
+  // Calls whose model had no price when they were made
+  unpricedCalls: number;
+}
+
+const emptyTotals = (key: string): AIUsageTotals => ({
+  key,
+  calls: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  audioSeconds: 0,
+  cost: 0,
+  unpricedCalls: 0,
+});
+
+const addUsage = (totals: AIUsageTotals, record: AIUsageRecord) => {
+  totals.calls++;
+  totals.inputTokens += record.input_tokens || 0;
+  totals.outputTokens += record.output_tokens || 0;
+  totals.audioSeconds += Number(record.audio_seconds) || 0;
+  if (record.estimated_cost === null) totals.unpricedCalls++;
+  else totals.cost += Number(record.estimated_cost);
+};
+
+export const totalUsage = (records: AIUsageRecord[]): AIUsageTotals => {
+  const totals = emptyTotals('total');
+  records.forEach(record => addUsage(totals, record));
+  return totals;
+};
+
+// Totals per key, most expensive first
+export const groupUsage = (records: AIUsageRecord[], keyOf: (record: AIUsageRecord) => string): AIUsageTotals[] => {
+  const groups = new Map<string, AIUsageTotals>();
+  records.forEach(record => {
+    const key = keyOf(record);
+    if (!groups.has(key)) groups.set(key, emptyTotals(key));
+    addUsage(groups.get(key)!, record);
+  });
+  return [...groups.values()].sort((a, b) => b.cost - a.cost);
+};
+
+// Calendar month of the call in local time, e.g. "2025-07"
+export const usageMonth = (record: AIUsageRecord) => {
+  const date = new Date(record.created_at);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+export const formatCost = (cost: number) =>
+  new Intl.NumberFormat(undefined, {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: cost > 0 && cost < 1 ? 4 : 2,
+  }).format(cost);
+
+export const formatTokens = (tokens: number) =>
+  tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M`
+    : tokens >= 1_000 ? `${(tokens / 1_000).toFixed(1)}k`
+      : tokens.toString();
@@ -0,0 +1,111 @@
+import type { Database, Json } from '@/integrations/supabase/types';
+import { kpiMetricKey, type ExtractedKPIValue } from '@/lib/kpis';
+
+export type SubmissionAnalysis = Database['public']['Tables']['submission_analyses']['Row'];
+
+export type AnalysisKPI = Pick<
+  ExtractedKPIValue,
+  'metric_name' | 'value' | 'unit' | 'currency' | 'period' | 'direction' | 'source' | 'quote' | 'raw_text'
+>;
+
+export const ANALYSIS_TRIGGER_LABELS: Record<string, string> = {
+  'process-submission': 'Initial processing',
+  'reprocess-transcripts': 'Reprocessing',
+  legacy: 'Before history',
+};
+
+const optionalString = (value: Json | undefined) => (typeof value === 'string' ? value : null);
+
+// submission_analyses.extracted_kpis holds the normalized KPI objects of the run
+export const parseAnalysisKPIs = (kpis: Json): AnalysisKPI[] => {
+  if (!Array.isArray(kpis)) return [];
+  return kpis
+    .filter((kpi): kpi is { [key: string]: Json } => !!kpi && typeof kpi === 'object' && !Array.isArray(kpi))
+    .map(kpi => ({
+      metric_name: optionalString(kpi.metric_name) || 'Unknown metric',
+      value: typeof kpi.value === 'number' ? kpi.value : null,
+      unit: optionalString(kpi.unit),
+      currency: optionalString(kpi.currency),
+      period: optionalString(kpi.period),
+      direction: optionalString(kpi.direction),
+      source: optionalString(kpi.source),
+      quote: optionalString(kpi.quote),
+      raw_text: null,
+    }));
+};
+
+export interface ListDiff {
+  added: string[];
+  removed: string[];
+  unchanged: string[];
+}
+
+export interface KPIChange {
+  name: string;
+  before: AnalysisKPI;
+  after: AnalysisKPI;
+}
+
+export interface AnalysisDiff {
+  sentiment: { before: string | null; after: string | null } | null;
+  keyPoints: ListDiff;
+  quotes: ListDiff;
+  kpis: {
+    added: AnalysisKPI[];
+    removed: AnalysisKPI[];
+    changed: KPIChange[];
+    unchanged: AnalysisKPI[];
+  };
+}
+
+const normalizeStatement = (text: string) => text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const diffLists = (before: string[], after: string[]): ListDiff => {
+  const beforeKeys = new Set(before.map(normalizeStatement));
+  const afterKeys = new Set(after.map(normalizeStatement));
+  return {
+    added: after.filter(item => !beforeKeys.has(normalizeStatement(item))),
+    removed: before.filter(item => !afterKeys.has(normalizeStatement(item))),
+    unchanged: after.filter(item => beforeKeys.has(normalizeStatement(item))),
+  };
+};
+
+const sameKPIValue = (a: AnalysisKPI, b: AnalysisKPI) =>
+  a.value === b.value &&
+  (a.unit || null) === (b.unit || null) &&
+  (a.currency || null) === (b.currency || null) &&
+  (a.period || null) === (b.period || null) &&
+  (a.direction || null) === (b.direction || null);
+
+// KPIs are compared by metric name; the first value wins when a run repeats a metric
+const kpisByMetric = (kpis: AnalysisKPI[]) => {
+  const metrics = new Map<string, AnalysisKPI>();
+  kpis.forEach(kpi => {
+    const key = kpiMetricKey(kpi.metric_name);
+    if (!metrics.has(key)) metrics.set(key, kpi);
+  });
+  return metrics;
+};
+
+export const diffAnalyses = (before: SubmissionAnalysis, after: SubmissionAnalysis): AnalysisDiff => {
+  const beforeKPIs = kpisByMetric(parseAnalysisKPIs(before.extracted_kpis));
+  const afterKPIs = kpisByMetric(parseAnalysisKPIs(after.extracted_kpis));
+
+  const kpis: AnalysisDiff['kpis'] = { added: [], removed: [], changed: [], unchanged: [] };
+  afterKPIs.forEach((kpi, key) => {
+    const previous = beforeKPIs.get(key);
+    if (!previous) kpis.added.push(kpi);
+    else if (sameKPIValue(previous, kpi)) kpis.unchanged.push(kpi);
+    else kpis.changed.push({ name: kpi.metric_name, before: previous, after: kpi });
+  });
+  beforeKPIs.forEach((kpi, key) => {
+    if (!afterKPIs.has(key)) kpis.removed.push(kpi);
+  });
+
+  return {
+    sentiment: before.sentiment === after.sentiment ? null : { before: before.sentiment, after: after.sentiment },
+    keyPoints: diffLists(before.key_points, after.key_points),
+    quotes: diffLists(before.ai_quotes, after.ai_quotes),
+    kpis,
+  };
+};
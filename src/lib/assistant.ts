@@ -0,0 +1,63 @@
+import type { Database, Json } from '@/integrations/supabase/types';
+import type { SearchResult, SearchSourceType } from '@/lib/search';
+
+// Mirrors supabase/functions/_shared/assistant.ts: admins' questions answered
+// from the submissions, with every claim citing its source as [1], [2], ...
+
+export type AssistantConversation = Database['public']['Tables']['assistant_conversations']['Row'];
+
+type AssistantMessageRow = Database['public']['Tables']['assistant_messages']['Row'];
+
+export type Citation = Pick<
+  SearchResult,
+  'submission_id' | 'user_id' | 'user_name' | 'source_type' | 'source_index' | 'segment_id' | 'start_seconds' | 'content' | 'submitted_at'
+> & {
+  ref: number;
+};
+
+export interface AssistantMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  citations: Citation[];
+  created_at: string;
+}
+
+const SOURCE_TYPES: SearchSourceType[] = ['key_point', 'transcript_segment', 'kpi', 'note'];
+
+const numberOrNull = (value: Json | undefined) => typeof value === 'number' ? value : null;
+
+const parseCitations = (value: Json): Citation[] =>
+  (Array.isArray(value) ? value : [])
+    .filter((item): item is { [key: string]: Json } => !!item && typeof item === 'object' && !Array.isArray(item))
+    .filter(item => typeof item.ref === 'number' && SOURCE_TYPES.includes(item.source_type as SearchSourceType))
+    .map(item => ({
+      ref: item.ref as number,
+      submission_id: String(item.submission_id),
+      user_id: String(item.user_id),
+      user_name: typeof item.user_name === 'string' ? item.user_name : null,
+      source_type: item.source_type as SearchSourceType,
+      source_index: Number(item.source_index) || 0,
+      segment_id: numberOrNull(item.segment_id),
+      start_seconds: numberOrNull(item.start_seconds),
+      content: String(item.content ?? ''),
+      submitted_at: String(item.submitted_at),
+    }));
+
+export const parseAssistantMessage = (row: AssistantMessageRow): AssistantMessage => ({
+  id: row.id,
+  role: row.role === 'assistant' ? 'assistant' : 'user',
+  content: row.content,
+  citations: parseCitations(row.citations),
+  created_at: row.created_at,
+});
+
+// "Two teams [1][3]." -> text and citation markers, so the markers can be rendered as links
+export const answerParts = (content: string) =>
+  content
+    .split(/(\[\d+\])/)
+    .filter(Boolean)
+    .map(part => {
+      const marker = part.match(/^\[(\d+)\]$/);
+      return { text: part, ref: marker ? Number(marker[1]) : null };
+    });
@@ -0,0 +1,65 @@
+import type { ExtractedKPIValue } from '@/lib/kpis';
+import type { AspectSentimentRow } from '@/lib/sentiment';
+
+// Items the model scored below the admin-configured threshold are left out of
+// aggregate charts until an admin confirms them. Unscored items (analyses from
+// before confidence scores) always count as confirmed.
+
+export type InsightType = 'kpi' | 'key_point' | 'sentiment';
+
+export type ConfidenceThresholds = Record<InsightType, number>;
+
+export const INSIGHT_TYPE_LABELS: Record<InsightType, string> = {
+  kpi: 'KPIs',
+  key_point: 'Key points',
+  sentiment: 'Sentiment',
+};
+
+export const DEFAULT_CONFIDENCE_THRESHOLDS: ConfidenceThresholds = {
+  kpi: 0.7,
+  key_point: 0.6,
+  sentiment: 0.6,
+};
+
+export interface ScoredSubmission {
+  key_points?: string[] | null;
+  key_point_confidences?: (number | null)[] | null;
+  confirmed_key_points?: string[] | null;
+  sentiment?: string | null;
+  sentiment_confidence?: number | null;
+  confirmed_sentiment?: string | null;
+  sentiment_score?: number | null;
+  submission_aspect_sentiments?: AspectSentimentRow[];
+  extracted_kpi_values: ExtractedKPIValue[];
+}
+
+export const isLowConfidence = (confidence: number | null | undefined, threshold: number) =>
+  confidence !== null && confidence !== undefined && confidence < threshold;
+
+export const formatConfidence = (confidence: number) => `${Math.round(confidence * 100)}%`;
+
+export const kpiNeedsConfirmation = (kpi: ExtractedKPIValue, thresholds: ConfidenceThresholds) =>
+  isLowConfidence(kpi.confidence, thresholds.kpi) && !kpi.confirmed_at;
+
+export const keyPointNeedsConfirmation = (submission: ScoredSubmission, index: number, thresholds: ConfidenceThresholds) => {
+  const keyPoint = submission.key_points?.[index];
+  return !!keyPoint &&
+    isLowConfidence(submission.key_point_confidences?.[index], thresholds.key_point) &&
+    !(submission.confirmed_key_points || []).includes(keyPoint);
+};
+
+export const sentimentNeedsConfirmation = (submission: ScoredSubmission, thresholds: ConfidenceThresholds) =>
+  !!submission.sentiment &&
+  isLowConfidence(submission.sentiment_confidence, thresholds.sentiment) &&
+  submission.confirmed_sentiment !== submission.sentiment;
+
+// The submission as the "confirmed only" charts see it. Sentiment scores share
+// the confidence of the sentiment label.
+export const confirmedInsights = <T extends ScoredSubmission>(submission: T, thresholds: ConfidenceThresholds): T => ({
+  ...submission,
+  extracted_kpi_values: submission.extracted_kpi_values.filter(kpi => !kpiNeedsConfirmation(kpi, thresholds)),
+  key_points: submission.key_points?.filter((_, index) => !keyPointNeedsConfirmation(submission, index, thresholds)) ?? null,
+  ...(sentimentNeedsConfirmation(submission, thresholds)
+    ? { sentiment: null, sentiment_score: null, submission_aspect_sentiments: [] }
+    : {}),
+});
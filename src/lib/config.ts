@@ -0,0 +1,6 @@
+// Build-time settings read from VITE_* environment variables
+
+// Largest video a user can upload. The default matches the transcription API limit;
+// raise it only where the functions can run ffmpeg to split larger recordings.
+export const MAX_UPLOAD_MB = Number(import.meta.env.VITE_MAX_UPLOAD_MB) || 25;
+export const MAX_UPLOAD_BYTES = MAX_UPLOAD_MB * 1024 * 1024;
@@ -0,0 +1,65 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Mirrors supabase/functions/_shared/duplicates.ts: uploads are hashed in the
+// browser so re-uploads of the same recording can be flagged before processing.
+
+export type DuplicateMethod = 'content_hash' | 'transcript';
+
+export const DUPLICATE_METHOD_LABELS: Record<DuplicateMethod, string> = {
+  content_hash: 'Identical file',
+  transcript: 'Similar transcript',
+};
+
+export interface DuplicateUpload {
+  // Position of the file in the upload form
+  index: number;
+  fileName: string;
+  // Submitted earlier, or null when the same file is selected twice in this upload
+  existingSubmissionAt: string | null;
+}
+
+export const sha256Hex = async (file: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Selected files the user has already submitted, or that repeat an earlier file in the same upload
+export const findDuplicateUploads = async (
+  userId: string,
+  files: (File | null)[],
+  hashes: (string | null)[]
+): Promise<DuplicateUpload[]> => {
+  const knownHashes = hashes.filter((hash): hash is string => hash !== null);
+  if (knownHashes.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('submissions')
+    .select('content_hash, created_at')
+    .eq('user_id', userId)
+    .neq('status', 'merged')
+    .in('content_hash', knownHashes)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  const submittedAt = new Map<string, string>();
+  for (const submission of data || []) {
+    if (submission.content_hash && !submittedAt.has(submission.content_hash)) {
+      submittedAt.set(submission.content_hash, submission.created_at);
+    }
+  }
+
+  const duplicates: DuplicateUpload[] = [];
+  hashes.forEach((hash, index) => {
+    const file = files[index];
+    if (!hash || !file) return;
+
+    if (submittedAt.has(hash)) {
+      duplicates.push({ index, fileName: file.name, existingSubmissionAt: submittedAt.get(hash) || null });
+    } else if (hashes.indexOf(hash) < index) {
+      duplicates.push({ index, fileName: file.name, existingSubmissionAt: null });
+    }
+  });
+
+  return duplicates;
+};
@@ -0,0 +1,72 @@
+import type { Json } from '@/integrations/supabase/types';
+import { formatTimestamp } from '@/lib/transcript';
+
+// Mirrors supabase/functions/_shared/evidence.ts: where a KPI or quote was
+// found in the submission's sources, and whether verification flagged it.
+
+export type SourceRef =
+  | { source: 'video'; segment: number | null; end_segment: number | null; start_time: number | null; end_time: number | null }
+  | { source: 'docx'; block: number | null; row: number | null; cell: number | null }
+  | { source: 'notes'; offset: number; length: number };
+
+export type VerificationStatus = 'verified' | 'flagged' | 'unchecked';
+
+export interface QuoteEvidence {
+  quote: string;
+  source_ref: SourceRef | null;
+  verification_status: VerificationStatus;
+  verification_issues: string[];
+}
+
+export interface Evidence {
+  source_ref: Json | SourceRef | null;
+  verification_status: string;
+  verification_issues: string[];
+}
+
+export const isFlagged = (evidence: Pick<Evidence, 'verification_status'> | null | undefined) =>
+  evidence?.verification_status === 'flagged';
+
+export const parseSourceRef = (raw: Json | SourceRef | null | undefined): SourceRef | null => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  const source = (raw as { source?: unknown }).source;
+  return source === 'video' || source === 'docx' || source === 'notes' ? raw as SourceRef : null;
+};
+
+// Human-readable location, e.g. "Video 1:05–1:20", "DOCX block 3, table row 2, cell 1", "Notes, characters 10–42"
+export const formatSourceRef = (ref: SourceRef) => {
+  switch (ref.source) {
+    case 'video':
+      if (ref.start_time === null) return 'Video transcript';
+      return ref.end_time !== null && ref.end_time !== ref.start_time
+        ? `Video ${formatTimestamp(ref.start_time)}–${formatTimestamp(ref.end_time)}`
+        : `Video ${formatTimestamp(ref.start_time)}`;
+    case 'docx':
+      if (ref.block === null) return 'DOCX';
+      // Blocks are numbered across paragraphs and tables in document order
+      if (ref.row === null) return `DOCX paragraph ${ref.block + 1}`;
+      return ref.cell === null
+        ? `DOCX block ${ref.block + 1}, table row ${ref.row + 1}`
+        : `DOCX block ${ref.block + 1}, table row ${ref.row + 1}, cell ${ref.cell + 1}`;
+    case 'notes':
+      return `Notes, characters ${ref.offset + 1}–${ref.offset + ref.length}`;
+  }
+};
+
+// The evidence entry for a quote; entries are stored in the same order as ai_quotes
+export const quoteEvidenceFor = (evidence: Json | null | undefined, quote: string, position: number): QuoteEvidence | null => {
+  if (!Array.isArray(evidence)) return null;
+  const entry = evidence[position] as unknown as QuoteEvidence | undefined;
+  return entry && entry.quote === quote ? entry : null;
+};
+
+const countFlaggedQuotes = (evidence: Json | null | undefined) =>
+  Array.isArray(evidence)
+    ? evidence.filter(entry => (entry as unknown as QuoteEvidence | null)?.verification_status === 'flagged').length
+    : 0;
+
+// Flagged KPIs and quotes of one submission
+export const countFlaggedEvidence = (submission: {
+  extracted_kpi_values: Pick<Evidence, 'verification_status'>[];
+  quote_evidence?: Json | null;
+}) => submission.extracted_kpi_values.filter(isFlagged).length + countFlaggedQuotes(submission.quote_evidence);
@@ -0,0 +1,128 @@
+import type { Database, Json } from '@/integrations/supabase/types';
+
+// Mirrors supabase/functions/_shared/executiveReports.ts: weekly executive
+// summaries kept as versions; admins edit the current version and publish it.
+
+type ReportRow = Database['public']['Tables']['executive_reports']['Row'];
+type VersionRow = Database['public']['Tables']['executive_report_versions']['Row'];
+
+export interface ReportKPI {
+  name: string;
+  unit: string | null;
+  currency: string | null;
+  count: number;
+  value: number;
+  previous_value: number | null;
+}
+
+export interface ReportAspectStats {
+  aspect: string;
+  average: number | null;
+  previous_average: number | null;
+}
+
+export interface ReportStats {
+  submissions: number;
+  submitters: number;
+  previous_submissions: number;
+  average_score: number | null;
+  previous_average_score: number | null;
+  aspects: ReportAspectStats[];
+}
+
+export interface ReportQuote {
+  text: string;
+  submission_id: string;
+  user_id: string;
+  user_name: string | null;
+}
+
+export interface ReportVersion extends Omit<VersionRow, 'quotes' | 'kpis' | 'stats' | 'source'> {
+  source: 'generated' | 'edited';
+  quotes: ReportQuote[];
+  kpis: ReportKPI[];
+  stats: ReportStats;
+}
+
+export type ExecutiveReport = ReportRow & { versions: ReportVersion[] };
+
+export type ReportStatus = 'draft' | 'published' | 'changed';
+
+export const REPORT_STATUS_LABELS: Record<ReportStatus, string> = {
+  draft: 'Draft',
+  published: 'Published',
+  changed: 'Unpublished changes',
+};
+
+// The editable part of a version
+export type ReportContent = Pick<ReportVersion, 'headline' | 'overview' | 'achievements' | 'risks' | 'sentiment_summary' | 'quotes'>;
+
+const objectList = (value: Json) =>
+  Array.isArray(value)
+    ? value.filter((item): item is { [key: string]: Json } => !!item && typeof item === 'object' && !Array.isArray(item))
+    : [];
+
+const numberOrNull = (value: Json | undefined) => typeof value === 'number' ? value : null;
+
+const parseStats = (value: Json): ReportStats => {
+  const stats = (value && typeof value === 'object' && !Array.isArray(value) ? value : {}) as { [key: string]: Json | undefined };
+  return {
+    submissions: Number(stats.submissions) || 0,
+    submitters: Number(stats.submitters) || 0,
+    previous_submissions: Number(stats.previous_submissions) || 0,
+    average_score: numberOrNull(stats.average_score),
+    previous_average_score: numberOrNull(stats.previous_average_score),
+    aspects: objectList(stats.aspects ?? []).map(item => ({
+      aspect: String(item.aspect),
+      average: numberOrNull(item.average),
+      previous_average: numberOrNull(item.previous_average),
+    })),
+  };
+};
+
+export const parseReportQuotes = (value: Json): ReportQuote[] =>
+  objectList(value)
+    .filter(item => typeof item.text === 'string')
+    .map(item => ({
+      text: item.text as string,
+      submission_id: String(item.submission_id),
+      user_id: String(item.user_id),
+      user_name: typeof item.user_name === 'string' ? item.user_name : null,
+    }));
+
+export const parseReportVersion = (row: VersionRow): ReportVersion => ({
+  ...row,
+  source: row.source === 'edited' ? 'edited' : 'generated',
+  quotes: parseReportQuotes(row.quotes),
+  kpis: objectList(row.kpis).map(item => ({
+    name: String(item.name),
+    unit: typeof item.unit === 'string' ? item.unit : null,
+    currency: typeof item.currency === 'string' ? item.currency : null,
+    count: Number(item.count) || 0,
+    value: Number(item.value) || 0,
+    previous_value: numberOrNull(item.previous_value),
+  })),
+  stats: parseStats(row.stats),
+});
+
+export const currentVersion = (report: ExecutiveReport) =>
+  report.versions.find(version => version.id === report.current_version_id) || null;
+
+export const reportStatus = (report: ExecutiveReport): ReportStatus => {
+  if (!report.published_version_id) return 'draft';
+  return report.published_version_id === report.current_version_id ? 'published' : 'changed';
+};
+
+// period_end is the day after the last day of the week
+export const formatReportPeriod = (report: Pick<ReportRow, 'period_start' | 'period_end'>) => {
+  const lastDay = new Date(`${report.period_end}T00:00:00`);
+  lastDay.setDate(lastDay.getDate() - 1);
+  return `${new Date(`${report.period_start}T00:00:00`).toLocaleDateString()} – ${lastDay.toLocaleDateString()}`;
+};
+
+// Monday of the week before the current one, as YYYY-MM-DD (the week the scheduled run summarises)
+export const lastCompleteWeekStart = (now = new Date()) => {
+  const monday = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7) - 7);
+  return monday.toISOString().slice(0, 10);
+};
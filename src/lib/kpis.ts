@@ -0,0 +1,80 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type ExtractedKPIValue = Database['public']['Tables']['extracted_kpi_values']['Row'];
+
+export const KPI_SOURCE_LABELS: Record<string, string> = {
+  video: 'Video',
+  docx: 'DOCX',
+  notes: 'Notes',
+};
+
+// Metric names differ in case and spacing between submissions ("Deals closed" vs "Deals Closed")
+export const kpiMetricKey = (metricName: string) =>
+  metricName.trim().replace(/\s+/g, ' ').toLowerCase();
+
+export const formatKPIValue = (kpi: Pick<ExtractedKPIValue, 'value' | 'unit' | 'currency' | 'raw_text'>) => {
+  if (kpi.value === null) {
+    // Backfilled rows whose value could not be parsed keep the original text
+    const rawValue = kpi.raw_text?.split(':').slice(1).join(':').trim();
+    return rawValue || '—';
+  }
+
+  let formatted: string;
+  if (kpi.currency) {
+    try {
+      formatted = new Intl.NumberFormat(undefined, { style: 'currency', currency: kpi.currency, maximumFractionDigits: 2 }).format(kpi.value);
+    } catch {
+      formatted = `${kpi.value.toLocaleString()} ${kpi.currency}`;
+    }
+  } else {
+    formatted = kpi.value.toLocaleString();
+  }
+
+  if (!kpi.unit) return formatted;
+  return kpi.unit === '%' ? `${formatted}%` : `${formatted} ${kpi.unit}`;
+};
+
+export const formatKPI = (kpi: ExtractedKPIValue) => `${kpi.metric_name}: ${formatKPIValue(kpi)}`;
+
+export const sortKPIValues = (kpis: ExtractedKPIValue[] | null | undefined) =>
+  [...(kpis || [])].sort((a, b) => a.position - b.position);
+
+export interface KPIMetricAggregate {
+  key: string;
+  name: string;
+  unit: string | null;
+  currency: string | null;
+  count: number;
+  // Percentages are averaged, everything else is summed
+  value: number;
+}
+
+export const aggregateKPIsByMetric = (kpis: ExtractedKPIValue[]): KPIMetricAggregate[] => {
+  const metrics = new Map<string, KPIMetricAggregate & { total: number; numericCount: number }>();
+
+  kpis.forEach(kpi => {
+    const key = [kpiMetricKey(kpi.metric_name), kpi.unit || '', kpi.currency || ''].join('|');
+    const metric = metrics.get(key) || {
+      key,
+      name: kpi.metric_name,
+      unit: kpi.unit,
+      currency: kpi.currency,
+      count: 0,
+      value: 0,
+      total: 0,
+      numericCount: 0,
+    };
+
+    metric.count += 1;
+    if (kpi.value !== null) {
+      metric.total += kpi.value;
+      metric.numericCount += 1;
+    }
+    metrics.set(key, metric);
+  });
+
+  return Array.from(metrics.values()).map(({ total, numericCount, ...metric }) => ({
+    ...metric,
+    value: metric.unit === '%' && numericCount > 0 ? total / numericCount : total,
+  }));
+};
@@ -0,0 +1,49 @@
+import type { Database, Json } from '@/integrations/supabase/types';
+import { parseTranscript } from '@/lib/transcript';
+
+// Mirrors supabase/functions/_shared/prompts.ts so the admin preview shows
+// exactly what the edge functions send to the model.
+
+export type PromptTemplate = Database['public']['Tables']['prompt_templates']['Row'];
+
+export const ANALYSIS_PROMPT = 'analysis';
+
+export const ANALYSIS_PLACEHOLDERS: { key: string; description: string }[] = [
+  { key: 'transcript', description: 'Transcript of the recording' },
+  { key: 'docx', description: 'Text parsed from the uploaded DOCX, tables as rows and cells' },
+  { key: 'notes', description: 'Notes entered with the submission' },
+];
+
+// Keep very large documents from crowding the transcript out of the analysis prompt
+const MAX_DOCX_PROMPT_CHARS = 60000;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Unknown placeholders are left in place so a typo shows up in the preview
+export const renderPromptTemplate = (template: string, values: Record<string, string>) =>
+  template.replace(PLACEHOLDER_PATTERN, (marker, key: string) =>
+    Object.prototype.hasOwnProperty.call(values, key) ? values[key] : marker
+  );
+
+export const findPlaceholders = (template: string) =>
+  [...new Set([...template.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1]))];
+
+export const promptVersionLabel = (template: Pick<PromptTemplate, 'name' | 'version'>) =>
+  `${template.name}@v${template.version}`;
+
+export const analysisPromptValues = (submission: {
+  transcript: Json | null;
+  docx_content: Json | null;
+  notes: string | null;
+}): Record<string, string> => {
+  const docxContent = submission.docx_content;
+  const docx = docxContent && typeof docxContent === 'object' && !Array.isArray(docxContent) && typeof docxContent.text === 'string'
+    ? docxContent.text.substring(0, MAX_DOCX_PROMPT_CHARS)
+    : '';
+
+  return {
+    transcript: parseTranscript(submission.transcript).text || 'No video transcript available',
+    docx: docx || 'No DOCX content available',
+    notes: submission.notes || 'No additional notes provided',
+  };
+};
@@ -0,0 +1,42 @@
+import type { Json } from '@/integrations/supabase/types';
+
+// Mirrors supabase/functions/_shared/redaction.ts: submissions.pii_redaction
+// records what was replaced by placeholders such as [EMAIL] before storage.
+
+export type PIIType = 'email' | 'phone' | 'id' | 'card' | 'name' | 'company';
+
+export interface RedactionSummary {
+  detectors: string[];
+  counts: Partial<Record<PIIType, number>>;
+  redacted_at: string;
+}
+
+const PII_TYPE_LABELS: Record<PIIType, [string, string]> = {
+  email: ['email address', 'email addresses'],
+  phone: ['phone number', 'phone numbers'],
+  id: ['ID number', 'ID numbers'],
+  card: ['card number', 'card numbers'],
+  name: ['name', 'names'],
+  company: ['company name', 'company names'],
+};
+
+export const parseRedactionSummary = (raw: Json | null | undefined): RedactionSummary | null => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  const { counts, detectors, redacted_at } = raw as Record<string, Json>;
+  if (!counts || typeof counts !== 'object' || Array.isArray(counts)) return null;
+  return {
+    detectors: Array.isArray(detectors) ? detectors.filter((d): d is string => typeof d === 'string') : [],
+    counts: counts as RedactionSummary['counts'],
+    redacted_at: typeof redacted_at === 'string' ? redacted_at : '',
+  };
+};
+
+// e.g. "2 email addresses, 1 phone number"; empty when nothing was replaced
+export const formatRedactionCounts = (summary: RedactionSummary) =>
+  (Object.keys(PII_TYPE_LABELS) as PIIType[])
+    .filter(type => (summary.counts[type] || 0) > 0)
+    .map(type => {
+      const count = summary.counts[type]!;
+      return `${count} ${PII_TYPE_LABELS[type][count === 1 ? 0 : 1]}`;
+    })
+    .join(', ');
@@ -0,0 +1,79 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Request and progress events of the reprocess-transcripts function
+
+export interface ReprocessFilters {
+  submissionIds?: string[];
+  userIds?: string[];
+  // ISO timestamps, both inclusive
+  createdFrom?: string;
+  createdTo?: string;
+  onlyWithoutKPIs?: boolean;
+  dryRun?: boolean;
+}
+
+export interface ReprocessAnalysisSummary {
+  keyPoints: number;
+  kpis: number;
+  quotes: number;
+  sentiment: string | null;
+}
+
+export type ReprocessStatus = 'updated' | 'would_update' | 'skipped' | 'failed';
+
+export interface ReprocessItemResult {
+  submissionId: string;
+  userId: string;
+  createdAt: string;
+  status: ReprocessStatus;
+  message: string;
+  before: ReprocessAnalysisSummary;
+  after: ReprocessAnalysisSummary | null;
+  addedKPIs: string[];
+  removedKPIs: string[];
+  version: number | null;
+}
+
+export interface ReprocessCounts {
+  processedCount: number;
+  updatedCount: number;
+  skippedCount: number;
+  failedCount: number;
+}
+
+export type ReprocessEvent =
+  | { type: 'start'; total: number; dryRun: boolean; promptVersion: string }
+  | { type: 'item'; index: number; total: number; result: ReprocessItemResult }
+  | ({ type: 'done'; dryRun: boolean; message: string } & ReprocessCounts)
+  | { type: 'error'; error: string };
+
+// Runs reprocess-transcripts and calls onEvent for each server-sent event as it arrives
+export const streamReprocess = async (filters: ReprocessFilters, onEvent: (event: ReprocessEvent) => void) => {
+  const { data, error } = await supabase.functions.invoke<Response>('reprocess-transcripts', {
+    body: filters,
+    headers: { Accept: 'text/event-stream' },
+  });
+
+  if (error) throw error;
+  if (!data?.body) throw new Error('Reprocessing did not return a progress stream');
+
+  const reader = data.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    const messages = buffer.split('\n\n');
+    buffer = messages.pop() || '';
+    messages.forEach(message => {
+      const payload = message
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trim())
+        .join('');
+      if (payload) onEvent(JSON.parse(payload) as ReprocessEvent);
+    });
+  }
+};
@@ -0,0 +1,53 @@
+// Mirrors supabase/functions/_shared/retention.ts: how long uploaded recordings
+// and DOCX files are kept in storage after processing, per role.
+
+export type RetentionMode = 'delete_immediately' | 'keep_days' | 'keep_forever';
+
+// 'default' applies to users whose roles have no policy of their own
+export type RetentionScope = 'default' | 'admin' | 'team_lead' | 'user';
+
+export interface RetentionPolicy {
+  mode: RetentionMode;
+  retention_days: number | null;
+}
+
+export const RETENTION_SCOPES: RetentionScope[] = ['default', 'user', 'team_lead', 'admin'];
+
+export const RETENTION_SCOPE_LABELS: Record<RetentionScope, string> = {
+  default: 'Default',
+  admin: 'Admins',
+  team_lead: 'Team leads',
+  user: 'Users',
+};
+
+export const RETENTION_MODE_LABELS: Record<RetentionMode, string> = {
+  delete_immediately: 'Delete after processing',
+  keep_days: 'Keep for a number of days',
+  keep_forever: 'Keep forever',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// e.g. "deleted once processing finishes", "kept for 30 days after upload"
+export const describeRetention = (policy: RetentionPolicy) => {
+  switch (policy.mode) {
+    case 'delete_immediately':
+      return 'deleted once processing finishes';
+    case 'keep_days':
+      return `kept for ${policy.retention_days} day${policy.retention_days === 1 ? '' : 's'} after upload`;
+    default:
+      return 'kept until an admin changes the retention policy';
+  }
+};
+
+// When the files of a submission uploaded at createdAt are removed; null when kept indefinitely
+export const mediaExpiresAt = (createdAt: string, policy: RetentionPolicy): Date | null => {
+  switch (policy.mode) {
+    case 'delete_immediately':
+      return new Date(createdAt);
+    case 'keep_days':
+      return new Date(new Date(createdAt).getTime() + (policy.retention_days || 0) * DAY_MS);
+    default:
+      return null;
+  }
+};
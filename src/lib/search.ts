@@ -0,0 +1,75 @@
+// Results of the search-insights edge function: hybrid full-text and embedding
+// search over the insight_embeddings index, limited by row level security to
+// the caller's own submissions unless they are an admin.
+
+export type SearchSourceType = 'key_point' | 'transcript_segment' | 'kpi' | 'note';
+
+export interface SearchResult {
+  id: string;
+  submission_id: string;
+  user_id: string;
+  // Null when the caller cannot see the submitter's profile
+  user_name: string | null;
+  source_type: SearchSourceType;
+  // Position in key_points or the KPI list, the transcript segment id, or the notes paragraph
+  source_index: number;
+  segment_id: number | null;
+  start_seconds: number | null;
+  content: string;
+  // Content around the matched words, which are wrapped in <mark></mark>
+  snippet: string;
+  score: number;
+  submitted_at: string;
+}
+
+export const SEARCH_SOURCE_LABELS: Record<SearchSourceType, string> = {
+  key_point: 'Key point',
+  transcript_segment: 'Transcript',
+  kpi: 'KPI',
+  note: 'Notes',
+};
+
+// The snippet is split into text and matched words instead of being rendered as HTML
+export const snippetParts = (snippet: string) =>
+  snippet
+    .split(/(<mark>.*?<\/mark>)/)
+    .filter(Boolean)
+    .map(part => part.startsWith('<mark>')
+      ? { text: part.slice('<mark>'.length, -'</mark>'.length), match: true }
+      : { text: part, match: false });
+
+// Links such as /?submission=<id>&segment=12 open a submission scrolled to a transcript segment
+export interface SubmissionLink {
+  submissionId: string;
+  segmentId: number | null;
+  keyPoint: number | null;
+}
+
+const SUBMISSION_PARAM = 'submission';
+const SEGMENT_PARAM = 'segment';
+const KEY_POINT_PARAM = 'key_point';
+
+export const SUBMISSION_LINK_PARAMS = [SUBMISSION_PARAM, SEGMENT_PARAM, KEY_POINT_PARAM];
+
+const integerParam = (value: string | null) =>
+  value !== null && /^\d+$/.test(value) ? Number(value) : null;
+
+export const parseSubmissionLink = (params: URLSearchParams): SubmissionLink | null => {
+  const submissionId = params.get(SUBMISSION_PARAM);
+  if (!submissionId) return null;
+  return {
+    submissionId,
+    segmentId: integerParam(params.get(SEGMENT_PARAM)),
+    keyPoint: integerParam(params.get(KEY_POINT_PARAM)),
+  };
+};
+
+export const submissionLinkFor = (result: Pick<SearchResult, 'submission_id' | 'source_type' | 'source_index' | 'segment_id'>) => {
+  const params = new URLSearchParams({ [SUBMISSION_PARAM]: result.submission_id });
+  if (result.source_type === 'key_point') {
+    params.set(KEY_POINT_PARAM, String(result.source_index));
+  } else if (result.segment_id !== null) {
+    params.set(SEGMENT_PARAM, String(result.segment_id));
+  }
+  return `/?${params.toString()}`;
+};
@@ -0,0 +1,86 @@
+import type { Database } from '@/integrations/supabase/types';
+
+// Mirrors supabase/functions/_shared/sentiment.ts: sentiment scores run from
+// -1 (very negative) to 1 (very positive), overall and per workplace aspect.
+
+export type AspectSentimentRow = Database['public']['Tables']['submission_aspect_sentiments']['Row'];
+
+export const SENTIMENT_ASPECTS = [
+  'workload',
+  'client_relationships',
+  'team_morale',
+  'tooling',
+  'leadership_support',
+] as const;
+
+export type SentimentAspect = typeof SENTIMENT_ASPECTS[number];
+
+export const ASPECT_LABELS: Record<SentimentAspect, string> = {
+  workload: 'Workload',
+  client_relationships: 'Client relationships',
+  team_morale: 'Team morale',
+  tooling: 'Tooling',
+  leadership_support: 'Leadership support',
+};
+
+export const ASPECT_COLORS: Record<SentimentAspect, string> = {
+  workload: '#f59e0b',
+  client_relationships: '#3b82f6',
+  team_morale: '#10b981',
+  tooling: '#8b5cf6',
+  leadership_support: '#ec4899',
+};
+
+export const aspectLabel = (aspect: string) => ASPECT_LABELS[aspect as SentimentAspect] || aspect;
+
+// e.g. "+0.40", "-0.25"
+export const formatSentimentScore = (score: number) => `${score > 0 ? '+' : ''}${score.toFixed(2)}`;
+
+export const sentimentScoreColor = (score: number) =>
+  score >= 0.25 ? 'text-green-600' : score <= -0.25 ? 'text-red-600' : 'text-gray-600';
+
+export interface SentimentSubmission {
+  created_at: string;
+  sentiment_score?: number | null;
+  submission_aspect_sentiments?: AspectSentimentRow[];
+}
+
+// One point per week: the average overall score and the average score of each
+// aspect discussed that week; null where nothing was scored
+export type SentimentTrendPoint = { week: string; overall: number | null } & Record<SentimentAspect, number | null>;
+
+// Monday of the submission's week, as YYYY-MM-DD
+const weekStart = (date: string) => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  day.setDate(day.getDate() - ((day.getDay() + 6) % 7));
+  return `${day.getFullYear()}-${String(day.getMonth() + 1).padStart(2, '0')}-${String(day.getDate()).padStart(2, '0')}`;
+};
+
+const average = (scores: number[] | undefined) =>
+  scores && scores.length > 0 ? Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 100) / 100 : null;
+
+export const weeklySentimentTrend = (submissions: SentimentSubmission[]): SentimentTrendPoint[] => {
+  const weeks = new Map<string, Map<string, number[]>>();
+  const add = (week: string, key: string, score: number) => {
+    if (!weeks.has(week)) weeks.set(week, new Map());
+    const scores = weeks.get(week)!;
+    scores.set(key, [...(scores.get(key) || []), score]);
+  };
+
+  submissions.forEach(submission => {
+    const week = weekStart(submission.created_at);
+    if (submission.sentiment_score !== null && submission.sentiment_score !== undefined) {
+      add(week, 'overall', submission.sentiment_score);
+    }
+    (submission.submission_aspect_sentiments || []).forEach(row => add(week, row.aspect, row.score));
+  });
+
+  return [...weeks.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([week, scores]) => ({
+      week,
+      overall: average(scores.get('overall')),
+      ...Object.fromEntries(SENTIMENT_ASPECTS.map(aspect => [aspect, average(scores.get(aspect))])) as Record<SentimentAspect, number | null>,
+    }));
+};
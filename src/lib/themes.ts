@@ -0,0 +1,85 @@
+import type { Database, Json } from '@/integrations/supabase/types';
+
+// Mirrors supabase/functions/_shared/themes.ts: recurring themes found by
+// clustering the embedded key points and transcript segments of all submissions.
+
+type ThemeRow = Database['public']['Tables']['themes']['Row'];
+
+export interface ThemeQuote {
+  content: string;
+  submission_id: string;
+  user_id: string;
+  source_type: 'key_point' | 'transcript_segment';
+  start_seconds: number | null;
+}
+
+export interface WeeklyThemeCount {
+  week: string;
+  submissions: number;
+}
+
+export interface Theme {
+  id: string;
+  label: string;
+  description: string | null;
+  item_count: number;
+  submission_count: number;
+  user_ids: string[];
+  weekly_counts: WeeklyThemeCount[];
+  representative_quotes: ThemeQuote[];
+  generated_at: string;
+}
+
+export type ThemeTrend = 'rising' | 'falling' | 'steady' | 'new';
+
+// Everything but the centroid, which only the clustering needs
+export const THEME_COLUMNS = 'id, label, description, item_count, submission_count, user_ids, weekly_counts, representative_quotes, generated_at';
+
+const objectList = (value: Json) =>
+  Array.isArray(value)
+    ? value.filter((item): item is { [key: string]: Json } => !!item && typeof item === 'object' && !Array.isArray(item))
+    : [];
+
+export const parseTheme = (row: Omit<ThemeRow, 'centroid'>): Theme => ({
+  ...row,
+  weekly_counts: objectList(row.weekly_counts).map(item => ({
+    week: String(item.week),
+    submissions: Number(item.submissions) || 0,
+  })),
+  representative_quotes: objectList(row.representative_quotes)
+    .filter(item => typeof item.content === 'string')
+    .map(item => ({
+      content: item.content as string,
+      submission_id: String(item.submission_id),
+      user_id: String(item.user_id),
+      source_type: item.source_type === 'key_point' ? 'key_point' : 'transcript_segment',
+      start_seconds: typeof item.start_seconds === 'number' ? item.start_seconds : null,
+    })),
+});
+
+const TREND_WINDOW_DAYS = 28;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Submissions in the last four weeks before the themes were built compared with the four weeks before that
+export const themeTrend = (theme: Theme): ThemeTrend => {
+  const end = new Date(theme.generated_at).getTime();
+  let recent = 0;
+  let previous = 0;
+  theme.weekly_counts.forEach(({ week, submissions }) => {
+    const age = end - new Date(`${week}T00:00:00Z`).getTime();
+    if (age < TREND_WINDOW_DAYS * DAY_MS) recent += submissions;
+    else if (age < 2 * TREND_WINDOW_DAYS * DAY_MS) previous += submissions;
+  });
+
+  if (recent > 0 && recent === theme.submission_count) return 'new';
+  if (recent > previous && recent >= previous * 1.5) return 'rising';
+  if (recent <= previous * 0.5) return 'falling';
+  return 'steady';
+};
+
+export const THEME_TREND_LABELS: Record<ThemeTrend, string> = {
+  rising: 'Rising',
+  falling: 'Falling',
+  steady: 'Steady',
+  new: 'New',
+};
@@ -0,0 +1,131 @@
+import type { Json } from '@/integrations/supabase/types';
+
+export interface TranscriptSegment {
+  id: number;
+  // Seconds from the start of the recording; null for transcripts stored without timestamps
+  start: number | null;
+  end: number | null;
+  text: string;
+}
+
+export interface ParsedTranscript {
+  text: string;
+  segments: TranscriptSegment[];
+  language: string | null;
+  duration: number | null;
+  hasTimestamps: boolean;
+}
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'that', 'this', 'with', 'was', 'were', 'are', 'our', 'we', 'you', 'your',
+  'have', 'has', 'had', 'from', 'they', 'their', 'which', 'will', 'been', 'also', 'into', 'about',
+]);
+
+// Older transcripts are plain strings; split them into sentences so they can still be searched
+const splitSentences = (text: string): TranscriptSegment[] =>
+  text
+    .split(/(?<=[.!?])\s+/)
+    .map(sentence => sentence.trim())
+    .filter(Boolean)
+    .map((sentence, index) => ({ id: index, start: null, end: null, text: sentence }));
+
+export const parseTranscript = (transcript: Json | null): ParsedTranscript => {
+  const empty = { text: '', segments: [], language: null, duration: null, hasTimestamps: false };
+  if (!transcript) return empty;
+
+  if (typeof transcript === 'string') {
+    return { ...empty, text: transcript, segments: splitSentences(transcript) };
+  }
+
+  if (typeof transcript === 'object' && !Array.isArray(transcript)) {
+    const rawSegments = Array.isArray(transcript.segments) ? transcript.segments : [];
+    const segments = rawSegments
+      .filter((segment): segment is { [key: string]: Json } => !!segment && typeof segment === 'object' && !Array.isArray(segment))
+      .map((segment, index) => ({
+        id: typeof segment.id === 'number' ? segment.id : index,
+        start: typeof segment.start === 'number' ? segment.start : null,
+        end: typeof segment.end === 'number' ? segment.end : null,
+        text: typeof segment.text === 'string' ? segment.text : '',
+      }));
+    const text = typeof transcript.text === 'string'
+      ? transcript.text
+      : segments.map(segment => segment.text).join(' ');
+
+    return {
+      text,
+      segments: segments.length > 0 ? segments : splitSentences(text),
+      language: typeof transcript.language === 'string' ? transcript.language : null,
+      duration: typeof transcript.duration === 'number' ? transcript.duration : null,
+      hasTimestamps: segments.some(segment => segment.start !== null),
+    };
+  }
+
+  const text = JSON.stringify(transcript);
+  return { ...empty, text, segments: splitSentences(text) };
+};
+
+// "de" -> "German"; unknown codes are shown as they are
+export const languageName = (code: string) => {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(code) || code;
+  } catch {
+    return code;
+  }
+};
+
+export const formatTimestamp = (seconds: number) => {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = (total % 60).toString().padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, '0')}:${secs}`
+    : `${minutes}:${secs}`;
+};
+
+// Keeps decimal points ("4.6") but drops sentence punctuation
+const normalizeText = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9%$€£.]+/g, ' ').replace(/\.(?!\d)/g, ' ').replace(/\s+/g, ' ').trim();
+
+const contentWords = (text: string) =>
+  new Set(normalizeText(text).split(' ').filter(word => word.length > 2 && !STOP_WORDS.has(word)));
+
+// Segment ids that support a key point or quote. Verbatim quotes are located
+// exactly (they may span segments); paraphrased key points fall back to word overlap.
+export const findSupportingSegments = (statement: string, segments: TranscriptSegment[]): number[] => {
+  const needle = normalizeText(statement.replace(/^["“]|["”]$/g, ''));
+  if (!needle || segments.length === 0) return [];
+
+  let offset = 0;
+  const ranges = segments.map(segment => {
+    const normalized = normalizeText(segment.text);
+    const range = { id: segment.id, start: offset, end: offset + normalized.length };
+    offset = range.end + 1;
+    return { ...range, normalized };
+  });
+  const fullText = ranges.map(range => range.normalized).join(' ');
+
+  const exactIndex = fullText.indexOf(needle);
+  if (exactIndex !== -1) {
+    const exactEnd = exactIndex + needle.length;
+    return ranges
+      .filter(range => range.start < exactEnd && range.end > exactIndex)
+      .map(range => range.id);
+  }
+
+  const statementWords = contentWords(statement);
+  if (statementWords.size === 0) return [];
+
+  const scored = segments.map(segment => {
+    const words = contentWords(segment.text);
+    const shared = [...statementWords].filter(word => words.has(word)).length;
+    return { id: segment.id, score: shared / statementWords.size };
+  });
+
+  const best = Math.max(...scored.map(item => item.score));
+  if (best < 0.3) return [];
+
+  return scored
+    .filter(item => item.score >= Math.max(0.3, best * 0.75))
+    .map(item => item.id);
+};
@@ -0,0 +1,51 @@
+import type { Database } from '@/integrations/supabase/types';
+
+// Mirrors supabase/functions/_shared/webhooks.ts and the webhook_endpoints
+// events check: which events endpoints can subscribe to and how deliveries are labelled.
+
+export type WebhookEndpoint = Database['public']['Tables']['webhook_endpoints']['Row'];
+export type WebhookDelivery = Database['public']['Tables']['webhook_deliveries']['Row'];
+
+export type WebhookEvent =
+  | 'submission.created'
+  | 'submission.completed'
+  | 'submission.failed'
+  | 'kpi.alert'
+  | 'report.published';
+
+export type WebhookDeliveryStatus = 'pending' | 'delivering' | 'succeeded' | 'failed';
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  'submission.created',
+  'submission.completed',
+  'submission.failed',
+  'kpi.alert',
+  'report.published',
+];
+
+export const WEBHOOK_EVENT_DESCRIPTIONS: Record<WebhookEvent, string> = {
+  'submission.created': 'A video was uploaded and queued for processing',
+  'submission.completed': 'Processing finished, with key points, sentiment and KPIs',
+  'submission.failed': 'Processing failed after all retries',
+  'kpi.alert': 'A KPI value was flagged as an anomaly',
+  'report.published': 'An executive summary was published',
+};
+
+export const DELIVERY_STATUS_LABELS: Record<WebhookDeliveryStatus, string> = {
+  pending: 'Pending',
+  delivering: 'Delivering',
+  succeeded: 'Delivered',
+  failed: 'Failed',
+};
+
+export const SIGNATURE_HEADER = 'X-InfoSight-Signature';
+
+// Same rule as the url check on webhook_endpoints; plain HTTP is allowed for local test receivers
+export const isValidWebhookUrl = (url: string) => {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
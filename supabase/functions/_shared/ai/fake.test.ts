@@ -0,0 +1,55 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createFakeProvider } from './fake.ts';
+import { getAIProvider } from './index.ts';
+
+const TRANSCRIPT = 'This week we closed 12 new deals. Conversion improved to 18 percent across the region.';
+
+describe('fake AI provider', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('is selected with AI_PROVIDER=fake and needs no API key', () => {
+    vi.stubEnv('AI_PROVIDER', 'fake');
+    vi.stubEnv('OPENAI_API_KEY', '');
+
+    const provider = getAIProvider();
+    expect(provider.name).toBe('fake');
+    expect(provider.chatModel).toBe('fake-chat');
+  });
+
+  it('transcribes any file into timestamped segments', async () => {
+    const provider = createFakeProvider();
+    const result = await provider.transcribe({ file: new Blob(['video']), fileName: 'week.mp4' });
+
+    expect(result.text).toContain('week.mp4');
+    expect(result.segments.length).toBeGreaterThan(1);
+    expect(result.segments[1].start).toBe(result.segments[0].end);
+    expect(result.duration).toBe(result.segments.length * 5);
+  });
+
+  it('answers analysis requests with KPIs taken from the prompt', async () => {
+    const provider = createFakeProvider();
+    const result = await provider.complete({
+      task: 'analysis',
+      messages: [{ role: 'user', content: TRANSCRIPT }],
+    });
+
+    const analysis = JSON.parse(result.content);
+    expect(analysis.extracted_kpis.map((kpi: { value: number }) => kpi.value)).toEqual([12, 18]);
+    expect(analysis.extracted_kpis[1].unit).toBe('%');
+    expect(result.usage?.inputTokens).toBeGreaterThan(0);
+  });
+
+  it('returns the same output for the same input', async () => {
+    const provider = createFakeProvider();
+    const request = { task: 'analysis', messages: [{ role: 'user' as const, content: TRANSCRIPT }] };
+
+    expect((await provider.complete(request)).content).toBe((await provider.complete(request)).content);
+
+    const first = await provider.embed({ task: 'embedding', input: ['deals closed'], dimensions: 8 });
+    const second = await provider.embed({ task: 'embedding', input: ['deals closed'], dimensions: 8 });
+    expect(first.embeddings[0]).toHaveLength(8);
+    expect(first.embeddings).toEqual(second.embeddings);
+  });
+});
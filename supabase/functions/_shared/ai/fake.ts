@@ -0,0 +1,210 @@
+import type {
+  AIProvider,
+  ChatCompletionRequest,
+  ChatCompletionResult,
+  ChatMessage,
+  EmbeddingRequest,
+  EmbeddingResult,
+  TranscriptionRequest,
+  TranscriptionResult,
+} from './types.ts';
+
+// Deterministic, network-free provider for local development and tests.
+// The same input always produces the same output.
+
+type FakeResponder = (messages: ChatMessage[]) => string;
+
+const FAKE_TRANSCRIPT_SENTENCES = [
+  'This week our team closed 12 new deals and the conversion rate improved to 18 percent.',
+  'Customer satisfaction rose to 4.6 out of 5 after we cut the average response time to 2 hours.',
+  'The main challenge was onboarding 3 new engineers while keeping the migration on schedule.',
+];
+
+function lastUserMessage(messages: ChatMessage[]): string {
+  return [...messages].reverse().find(message => message.role === 'user')?.content || '';
+}
+
+// Sentences with a number in them, skipping prompt instructions and formatting
+function numericSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence =>
+      sentence.length >= 20 &&
+      sentence.length <= 300 &&
+      /\d/.test(sentence) &&
+      !/["*{}|#]/.test(sentence)
+    );
+}
+
+function fakeAnalysis(messages: ChatMessage[]): string {
+  const sentences = numericSentences(lastUserMessage(messages));
+
+  const kpis = sentences.slice(0, 5).map((sentence, index) => {
+    const value = sentence.match(/\d[\d,]*(?:\.\d+)?/)?.[0] || '0';
+    return {
+      metric_name: `Fake Metric ${index + 1}`,
+      value: Number(value.replace(/,/g, '')),
+      unit: /percent|%/i.test(sentence) ? '%' : null,
+      currency: null,
+      period: null,
+      direction: null,
+      source: 'video',
+      quote: sentence,
+      // Alternate high and low scores so confidence thresholds can be tried locally
+      confidence: index % 2 === 0 ? 0.9 : 0.4,
+    };
+  });
+
+  return JSON.stringify({
+    key_points: sentences.slice(0, 5).map((text, index) => ({ text, confidence: index % 2 === 0 ? 0.85 : 0.45 })),
+    extracted_kpis: kpis,
+    sentiment: 'neutral',
+    sentiment_confidence: 0.6,
+    sentiment_score: 0.2,
+    // Fixed aspect scores so the aspect chart has data locally
+    aspect_sentiments: [
+      { aspect: 'workload', score: -0.4, quote: sentences[0] || null },
+      { aspect: 'team_morale', score: 0.6, quote: sentences[1] || null },
+    ],
+    ai_quotes: sentences.slice(0, 3),
+  });
+}
+
+// Treats pairs of capitalised words ("Jane Smith") as names
+function fakeNamedEntities(messages: ChatMessage[]): string {
+  const names = lastUserMessage(messages).match(/\b[A-Z][a-z]+ [A-Z][a-z]+\b/g) || [];
+  return JSON.stringify({ names: [...new Set(names)], companies: [] });
+}
+
+// Returns the segments unchanged, tagged so translated text is recognisable
+function fakeTranslation(messages: ChatMessage[]): string {
+  let segments: { id: number; text: string }[] = [];
+  try {
+    segments = JSON.parse(lastUserMessage(messages));
+  } catch {
+    // Not a segment list; answer with no segments
+  }
+  return JSON.stringify({ segments: segments.map(({ id, text }) => ({ id, text: `[translated] ${text}` })) });
+}
+
+// Labels a theme after the most frequent longer word of its examples
+function fakeThemeLabel(messages: ChatMessage[]): string {
+  const counts = new Map<string, number>();
+  for (const word of lastUserMessage(messages).toLowerCase().match(/[a-z]{6,}/g) || []) {
+    counts.set(word, (counts.get(word) || 0) + 1);
+  }
+  const top = [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0]?.[0] || 'general';
+  return JSON.stringify({
+    label: top.charAt(0).toUpperCase() + top.slice(1),
+    description: `Statements mentioning ${top}.`,
+  });
+}
+
+// Searches for the question as asked, with no period
+function fakeRetrievalPlan(messages: ChatMessage[]): string {
+  const question = lastUserMessage(messages).split('Question:').pop()?.trim() || '';
+  return JSON.stringify({ query: question, since_days: null });
+}
+
+// Repeats the first two sources with their citations
+function fakeAssistantAnswer(messages: ChatMessage[]): string {
+  const sources = lastUserMessage(messages).match(/^\[\d+\] .*$/gm) || [];
+  if (sources.length === 0) return 'The sources do not answer this question.';
+  return sources
+    .slice(0, 2)
+    .map(source => `- ${source.replace(/^\[(\d+)\] [^:]*: /, '')} [${source.match(/^\[(\d+)\]/)?.[1]}]`)
+    .join('\n');
+}
+
+// Builds the brief from the digest's first key points and quotes
+function fakeExecutiveSummary(messages: ChatMessage[]): string {
+  const digest = lastUserMessage(messages);
+  const keyPoints = (digest.match(/^- [^:\n]+\(\d{4}-\d{2}-\d{2}\): .*$/gm) || [])
+    .map(line => line.replace(/^[^:]*\): /, '').split('; ')[0])
+    .filter(keyPoint => keyPoint !== 'no key points');
+  const quotes = digest.match(/^\[\d+\] /gm) || [];
+  return JSON.stringify({
+    headline: `${keyPoints.length} updates this week`,
+    overview: keyPoints.slice(0, 3).join(' ') || 'No key points were reported.',
+    achievements: keyPoints.slice(0, 3),
+    risks: [],
+    sentiment_summary: 'Sentiment was steady compared with the previous period.',
+    quote_numbers: quotes.slice(0, 2).map((_, index) => index + 1),
+  });
+}
+
+const FAKE_EMBEDDING_DIMENSIONS = 1536;
+
+// Hashes words into a normalised bag-of-words vector, so texts sharing words end up close together
+function fakeEmbedding(text: string, dimensions: number): number[] {
+  const vector = new Array(dimensions).fill(0);
+  for (const word of text.toLowerCase().match(/[a-z0-9]{3,}/g) || []) {
+    let hash = 0;
+    for (let i = 0; i < word.length; i++) {
+      hash = (hash * 31 + word.charCodeAt(i)) >>> 0;
+    }
+    vector[hash % dimensions] += 1;
+  }
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return vector.map(value => value / length);
+}
+
+const FAKE_RESPONDERS: Record<string, FakeResponder> = {
+  theme_labeling: fakeThemeLabel,
+  assistant_query: fakeRetrievalPlan,
+  assistant_answer: fakeAssistantAnswer,
+  executive_summary: fakeExecutiveSummary,
+  pii_detection: fakeNamedEntities,
+  language_detection: () => 'en',
+  translation: fakeTranslation,
+  analysis: fakeAnalysis,
+  // Answer the original prompt again rather than the repair instructions
+  analysis_repair: messages => fakeAnalysis(messages.filter(message => message.role === 'user').slice(0, 1)),
+};
+
+export function createFakeProvider(): AIProvider {
+  const transcribe = async (request: TranscriptionRequest): Promise<TranscriptionResult> => {
+    const sentences = [`Recording ${request.fileName} (${request.file.size} bytes).`, ...FAKE_TRANSCRIPT_SENTENCES];
+    // Five seconds per sentence keeps timestamps predictable
+    const segments = sentences.map((text, index) => ({ id: index, start: index * 5, end: (index + 1) * 5, text }));
+
+    return {
+      text: sentences.join(' '),
+      segments,
+      language: 'en',
+      duration: sentences.length * 5,
+    };
+  };
+
+  const complete = async (request: ChatCompletionRequest): Promise<ChatCompletionResult> => {
+    const responder = FAKE_RESPONDERS[request.task];
+    const content = responder
+      ? responder(request.messages)
+      : `Fake ${request.task} response for ${lastUserMessage(request.messages).length} characters of input.`;
+
+    // Roughly four characters per token, like the real tokenizers
+    const inputCharacters = request.messages.reduce((total, message) => total + message.content.length, 0);
+    return {
+      content,
+      model: 'fake-chat',
+      usage: { inputTokens: Math.ceil(inputCharacters / 4), outputTokens: Math.ceil(content.length / 4) },
+    };
+  };
+
+  const embed = async (request: EmbeddingRequest): Promise<EmbeddingResult> => ({
+    embeddings: request.input.map(text => fakeEmbedding(text, request.dimensions || FAKE_EMBEDDING_DIMENSIONS)),
+    model: 'fake-embedding',
+    usage: { inputTokens: Math.ceil(request.input.reduce((total, text) => total + text.length, 0) / 4) },
+  });
+
+  return {
+    name: 'fake',
+    chatModel: 'fake-chat',
+    transcriptionModel: 'fake-transcription',
+    embeddingModel: 'fake-embedding',
+    transcribe,
+    complete,
+    embed,
+  };
+}
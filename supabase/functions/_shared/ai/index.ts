@@ -0,0 +1,108 @@
+import { createFakeProvider } from './fake.ts';
+import { createOpenAIProvider, OPENAI_BASE_URL } from './openai.ts';
+import type { AIProvider } from './types.ts';
+
+export type { AIProvider, ChatMessage } from './types.ts';
+
+const DEFAULT_CHAT_MODEL = 'gpt-4o';
+const DEFAULT_TRANSCRIPTION_MODEL = 'whisper-1';
+const DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-small';
+
+interface ProviderSettings {
+  kind: string;
+  baseUrl?: string;
+  apiKey?: string;
+  chatModel: string;
+  transcriptionModel: string;
+  embeddingModel: string;
+}
+
+function env(name: string): string | undefined {
+  return Deno.env.get(name) || undefined;
+}
+
+function createProvider(settings: ProviderSettings): AIProvider {
+  switch (settings.kind) {
+    case 'openai': {
+      const apiKey = settings.apiKey || env('OPENAI_API_KEY');
+      if (!apiKey) {
+        throw new Error('OpenAI API key not configured');
+      }
+      return createOpenAIProvider({
+        name: 'openai',
+        baseUrl: settings.baseUrl || OPENAI_BASE_URL,
+        apiKey,
+        chatModel: settings.chatModel,
+        transcriptionModel: settings.transcriptionModel,
+        embeddingModel: settings.embeddingModel,
+      });
+    }
+    case 'openai-compatible': {
+      if (!settings.baseUrl) {
+        throw new Error('AI_BASE_URL must be set for the openai-compatible provider');
+      }
+      return createOpenAIProvider({
+        name: 'openai-compatible',
+        baseUrl: settings.baseUrl,
+        apiKey: settings.apiKey,
+        chatModel: settings.chatModel,
+        transcriptionModel: settings.transcriptionModel,
+        embeddingModel: settings.embeddingModel,
+      });
+    }
+    case 'fake':
+      return createFakeProvider();
+    default:
+      throw new Error(`Unknown AI provider: ${settings.kind}`);
+  }
+}
+
+// Builds the provider from environment configuration:
+//   AI_PROVIDER                 openai (default) | openai-compatible | fake
+//   AI_BASE_URL, AI_API_KEY     endpoint and key for openai-compatible servers
+//   AI_CHAT_MODEL               defaults to gpt-4o
+//   AI_TRANSCRIPTION_MODEL      defaults to whisper-1
+//   AI_EMBEDDING_MODEL          defaults to text-embedding-3-small; served by the chat provider
+//   AI_TRANSCRIPTION_PROVIDER   optional separate provider for transcription,
+//   AI_TRANSCRIPTION_BASE_URL,  e.g. a local chat model with OpenAI Whisper
+//   AI_TRANSCRIPTION_API_KEY
+export function getAIProvider(): AIProvider {
+  const chatModel = env('AI_CHAT_MODEL') || DEFAULT_CHAT_MODEL;
+  const transcriptionModel = env('AI_TRANSCRIPTION_MODEL') || DEFAULT_TRANSCRIPTION_MODEL;
+  const embeddingModel = env('AI_EMBEDDING_MODEL') || DEFAULT_EMBEDDING_MODEL;
+
+  const chatSettings: ProviderSettings = {
+    kind: env('AI_PROVIDER') || 'openai',
+    baseUrl: env('AI_BASE_URL'),
+    apiKey: env('AI_API_KEY'),
+    chatModel,
+    transcriptionModel,
+    embeddingModel,
+  };
+
+  const chatProvider = createProvider(chatSettings);
+
+  const transcriptionKind = env('AI_TRANSCRIPTION_PROVIDER');
+  if (!transcriptionKind) {
+    return chatProvider;
+  }
+
+  const transcriptionProvider = createProvider({
+    kind: transcriptionKind,
+    baseUrl: env('AI_TRANSCRIPTION_BASE_URL'),
+    apiKey: env('AI_TRANSCRIPTION_API_KEY'),
+    chatModel,
+    transcriptionModel,
+    embeddingModel,
+  });
+
+  return {
+    name: `${chatProvider.name}+${transcriptionProvider.name}`,
+    chatModel: chatProvider.chatModel,
+    transcriptionModel: transcriptionProvider.transcriptionModel,
+    embeddingModel: chatProvider.embeddingModel,
+    transcribe: transcriptionProvider.transcribe,
+    complete: chatProvider.complete,
+    embed: chatProvider.embed,
+  };
+}
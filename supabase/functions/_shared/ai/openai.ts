@@ -0,0 +1,137 @@
+import type {
+  AIProvider,
+  ChatCompletionRequest,
+  ChatCompletionResult,
+  EmbeddingRequest,
+  EmbeddingResult,
+  TranscriptionRequest,
+  TranscriptionResult,
+  TranscriptSegment,
+} from './types.ts';
+
+export const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+export interface OpenAIProviderOptions {
+  name: string;
+  baseUrl: string;
+  // Optional because local OpenAI-compatible servers (llama.cpp, Ollama) usually run without auth
+  apiKey?: string;
+  chatModel: string;
+  transcriptionModel: string;
+  embeddingModel: string;
+}
+
+// Works against api.openai.com and any server implementing the same REST API
+export function createOpenAIProvider(options: OpenAIProviderOptions): AIProvider {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  const authHeaders: Record<string, string> = options.apiKey
+    ? { 'Authorization': `Bearer ${options.apiKey}` }
+    : {};
+
+  const transcribe = async (request: TranscriptionRequest): Promise<TranscriptionResult> => {
+    const formData = new FormData();
+    formData.append('file', request.file, request.fileName);
+    formData.append('model', options.transcriptionModel);
+    // verbose_json carries segment timestamps alongside the text
+    formData.append('response_format', 'verbose_json');
+    formData.append('timestamp_granularities[]', 'segment');
+
+    const response = await fetch(`${baseUrl}/audio/transcriptions`, {
+      method: 'POST',
+      headers: authHeaders,
+      body: formData,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`${options.name} transcription error (${response.status}): ${errorText}`);
+    }
+
+    const result = await response.json();
+    const segments: TranscriptSegment[] = Array.isArray(result.segments)
+      ? result.segments.map((segment: { id?: number; start: number; end: number; text: string }, index: number) => ({
+        id: segment.id ?? index,
+        start: Number(segment.start) || 0,
+        end: Number(segment.end) || 0,
+        text: (segment.text || '').trim(),
+      }))
+      : [];
+
+    return {
+      text: result.text || '',
+      segments,
+      language: result.language || null,
+      duration: typeof result.duration === 'number' ? result.duration : null,
+    };
+  };
+
+  const complete = async (request: ChatCompletionRequest): Promise<ChatCompletionResult> => {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        ...authHeaders,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: options.chatModel,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`${options.name} chat completion error (${response.status}): ${errorText}`);
+    }
+
+    const result = await response.json();
+    return {
+      content: result.choices?.[0]?.message?.content || '',
+      model: result.model || options.chatModel,
+      usage: result.usage
+        ? { inputTokens: result.usage.prompt_tokens || 0, outputTokens: result.usage.completion_tokens || 0 }
+        : null,
+    };
+  };
+
+  const embed = async (request: EmbeddingRequest): Promise<EmbeddingResult> => {
+    const response = await fetch(`${baseUrl}/embeddings`, {
+      method: 'POST',
+      headers: {
+        ...authHeaders,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: options.embeddingModel,
+        input: request.input,
+        dimensions: request.dimensions,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`${options.name} embedding error (${response.status}): ${errorText}`);
+    }
+
+    const result = await response.json();
+    // Results carry their input index; servers do not all keep the order
+    const data = [...(result.data || [])] as { index: number; embedding: number[] }[];
+    data.sort((a, b) => a.index - b.index);
+    return {
+      embeddings: data.map(item => item.embedding),
+      model: result.model || options.embeddingModel,
+      usage: result.usage ? { inputTokens: result.usage.prompt_tokens || 0 } : null,
+    };
+  };
+
+  return {
+    name: options.name,
+    chatModel: options.chatModel,
+    transcriptionModel: options.transcriptionModel,
+    embeddingModel: options.embeddingModel,
+    transcribe,
+    complete,
+    embed,
+  };
+}
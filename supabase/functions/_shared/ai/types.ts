@@ -0,0 +1,83 @@
+// Provider-agnostic contracts for the AI calls made by the edge functions.
+// Implementations live next to this file; pick one with getAIProvider().
+
+export interface TranscriptionRequest {
+  file: Blob;
+  fileName: string;
+}
+
+// Times are in seconds from the start of the recording
+export interface TranscriptSegment {
+  id: number;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  // Empty when the provider does not return timestamps
+  segments: TranscriptSegment[];
+  language?: string | null;
+  duration?: number | null;
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatCompletionRequest {
+  // What the call is for (e.g. 'analysis'). The fake provider uses it to pick a canned response.
+  task: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ChatCompletionResult {
+  content: string;
+  model: string;
+  // Null when the provider does not report token counts
+  usage?: TokenUsage | null;
+}
+
+export interface EmbeddingRequest {
+  // What the embeddings are for (e.g. 'embedding'), recorded in AI usage
+  task: string;
+  input: string[];
+  // Requested vector size, for models that support shortening their output
+  dimensions?: number;
+}
+
+export interface EmbeddingResult {
+  // One vector per input, in the same order
+  embeddings: number[][];
+  model: string;
+  usage?: { inputTokens: number } | null;
+}
+
+export interface TranscriptionProvider {
+  name: string;
+  transcriptionModel: string;
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionResult>;
+}
+
+export interface ChatProvider {
+  name: string;
+  chatModel: string;
+  complete(request: ChatCompletionRequest): Promise<ChatCompletionResult>;
+}
+
+export interface EmbeddingProvider {
+  name: string;
+  embeddingModel: string;
+  embed(request: EmbeddingRequest): Promise<EmbeddingResult>;
+}
+
+export type AIProvider = TranscriptionProvider & ChatProvider & EmbeddingProvider;
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { estimateCost, findModelPrice, type ModelPrice } from './aiUsage.ts';
+
+const price = (model: string, input = 0, output = 0, audio = 0): ModelPrice => ({
+  model,
+  input_per_million: input,
+  output_per_million: output,
+  audio_per_minute: audio,
+});
+
+const PRICES = [
+  price('gpt-4o', 2.5, 10),
+  price('gpt-4o-mini', 0.15, 0.6),
+  price('whisper-1', 0, 0, 0.006),
+];
+
+describe('findModelPrice', () => {
+  it('prefers an exact match', () => {
+    expect(findModelPrice(PRICES, 'gpt-4o-mini')?.model).toBe('gpt-4o-mini');
+    expect(findModelPrice(PRICES, 'gpt-4o')?.model).toBe('gpt-4o');
+  });
+
+  it('prices dated snapshots with the longest matching prefix', () => {
+    expect(findModelPrice(PRICES, 'gpt-4o-2024-08-06')?.model).toBe('gpt-4o');
+    expect(findModelPrice(PRICES, 'gpt-4o-mini-2024-07-18')?.model).toBe('gpt-4o-mini');
+  });
+
+  it('does not let "gpt-4o" price "gpt-4o-mini"', () => {
+    const withoutMini = PRICES.filter(entry => entry.model !== 'gpt-4o-mini');
+
+    expect(findModelPrice(withoutMini, 'gpt-4o-mini')).toBeNull();
+    expect(findModelPrice(withoutMini, 'gpt-4o-mini-2024-07-18')).toBeNull();
+  });
+
+  it('only matches whole name parts', () => {
+    expect(findModelPrice(PRICES, 'gpt-4omni')).toBeNull();
+    expect(findModelPrice(PRICES, 'claude-3-5-sonnet')).toBeNull();
+  });
+});
+
+describe('estimateCost', () => {
+  it('adds token and audio costs, rounded to millionths', () => {
+    expect(estimateCost(PRICES[0], { input_tokens: 1200, output_tokens: 300, audio_seconds: null })).toBe(0.006);
+    expect(estimateCost(PRICES[2], { input_tokens: null, output_tokens: null, audio_seconds: 90 })).toBe(0.009);
+  });
+
+  it('accepts prices loaded as numeric strings', () => {
+    const loaded = { ...price('gpt-4o-mini'), input_per_million: '0.15', output_per_million: '0.6' } as unknown as ModelPrice;
+
+    expect(estimateCost(loaded, { input_tokens: 1_000_000, output_tokens: 1_000_000, audio_seconds: null })).toBe(0.75);
+  });
+
+  it('is null without a price', () => {
+    expect(estimateCost(null, { input_tokens: 100, output_tokens: 100, audio_seconds: null })).toBeNull();
+  });
+});
@@ -0,0 +1,133 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import type { AIProvider, ChatCompletionRequest, EmbeddingRequest, TranscriptionRequest } from './ai/types.ts';
+
+// Records every AI call in ai_usage with its token counts, audio duration and
+// estimated cost. Wrap a provider with tracker.track() and use it as before.
+
+export interface UsageContext {
+  functionName: string;
+  submissionId?: string | null;
+  userId?: string | null;
+}
+
+export interface ModelPrice {
+  model: string;
+  input_per_million: number;
+  output_per_million: number;
+  audio_per_minute: number;
+}
+
+interface UsageRecord {
+  operation: string;
+  model: string;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  audio_seconds: number | null;
+}
+
+// Exact match first, then the longest price entry the model name extends with a
+// dated or numbered snapshot suffix ("gpt-4o" prices "gpt-4o-2024-08-06" but
+// never "gpt-4o-mini", even when that model has no price of its own)
+export function findModelPrice(prices: ModelPrice[], model: string): ModelPrice | null {
+  const exact = prices.find(price => price.model === model);
+  if (exact) return exact;
+
+  return prices
+    .filter(price => model.startsWith(`${price.model}-`) && /^\d/.test(model.slice(price.model.length + 1)))
+    .sort((a, b) => b.model.length - a.model.length)[0] || null;
+}
+
+export function estimateCost(price: ModelPrice | null, usage: Omit<UsageRecord, 'operation' | 'model'>): number | null {
+  if (!price) return null;
+  const cost =
+    ((usage.input_tokens || 0) * Number(price.input_per_million)) / 1_000_000 +
+    ((usage.output_tokens || 0) * Number(price.output_per_million)) / 1_000_000 +
+    ((usage.audio_seconds || 0) / 60) * Number(price.audio_per_minute);
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+export function createUsageTracker(supabase: SupabaseClient) {
+  let prices: Promise<ModelPrice[]> | null = null;
+
+  const loadPrices = () => {
+    if (!prices) {
+      prices = supabase
+        .from('ai_model_prices')
+        .select('model, input_per_million, output_per_million, audio_per_minute')
+        .then(({ data, error }) => {
+          if (error) {
+            console.error('Failed to load AI model prices:', error);
+            return [];
+          }
+          return (data || []) as ModelPrice[];
+        });
+    }
+    return prices;
+  };
+
+  // Usage logging must never fail the AI call it describes
+  const record = async (provider: string, context: UsageContext, usage: UsageRecord) => {
+    try {
+      const price = findModelPrice(await loadPrices(), usage.model);
+      if (!price) {
+        console.warn(`No price configured for model ${usage.model}; usage is recorded without cost`);
+      }
+
+      const { error } = await supabase.from('ai_usage').insert({
+        submission_id: context.submissionId || null,
+        user_id: context.userId || null,
+        function_name: context.functionName,
+        provider,
+        ...usage,
+        estimated_cost: estimateCost(price, usage),
+      });
+
+      if (error) {
+        console.error('Failed to record AI usage:', error);
+      }
+    } catch (error) {
+      console.error('Failed to record AI usage:', error);
+    }
+  };
+
+  const track = (ai: AIProvider, context: UsageContext): AIProvider => ({
+    ...ai,
+    transcribe: async (request: TranscriptionRequest) => {
+      const result = await ai.transcribe(request);
+      await record(ai.name, context, {
+        operation: 'transcription',
+        model: ai.transcriptionModel,
+        input_tokens: null,
+        output_tokens: null,
+        audio_seconds: result.duration ?? null,
+      });
+      return result;
+    },
+    complete: async (request: ChatCompletionRequest) => {
+      const result = await ai.complete(request);
+      await record(ai.name, context, {
+        operation: request.task,
+        model: result.model,
+        input_tokens: result.usage?.inputTokens ?? null,
+        output_tokens: result.usage?.outputTokens ?? null,
+        audio_seconds: null,
+      });
+      return result;
+    },
+    embed: async (request: EmbeddingRequest) => {
+      const result = await ai.embed(request);
+      await record(ai.name, context, {
+        operation: request.task,
+        model: result.model,
+        input_tokens: result.usage?.inputTokens ?? null,
+        output_tokens: null,
+        audio_seconds: null,
+      });
+      return result;
+    },
+  });
+
+  return { track };
+}
+
+export type UsageTracker = ReturnType<typeof createUsageTracker>;
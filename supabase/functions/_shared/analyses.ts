@@ -0,0 +1,248 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import {
+  normalizeConfidence,
+  normalizeExtractedKPIs,
+  replaceExtractedKPIs,
+  type ExtractedKPI,
+  type StoredKPIValue,
+} from './kpis.ts';
+import { loadKPIMatchDecisions, moveKPIMatchDecisions, syncKPIPerformance, type KPIMatchDecision } from './kpiMatching.ts';
+import { normalizeQuoteEvidence, type QuoteEvidence } from './evidence.ts';
+import {
+  normalizeAspectSentiments,
+  normalizeSentimentScore,
+  replaceAspectSentiments,
+  type AspectSentiment,
+} from './sentiment.ts';
+
+// Every analysis run is stored in submission_analyses. The submission's
+// key_points, sentiment, ai_quotes, KPI and aspect sentiment rows mirror the run that
+// submissions.active_analysis_id points at, so rolling back is re-activating
+// an older run rather than re-running the model.
+
+export type AnalysisTrigger = 'process-submission' | 'reprocess-transcripts';
+
+export interface AnalysisOutput {
+  key_points: string[];
+  // Model confidence (0 to 1) for each of key_points, in the same order; null when not scored
+  key_point_confidences: (number | null)[];
+  extracted_kpis: ExtractedKPI[];
+  sentiment: string;
+  sentiment_confidence: number | null;
+  // -1 to 1; null when the prompt did not ask for a score
+  sentiment_score: number | null;
+  aspect_sentiments: AspectSentiment[];
+  ai_quotes: string[];
+  // Source reference and verification result for each of ai_quotes, in the same order
+  quote_evidence: QuoteEvidence[];
+}
+
+export interface StoredAnalysis extends AnalysisOutput {
+  id: string;
+  version: number;
+}
+
+// Runs whose response never passed validation are recorded as invalid and never activated
+export type AnalysisStatus = 'valid' | 'invalid';
+
+export const EMPTY_ANALYSIS_OUTPUT: AnalysisOutput = {
+  key_points: [],
+  key_point_confidences: [],
+  extracted_kpis: [],
+  sentiment: 'neutral',
+  sentiment_confidence: null,
+  sentiment_score: null,
+  aspect_sentiments: [],
+  ai_quotes: [],
+  quote_evidence: [],
+};
+
+interface RecordAnalysisOptions {
+  trigger: AnalysisTrigger;
+  // Label and row of the prompt template the run was rendered from
+  promptVersion: string;
+  promptTemplateId: string | null;
+  provider: string;
+  model: string;
+  output: AnalysisOutput;
+  // The model response before parsing, kept for debugging bad runs
+  rawOutput: string | null;
+  status?: AnalysisStatus;
+  validationErrors?: string[];
+  repairAttempts?: number;
+}
+
+const SENTIMENTS = ['positive', 'negative', 'neutral'];
+
+function stringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((item): item is string => typeof item === 'string')
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+// Key points come from the model as strings or { text, confidence } objects, and
+// from the database as strings with the scores in a separate array
+function keyPointList(value: unknown, storedConfidences: unknown) {
+  const confidences = Array.isArray(storedConfidences) ? storedConfidences : [];
+  const points: { text: string; confidence: number | null }[] = [];
+
+  (Array.isArray(value) ? value : []).forEach((item, position) => {
+    const scored = item && typeof item === 'object' ? item as { text?: unknown; confidence?: unknown } : null;
+    const text = scored ? scored.text : item;
+    if (typeof text !== 'string' || !text.trim()) return;
+    points.push({
+      text: text.trim(),
+      confidence: normalizeConfidence(scored ? scored.confidence : confidences[position]),
+    });
+  });
+
+  return points;
+}
+
+// Coerces the parsed model response into the stored analysis shape
+export function normalizeAnalysisOutput(raw: unknown): AnalysisOutput {
+  const result = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const sentiment = typeof result.sentiment === 'string' ? result.sentiment.trim().toLowerCase() : '';
+  const quotes = stringList(result.ai_quotes);
+  const keyPoints = keyPointList(result.key_points, result.key_point_confidences);
+
+  return {
+    key_points: keyPoints.map(point => point.text),
+    key_point_confidences: keyPoints.map(point => point.confidence),
+    extracted_kpis: normalizeExtractedKPIs(result.extracted_kpis),
+    sentiment: SENTIMENTS.includes(sentiment) ? sentiment : 'neutral',
+    sentiment_confidence: normalizeConfidence(result.sentiment_confidence),
+    sentiment_score: normalizeSentimentScore(result.sentiment_score),
+    aspect_sentiments: normalizeAspectSentiments(result.aspect_sentiments),
+    ai_quotes: quotes,
+    quote_evidence: normalizeQuoteEvidence(result.quote_evidence, quotes),
+  };
+}
+
+// Stores a run as the next version of the submission's analysis history
+export async function recordAnalysis(
+  supabase: SupabaseClient,
+  submission: { id: string; user_id: string },
+  options: RecordAnalysisOptions
+): Promise<StoredAnalysis> {
+  // Two runs racing for the same version number retry once with the next one
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const { data: latest, error: latestError } = await supabase
+      .from('submission_analyses')
+      .select('version')
+      .eq('submission_id', submission.id)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latestError) {
+      throw new Error(`Failed to load analysis history: ${latestError.message}`);
+    }
+
+    const version = (latest?.version || 0) + 1;
+    const { data, error } = await supabase
+      .from('submission_analyses')
+      .insert({
+        submission_id: submission.id,
+        user_id: submission.user_id,
+        version,
+        trigger: options.trigger,
+        prompt_version: options.promptVersion,
+        prompt_template_id: options.promptTemplateId,
+        provider: options.provider,
+        model: options.model,
+        ...options.output,
+        raw_output: options.rawOutput,
+        status: options.status || 'valid',
+        validation_errors: options.validationErrors || [],
+        repair_attempts: options.repairAttempts || 0,
+      })
+      .select('id, version')
+      .single();
+
+    if (!error) {
+      return { ...options.output, id: data.id, version: data.version };
+    }
+    if (error.code !== '23505') {
+      throw new Error(`Failed to record analysis: ${error.message}`);
+    }
+  }
+
+  throw new Error('Failed to record analysis: version conflict');
+}
+
+// Makes a stored run the submission's current analysis. Extra fields
+// (transcript, status, ...) are written in the same update.
+export async function activateAnalysis(
+  supabase: SupabaseClient,
+  submission: { id: string; user_id: string; created_at: string },
+  analysis: StoredAnalysis,
+  extraUpdate: Record<string, unknown> = {}
+): Promise<StoredKPIValue[]> {
+  // Removing the previous KPI rows drops their reviews, so the admin decisions are
+  // moved to the new rows first. A failure here fails the run with the decisions intact.
+  const matchDecisions = await loadKPIMatchDecisions(supabase, submission.id);
+  let movedDecisions = new Map<string, KPIMatchDecision>();
+
+  // Save KPI rows before updating the submission so dashboards reloading on the change see them
+  const storedKPIs = await replaceExtractedKPIs(supabase, submission, analysis.extracted_kpis, async stored => {
+    movedDecisions = await moveKPIMatchDecisions(supabase, matchDecisions, stored);
+  });
+  await replaceAspectSentiments(supabase, submission, analysis.aspect_sentiments);
+
+  // Matching onto KPI definitions must not fail the run; it can be redone by reprocessing
+  try {
+    const matching = await syncKPIPerformance(supabase, submission, storedKPIs, movedDecisions);
+    console.log(`KPI definition matching for ${submission.id}:`, matching);
+  } catch (matchingError) {
+    console.error(`Error matching KPIs to definitions for ${submission.id}:`, matchingError);
+  }
+
+  const { error } = await supabase
+    .from('submissions')
+    .update({
+      ...extraUpdate,
+      key_points: analysis.key_points,
+      key_point_confidences: analysis.key_point_confidences,
+      sentiment: analysis.sentiment,
+      sentiment_confidence: analysis.sentiment_confidence,
+      sentiment_score: analysis.sentiment_score,
+      ai_quotes: analysis.ai_quotes,
+      quote_evidence: analysis.quote_evidence,
+      active_analysis_id: analysis.id,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', submission.id);
+
+  if (error) {
+    throw new Error(`Failed to activate analysis: ${error.message}`);
+  }
+
+  return storedKPIs;
+}
+
+export async function loadAnalysis(
+  supabase: SupabaseClient,
+  analysisId: string
+): Promise<(StoredAnalysis & { submission_id: string; status: AnalysisStatus }) | null> {
+  const { data, error } = await supabase
+    .from('submission_analyses')
+    .select('id, version, submission_id, status, key_points, key_point_confidences, extracted_kpis, sentiment, sentiment_confidence, sentiment_score, aspect_sentiments, ai_quotes, quote_evidence')
+    .eq('id', analysisId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load analysis: ${error.message}`);
+  }
+  if (!data) return null;
+
+  return {
+    ...normalizeAnalysisOutput(data),
+    id: data.id,
+    version: data.version,
+    submission_id: data.submission_id,
+    status: data.status,
+  };
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { validateAnalysisResponse } from './analysisValidation.ts';
+
+const response = (kpi: Record<string, unknown>) => JSON.stringify({
+  key_points: ['Closed 12 deals'],
+  extracted_kpis: [kpi],
+  sentiment: 'positive',
+  ai_quotes: ['We closed 12 deals this week'],
+});
+
+describe('validateAnalysisResponse', () => {
+  it('accepts KPIs that leave out the optional keys', () => {
+    const result = validateAnalysisResponse(response({ metric_name: 'Deals closed', value: 12 }));
+
+    expect(result.valid).toBe(true);
+    if (!result.valid) return;
+    expect(result.output.extracted_kpis[0]).toMatchObject({
+      metric_name: 'Deals closed',
+      value: 12,
+      unit: null,
+      currency: null,
+      period: null,
+      direction: null,
+      source: null,
+      quote: null,
+    });
+  });
+
+  it('still rejects unknown keys and invalid values', () => {
+    const result = validateAnalysisResponse(response({ metric_name: 'Revenue', value: 5, currency: 'dollars', owner: 'me' }));
+
+    expect(result.valid).toBe(false);
+    if (result.valid) return;
+    expect(result.errors).toHaveLength(2);
+    expect(result.errors.some(error => error.startsWith('extracted_kpis.0.currency'))).toBe(true);
+  });
+
+  it('reads JSON wrapped in a markdown code block', () => {
+    const result = validateAnalysisResponse('```json\n' + response({ metric_name: 'Deals closed', value: 12 }) + '\n```');
+
+    expect(result.valid).toBe(true);
+  });
+});
@@ -0,0 +1,162 @@
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import type { ChatMessage, ChatProvider } from './ai/types.ts';
+import { normalizeAnalysisOutput, type AnalysisOutput } from './analyses.ts';
+import { SENTIMENT_ASPECTS } from './sentiment.ts';
+
+// The analysis response must match analysisResponseSchema. Invalid responses
+// are sent back to the model with the validation errors for a limited number
+// of repair attempts; if it still fails, no analysis is stored.
+
+export const MAX_REPAIR_ATTEMPTS = Number(Deno.env.get('ANALYSIS_REPAIR_ATTEMPTS') || '2');
+
+// More than this many errors would only bloat the repair prompt
+const MAX_REPORTED_ERRORS = 20;
+
+const nullableText = (max: number) => z.string().trim().max(max).nullable();
+// Optional so prompt templates that do not ask for scores still validate
+const confidence = z.number().min(0).max(1).nullable().optional();
+
+// Models often leave out keys they have no value for, so these default to null
+const kpiSchema = z.object({
+  metric_name: z.string().trim().min(1).max(200),
+  value: z.number().finite().nullable(),
+  unit: nullableText(50).default(null),
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO code such as "USD"').nullable().default(null),
+  period: nullableText(100).default(null),
+  direction: z.enum(['increase', 'decrease']).nullable().default(null),
+  source: z.enum(['video', 'docx', 'notes']).nullable().default(null),
+  quote: nullableText(1000).default(null),
+  confidence,
+}).strict();
+
+const keyPointText = z.string().trim().min(1).max(500);
+
+// Optional like confidence, for prompt templates without sentiment scores
+const sentimentScore = z.number().min(-1).max(1).nullable().optional();
+
+const aspectSentimentSchema = z.object({
+  aspect: z.enum(SENTIMENT_ASPECTS),
+  score: z.number().min(-1).max(1),
+  quote: nullableText(1000).optional(),
+}).strict();
+
+export const analysisResponseSchema = z.object({
+  key_points: z.array(z.union([
+    keyPointText,
+    z.object({ text: keyPointText, confidence }).strict(),
+  ])).max(10),
+  extracted_kpis: z.array(kpiSchema).max(50),
+  sentiment: z.enum(['positive', 'negative', 'neutral']),
+  sentiment_confidence: confidence,
+  sentiment_score: sentimentScore,
+  aspect_sentiments: z.array(aspectSentimentSchema).max(SENTIMENT_ASPECTS.length).optional(),
+  ai_quotes: z.array(z.string().trim().min(1).max(1000)).max(10),
+}).strict();
+
+// Strips markdown code fences and any text around the outermost JSON object
+export function cleanJsonResponse(content: string): string {
+  let cleaned = content.trim();
+
+  // Remove markdown code blocks if present
+  if (cleaned.startsWith('```json')) {
+    cleaned = cleaned.replace(/^```json\s*/, '');
+  }
+  if (cleaned.startsWith('```')) {
+    cleaned = cleaned.replace(/^```\s*/, '');
+  }
+  if (cleaned.endsWith('```')) {
+    cleaned = cleaned.replace(/\s*```$/, '');
+  }
+
+  // Remove any leading/trailing whitespace
+  cleaned = cleaned.trim();
+
+  // Find the first { and last } to extract just the JSON object
+  const firstBrace = cleaned.indexOf('{');
+  const lastBrace = cleaned.lastIndexOf('}');
+
+  if (firstBrace !== -1 && lastBrace !== -1 && firstBrace < lastBrace) {
+    cleaned = cleaned.substring(firstBrace, lastBrace + 1);
+  }
+
+  return cleaned;
+}
+
+export type AnalysisValidation =
+  | { valid: true; output: AnalysisOutput }
+  | { valid: false; errors: string[] };
+
+export function validateAnalysisResponse(content: string): AnalysisValidation {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(cleanJsonResponse(content));
+  } catch (error) {
+    return { valid: false, errors: [`Response is not valid JSON: ${error.message}`] };
+  }
+
+  const result = analysisResponseSchema.safeParse(parsed);
+  if (!result.success) {
+    return {
+      valid: false,
+      errors: result.error.issues
+        .slice(0, MAX_REPORTED_ERRORS)
+        .map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`),
+    };
+  }
+
+  return { valid: true, output: normalizeAnalysisOutput(result.data) };
+}
+
+function repairPrompt(errors: string[]): string {
+  return [
+    'Your previous response did not match the required JSON format:',
+    ...errors.map(error => `- ${error}`),
+    '',
+    'Respond again with ONLY the corrected JSON object, using the same structure and keeping all valid content.',
+  ].join('\n');
+}
+
+export interface ValidatedAnalysisResult {
+  // Null when the response was still invalid after all repair attempts
+  output: AnalysisOutput | null;
+  // The last model response
+  content: string;
+  errors: string[];
+  repairAttempts: number;
+}
+
+// Runs the analysis and asks the model to fix invalid responses. Provider
+// errors are not retried here and propagate to the caller.
+export async function completeValidatedAnalysis(
+  ai: ChatProvider,
+  messages: ChatMessage[],
+  options: { temperature?: number } = {}
+): Promise<ValidatedAnalysisResult> {
+  const conversation = [...messages];
+  let repairAttempts = 0;
+
+  for (;;) {
+    const response = await ai.complete({
+      task: repairAttempts === 0 ? 'analysis' : 'analysis_repair',
+      messages: conversation,
+      temperature: options.temperature,
+    });
+
+    const validation = validateAnalysisResponse(response.content);
+    if (validation.valid) {
+      return { output: validation.output, content: response.content, errors: [], repairAttempts };
+    }
+
+    console.warn(`Analysis response failed validation (attempt ${repairAttempts + 1}):`, validation.errors);
+
+    if (repairAttempts >= MAX_REPAIR_ATTEMPTS) {
+      return { output: null, content: response.content, errors: validation.errors, repairAttempts };
+    }
+
+    conversation.push(
+      { role: 'assistant', content: response.content },
+      { role: 'user', content: repairPrompt(validation.errors) }
+    );
+    repairAttempts++;
+  }
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { extractCitations, type AssistantSource } from './assistant.ts';
+
+const source = (content: string, source_index = 0): AssistantSource => ({
+  submission_id: 'submission-1',
+  user_id: 'user-1',
+  user_name: 'Team Lead',
+  source_type: 'key_point',
+  source_index,
+  segment_id: null,
+  start_seconds: null,
+  content,
+  submitted_at: '2025-07-21T09:00:00Z',
+});
+
+const SOURCES = [source('Closed 12 deals', 0), source('Hiring is slow', 1), source('Churn fell to 3%', 2)];
+
+describe('extractCitations', () => {
+  it('returns the cited sources with their reference numbers', () => {
+    const { answer, citations } = extractCitations('Deals were up [1] while churn fell [3].', SOURCES);
+
+    expect(answer).toBe('Deals were up [1] while churn fell [3].');
+    expect(citations).toEqual([{ ref: 1, ...SOURCES[0] }, { ref: 3, ...SOURCES[2] }]);
+  });
+
+  it('removes references to sources that were not provided', () => {
+    const { answer, citations } = extractCitations('Deals were up [1], hiring stalled [0] and revenue grew [4].', SOURCES);
+
+    expect(answer).toBe('Deals were up [1], hiring stalled and revenue grew.');
+    expect(citations.map(citation => citation.ref)).toEqual([1]);
+  });
+
+  it('lists a source cited several times once, in reference order', () => {
+    const { answer, citations } = extractCitations('Hiring is slow [2]. Deals [1] came despite hiring [2][1].', SOURCES);
+
+    expect(answer).toBe('Hiring is slow [2]. Deals [1] came despite hiring [2][1].');
+    expect(citations.map(citation => citation.ref)).toEqual([1, 2]);
+  });
+
+  it('returns no citations for an answer without references', () => {
+    const text = 'None of the submissions mention pricing.';
+
+    expect(extractCitations(text, SOURCES)).toEqual({ answer: text, citations: [] });
+  });
+});
@@ -0,0 +1,153 @@
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import type { ChatMessage, ChatProvider } from './ai/types.ts';
+import { cleanJsonResponse } from './analysisValidation.ts';
+import type { InsightSourceType } from './embeddings.ts';
+
+// Ask-your-data assistant for admins. A question is turned into a standalone
+// search (follow-ups resolved against the conversation, "last month" turned
+// into a date), the matching passages are retrieved with search_insights, and
+// the chat model answers from those passages only, citing them as [1], [2], ...
+// Citations to passages that were not provided are removed before saving.
+
+export type AssistantSourceType = Extract<InsightSourceType, 'key_point' | 'transcript_segment' | 'kpi'>;
+
+export const ASSISTANT_SOURCE_TYPES: AssistantSourceType[] = ['transcript_segment', 'key_point', 'kpi'];
+
+// A search_insights row the answer may cite
+export interface AssistantSource {
+  submission_id: string;
+  user_id: string;
+  user_name: string | null;
+  source_type: AssistantSourceType;
+  source_index: number;
+  segment_id: number | null;
+  start_seconds: number | null;
+  content: string;
+  submitted_at: string;
+}
+
+export interface Citation extends AssistantSource {
+  // The number the answer cites the source by
+  ref: number;
+}
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface RetrievalPlan {
+  query: string;
+  // Only submissions made on or after this time; null searches all of them
+  since: string | null;
+}
+
+// Earlier turns sent along with a new question
+export const HISTORY_TURNS = 6;
+
+export const NO_SOURCES_ANSWER =
+  'I could not find anything in the submissions about this. Try rephrasing the question or asking about a longer period.';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SOURCE_LABELS: Record<AssistantSourceType, string> = {
+  transcript_segment: 'Transcript',
+  key_point: 'Key point',
+  kpi: 'KPI',
+};
+
+const retrievalPlanSchema = z.object({
+  query: z.string().trim().min(1),
+  since_days: z.number().int().positive().nullable().optional(),
+});
+
+// Earlier answers cite sources the new question is not given, so their markers are removed
+const withoutCitations = (turn: ConversationTurn): ConversationTurn => ({
+  role: turn.role,
+  content: turn.content.replace(/ ?\[\d+\]/g, ''),
+});
+
+const formatHistory = (history: ConversationTurn[]) =>
+  history.map(withoutCitations).map(turn => `${turn.role === 'user' ? 'Admin' : 'Assistant'}: ${turn.content}`).join('\n');
+
+// Falls back to searching for the question as asked
+export async function planRetrieval(
+  ai: ChatProvider,
+  question: string,
+  history: ConversationTurn[]
+): Promise<RetrievalPlan> {
+  try {
+    const response = await ai.complete({
+      task: 'assistant_query',
+      messages: [
+        {
+          role: 'system',
+          content: 'You turn an admin\'s question about employee business updates into a search. Respond with ONLY a JSON object {"query": "...", "since_days": N or null}. "query" is a standalone search query with the key terms of the question; resolve references to earlier turns of the conversation. "since_days" is how many days back the question asks about ("last month" is 31, "this quarter" is 92), or null if it names no period.',
+        },
+        {
+          role: 'user',
+          content: history.length > 0
+            ? `Conversation so far:\n${formatHistory(history)}\n\nQuestion: ${question}`
+            : `Question: ${question}`,
+        },
+      ],
+      temperature: 0,
+    });
+
+    const result = retrievalPlanSchema.safeParse(JSON.parse(cleanJsonResponse(response.content)));
+    if (!result.success) {
+      throw new Error('Search plan response did not match the expected format');
+    }
+    return {
+      query: result.data.query,
+      since: result.data.since_days ? new Date(Date.now() - result.data.since_days * DAY_MS).toISOString() : null,
+    };
+  } catch (error) {
+    console.error('Error planning the search, using the question as asked:', error);
+    return { query: question, since: null };
+  }
+}
+
+function formatSource(source: AssistantSource, ref: number): string {
+  const submitter = source.user_name || 'Unknown user';
+  const date = source.submitted_at.slice(0, 10);
+  return `[${ref}] ${SOURCE_LABELS[source.source_type]} from ${submitter}, submitted ${date}: ${source.content}`;
+}
+
+export async function answerQuestion(
+  ai: ChatProvider,
+  question: string,
+  history: ConversationTurn[],
+  sources: AssistantSource[]
+): Promise<string> {
+  const messages: ChatMessage[] = [
+    {
+      role: 'system',
+      content: 'You answer an admin\'s questions about employee business updates using ONLY the numbered sources provided with the question. Cite the source of every claim with its number in square brackets, e.g. "Two teams are short of cloud engineers [2][5]." If the sources do not answer the question, say so instead of guessing. Do not invent names, numbers or dates. Answer in plain text; use "- " for lists.',
+    },
+    ...history.map(withoutCitations),
+    {
+      role: 'user',
+      content: `Sources:\n${sources.map((source, index) => formatSource(source, index + 1)).join('\n')}\n\nQuestion: ${question}`,
+    },
+  ];
+
+  const response = await ai.complete({ task: 'assistant_answer', messages, temperature: 0.2 });
+  return response.content.trim();
+}
+
+// Keeps the citations the answer actually uses and drops references to sources that do not exist
+export function extractCitations(answer: string, sources: AssistantSource[]): { answer: string; citations: Citation[] } {
+  const cited = new Set<number>();
+  const cleaned = answer.replace(/ ?\[(\d+)\]/g, (marker, number) => {
+    const ref = Number(number);
+    if (ref < 1 || ref > sources.length) return '';
+    cited.add(ref);
+    return marker;
+  });
+
+  return {
+    answer: cleaned,
+    citations: [...cited].sort((a, b) => a - b).map(ref => ({ ref, ...sources[ref - 1] })),
+  };
+}
@@ -0,0 +1,172 @@
+import type { TranscriptionProvider, TranscriptionResult, TranscriptSegment } from './ai/types.ts';
+
+// Transcription APIs cap uploads (25MB for Whisper). Larger recordings are
+// converted to compact mono audio with ffmpeg and, if still too large or
+// long, cut into overlapping chunks that are transcribed one by one and
+// stitched back into a single timestamped transcript.
+//
+// This needs subprocesses, which the hosted Supabase Edge Runtime does not
+// allow, so recordings over the limit only work on self-hosted runtimes with
+// ffmpeg installed. Hosted deployments keep uploads at 25MB.
+
+const MB = 1024 * 1024;
+
+const maxTranscriptionBytes = Number(Deno.env.get('AI_TRANSCRIPTION_MAX_MB') || '25') * MB;
+const chunkSeconds = Number(Deno.env.get('TRANSCRIPTION_CHUNK_SECONDS') || '600');
+const overlapSeconds = Number(Deno.env.get('TRANSCRIPTION_CHUNK_OVERLAP_SECONDS') || '5');
+const ffmpegPath = Deno.env.get('FFMPEG_PATH') || 'ffmpeg';
+const ffprobePath = Deno.env.get('FFPROBE_PATH') || 'ffprobe';
+
+export interface TranscriptChunk {
+  // Where the chunk starts in the full recording, in seconds
+  offset: number;
+  // Start of the part of the recording this chunk is responsible for; the overlap before it is shared with the previous chunk
+  boundary: number;
+  result: TranscriptionResult;
+}
+
+async function run(command: string, args: string[]): Promise<string> {
+  let output: Deno.CommandOutput;
+  try {
+    output = await new Deno.Command(command, { args, stdout: 'piped', stderr: 'piped' }).output();
+  } catch (error) {
+    throw new Error(
+      `Recording is larger than ${maxTranscriptionBytes / MB}MB and needs ffmpeg to be split, ` +
+      `but ${command} could not be started (${error.message}). The hosted Edge Runtime cannot run ffmpeg; ` +
+      `self-hosted runtimes need it installed or FFMPEG_PATH set.`
+    );
+  }
+
+  if (!output.success) {
+    throw new Error(`${command} failed: ${new TextDecoder().decode(output.stderr).slice(-500)}`);
+  }
+  return new TextDecoder().decode(output.stdout);
+}
+
+async function probeDuration(path: string): Promise<number> {
+  const output = await run(ffprobePath, ['-v', 'error', '-show_entries', 'format=duration', '-of', 'csv=p=0', path]);
+  const duration = parseFloat(output.trim());
+  if (!Number.isFinite(duration) || duration <= 0) {
+    throw new Error(`Could not determine recording duration (ffprobe returned "${output.trim()}")`);
+  }
+  return duration;
+}
+
+// 16kHz mono at 32kbps is plenty for speech and keeps 10 minutes of audio around 2.4MB
+async function extractAudio(input: string, output: string, start: number, length: number) {
+  await run(ffmpegPath, [
+    '-hide_banner', '-loglevel', 'error', '-y',
+    '-ss', start.toFixed(3),
+    '-t', length.toFixed(3),
+    '-i', input,
+    '-vn', '-ac', '1', '-ar', '16000', '-b:a', '32k',
+    output,
+  ]);
+}
+
+function normalizeWords(text: string): string[] {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, '').split(/\s+/).filter(Boolean);
+}
+
+// Drops the words at the start of `next` that repeat the end of `previous`
+function trimRepeatedPrefix(previous: string, next: string, maxWords = 40): string {
+  const previousWords = normalizeWords(previous).slice(-maxWords);
+  const nextWords = next.split(/\s+/).filter(Boolean);
+  const nextNormalized = normalizeWords(next);
+
+  for (let length = Math.min(previousWords.length, nextNormalized.length, maxWords); length > 0; length--) {
+    const tail = previousWords.slice(-length).join(' ');
+    if (nextNormalized.slice(0, length).join(' ') === tail) {
+      return nextWords.slice(length).join(' ');
+    }
+  }
+  return next;
+}
+
+export function stitchTranscripts(chunks: TranscriptChunk[]): TranscriptionResult {
+  const segments: TranscriptSegment[] = [];
+  const texts: string[] = [];
+
+  chunks.forEach((chunk, index) => {
+    const nextBoundary = chunks[index + 1]?.boundary;
+    // Split the overlap between neighbouring chunks at its midpoint
+    const keepFrom = index === 0 ? -Infinity : chunk.boundary - overlapSeconds / 2;
+    const keepUntil = nextBoundary === undefined ? Infinity : nextBoundary - overlapSeconds / 2;
+
+    if (chunk.result.segments.length > 0) {
+      const kept = chunk.result.segments
+        .map(segment => ({ ...segment, start: segment.start + chunk.offset, end: segment.end + chunk.offset }))
+        .filter(segment => {
+          const midpoint = (segment.start + segment.end) / 2;
+          return midpoint >= keepFrom && midpoint < keepUntil;
+        });
+
+      // The same sentence can land on both sides of the cut; keep one copy
+      const last = segments[segments.length - 1];
+      if (last && kept[0] && normalizeWords(last.text).join(' ') === normalizeWords(kept[0].text).join(' ')) {
+        kept.shift();
+      }
+
+      segments.push(...kept);
+      texts.push(kept.map(segment => segment.text).join(' '));
+    } else {
+      // Providers without timestamps: remove the overlap by matching repeated words
+      const previous = texts[texts.length - 1];
+      texts.push(previous ? trimRepeatedPrefix(previous, chunk.result.text) : chunk.result.text);
+    }
+  });
+
+  const lastChunk = chunks[chunks.length - 1];
+  return {
+    text: texts.filter(Boolean).join(' ').trim(),
+    segments: segments.map((segment, id) => ({ ...segment, id })),
+    language: chunks.find(chunk => chunk.result.language)?.result.language || null,
+    duration: lastChunk?.result.duration != null ? lastChunk.offset + lastChunk.result.duration : null,
+  };
+}
+
+export async function transcribeRecording(
+  ai: TranscriptionProvider,
+  file: Blob,
+  fileName: string
+): Promise<TranscriptionResult> {
+  if (file.size <= maxTranscriptionBytes) {
+    return ai.transcribe({ file, fileName });
+  }
+
+  console.log(`Recording is ${(file.size / MB).toFixed(1)}MB, splitting into chunks of ${chunkSeconds}s with ${overlapSeconds}s overlap`);
+
+  const workDir = await Deno.makeTempDir({ prefix: 'transcription-' });
+  try {
+    const input = `${workDir}/input`;
+    await Deno.writeFile(input, new Uint8Array(await file.arrayBuffer()));
+
+    const duration = await probeDuration(input);
+    const chunks: TranscriptChunk[] = [];
+
+    for (let boundary = 0, index = 0; boundary < duration; boundary += chunkSeconds, index++) {
+      const offset = Math.max(0, boundary - overlapSeconds);
+      const length = Math.min(duration, boundary + chunkSeconds) - offset;
+      const chunkPath = `${workDir}/chunk-${index}.mp3`;
+
+      await extractAudio(input, chunkPath, offset, length);
+      const audio = await Deno.readFile(chunkPath);
+      if (audio.byteLength > maxTranscriptionBytes) {
+        throw new Error(`Audio chunk ${index} is ${(audio.byteLength / MB).toFixed(1)}MB; lower TRANSCRIPTION_CHUNK_SECONDS`);
+      }
+
+      console.log(`Transcribing chunk ${index} (${offset.toFixed(0)}s-${(offset + length).toFixed(0)}s, ${(audio.byteLength / MB).toFixed(1)}MB)`);
+      const result = await ai.transcribe({
+        file: new Blob([audio], { type: 'audio/mpeg' }),
+        fileName: `${fileName.replace(/\.[^.]+$/, '')}-part${index + 1}.mp3`,
+      });
+      chunks.push({ offset, boundary, result });
+    }
+
+    const stitched = stitchTranscripts(chunks);
+    console.log(`Stitched ${chunks.length} chunks into ${stitched.segments.length} segments`);
+    return { ...stitched, duration: stitched.duration ?? duration };
+  } finally {
+    await Deno.remove(workDir, { recursive: true }).catch(() => {});
+  }
+}
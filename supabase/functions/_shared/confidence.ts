@@ -0,0 +1,35 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+
+// Mirrors src/lib/confidence.ts: items the model scored below the
+// admin-configured threshold only count once an admin confirms them. Unscored
+// items (analyses from before confidence scores) always count as confirmed.
+
+export type InsightType = 'kpi' | 'key_point' | 'sentiment';
+
+export type ConfidenceThresholds = Record<InsightType, number>;
+
+export const DEFAULT_CONFIDENCE_THRESHOLDS: ConfidenceThresholds = {
+  kpi: 0.7,
+  key_point: 0.6,
+  sentiment: 0.6,
+};
+
+export async function loadConfidenceThresholds(supabase: SupabaseClient): Promise<ConfidenceThresholds> {
+  const { data, error } = await supabase
+    .from('confidence_thresholds')
+    .select('item_type, threshold');
+
+  if (error) {
+    throw new Error(`Failed to load confidence thresholds: ${error.message}`);
+  }
+
+  const thresholds = { ...DEFAULT_CONFIDENCE_THRESHOLDS };
+  for (const row of data || []) {
+    if (row.item_type in thresholds) thresholds[row.item_type as InsightType] = Number(row.threshold);
+  }
+  return thresholds;
+}
+
+export function isLowConfidence(confidence: number | null | undefined, threshold: number): boolean {
+  return confidence !== null && confidence !== undefined && confidence < threshold;
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { strToU8, zipSync } from 'https://esm.sh/fflate@0.8.2';
+import { parseDocumentXml, parseDocx, renderDocxText } from './docx.ts';
+
+const body = (content: string) =>
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:document><w:body>${content}</w:body></w:document>`;
+
+const paragraph = (text: string, properties = '') =>
+  `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}<w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+
+describe('parseDocumentXml', () => {
+  it('reads headings, list items and paragraphs in order', () => {
+    const blocks = parseDocumentXml(body(
+      paragraph('Weekly Report', '<w:pStyle w:val="Heading1"/>') +
+      paragraph('Closed 12 deals', '<w:numPr><w:ilvl w:val="1"/><w:numId w:val="3"/></w:numPr>') +
+      paragraph('Revenue grew &amp; churn fell')
+    ));
+
+    expect(blocks).toEqual([
+      { type: 'heading', index: 0, level: 1, text: 'Weekly Report' },
+      { type: 'list_item', index: 1, level: 1, text: 'Closed 12 deals' },
+      { type: 'paragraph', index: 2, text: 'Revenue grew & churn fell' },
+    ]);
+  });
+
+  it('keeps tables as rows and cells and pads merged cells', () => {
+    const cell = (text: string, properties = '') => `<w:tc>${properties ? `<w:tcPr>${properties}</w:tcPr>` : ''}${paragraph(text)}</w:tc>`;
+    const blocks = parseDocumentXml(body(
+      `<w:tbl><w:tr>${cell('KPI')}${cell('Value')}${cell('Target')}</w:tr>` +
+      `<w:tr>${cell('Deals', '<w:gridSpan w:val="2"/>')}${cell('15')}</w:tr></w:tbl>`
+    ));
+
+    expect(blocks).toEqual([
+      { type: 'table', index: 0, rows: [['KPI', 'Value', 'Target'], ['Deals', '', '15']] },
+    ]);
+  });
+
+  it('treats tabs inside runs as text but ignores tab stop definitions', () => {
+    const blocks = parseDocumentXml(body(
+      '<w:p><w:pPr><w:tabs><w:tab w:val="left" w:pos="2880"/><w:tab w:val="right" w:pos="9360"/></w:tabs></w:pPr>' +
+      '<w:r><w:t>Revenue</w:t></w:r><w:r><w:tab/><w:t>$1.2M</w:t></w:r></w:p>'
+    ));
+
+    // normalizeWhitespace collapses the run tab into a single space
+    expect(blocks).toEqual([{ type: 'paragraph', index: 0, text: 'Revenue $1.2M' }]);
+  });
+
+  it('skips empty paragraphs', () => {
+    expect(parseDocumentXml(body('<w:p/><w:p><w:r><w:t></w:t></w:r></w:p>'))).toEqual([]);
+  });
+});
+
+describe('parseDocx', () => {
+  it('unzips a DOCX package and renders its blocks as text', () => {
+    const docx = zipSync({
+      'word/document.xml': strToU8(body(paragraph('Highlights', '<w:pStyle w:val="Title"/>') + paragraph('Shipped the beta'))),
+    });
+
+    const parsed = parseDocx(docx);
+    expect(parsed.text).toBe('# Highlights\n\nShipped the beta');
+    expect(parsed.text).toBe(renderDocxText(parsed.blocks));
+  });
+
+  it('rejects files that are not DOCX packages', () => {
+    expect(() => parseDocx(new TextEncoder().encode('plain text'))).toThrow('Not a valid DOCX file');
+  });
+});
@@ -0,0 +1,319 @@
+import { strFromU8, unzipSync } from 'https://esm.sh/fflate@0.8.2';
+
+// Minimal DOCX reader: unzips the package and walks word/document.xml,
+// keeping headings, list items, paragraphs and tables (as rows and cells).
+
+export interface DocxParagraph {
+  type: 'heading' | 'list_item' | 'paragraph';
+  index: number;
+  // Heading level (1-6) or list nesting level (0-based)
+  level?: number;
+  text: string;
+}
+
+export interface DocxTable {
+  type: 'table';
+  index: number;
+  rows: string[][];
+}
+
+export type DocxBlock = DocxParagraph | DocxTable;
+
+export interface ParsedDocx {
+  text: string;
+  blocks: DocxBlock[];
+}
+
+interface ParagraphState {
+  parts: string[];
+  styleId?: string;
+  isList: boolean;
+  listLevel: number;
+  outlineLevel?: number;
+}
+
+interface TableState {
+  rows: string[][];
+  row: string[] | null;
+  cell: string[] | null;
+  cellSpan: number;
+}
+
+interface StyleInfo {
+  name: string;
+  outlineLevel?: number;
+}
+
+const TOKEN_PATTERN = /<(\/)?([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/)?>|<\?[^>]*\?>|<!--[\s\S]*?-->|([^<]+)/g;
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|lt|gt|amp|quot|apos);/g, (_, entity: string) => {
+    switch (entity) {
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'amp': return '&';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      default:
+        return String.fromCodePoint(
+          entity.startsWith('#x') ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+        );
+    }
+  });
+}
+
+function attribute(attributes: string, name: string): string | undefined {
+  const match = attributes.match(new RegExp(`${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`));
+  return match ? decodeXmlEntities(match[1] ?? match[2]) : undefined;
+}
+
+function normalizeWhitespace(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .join('\n')
+    .trim();
+}
+
+// Maps paragraph style ids to their display names so custom heading styles are recognised
+function parseStyles(xml: string): Map<string, StyleInfo> {
+  const styles = new Map<string, StyleInfo>();
+  const stylePattern = /<w:style\b([^>]*)>([\s\S]*?)<\/w:style>/g;
+
+  for (const match of xml.matchAll(stylePattern)) {
+    const styleId = attribute(match[1], 'w:styleId');
+    if (!styleId) continue;
+
+    const nameMatch = match[2].match(/<w:name\b([^>]*)\/?>/);
+    const outlineMatch = match[2].match(/<w:outlineLvl\b([^>]*)\/?>/);
+    const outlineLevel = outlineMatch ? Number(attribute(outlineMatch[1], 'w:val')) : undefined;
+
+    styles.set(styleId, {
+      name: (nameMatch && attribute(nameMatch[1], 'w:val')) || styleId,
+      outlineLevel: Number.isFinite(outlineLevel) ? outlineLevel : undefined,
+    });
+  }
+
+  return styles;
+}
+
+function headingLevel(paragraph: ParagraphState, styles: Map<string, StyleInfo>): number | undefined {
+  if (paragraph.outlineLevel !== undefined && paragraph.outlineLevel < 9) {
+    return Math.min(paragraph.outlineLevel + 1, 6);
+  }
+  if (!paragraph.styleId) return undefined;
+
+  const style = styles.get(paragraph.styleId);
+  const name = (style?.name || paragraph.styleId).toLowerCase();
+
+  if (name === 'title') return 1;
+  const headingMatch = name.match(/^heading\s*(\d)$/);
+  if (headingMatch) return Math.min(Number(headingMatch[1]), 6);
+  if (style?.outlineLevel !== undefined && style.outlineLevel < 9) {
+    return Math.min(style.outlineLevel + 1, 6);
+  }
+  return undefined;
+}
+
+function isListStyle(paragraph: ParagraphState, styles: Map<string, StyleInfo>): boolean {
+  if (!paragraph.styleId) return false;
+  const name = (styles.get(paragraph.styleId)?.name || paragraph.styleId).toLowerCase();
+  return name.startsWith('list');
+}
+
+// Nested tables are flattened into their parent cell
+function flattenTable(rows: string[][]): string {
+  return rows.map(row => row.join(' | ')).join('; ');
+}
+
+export function parseDocumentXml(xml: string, styles: Map<string, StyleInfo> = new Map()): DocxBlock[] {
+  const blocks: DocxBlock[] = [];
+  const paragraphs: ParagraphState[] = [];
+  const tables: TableState[] = [];
+  let inText = false;
+  // w:tab is also a tab stop definition inside w:pPr/w:tabs; only tabs in runs are text
+  let runDepth = 0;
+
+  const currentParagraph = () => paragraphs[paragraphs.length - 1];
+  const currentTable = () => tables[tables.length - 1];
+
+  const closeParagraph = () => {
+    const paragraph = paragraphs.pop();
+    if (!paragraph) return;
+
+    const text = normalizeWhitespace(paragraph.parts.join(''));
+    const table = currentTable();
+
+    if (table?.cell) {
+      if (text) table.cell.push(text);
+      return;
+    }
+    if (!text) return;
+
+    const level = headingLevel(paragraph, styles);
+    if (level !== undefined) {
+      blocks.push({ type: 'heading', index: blocks.length, level, text });
+    } else if (paragraph.isList || isListStyle(paragraph, styles)) {
+      blocks.push({ type: 'list_item', index: blocks.length, level: paragraph.listLevel, text });
+    } else {
+      blocks.push({ type: 'paragraph', index: blocks.length, text });
+    }
+  };
+
+  for (const match of xml.matchAll(TOKEN_PATTERN)) {
+    const [, closing, tag, attributes = '', selfClosing, textContent] = match;
+
+    if (textContent !== undefined) {
+      if (inText && currentParagraph()) {
+        currentParagraph().parts.push(decodeXmlEntities(textContent));
+      }
+      continue;
+    }
+    if (!tag) continue;
+
+    if (closing) {
+      switch (tag) {
+        case 'w:t':
+          inText = false;
+          break;
+        case 'w:r':
+          runDepth = Math.max(runDepth - 1, 0);
+          break;
+        case 'w:p':
+          closeParagraph();
+          break;
+        case 'w:tc': {
+          const table = currentTable();
+          if (table?.row && table.cell) {
+            table.row.push(table.cell.join('\n'));
+            // Pad horizontally merged cells so columns stay aligned
+            for (let i = 1; i < table.cellSpan; i++) table.row.push('');
+          }
+          if (table) table.cell = null;
+          break;
+        }
+        case 'w:tr': {
+          const table = currentTable();
+          if (table?.row) {
+            if (table.row.some(cell => cell.trim())) table.rows.push(table.row);
+            table.row = null;
+          }
+          break;
+        }
+        case 'w:tbl': {
+          const table = tables.pop();
+          if (!table || table.rows.length === 0) break;
+          const parent = currentTable();
+          if (parent?.cell) {
+            parent.cell.push(flattenTable(table.rows));
+          } else {
+            blocks.push({ type: 'table', index: blocks.length, rows: table.rows });
+          }
+          break;
+        }
+      }
+      continue;
+    }
+
+    switch (tag) {
+      case 'w:p':
+        if (!selfClosing) {
+          paragraphs.push({ parts: [], isList: false, listLevel: 0 });
+        }
+        break;
+      case 'w:pStyle':
+        if (currentParagraph()) currentParagraph().styleId = attribute(attributes, 'w:val');
+        break;
+      case 'w:outlineLvl':
+        if (currentParagraph()) currentParagraph().outlineLevel = Number(attribute(attributes, 'w:val'));
+        break;
+      case 'w:numPr':
+        if (currentParagraph()) currentParagraph().isList = true;
+        break;
+      case 'w:ilvl':
+        if (currentParagraph()) currentParagraph().listLevel = Number(attribute(attributes, 'w:val')) || 0;
+        break;
+      case 'w:r':
+        if (!selfClosing) runDepth++;
+        break;
+      case 'w:t':
+        inText = !selfClosing;
+        break;
+      case 'w:tab':
+        if (runDepth > 0) currentParagraph()?.parts.push('\t');
+        break;
+      case 'w:br':
+      case 'w:cr':
+        currentParagraph()?.parts.push('\n');
+        break;
+      case 'w:tbl':
+        tables.push({ rows: [], row: null, cell: null, cellSpan: 1 });
+        break;
+      case 'w:tr':
+        if (currentTable()) currentTable().row = [];
+        break;
+      case 'w:tc':
+        if (currentTable()) {
+          currentTable().cell = [];
+          currentTable().cellSpan = 1;
+        }
+        break;
+      case 'w:gridSpan':
+        if (currentTable()?.cell) currentTable().cellSpan = Number(attribute(attributes, 'w:val')) || 1;
+        break;
+    }
+  }
+
+  return blocks;
+}
+
+function renderTable(table: DocxTable): string {
+  const columnCount = Math.max(...table.rows.map(row => row.length));
+  const lines = table.rows.map(row => {
+    const cells = Array.from({ length: columnCount }, (_, i) => (row[i] || '').replace(/\n/g, ' ').replace(/\|/g, '/'));
+    return `| ${cells.join(' | ')} |`;
+  });
+  // Treat the first row as the header, as most KPI tables have one
+  lines.splice(1, 0, `| ${Array(columnCount).fill('---').join(' | ')} |`);
+  return lines.join('\n');
+}
+
+export function renderDocxText(blocks: DocxBlock[]): string {
+  return blocks
+    .map(block => {
+      switch (block.type) {
+        case 'heading':
+          return `${'#'.repeat(block.level || 1)} ${block.text}`;
+        case 'list_item':
+          return `${'  '.repeat(block.level || 0)}- ${block.text}`;
+        case 'table':
+          return renderTable(block);
+        default:
+          return block.text;
+      }
+    })
+    .join('\n\n');
+}
+
+export function parseDocx(data: ArrayBuffer | Uint8Array): ParsedDocx {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(bytes, {
+      filter: file => file.name === 'word/document.xml' || file.name === 'word/styles.xml',
+    });
+  } catch (error) {
+    throw new Error(`Not a valid DOCX file: ${error.message}`);
+  }
+
+  const documentXml = files['word/document.xml'];
+  if (!documentXml) {
+    throw new Error('Not a valid DOCX file: word/document.xml is missing');
+  }
+
+  const styles = files['word/styles.xml'] ? parseStyles(strFromU8(files['word/styles.xml'])) : new Map();
+  const blocks = parseDocumentXml(strFromU8(documentXml), styles);
+
+  return { text: renderDocxText(blocks), blocks };
+}
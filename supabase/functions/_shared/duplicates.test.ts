@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { NEAR_DUPLICATE_SIMILARITY, sha256Hex, transcriptSimilarity } from './duplicates.ts';
+
+const TRANSCRIPT =
+  'This week we closed twelve new deals with enterprise clients and onboarded two of them. ' +
+  'Conversion improved to eighteen percent across the region, and the support backlog is down to five tickets.';
+
+describe('transcriptSimilarity', () => {
+  it('is 1 for the same transcript regardless of case and punctuation', () => {
+    expect(transcriptSimilarity(TRANSCRIPT, TRANSCRIPT.toUpperCase().replace(/[.,]/g, ''))).toBe(1);
+  });
+
+  it('stays above the duplicate threshold for a trimmed copy', () => {
+    const trimmed = TRANSCRIPT.split(' ').slice(0, -3).join(' ');
+
+    expect(transcriptSimilarity(TRANSCRIPT, trimmed)).toBeGreaterThanOrEqual(NEAR_DUPLICATE_SIMILARITY);
+  });
+
+  it('is low for a different update on the same topics', () => {
+    const otherWeek =
+      'Quiet week for deals, we closed three and lost one enterprise client to a competitor. ' +
+      'The support backlog grew to fourteen tickets because two people were out.';
+
+    expect(transcriptSimilarity(TRANSCRIPT, otherWeek)).toBeLessThan(0.1);
+  });
+
+  it('is 0 when either transcript has fewer than three words', () => {
+    expect(transcriptSimilarity(TRANSCRIPT, 'Thanks everyone')).toBe(0);
+    expect(transcriptSimilarity('', '')).toBe(0);
+  });
+});
+
+describe('sha256Hex', () => {
+  it('hashes the file contents as lowercase hex', async () => {
+    expect(await sha256Hex(new Blob(['abc']))).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+});
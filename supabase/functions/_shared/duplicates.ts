@@ -0,0 +1,117 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import { transcriptToText } from './transcript.ts';
+
+// Re-uploads of the same recording. The browser hashes videos before uploading
+// and warns the submitter; once processed, a submission is compared with the
+// submitter's recent submissions by content hash and by transcript wording, so
+// re-encoded or trimmed copies are caught too. Matches wait for an admin, who
+// either merges the newer submission into the original (it then no longer
+// counts in any aggregate) or marks the pair as not a duplicate.
+
+export type DuplicateMethod = 'content_hash' | 'transcript';
+
+export interface DuplicateMatch {
+  submission_id: string;
+  duplicate_of_id: string;
+  user_id: string;
+  method: DuplicateMethod;
+  similarity: number;
+}
+
+// Share of three-word phrases two transcripts must have in common
+export const NEAR_DUPLICATE_SIMILARITY = 0.8;
+// Earlier submissions of the same user that are compared
+const RECENT_SUBMISSIONS = 50;
+// Transcripts shorter than this have too few phrases to compare reliably
+const MIN_TRANSCRIPT_WORDS = 20;
+
+export async function sha256Hex(data: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await data.arrayBuffer());
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function phrases(text: string): Set<string> {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}']+/gu) || [];
+  const result = new Set<string>();
+  for (let i = 0; i + 3 <= words.length; i++) {
+    result.add(words.slice(i, i + 3).join(' '));
+  }
+  return result;
+}
+
+// Jaccard similarity of the transcripts' three-word phrases, from 0 to 1
+export function transcriptSimilarity(a: string, b: string): number {
+  const first = phrases(a);
+  const second = phrases(b);
+  if (first.size === 0 || second.size === 0) return 0;
+
+  let shared = 0;
+  for (const phrase of first) {
+    if (second.has(phrase)) shared++;
+  }
+  return shared / (first.size + second.size - shared);
+}
+
+const wordCount = (text: string) => (text.match(/\S+/g) || []).length;
+
+// Records the earlier submissions this one duplicates; pairs already recorded are left as they are
+export async function recordDuplicates(
+  supabase: SupabaseClient,
+  submission: { id: string; user_id: string; created_at: string; content_hash: string | null },
+  transcript: string
+): Promise<DuplicateMatch[]> {
+  const { data: earlier, error } = await supabase
+    .from('submissions')
+    .select('id, content_hash, transcript')
+    .eq('user_id', submission.user_id)
+    .neq('id', submission.id)
+    .neq('status', 'merged')
+    .lt('created_at', submission.created_at)
+    .order('created_at', { ascending: false })
+    .limit(RECENT_SUBMISSIONS);
+
+  if (error) {
+    throw new Error(`Failed to load earlier submissions: ${error.message}`);
+  }
+
+  const comparable = wordCount(transcript) >= MIN_TRANSCRIPT_WORDS;
+  const matches: DuplicateMatch[] = [];
+  for (const candidate of earlier || []) {
+    if (submission.content_hash && candidate.content_hash === submission.content_hash) {
+      matches.push({
+        submission_id: submission.id,
+        duplicate_of_id: candidate.id,
+        user_id: submission.user_id,
+        method: 'content_hash',
+        similarity: 1,
+      });
+      continue;
+    }
+
+    const candidateText = transcriptToText(candidate.transcript);
+    if (!comparable || wordCount(candidateText) < MIN_TRANSCRIPT_WORDS) continue;
+
+    const similarity = transcriptSimilarity(transcript, candidateText);
+    if (similarity >= NEAR_DUPLICATE_SIMILARITY) {
+      matches.push({
+        submission_id: submission.id,
+        duplicate_of_id: candidate.id,
+        user_id: submission.user_id,
+        method: 'transcript',
+        similarity: Math.round(similarity * 1000) / 1000,
+      });
+    }
+  }
+
+  if (matches.length > 0) {
+    const { error: insertError } = await supabase
+      .from('submission_duplicates')
+      .upsert(matches, { onConflict: 'submission_id,duplicate_of_id', ignoreDuplicates: true });
+
+    if (insertError) {
+      throw new Error(`Failed to record duplicates: ${insertError.message}`);
+    }
+  }
+
+  return matches;
+}
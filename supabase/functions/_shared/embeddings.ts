@@ -0,0 +1,202 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import type { EmbeddingProvider, TranscriptSegment } from './ai/types.ts';
+import { normalizeSourceRef } from './evidence.ts';
+
+// The key points, KPIs and transcript segments of each submission's active
+// analysis, and its notes, are embedded into insight_embeddings (pgvector).
+// The table is both the input of theme clustering and the search index.
+// Transcripts in other languages are embedded in their English translation,
+// so similar statements end up close together whatever language they were
+// recorded in. submissions.embedded_analysis_id records which analysis the
+// rows belong to; a reprocessed or rolled back submission is embedded again.
+
+// Must match the vector(1536) columns
+export const EMBEDDING_DIMENSIONS = 1536;
+
+// Inputs per embedding request
+const EMBEDDING_BATCH_SIZE = 100;
+
+// Shorter segments ("Okay, so.") say nothing about a theme
+const MIN_SEGMENT_CHARACTERS = 40;
+const MAX_CONTENT_CHARACTERS = 2000;
+
+export type InsightSourceType = 'key_point' | 'transcript_segment' | 'kpi' | 'note';
+
+export interface InsightSource {
+  source_type: InsightSourceType;
+  // Position in key_points or the KPI list, the transcript segment id, or the notes paragraph
+  source_index: number;
+  content: string;
+  // Where the statement starts in the recording; null when it is not located in a timed transcript
+  start_seconds: number | null;
+  // Transcript segment the statement comes from, for links into the transcript
+  segment_id: number | null;
+}
+
+export interface EmbeddableSubmission {
+  id: string;
+  user_id: string;
+  active_analysis_id: string | null;
+  key_points: string[] | null;
+  transcript: unknown;
+  transcript_translated: unknown;
+  notes: string | null;
+}
+
+export interface EmbeddableKPI {
+  position: number;
+  metric_name: string;
+  raw_text: string | null;
+  quote: string | null;
+  source_ref: unknown;
+}
+
+function transcriptSegments(transcript: unknown): { id: number; start: number | null; text: string }[] {
+  if (!transcript) return [];
+  const stored = typeof transcript === 'string'
+    ? { text: transcript, segments: [] as TranscriptSegment[] }
+    : transcript as { text?: unknown; segments?: TranscriptSegment[] };
+
+  if (Array.isArray(stored.segments) && stored.segments.length > 0) {
+    return stored.segments.map(segment => ({ id: segment.id, start: segment.start, text: segment.text }));
+  }
+
+  // Untimed transcripts are split into sentences, numbered in order
+  return (typeof stored.text === 'string' ? stored.text : '')
+    .split(/(?<=[.!?।])\s+/)
+    .map((text, id) => ({ id, start: null, text }));
+}
+
+export function insightSources(submission: EmbeddableSubmission, kpis: EmbeddableKPI[] = []): InsightSource[] {
+  const keyPoints = (submission.key_points || [])
+    .map((content, index) => ({
+      source_type: 'key_point' as const,
+      source_index: index,
+      content: content.trim().slice(0, MAX_CONTENT_CHARACTERS),
+      start_seconds: null,
+      segment_id: null,
+    }))
+    .filter(source => source.content);
+
+  // "Deals closed: we closed twelve deals this quarter"; KPIs quoted from the recording link to their segment
+  const kpiSources = kpis
+    .map(kpi => {
+      const ref = normalizeSourceRef(kpi.source_ref);
+      const video = ref?.source === 'video' ? ref : null;
+      return {
+        source_type: 'kpi' as const,
+        source_index: kpi.position,
+        content: (kpi.quote ? `${kpi.metric_name}: ${kpi.quote}` : kpi.raw_text || kpi.metric_name)
+          .trim()
+          .slice(0, MAX_CONTENT_CHARACTERS),
+        start_seconds: video?.start_time ?? null,
+        segment_id: video?.segment ?? null,
+      };
+    })
+    .filter(source => source.content);
+
+  const segments = transcriptSegments(submission.transcript_translated || submission.transcript)
+    .map(segment => ({
+      source_type: 'transcript_segment' as const,
+      source_index: segment.id,
+      content: segment.text.trim().slice(0, MAX_CONTENT_CHARACTERS),
+      start_seconds: segment.start,
+      segment_id: segment.id,
+    }))
+    .filter(source => source.content.length >= MIN_SEGMENT_CHARACTERS);
+
+  const notes = (submission.notes || '')
+    .split(/\n\s*\n/)
+    .map((paragraph, index) => ({
+      source_type: 'note' as const,
+      source_index: index,
+      content: paragraph.trim().slice(0, MAX_CONTENT_CHARACTERS),
+      start_seconds: null,
+      segment_id: null,
+    }))
+    .filter(source => source.content);
+
+  return [...keyPoints, ...kpiSources, ...segments, ...notes];
+}
+
+export async function embedTexts(ai: EmbeddingProvider, texts: string[]): Promise<number[][]> {
+  const embeddings: number[][] = [];
+  for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+    const batch = texts.slice(start, start + EMBEDDING_BATCH_SIZE);
+    const result = await ai.embed({ task: 'embedding', input: batch, dimensions: EMBEDDING_DIMENSIONS });
+
+    if (result.embeddings.length !== batch.length) {
+      throw new Error(`Embedding returned ${result.embeddings.length} vectors for ${batch.length} inputs`);
+    }
+    const wrongSize = result.embeddings.find(vector => vector.length !== EMBEDDING_DIMENSIONS);
+    if (wrongSize) {
+      throw new Error(`Embedding model returned ${wrongSize.length} dimensions, expected ${EMBEDDING_DIMENSIONS}`);
+    }
+    embeddings.push(...result.embeddings);
+  }
+  return embeddings;
+}
+
+// pgvector values come back from PostgREST as "[0.1,0.2,...]"
+export function parseVector(value: unknown): number[] {
+  if (Array.isArray(value)) return value.map(Number);
+  if (typeof value === 'string') return JSON.parse(value);
+  throw new Error('Unexpected vector value');
+}
+
+// Replaces a submission's embeddings with ones for its active analysis
+export async function embedSubmission(
+  supabase: SupabaseClient,
+  ai: EmbeddingProvider,
+  submission: EmbeddableSubmission
+): Promise<number> {
+  // KPI rows of the active analysis, written by activateAnalysis
+  const { data: kpis, error: kpiError } = await supabase
+    .from('extracted_kpi_values')
+    .select('position, metric_name, raw_text, quote, source_ref')
+    .eq('submission_id', submission.id)
+    .order('position');
+
+  if (kpiError) {
+    throw new Error(`Failed to load KPI values: ${kpiError.message}`);
+  }
+
+  const sources = insightSources(submission, (kpis || []) as EmbeddableKPI[]);
+  const embeddings = await embedTexts(ai, sources.map(source => source.content));
+
+  const { error: deleteError } = await supabase
+    .from('insight_embeddings')
+    .delete()
+    .eq('submission_id', submission.id);
+
+  if (deleteError) {
+    throw new Error(`Failed to clear previous embeddings: ${deleteError.message}`);
+  }
+
+  if (sources.length > 0) {
+    const { error: insertError } = await supabase
+      .from('insight_embeddings')
+      .insert(sources.map((source, index) => ({
+        ...source,
+        submission_id: submission.id,
+        user_id: submission.user_id,
+        embedding: JSON.stringify(embeddings[index]),
+        model: ai.embeddingModel,
+      })));
+
+    if (insertError) {
+      throw new Error(`Failed to save embeddings: ${insertError.message}`);
+    }
+  }
+
+  const { error: updateError } = await supabase
+    .from('submissions')
+    .update({ embedded_analysis_id: submission.active_analysis_id })
+    .eq('id', submission.id);
+
+  if (updateError) {
+    throw new Error(`Failed to mark submission as embedded: ${updateError.message}`);
+  }
+
+  return sources.length;
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { countFlaggedEvidence, verifyAnalysisEvidence, type EvidenceSources } from './evidence.ts';
+import { EMPTY_ANALYSIS_OUTPUT } from './analyses.ts';
+import type { ExtractedKPI } from './kpis.ts';
+
+const SOURCES: EvidenceSources = {
+  transcript: {
+    text: 'Hi everyone. This week we closed 12 new deals with enterprise clients. Revenue reached 1.2 million dollars.',
+    segments: [
+      { id: 0, start: 0, end: 2, text: 'Hi everyone.' },
+      { id: 1, start: 2, end: 6, text: 'This week we closed 12 new deals with enterprise clients.' },
+      { id: 2, start: 6, end: 9, text: 'Revenue reached 1.2 million dollars.' },
+    ],
+    language: 'en',
+    duration: 9,
+  },
+  docx: {
+    text: '| KPI | Value |\n| --- | --- |\n| Churn | 3% |',
+    blocks: [{ type: 'table', index: 0, rows: [['KPI', 'Value'], ['Churn', '3%']] }],
+  },
+  notes: 'Support response time dropped to four hours.',
+};
+
+const kpi = (metric_name: string, value: number | null, quote: string | null): ExtractedKPI => ({
+  metric_name,
+  value,
+  unit: null,
+  currency: null,
+  period: null,
+  direction: null,
+  source: null,
+  quote,
+  confidence: null,
+  source_ref: null,
+  verification_status: 'unchecked',
+  verification_issues: [],
+});
+
+const verify = (kpis: ExtractedKPI[], quotes: string[] = []) =>
+  verifyAnalysisEvidence({ ...EMPTY_ANALYSIS_OUTPUT, extracted_kpis: kpis, ai_quotes: quotes }, SOURCES);
+
+describe('verifyAnalysisEvidence', () => {
+  it('points transcript quotes at their segments and timestamps', () => {
+    const [deals] = verify([kpi('Deals closed', 12, 'we closed 12 new deals')]).extracted_kpis;
+
+    expect(deals.verification_status).toBe('verified');
+    expect(deals.source).toBe('video');
+    expect(deals.source_ref).toEqual({ source: 'video', segment: 1, end_segment: 1, start_time: 2, end_time: 6 });
+  });
+
+  it('matches scaled values and number words', () => {
+    const [revenue, response] = verify([
+      kpi('Revenue', 1200000, 'Revenue reached 1.2 million dollars'),
+      kpi('Response time', 4, 'response time dropped to four hours'),
+    ]).extracted_kpis;
+
+    expect(revenue.verification_status).toBe('verified');
+    expect(response.verification_status).toBe('verified');
+    expect(response.source_ref).toMatchObject({ source: 'notes', offset: 8 });
+  });
+
+  it('locates quotes in DOCX table cells', () => {
+    const [churn] = verify([kpi('Churn', 3, 'Churn 3%')]).extracted_kpis;
+
+    expect(churn.verification_status).toBe('verified');
+    expect(churn.source_ref).toEqual({ source: 'docx', block: 0, row: 1, cell: null });
+  });
+
+  it('flags missing quotes, invented quotes and values not in their quote', () => {
+    const [noQuote, invented, wrongValue] = verify([
+      kpi('Deals closed', 12, null),
+      kpi('Meetings', 30, 'We held 30 customer meetings'),
+      kpi('Deals closed', 15, 'we closed 12 new deals'),
+    ]).extracted_kpis;
+
+    expect(noQuote.verification_issues).toEqual(['No supporting quote']);
+    expect(invented.verification_issues).toEqual(['Quote not found in the source text', 'Value 30 not found in the source text']);
+    expect(wrongValue.verification_issues).toEqual(['Value 15 does not appear in the quote']);
+    expect(wrongValue.verification_status).toBe('flagged');
+  });
+
+  it('tolerates small wording differences in longer quotes', () => {
+    const output = verify([], ['This week we closed 12 deals with enterprise clients', 'Our NPS doubled']);
+
+    expect(output.quote_evidence.map(evidence => evidence.verification_status)).toEqual(['verified', 'flagged']);
+    expect(countFlaggedEvidence(output)).toEqual({ flaggedKPIs: 0, flaggedQuotes: 1 });
+  });
+});
@@ -0,0 +1,352 @@
+import type { ParsedDocx } from './docx.ts';
+import type { ExtractedKPI, KPISource } from './kpis.ts';
+import type { AnalysisOutput } from './analyses.ts';
+import { transcriptToText, type StoredTranscript } from './transcript.ts';
+
+// Verification pass over an analysis: every KPI quote and ai_quote is located
+// in the submission's sources and gets a source reference (transcript segment,
+// DOCX paragraph or table cell, notes offset). Quotes that cannot be found and
+// KPI values that do not appear in their quote are flagged instead of trusted.
+
+export type SourceRef =
+  | { source: 'video'; segment: number | null; end_segment: number | null; start_time: number | null; end_time: number | null }
+  | { source: 'docx'; block: number | null; row: number | null; cell: number | null }
+  | { source: 'notes'; offset: number; length: number };
+
+// 'unchecked' marks items stored before verification existed
+export type VerificationStatus = 'verified' | 'flagged' | 'unchecked';
+
+export interface QuoteEvidence {
+  quote: string;
+  source_ref: SourceRef | null;
+  verification_status: VerificationStatus;
+  verification_issues: string[];
+}
+
+export interface EvidenceSources {
+  // submissions.transcript: a StoredTranscript or a legacy plain string
+  transcript: unknown;
+  docx: ParsedDocx | null;
+  notes: string | null;
+}
+
+const VERIFICATION_STATUSES: VerificationStatus[] = ['verified', 'flagged', 'unchecked'];
+
+// Share of a quote's words that must appear in one stretch of the source.
+// Transcripts differ from what the model quotes in punctuation and filler words.
+const QUOTE_MATCH_THRESHOLD = 0.85;
+// Shorter quotes must match exactly
+const MIN_FUZZY_QUOTE_TOKENS = 4;
+// Relative difference allowed between a KPI value and a number in its quote ("1.23 million" vs 1234567)
+const VALUE_TOLERANCE = 0.005;
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+(?:[.,]\p{N}+)*/gu;
+
+const NUMBER_WORDS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17,
+  eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70,
+  eighty: 80, ninety: 90, hundred: 100, dozen: 12,
+};
+
+const SCALE_WORDS: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  m: 1e6,
+  mn: 1e6,
+  million: 1e6,
+  b: 1e9,
+  bn: 1e9,
+  billion: 1e9,
+};
+
+type SourceUnit =
+  | { source: 'video'; segment: number | null; start: number | null; end: number | null }
+  | { source: 'docx'; block: number | null; row: number | null; cell: number | null }
+  | { source: 'notes' };
+
+interface Token {
+  text: string;
+  unit: number;
+  // Character offsets within the unit's text
+  start: number;
+  end: number;
+}
+
+interface SourceIndex {
+  source: KPISource;
+  units: SourceUnit[];
+  tokens: Token[];
+}
+
+interface QuoteMatch {
+  index: SourceIndex;
+  first: number;
+  last: number;
+}
+
+function normalizeToken(token: string): string {
+  const lower = token.toLowerCase();
+  // "1,200" and "1200" are the same number
+  return /^\d[\d,.]*$/.test(lower) ? lower.replace(/,/g, '') : lower;
+}
+
+function tokenize(text: string): Omit<Token, 'unit'>[] {
+  return [...text.matchAll(TOKEN_PATTERN)].map(match => ({
+    text: normalizeToken(match[0]),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+}
+
+function addUnit(index: SourceIndex, unit: SourceUnit, text: string) {
+  const unitIndex = index.units.push(unit) - 1;
+  tokenize(text).forEach(token => index.tokens.push({ ...token, unit: unitIndex }));
+}
+
+function buildSourceIndexes(sources: EvidenceSources): SourceIndex[] {
+  const video: SourceIndex = { source: 'video', units: [], tokens: [] };
+  const segments = sources.transcript && typeof sources.transcript === 'object'
+    ? (sources.transcript as Partial<StoredTranscript>).segments || []
+    : [];
+  if (segments.length > 0) {
+    segments.forEach(segment => addUnit(video, {
+      source: 'video',
+      segment: segment.id,
+      start: segment.start,
+      end: segment.end,
+    }, segment.text));
+  } else {
+    addUnit(video, { source: 'video', segment: null, start: null, end: null }, transcriptToText(sources.transcript));
+  }
+
+  const docx: SourceIndex = { source: 'docx', units: [], tokens: [] };
+  if (sources.docx?.blocks?.length) {
+    sources.docx.blocks.forEach(block => {
+      if (block.type === 'table') {
+        block.rows.forEach((row, rowIndex) => row.forEach((cell, cellIndex) =>
+          addUnit(docx, { source: 'docx', block: block.index, row: rowIndex, cell: cellIndex }, cell)
+        ));
+      } else {
+        addUnit(docx, { source: 'docx', block: block.index, row: null, cell: null }, block.text);
+      }
+    });
+  } else if (sources.docx?.text) {
+    addUnit(docx, { source: 'docx', block: null, row: null, cell: null }, sources.docx.text);
+  }
+
+  const notes: SourceIndex = { source: 'notes', units: [], tokens: [] };
+  addUnit(notes, { source: 'notes' }, sources.notes || '');
+
+  return [video, docx, notes].filter(index => index.tokens.length > 0);
+}
+
+function findExact(quote: string[], index: SourceIndex): QuoteMatch | null {
+  const { tokens } = index;
+  for (let start = 0; start + quote.length <= tokens.length; start++) {
+    let length = 0;
+    while (length < quote.length && tokens[start + length].text === quote[length]) length++;
+    if (length === quote.length) {
+      return { index, first: start, last: start + quote.length - 1 };
+    }
+  }
+  return null;
+}
+
+// Best window of the quote's length by shared words, counted with multiplicity
+function findFuzzy(quote: string[], index: SourceIndex): { match: QuoteMatch; score: number } | null {
+  const { tokens } = index;
+  if (quote.length < MIN_FUZZY_QUOTE_TOKENS || tokens.length < quote.length) return null;
+
+  const wanted = new Map<string, number>();
+  quote.forEach(token => wanted.set(token, (wanted.get(token) || 0) + 1));
+  const window = new Map<string, number>();
+  let shared = 0;
+  let best: { start: number; shared: number } | null = null;
+
+  for (let end = 0; end < tokens.length; end++) {
+    const added = tokens[end].text;
+    if ((window.get(added) || 0) < (wanted.get(added) || 0)) shared++;
+    window.set(added, (window.get(added) || 0) + 1);
+
+    const start = end - quote.length + 1;
+    if (start > 0) {
+      const removed = tokens[start - 1].text;
+      window.set(removed, window.get(removed)! - 1);
+      if (window.get(removed)! < (wanted.get(removed) || 0)) shared--;
+    }
+    if (start >= 0 && (!best || shared > best.shared)) {
+      best = { start, shared };
+    }
+  }
+
+  if (!best) return null;
+  const score = best.shared / quote.length;
+  if (score < QUOTE_MATCH_THRESHOLD) return null;
+
+  // Trim words at the edges of the window that are not part of the quote
+  let first = best.start;
+  let last = best.start + quote.length - 1;
+  while (first < last && !wanted.has(tokens[first].text)) first++;
+  while (last > first && !wanted.has(tokens[last].text)) last--;
+  return { match: { index, first, last }, score };
+}
+
+// Looks in the source the model named first, then in the others
+function locateQuote(quote: string, indexes: SourceIndex[], preferred: KPISource | null): QuoteMatch | null {
+  const quoteTokens = tokenize(quote).map(token => token.text);
+  if (quoteTokens.length === 0) return null;
+
+  const ordered = [...indexes].sort((a, b) => Number(b.source === preferred) - Number(a.source === preferred));
+  for (const index of ordered) {
+    const match = findExact(quoteTokens, index);
+    if (match) return match;
+  }
+
+  let best: { match: QuoteMatch; score: number } | null = null;
+  for (const index of ordered) {
+    const candidate = findFuzzy(quoteTokens, index);
+    if (candidate && (!best || candidate.score > best.score)) best = candidate;
+  }
+  return best?.match || null;
+}
+
+function sourceRef({ index, first, last }: QuoteMatch): SourceRef {
+  const firstToken = index.tokens[first];
+  const lastToken = index.tokens[last];
+  const firstUnit = index.units[firstToken.unit];
+  const lastUnit = index.units[lastToken.unit];
+
+  if (firstUnit.source === 'video' && lastUnit.source === 'video') {
+    return {
+      source: 'video',
+      segment: firstUnit.segment,
+      end_segment: lastUnit.segment,
+      start_time: firstUnit.start,
+      end_time: lastUnit.end,
+    };
+  }
+  if (firstUnit.source === 'docx' && lastUnit.source === 'docx') {
+    const sameRow = firstUnit.block === lastUnit.block && firstUnit.row === lastUnit.row;
+    return {
+      source: 'docx',
+      block: firstUnit.block,
+      row: sameRow ? firstUnit.row : null,
+      cell: sameRow && firstUnit.cell === lastUnit.cell ? firstUnit.cell : null,
+    };
+  }
+  return { source: 'notes', offset: firstToken.start, length: lastToken.end - firstToken.start };
+}
+
+// Numbers mentioned in the tokens, also scaled by a following word ("1.2 million")
+function mentionedNumbers(tokens: string[]): number[] {
+  const numbers: number[] = [];
+  tokens.forEach((token, position) => {
+    const numeric = token.match(/^(\d+(?:\.\d+)?)(k|m|mn|b|bn)?$/);
+    const number = numeric ? parseFloat(numeric[1]) : NUMBER_WORDS[token];
+    if (number === undefined) return;
+
+    numbers.push(number);
+    const scale = numeric?.[2] ? SCALE_WORDS[numeric[2]] : SCALE_WORDS[tokens[position + 1]];
+    if (scale) numbers.push(number * scale);
+  });
+  return numbers;
+}
+
+function valueMentioned(value: number, tokens: string[]): boolean {
+  const target = Math.abs(value);
+  return mentionedNumbers(tokens).some(number =>
+    Math.abs(number - target) <= Math.max(1e-9, target * VALUE_TOLERANCE)
+  );
+}
+
+function verifyKPI(kpi: ExtractedKPI, indexes: SourceIndex[]): ExtractedKPI {
+  const issues: string[] = [];
+  let match: QuoteMatch | null = null;
+
+  if (!kpi.quote) {
+    issues.push('No supporting quote');
+  } else {
+    match = locateQuote(kpi.quote, indexes, kpi.source);
+    if (!match) issues.push('Quote not found in the source text');
+  }
+
+  if (kpi.value !== null) {
+    // Without a located quote, the value must at least appear somewhere in the sources
+    const tokens = match
+      ? match.index.tokens.slice(match.first, match.last + 1).map(token => token.text)
+      : indexes.flatMap(index => index.tokens.map(token => token.text));
+    if (!valueMentioned(kpi.value, tokens)) {
+      issues.push(match
+        ? `Value ${kpi.value} does not appear in the quote`
+        : `Value ${kpi.value} not found in the source text`);
+    }
+  }
+
+  const ref = match ? sourceRef(match) : null;
+  return {
+    ...kpi,
+    source: ref ? ref.source : kpi.source,
+    source_ref: ref,
+    verification_status: issues.length > 0 ? 'flagged' : 'verified',
+    verification_issues: issues,
+  };
+}
+
+function verifyQuote(quote: string, indexes: SourceIndex[]): QuoteEvidence {
+  const match = locateQuote(quote, indexes, null);
+  return {
+    quote,
+    source_ref: match ? sourceRef(match) : null,
+    verification_status: match ? 'verified' : 'flagged',
+    verification_issues: match ? [] : ['Quote not found in the source text'],
+  };
+}
+
+export function verifyAnalysisEvidence(output: AnalysisOutput, sources: EvidenceSources): AnalysisOutput {
+  const indexes = buildSourceIndexes(sources);
+  return {
+    ...output,
+    extracted_kpis: output.extracted_kpis.map(kpi => verifyKPI(kpi, indexes)),
+    quote_evidence: output.ai_quotes.map(quote => verifyQuote(quote, indexes)),
+  };
+}
+
+export function countFlaggedEvidence(output: AnalysisOutput) {
+  return {
+    flaggedKPIs: output.extracted_kpis.filter(kpi => kpi.verification_status === 'flagged').length,
+    flaggedQuotes: output.quote_evidence.filter(evidence => evidence.verification_status === 'flagged').length,
+  };
+}
+
+// Stored references are read back from JSON columns
+export function normalizeSourceRef(raw: unknown): SourceRef | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const ref = raw as { source?: unknown };
+  return ref.source === 'video' || ref.source === 'docx' || ref.source === 'notes'
+    ? raw as SourceRef
+    : null;
+}
+
+export function normalizeVerificationStatus(raw: unknown): VerificationStatus {
+  return VERIFICATION_STATUSES.includes(raw as VerificationStatus) ? raw as VerificationStatus : 'unchecked';
+}
+
+// Evidence is only kept when it still lines up with the quotes it describes
+export function normalizeQuoteEvidence(raw: unknown, quotes: string[]): QuoteEvidence[] {
+  if (!Array.isArray(raw) || raw.length !== quotes.length) return [];
+  return quotes.map((quote, position) => {
+    const evidence = (raw[position] && typeof raw[position] === 'object' ? raw[position] : {}) as Record<string, unknown>;
+    if (evidence.quote !== quote) {
+      return { quote, source_ref: null, verification_status: 'unchecked', verification_issues: [] };
+    }
+    return {
+      quote,
+      source_ref: normalizeSourceRef(evidence.source_ref),
+      verification_status: normalizeVerificationStatus(evidence.verification_status),
+      verification_issues: Array.isArray(evidence.verification_issues)
+        ? evidence.verification_issues.filter((issue): issue is string => typeof issue === 'string')
+        : [],
+    };
+  });
+}
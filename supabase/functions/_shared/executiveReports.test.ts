@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { lastCompletePeriod, previousPeriod, reportPeriodFor } from './executiveReports.ts';
+
+// 2025-07-20 is a Sunday, 2025-07-21 a Monday
+describe('reportPeriodFor', () => {
+  it('puts the last second of Sunday in the week that started on Monday', () => {
+    expect(reportPeriodFor(new Date('2025-07-20T23:59:59Z'))).toEqual({ start: '2025-07-14', end: '2025-07-21' });
+  });
+
+  it('starts a new week at Monday midnight UTC', () => {
+    expect(reportPeriodFor(new Date('2025-07-21T00:00:00Z'))).toEqual({ start: '2025-07-21', end: '2025-07-28' });
+  });
+
+  it('uses UTC rather than the local day', () => {
+    // Already Monday in UTC+2, still Sunday in UTC
+    expect(reportPeriodFor(new Date('2025-07-21T01:30:00+02:00'))).toEqual({ start: '2025-07-14', end: '2025-07-21' });
+  });
+});
+
+describe('lastCompletePeriod', () => {
+  it('is the week that ended at the most recent Monday midnight', () => {
+    expect(lastCompletePeriod(new Date('2025-07-21T00:00:00Z'))).toEqual({ start: '2025-07-14', end: '2025-07-21' });
+    expect(lastCompletePeriod(new Date('2025-07-27T18:00:00Z'))).toEqual({ start: '2025-07-14', end: '2025-07-21' });
+  });
+
+  it('does not include the week still running on Sunday', () => {
+    expect(lastCompletePeriod(new Date('2025-07-20T23:59:59Z'))).toEqual({ start: '2025-07-07', end: '2025-07-14' });
+  });
+});
+
+describe('previousPeriod', () => {
+  it('is the week ending where the given one starts', () => {
+    expect(previousPeriod({ start: '2025-07-21', end: '2025-07-28' })).toEqual({ start: '2025-07-14', end: '2025-07-21' });
+  });
+
+  it('crosses month and year boundaries', () => {
+    expect(previousPeriod({ start: '2025-01-06', end: '2025-01-13' })).toEqual({ start: '2024-12-30', end: '2025-01-06' });
+  });
+});
@@ -0,0 +1,367 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import type { ChatProvider } from './ai/types.ts';
+import { cleanJsonResponse } from './analysisValidation.ts';
+import { isLowConfidence, type ConfidenceThresholds } from './confidence.ts';
+import { normalizeQuoteEvidence } from './evidence.ts';
+import { SENTIMENT_ASPECTS, type SentimentAspect } from './sentiment.ts';
+
+// Weekly executive summary across all team leads. KPI totals, sentiment
+// averages and quote candidates are computed from the period's completed
+// submissions here; the chat model only writes the narrative and picks quotes
+// by number, so figures and quotes in a report are never made up. Items below
+// the confidence thresholds that no admin confirmed are left out, like in the
+// "confirmed only" charts. Every generation and every admin edit is stored as a
+// new version of the period's report.
+
+export interface ReportPeriod {
+  // Monday, as YYYY-MM-DD
+  start: string;
+  // The following Monday (exclusive)
+  end: string;
+}
+
+export interface ReportKPI {
+  name: string;
+  unit: string | null;
+  currency: string | null;
+  count: number;
+  // Percentages are averaged, everything else is summed, as on the dashboard
+  value: number;
+  previous_value: number | null;
+}
+
+export interface ReportStats {
+  submissions: number;
+  submitters: number;
+  previous_submissions: number;
+  average_score: number | null;
+  previous_average_score: number | null;
+  aspects: { aspect: SentimentAspect; average: number | null; previous_average: number | null }[];
+}
+
+export interface ReportQuote {
+  text: string;
+  submission_id: string;
+  user_id: string;
+  user_name: string | null;
+}
+
+export interface ReportContent {
+  headline: string;
+  overview: string;
+  achievements: string[];
+  risks: string[];
+  sentiment_summary: string;
+  quotes: ReportQuote[];
+}
+
+interface PeriodSubmission {
+  id: string;
+  user_id: string;
+  user_name: string | null;
+  created_at: string;
+  key_points: string[];
+  sentiment_score: number | null;
+  aspects: { aspect: SentimentAspect; score: number }[];
+  // Quotes the verification pass found in the sources
+  quotes: string[];
+  kpis: { metric_name: string; value: number | null; unit: string | null; currency: string | null }[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Keeps the prompt within the model's context for busy weeks
+const MAX_DIGEST_SUBMISSIONS = 150;
+const MAX_DIGEST_KEY_POINTS = 6;
+const MAX_QUOTE_CANDIDATES = 40;
+const MAX_REPORT_QUOTES = 5;
+const MAX_REPORT_KPIS = 15;
+
+const toDateString = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+// Reporting weeks run from Monday to Sunday (UTC)
+export function reportPeriodFor(date: Date): ReportPeriod {
+  const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  const start = day - ((new Date(day).getUTCDay() + 6) % 7) * DAY_MS;
+  return { start: toDateString(start), end: toDateString(start + 7 * DAY_MS) };
+}
+
+// The most recent week that has ended
+export function lastCompletePeriod(now = new Date()): ReportPeriod {
+  return reportPeriodFor(new Date(now.getTime() - 7 * DAY_MS));
+}
+
+export function previousPeriod(period: ReportPeriod): ReportPeriod {
+  const start = Date.parse(`${period.start}T00:00:00Z`) - 7 * DAY_MS;
+  return { start: toDateString(start), end: period.start };
+}
+
+export async function loadPeriodSubmissions(
+  supabase: SupabaseClient,
+  period: ReportPeriod,
+  thresholds: ConfidenceThresholds
+): Promise<PeriodSubmission[]> {
+  const { data, error } = await supabase
+    .from('submissions')
+    .select('id, user_id, created_at, key_points, key_point_confidences, confirmed_key_points, sentiment, sentiment_confidence, confirmed_sentiment, sentiment_score, ai_quotes, quote_evidence, extracted_kpi_values(metric_name, value, unit, currency, confidence, confirmed_at), submission_aspect_sentiments(aspect, score)')
+    .eq('status', 'completed')
+    .gte('created_at', `${period.start}T00:00:00Z`)
+    .lt('created_at', `${period.end}T00:00:00Z`)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load submissions for ${period.start}: ${error.message}`);
+  }
+
+  const rows = data || [];
+  const userIds = [...new Set(rows.map(row => row.user_id))];
+  const names = new Map<string, string>();
+  if (userIds.length > 0) {
+    const { data: profiles } = await supabase
+      .from('profiles')
+      .select('id, name, email')
+      .in('id', userIds);
+    for (const profile of profiles || []) {
+      names.set(profile.id, profile.name || profile.email);
+    }
+  }
+
+  return rows.map(row => {
+    const confirmedKeyPoints: string[] = row.confirmed_key_points || [];
+    const sentimentConfirmed = !row.sentiment ||
+      !isLowConfidence(row.sentiment_confidence, thresholds.sentiment) ||
+      row.confirmed_sentiment === row.sentiment;
+
+    return {
+      id: row.id,
+      user_id: row.user_id,
+      user_name: names.get(row.user_id) || null,
+      created_at: row.created_at,
+      key_points: (row.key_points || []).filter((keyPoint: string, index: number) =>
+        !isLowConfidence(row.key_point_confidences?.[index], thresholds.key_point) || confirmedKeyPoints.includes(keyPoint)
+      ),
+      sentiment_score: sentimentConfirmed && row.sentiment_score !== null ? Number(row.sentiment_score) : null,
+      aspects: sentimentConfirmed
+        ? (row.submission_aspect_sentiments || []).map((aspect: { aspect: SentimentAspect; score: number }) => ({
+          aspect: aspect.aspect,
+          score: Number(aspect.score),
+        }))
+        : [],
+      quotes: normalizeQuoteEvidence(row.quote_evidence, row.ai_quotes || [])
+        .filter(evidence => evidence.verification_status === 'verified')
+        .map(evidence => evidence.quote),
+      kpis: (row.extracted_kpi_values || []).filter((kpi: { confidence: number | null; confirmed_at: string | null }) =>
+        !isLowConfidence(kpi.confidence, thresholds.kpi) || kpi.confirmed_at
+      ),
+    };
+  });
+}
+
+const metricKey = (kpi: { metric_name: string; unit: string | null; currency: string | null }) =>
+  [kpi.metric_name.trim().replace(/\s+/g, ' ').toLowerCase(), kpi.unit || '', kpi.currency || ''].join('|');
+
+function kpiTotals(submissions: PeriodSubmission[]) {
+  const metrics = new Map<string, { name: string; unit: string | null; currency: string | null; count: number; total: number; numericCount: number }>();
+  for (const kpi of submissions.flatMap(submission => submission.kpis)) {
+    const key = metricKey(kpi);
+    const metric = metrics.get(key) || { name: kpi.metric_name, unit: kpi.unit, currency: kpi.currency, count: 0, total: 0, numericCount: 0 };
+    metric.count += 1;
+    if (kpi.value !== null) {
+      metric.total += Number(kpi.value);
+      metric.numericCount += 1;
+    }
+    metrics.set(key, metric);
+  }
+
+  const values = new Map<string, { name: string; unit: string | null; currency: string | null; count: number; value: number }>();
+  for (const [key, { total, numericCount, ...metric }] of metrics) {
+    if (numericCount === 0) continue;
+    values.set(key, { ...metric, value: metric.unit === '%' ? total / numericCount : total });
+  }
+  return values;
+}
+
+// The most reported metrics of the period next to their value in the period before
+export function aggregateReportKPIs(current: PeriodSubmission[], previous: PeriodSubmission[]): ReportKPI[] {
+  const previousTotals = kpiTotals(previous);
+  return [...kpiTotals(current).entries()]
+    .map(([key, metric]) => ({ ...metric, previous_value: previousTotals.get(key)?.value ?? null }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+    .slice(0, MAX_REPORT_KPIS);
+}
+
+const average = (values: number[]) =>
+  values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length * 100) / 100 : null;
+
+export function sentimentStats(current: PeriodSubmission[], previous: PeriodSubmission[]): ReportStats {
+  const scores = (submissions: PeriodSubmission[]) =>
+    submissions.map(submission => submission.sentiment_score).filter((score): score is number => score !== null);
+  const aspectScores = (submissions: PeriodSubmission[], aspect: SentimentAspect) =>
+    submissions.flatMap(submission => submission.aspects).filter(entry => entry.aspect === aspect).map(entry => entry.score);
+
+  return {
+    submissions: current.length,
+    submitters: new Set(current.map(submission => submission.user_id)).size,
+    previous_submissions: previous.length,
+    average_score: average(scores(current)),
+    previous_average_score: average(scores(previous)),
+    aspects: SENTIMENT_ASPECTS.map(aspect => ({
+      aspect,
+      average: average(aspectScores(current, aspect)),
+      previous_average: average(aspectScores(previous, aspect)),
+    })),
+  };
+}
+
+const reportSchema = z.object({
+  headline: z.string().trim().min(1),
+  overview: z.string().trim(),
+  achievements: z.array(z.string().trim().min(1)).max(10),
+  risks: z.array(z.string().trim().min(1)).max(10),
+  sentiment_summary: z.string().trim(),
+  quote_numbers: z.array(z.number().int().positive()).max(10),
+});
+
+const formatScore = (score: number | null) => score === null ? 'n/a' : score.toFixed(2);
+
+function reportDigest(
+  period: ReportPeriod,
+  submissions: PeriodSubmission[],
+  kpis: ReportKPI[],
+  stats: ReportStats,
+  quotes: ReportQuote[]
+): string {
+  const lines = [
+    `Reporting period: ${period.start} to ${toDateString(Date.parse(`${period.end}T00:00:00Z`) - DAY_MS)}`,
+    `Submissions: ${stats.submissions} from ${stats.submitters} team leads (previous period: ${stats.previous_submissions})`,
+    '',
+    'Key points by submission:',
+    ...submissions.slice(0, MAX_DIGEST_SUBMISSIONS).map(submission =>
+      `- ${submission.user_name || 'Unknown'} (${submission.created_at.slice(0, 10)}): ${submission.key_points.slice(0, MAX_DIGEST_KEY_POINTS).join('; ') || 'no key points'}`
+    ),
+    '',
+    'KPI totals (this period, previous period):',
+    ...(kpis.length > 0
+      ? kpis.map(kpi => `- ${kpi.name}${kpi.unit ? ` (${kpi.unit})` : ''}${kpi.currency ? ` (${kpi.currency})` : ''}: ${kpi.value} from ${kpi.count} reports, previous ${kpi.previous_value ?? 'n/a'}`)
+      : ['- none reported']),
+    '',
+    'Sentiment from -1 to 1 (this period, previous period):',
+    `- Overall: ${formatScore(stats.average_score)}, previous ${formatScore(stats.previous_average_score)}`,
+    ...stats.aspects
+      .filter(aspect => aspect.average !== null || aspect.previous_average !== null)
+      .map(aspect => `- ${aspect.aspect}: ${formatScore(aspect.average)}, previous ${formatScore(aspect.previous_average)}`),
+    '',
+    'Quotes:',
+    ...(quotes.length > 0
+      ? quotes.map((quote, index) => `[${index + 1}] "${quote.text}" (${quote.user_name || 'Unknown'})`)
+      : ['- none']),
+  ];
+  return lines.join('\n');
+}
+
+export async function writeReport(
+  ai: ChatProvider,
+  period: ReportPeriod,
+  submissions: PeriodSubmission[],
+  kpis: ReportKPI[],
+  stats: ReportStats
+): Promise<{ content: ReportContent; model: string }> {
+  const candidates = submissions
+    .flatMap(submission => submission.quotes.map(text => ({
+      text,
+      submission_id: submission.id,
+      user_id: submission.user_id,
+      user_name: submission.user_name,
+    })))
+    .slice(0, MAX_QUOTE_CANDIDATES);
+
+  const response = await ai.complete({
+    task: 'executive_summary',
+    messages: [
+      {
+        role: 'system',
+        content: `You write the weekly executive brief for company leadership from the business updates of team leads. Use ONLY the information provided and do not invent figures, names or events; the KPI totals are shown next to the brief, so only refer to them as given. Respond with ONLY a JSON object:
+{"headline": "one sentence", "overview": "2 to 4 sentences", "achievements": ["up to 6 top achievements"], "risks": ["up to 6 emerging risks or blockers"], "sentiment_summary": "1 to 3 sentences on how sentiment shifted compared with the previous period", "quote_numbers": [up to ${MAX_REPORT_QUOTES} numbers of standout quotes]}`,
+      },
+      { role: 'user', content: reportDigest(period, submissions, kpis, stats, candidates) },
+    ],
+    temperature: 0.3,
+  });
+
+  const result = reportSchema.safeParse(JSON.parse(cleanJsonResponse(response.content)));
+  if (!result.success) {
+    throw new Error(`Executive summary response did not match the expected format: ${result.error.issues[0]?.message}`);
+  }
+
+  const quoteNumbers = [...new Set(result.data.quote_numbers)].filter(number => number <= candidates.length);
+  return {
+    content: {
+      headline: result.data.headline,
+      overview: result.data.overview,
+      achievements: result.data.achievements,
+      risks: result.data.risks,
+      sentiment_summary: result.data.sentiment_summary,
+      quotes: quoteNumbers.slice(0, MAX_REPORT_QUOTES).map(number => candidates[number - 1]),
+    },
+    model: response.model,
+  };
+}
+
+// Adds a generated version to the period's report, creating the report if needed.
+// A published report keeps its published version until an admin publishes again.
+export async function saveGeneratedReport(
+  supabase: SupabaseClient,
+  period: ReportPeriod,
+  report: { content: ReportContent; kpis: ReportKPI[]; stats: ReportStats; model: string; createdBy: string | null }
+): Promise<{ reportId: string; version: number }> {
+  const { error: reportError } = await supabase
+    .from('executive_reports')
+    .upsert({ period_start: period.start, period_end: period.end }, { onConflict: 'period_start,period_end', ignoreDuplicates: true });
+
+  if (reportError) {
+    throw new Error(`Failed to create the report: ${reportError.message}`);
+  }
+
+  const { data: existing, error: loadError } = await supabase
+    .from('executive_reports')
+    .select('id, executive_report_versions(version)')
+    .eq('period_start', period.start)
+    .eq('period_end', period.end)
+    .single();
+
+  if (loadError || !existing) {
+    throw new Error(`Failed to load the report: ${loadError?.message}`);
+  }
+
+  const version = Math.max(0, ...(existing.executive_report_versions || []).map((row: { version: number }) => row.version)) + 1;
+  const { data: stored, error: versionError } = await supabase
+    .from('executive_report_versions')
+    .insert({
+      ...report.content,
+      report_id: existing.id,
+      version,
+      source: 'generated',
+      kpis: report.kpis,
+      stats: report.stats,
+      model: report.model,
+      created_by: report.createdBy,
+    })
+    .select('id')
+    .single();
+
+  if (versionError) {
+    throw new Error(`Failed to save report version ${version}: ${versionError.message}`);
+  }
+
+  const { error: updateError } = await supabase
+    .from('executive_reports')
+    .update({ current_version_id: stored.id, updated_at: new Date().toISOString() })
+    .eq('id', existing.id);
+
+  if (updateError) {
+    throw new Error(`Failed to activate report version ${version}: ${updateError.message}`);
+  }
+
+  return { reportId: existing.id, version };
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { detectSeriesAnomalies } from './kpiAnomalies.ts';
+
+// One weekly report per value, oldest first
+const series = (...values: number[]) => values.map((value, index) => ({
+  submission_id: `submission-${index}`,
+  submitted_at: new Date(Date.UTC(2025, 0, 6 + index * 7)).toISOString(),
+  value,
+}));
+
+const HISTORY = [10, 12, 11, 13, 12, 11, 10, 12];
+
+describe('detectSeriesAnomalies', () => {
+  it('ignores values within the usual spread', () => {
+    expect(detectSeriesAnomalies(series(...HISTORY, 13))).toEqual([]);
+  });
+
+  it('raises a warning for a clear deviation from the median', () => {
+    expect(detectSeriesAnomalies(series(...HISTORY, 15))).toEqual([{
+      anomaly_type: 'deviation',
+      severity: 'warning',
+      value: 15,
+      baseline: 11.5,
+      baseline_points: 8,
+      score: 4.72,
+    }]);
+  });
+
+  it('marks extreme deviations as critical', () => {
+    const [anomaly] = detectSeriesAnomalies(series(...HISTORY, 30));
+
+    expect(anomaly.severity).toBe('critical');
+    expect(anomaly.score).toBeGreaterThan(7);
+  });
+
+  it('only compares against the most recent reports', () => {
+    const [anomaly] = detectSeriesAnomalies(series(500, 480, 510, ...HISTORY, 30));
+
+    expect(anomaly.baseline).toBe(11.5);
+    expect(anomaly.baseline_points).toBe(8);
+  });
+
+  it('needs at least four earlier reports', () => {
+    expect(detectSeriesAnomalies(series(10, 11, 12, 100))).toEqual([]);
+  });
+
+  it('uses the relative change when the history is flat', () => {
+    expect(detectSeriesAnomalies(series(5, 5, 5, 5, 7))).toEqual([]);
+    expect(detectSeriesAnomalies(series(5, 5, 5, 5, 8))).toEqual([
+      expect.objectContaining({ anomaly_type: 'deviation', severity: 'warning', score: null }),
+    ]);
+  });
+
+  it('flags a value changing sign after a run of the other sign', () => {
+    expect(detectSeriesAnomalies(series(2, 20, 3, 1, -1))).toEqual([
+      expect.objectContaining({ anomaly_type: 'sign_flip', severity: 'warning', value: -1 }),
+    ]);
+  });
+});
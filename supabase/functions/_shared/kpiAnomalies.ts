@@ -0,0 +1,333 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import { isLowConfidence, loadConfidenceThresholds, type ConfidenceThresholds } from './confidence.ts';
+
+// Flags KPI values that stand out from the history of the same metric, both for
+// the submitter's own reports ('user') and for everyone's reports ('team').
+// Runs as a processing job whenever a submission gets a new active analysis.
+// The baseline is the median of the previous reports; a value is anomalous when
+// its robust z-score (distance from the median in MADs) is large, or when it
+// flips sign after a run of reports with the same sign.
+
+export type AlertScope = 'user' | 'team';
+export type AnomalyType = 'deviation' | 'sign_flip';
+export type AlertSeverity = 'warning' | 'critical';
+
+export interface KPIAnomaly {
+  submission_id: string;
+  user_id: string;
+  kpi_value_id: string;
+  kpi_definition_id: string | null;
+  scope: AlertScope;
+  metric_key: string;
+  metric_name: string;
+  unit: string | null;
+  currency: string | null;
+  anomaly_type: AnomalyType;
+  severity: AlertSeverity;
+  value: number;
+  baseline: number;
+  baseline_points: number;
+  score: number | null;
+  message: string;
+}
+
+// What a check found, before it is tied to a submission and metric
+type SeriesAnomaly = Pick<KPIAnomaly, 'anomaly_type' | 'severity' | 'value' | 'baseline' | 'baseline_points' | 'score'>;
+
+interface KPIPoint {
+  submission_id: string;
+  submitted_at: string;
+  value: number;
+}
+
+interface SeriesValue {
+  id: string;
+  submission_id: string;
+  user_id: string;
+  kpi_definition_id: string | null;
+  metric_name: string;
+  unit: string | null;
+  currency: string | null;
+  value: number;
+  position: number;
+  submitted_at: string;
+}
+
+// Previous reports a value is compared with
+const BASELINE_POINTS = 8;
+// Fewer previous reports than this say too little about what is normal
+const MIN_BASELINE_POINTS = 4;
+// Robust z-scores above these are flagged (3.5 is the usual cut-off for outliers)
+const WARNING_SCORE = 3.5;
+const CRITICAL_SCORE = 7;
+// Smallest change from the median that is flagged, relative to the median, so
+// very steady metrics do not alert on small moves; higher for a history of
+// identical reports, which has no spread to score against
+const MIN_RELATIVE_CHANGE = 0.2;
+const FLAT_HISTORY_CHANGE = 0.5;
+// Reports of the same sign needed before a flip counts as sudden
+const MIN_SIGN_RUN = 3;
+// Older history is loaded per metric up to this many values
+const HISTORY_LIMIT = 500;
+
+// Matched KPIs share a definition; the rest are grouped like the dashboard does
+export const metricKey = (kpi: { kpi_definition_id: string | null; metric_name: string; unit: string | null; currency: string | null }) =>
+  kpi.kpi_definition_id
+    ? `definition:${kpi.kpi_definition_id}`
+    : ['metric', kpi.metric_name.trim().replace(/\s+/g, ' ').toLowerCase(), kpi.unit || '', kpi.currency || ''].join('|');
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Distance from the median in units of the median absolute deviation, scaled so
+// it reads like a z-score for normally distributed values. Falls back to the
+// standard deviation when most previous reports were identical.
+export function robustScore(value: number, baseline: number[]): number | null {
+  const center = median(baseline);
+  const mad = median(baseline.map(point => Math.abs(point - center)));
+  if (mad > 0) return 0.6745 * (value - center) / mad;
+
+  const mean = baseline.reduce((sum, point) => sum + point, 0) / baseline.length;
+  const deviation = Math.sqrt(baseline.reduce((sum, point) => sum + (point - mean) ** 2, 0) / baseline.length);
+  if (deviation > 0) return (value - mean) / deviation;
+
+  // A perfectly flat history has no spread to measure the value against
+  return null;
+}
+
+const describeValue = (value: number, unit: string | null, currency: string | null) =>
+  `${value.toLocaleString('en-US')}${unit === '%' ? '%' : unit ? ` ${unit}` : ''}${currency ? ` ${currency}` : ''}`;
+
+// Checks the newest point of a series (the last one) against the points before it
+export function detectSeriesAnomalies(points: KPIPoint[]): SeriesAnomaly[] {
+  const current = points[points.length - 1];
+  const baseline = points.slice(0, -1).slice(-BASELINE_POINTS).map(point => point.value);
+  if (!current || baseline.length < MIN_BASELINE_POINTS) return [];
+
+  const anomalies: SeriesAnomaly[] = [];
+  const center = median(baseline);
+
+  const score = robustScore(current.value, baseline);
+  const relativeChange = Math.abs(current.value - center) / Math.max(Math.abs(center), 1);
+  const deviates = score === null
+    ? relativeChange >= FLAT_HISTORY_CHANGE
+    : Math.abs(score) >= WARNING_SCORE && relativeChange >= MIN_RELATIVE_CHANGE;
+  if (deviates) {
+    anomalies.push({
+      anomaly_type: 'deviation',
+      severity: score !== null && Math.abs(score) >= CRITICAL_SCORE ? 'critical' : 'warning',
+      value: current.value,
+      baseline: round(center),
+      baseline_points: baseline.length,
+      score: score === null ? null : round(score),
+    });
+  }
+
+  const run = baseline.slice(-MIN_SIGN_RUN);
+  const runSign = Math.sign(run[0]);
+  if (
+    runSign !== 0 &&
+    run.length === MIN_SIGN_RUN &&
+    run.every(point => Math.sign(point) === runSign) &&
+    Math.sign(current.value) === -runSign
+  ) {
+    anomalies.push({
+      anomaly_type: 'sign_flip',
+      severity: 'warning',
+      value: current.value,
+      baseline: round(center),
+      baseline_points: baseline.length,
+      score: score === null ? null : round(score),
+    });
+  }
+
+  return anomalies;
+}
+
+function alertMessage(anomaly: Omit<KPIAnomaly, 'message'>, submitter: string): string {
+  const value = describeValue(anomaly.value, anomaly.unit, anomaly.currency);
+  const baseline = describeValue(anomaly.baseline, anomaly.unit, anomaly.currency);
+  const history = anomaly.scope === 'user' ? `${submitter}'s previous ${anomaly.baseline_points} reports` : `the previous ${anomaly.baseline_points} reports across the team`;
+
+  if (anomaly.anomaly_type === 'sign_flip') {
+    return `${anomaly.metric_name} turned ${anomaly.value < 0 ? 'negative' : 'positive'} at ${value} after ${MIN_SIGN_RUN} ${anomaly.value < 0 ? 'positive' : 'negative'} reports (median of ${history}: ${baseline})`;
+  }
+  const direction = anomaly.value > anomaly.baseline ? 'above' : 'below';
+  return `${anomaly.metric_name} of ${value} is far ${direction} the median of ${history} (${baseline})`;
+}
+
+const usable = (kpi: { value: number | null; confidence: number | null; confirmed_at: string | null }, thresholds: ConfidenceThresholds) =>
+  kpi.value !== null && (!isLowConfidence(kpi.confidence, thresholds.kpi) || !!kpi.confirmed_at);
+
+// One point per submission; a metric reported twice in one submission is summed (averaged for percentages)
+function toPoints(values: SeriesValue[]): KPIPoint[] {
+  const bySubmission = new Map<string, SeriesValue[]>();
+  for (const value of values) {
+    bySubmission.set(value.submission_id, [...(bySubmission.get(value.submission_id) || []), value]);
+  }
+  return [...bySubmission.values()]
+    .map(group => {
+      const total = group.reduce((sum, value) => sum + value.value, 0);
+      return {
+        submission_id: group[0].submission_id,
+        submitted_at: group[0].submitted_at,
+        value: group[0].unit === '%' ? total / group.length : total,
+      };
+    })
+    .sort((a, b) => a.submitted_at.localeCompare(b.submitted_at));
+}
+
+// Newest reports first, by when they were submitted: the value rows themselves are
+// rewritten whenever a submission is reprocessed or rolled back. Rows are filtered
+// before they count towards HISTORY_LIMIT, so pages are read until it is reached.
+async function loadHistory(
+  supabase: SupabaseClient,
+  kpi: SeriesValue,
+  submittedAt: string,
+  thresholds: ConfidenceThresholds
+): Promise<SeriesValue[]> {
+  const key = metricKey(kpi);
+  // Names are compared case- and whitespace-insensitively; the LIKE pattern narrows
+  // the rows down and metricKey decides
+  const namePattern = kpi.metric_name.trim().replace(/[%_\\]/g, '\\$&').replace(/\s+/g, '%');
+  const history: SeriesValue[] = [];
+
+  for (let from = 0; history.length < HISTORY_LIMIT; from += HISTORY_LIMIT) {
+    let query = supabase
+      .from('extracted_kpi_values')
+      .select('id, submission_id, user_id, kpi_definition_id, metric_name, unit, currency, value, position, confidence, confirmed_at, submissions!inner(created_at, status)')
+      .eq('submissions.status', 'completed')
+      .lt('submissions.created_at', submittedAt)
+      .not('value', 'is', null)
+      .or(`confirmed_at.not.is.null,confidence.is.null,confidence.gte.${thresholds.kpi}`)
+      // Orders the values by their submission; referencedTable would only sort the embedded rows
+      .order('submissions(created_at)', { ascending: false })
+      .order('id')
+      .range(from, from + HISTORY_LIMIT - 1);
+
+    query = kpi.kpi_definition_id
+      ? query.eq('kpi_definition_id', kpi.kpi_definition_id)
+      : query.is('kpi_definition_id', null).ilike('metric_name', namePattern);
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to load the history of ${kpi.metric_name}: ${error.message}`);
+    }
+
+    for (const row of data || []) {
+      if (!usable(row, thresholds) || metricKey(row) !== key) continue;
+      history.push({
+        id: row.id,
+        submission_id: row.submission_id,
+        user_id: row.user_id,
+        kpi_definition_id: row.kpi_definition_id,
+        metric_name: row.metric_name,
+        unit: row.unit,
+        currency: row.currency,
+        value: Number(row.value),
+        position: row.position,
+        submitted_at: row.submissions.created_at,
+      });
+    }
+    if (!data || data.length < HISTORY_LIMIT) break;
+  }
+
+  return history.slice(0, HISTORY_LIMIT);
+}
+
+// Checks every KPI of a submission against the user's and the team's history
+export async function detectKPIAnomalies(supabase: SupabaseClient, submissionId: string): Promise<KPIAnomaly[]> {
+  const { data: submission, error } = await supabase
+    .from('submissions')
+    .select('id, user_id, created_at, status, extracted_kpi_values(id, kpi_definition_id, metric_name, unit, currency, value, position, confidence, confirmed_at)')
+    .eq('id', submissionId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load submission: ${error.message}`);
+  }
+  if (!submission || submission.status !== 'completed') return [];
+
+  const thresholds = await loadConfidenceThresholds(supabase);
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('name, email')
+    .eq('id', submission.user_id)
+    .maybeSingle();
+  const submitter = profile?.name || profile?.email || 'The submitter';
+  const currentValues: SeriesValue[] = (submission.extracted_kpi_values || [])
+    .filter((kpi: { value: number | null; confidence: number | null; confirmed_at: string | null }) => usable(kpi, thresholds))
+    .map((kpi: Omit<SeriesValue, 'submission_id' | 'user_id' | 'submitted_at'>) => ({
+      ...kpi,
+      value: Number(kpi.value),
+      submission_id: submission.id,
+      user_id: submission.user_id,
+      submitted_at: submission.created_at,
+    }));
+
+  const metrics = new Map<string, SeriesValue[]>();
+  for (const kpi of currentValues) {
+    metrics.set(metricKey(kpi), [...(metrics.get(metricKey(kpi)) || []), kpi]);
+  }
+
+  const anomalies: KPIAnomaly[] = [];
+  for (const [key, values] of metrics) {
+    const kpi = [...values].sort((a, b) => a.position - b.position)[0];
+    const history = await loadHistory(supabase, kpi, submission.created_at, thresholds);
+
+    const series: Record<AlertScope, SeriesValue[]> = {
+      user: history.filter(value => value.user_id === submission.user_id),
+      team: history,
+    };
+
+    for (const scope of ['user', 'team'] as AlertScope[]) {
+      for (const anomaly of detectSeriesAnomalies(toPoints([...series[scope], ...values]))) {
+        const alert = {
+          ...anomaly,
+          submission_id: submission.id,
+          user_id: submission.user_id,
+          kpi_value_id: kpi.id,
+          kpi_definition_id: kpi.kpi_definition_id,
+          scope,
+          metric_key: key,
+          metric_name: kpi.metric_name,
+          unit: kpi.unit,
+          currency: kpi.currency,
+        };
+        anomalies.push({ ...alert, message: alertMessage(alert, submitter) });
+      }
+    }
+  }
+
+  return anomalies;
+}
+
+// Replaces the open alerts of a submission. Alerts an admin already acknowledged
+// or dismissed are kept and not raised again for the same metric and check.
+export async function saveKPIAlerts(supabase: SupabaseClient, submissionId: string, anomalies: KPIAnomaly[]): Promise<number> {
+  const { error: deleteError } = await supabase
+    .from('kpi_alerts')
+    .delete()
+    .eq('submission_id', submissionId)
+    .eq('status', 'open');
+
+  if (deleteError) {
+    throw new Error(`Failed to clear open alerts: ${deleteError.message}`);
+  }
+  if (anomalies.length === 0) return 0;
+
+  const { data, error } = await supabase
+    .from('kpi_alerts')
+    .upsert(anomalies, { onConflict: 'submission_id,scope,metric_key,anomaly_type', ignoreDuplicates: true })
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to save alerts: ${error.message}`);
+  }
+  return data?.length || 0;
+}
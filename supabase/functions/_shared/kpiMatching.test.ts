@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { matchKPIDefinition, nameSimilarity, submissionPeriod, unitCompatibility } from './kpiMatching.ts';
+import type { StoredKPIValue } from './kpis.ts';
+
+const kpiValue = (metric_name: string, value: number | null, unit: string | null = null, currency: string | null = null): StoredKPIValue => ({
+  id: 'kpi-1',
+  metric_name,
+  value,
+  unit,
+  currency,
+  period: null,
+  direction: null,
+  source: null,
+  quote: null,
+  confidence: null,
+  source_ref: null,
+  verification_status: 'unchecked',
+  verification_issues: [],
+});
+
+const DEFINITIONS = [
+  { id: 'deals', name: 'Deals Closed', synonyms: ['new clients signed'], unit: 'deals' },
+  { id: 'conversion', name: 'Conversion Rate', synonyms: [], unit: '%' },
+  { id: 'revenue', name: 'Revenue', synonyms: ['sales'], unit: 'USD' },
+  { id: 'response', name: 'Response Time', synonyms: [], unit: 'hours' },
+];
+
+describe('matchKPIDefinition', () => {
+  it('matches by name with a confidence high enough to record automatically', () => {
+    const match = matchKPIDefinition(kpiValue('Deals closed', 12, 'deals'), DEFINITIONS);
+
+    expect(match?.definition.id).toBe('deals');
+    expect(match?.confidence).toBe(1);
+    expect(match?.value).toBe(12);
+  });
+
+  it('matches on synonyms', () => {
+    const match = matchKPIDefinition(kpiValue('New clients signed', 4, 'deals'), DEFINITIONS);
+
+    expect(match?.definition.id).toBe('deals');
+    expect(match?.reason).toContain('synonym');
+  });
+
+  it('lowers the confidence when the extracted value has no unit', () => {
+    const match = matchKPIDefinition(kpiValue('Conversion rate', 18), DEFINITIONS);
+
+    expect(match?.definition.id).toBe('conversion');
+    expect(match?.confidence).toBe(0.9);
+  });
+
+  it('never matches incompatible units or different currencies', () => {
+    expect(matchKPIDefinition(kpiValue('Conversion rate', 18, 'deals'), DEFINITIONS)).toBeNull();
+    expect(matchKPIDefinition(kpiValue('Revenue', 1000, null, 'EUR'), DEFINITIONS)).toBeNull();
+  });
+
+  it('converts durations into the definition unit', () => {
+    const match = matchKPIDefinition(kpiValue('Response time', 90, 'minutes'), DEFINITIONS);
+
+    expect(match?.definition.id).toBe('response');
+    expect(match?.value).toBe(1.5);
+  });
+
+  it('returns null when no definition shares a word with the metric', () => {
+    expect(matchKPIDefinition(kpiValue('Team morale', 7), DEFINITIONS)).toBeNull();
+  });
+});
+
+describe('nameSimilarity', () => {
+  it('ignores case, plurals and stop words', () => {
+    expect(nameSimilarity('Number of Deals', 'deal')).toBe(1);
+  });
+
+  it('scores names contained in each other at least 0.75', () => {
+    expect(nameSimilarity('Monthly revenue', 'Revenue')).toBe(0.75);
+  });
+});
+
+describe('unitCompatibility', () => {
+  it('treats currency symbols and codes as the same currency', () => {
+    expect(unitCompatibility({ unit: '$', currency: null }, 'USD')).toEqual({ compatible: true, factor: 1, weight: 1 });
+  });
+});
+
+describe('submissionPeriod', () => {
+  it('returns the Monday to Sunday week in UTC', () => {
+    expect(submissionPeriod('2025-07-20T23:30:00Z')).toEqual({ period_start: '2025-07-14', period_end: '2025-07-20' });
+    expect(submissionPeriod('2025-07-21T00:00:00Z')).toEqual({ period_start: '2025-07-21', period_end: '2025-07-27' });
+  });
+});
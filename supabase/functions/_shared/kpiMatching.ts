@@ -0,0 +1,356 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import { kpiValueKey, type StoredKPIValue } from './kpis.ts';
+
+// Maps extracted KPI values onto admin-defined kpi_definitions and records
+// user_kpi_performance rows for the submission's week. Each submission keeps
+// its own rows; user_kpi_weekly_performance picks the value for the week.
+
+// Matches at or above this confidence are recorded automatically
+export const AUTO_MATCH_CONFIDENCE = 0.85;
+// Matches between this and AUTO_MATCH_CONFIDENCE go to the admin review queue
+export const REVIEW_MATCH_CONFIDENCE = 0.5;
+
+interface KPIDefinition {
+  id: string;
+  name: string;
+  synonyms: string[] | null;
+  unit: string | null;
+}
+
+type UnitInfo =
+  | { kind: 'percent' }
+  | { kind: 'currency'; code: string | null }
+  | { kind: 'duration'; hours: number }
+  | { kind: 'count'; label: string };
+
+interface UnitCompatibility {
+  compatible: boolean;
+  // Multiplier converting the extracted value into the definition's unit
+  factor: number;
+  // Confidence multiplier for partially known or differing units
+  weight: number;
+}
+
+// An admin's approve / reject decision on a review, kept across analysis runs
+export interface KPIMatchDecision {
+  id: string;
+  suggested_kpi_id: string | null;
+  confidence: number;
+  reason: string | null;
+  status: 'approved' | 'rejected';
+  resolved_kpi_id: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+}
+
+export interface KPIMatch {
+  definition: KPIDefinition;
+  confidence: number;
+  value: number | null;
+  reason: string;
+}
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'the', 'of', 'for', 'to', 'in', 'on', 'per', 'number', 'total', 'no']);
+
+const CURRENCY_UNITS: Record<string, string | null> = {
+  '$': 'USD', usd: 'USD', dollar: 'USD',
+  '€': 'EUR', eur: 'EUR', euro: 'EUR',
+  '£': 'GBP', gbp: 'GBP', pound: 'GBP',
+  '₹': 'INR', inr: 'INR', rupee: 'INR', rs: 'INR',
+  currency: null, money: null,
+};
+
+const DURATION_HOURS: Record<string, number> = {
+  s: 1 / 3600, sec: 1 / 3600, second: 1 / 3600,
+  min: 1 / 60, minute: 1 / 60,
+  h: 1, hr: 1, hour: 1,
+  day: 24,
+  week: 24 * 7,
+};
+
+const PERCENT_UNITS = new Set(['%', 'percent', 'percentage', 'pct']);
+
+function singularize(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return word.slice(0, -3) + 'y';
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+function nameTokens(name: string): string[] {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9%]+/g, ' ')
+    .split(' ')
+    .filter(token => token && !STOP_WORDS.has(token))
+    .map(singularize);
+}
+
+// Dice coefficient over name tokens, boosted when one name contains the other
+export function nameSimilarity(a: string, b: string): number {
+  const tokensA = new Set(nameTokens(a));
+  const tokensB = new Set(nameTokens(b));
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+  const shared = [...tokensA].filter(token => tokensB.has(token)).length;
+  if (shared === tokensA.size && shared === tokensB.size) return 1;
+
+  const dice = (2 * shared) / (tokensA.size + tokensB.size);
+  const contained = shared > 0 && shared === Math.min(tokensA.size, tokensB.size);
+  return contained ? Math.max(dice, 0.75) : dice;
+}
+
+function unitInfo(unit: string | null, currency: string | null = null): UnitInfo | null {
+  if (currency) return { kind: 'currency', code: currency.toUpperCase() };
+  if (!unit) return null;
+
+  const normalized = singularize(unit.trim().toLowerCase().replace(/\.$/, ''));
+  if (!normalized) return null;
+  if (PERCENT_UNITS.has(normalized)) return { kind: 'percent' };
+  if (normalized in CURRENCY_UNITS) return { kind: 'currency', code: CURRENCY_UNITS[normalized] };
+  if (normalized in DURATION_HOURS) return { kind: 'duration', hours: DURATION_HOURS[normalized] };
+  return { kind: 'count', label: normalized };
+}
+
+export function unitCompatibility(kpi: Pick<StoredKPIValue, 'unit' | 'currency'>, definitionUnit: string | null): UnitCompatibility {
+  const extracted = unitInfo(kpi.unit, kpi.currency);
+  const expected = unitInfo(definitionUnit);
+
+  // Without both units we can't confirm the match, so lower the confidence a little
+  if (!extracted || !expected) return { compatible: true, factor: 1, weight: 0.9 };
+  if (extracted.kind !== expected.kind) return { compatible: false, factor: 1, weight: 0 };
+
+  switch (extracted.kind) {
+    case 'currency': {
+      const expectedCode = (expected as { code: string | null }).code;
+      // No exchange rates: different currencies never match
+      if (extracted.code && expectedCode && extracted.code !== expectedCode) {
+        return { compatible: false, factor: 1, weight: 0 };
+      }
+      return { compatible: true, factor: 1, weight: 1 };
+    }
+    case 'duration':
+      return { compatible: true, factor: extracted.hours / (expected as { hours: number }).hours, weight: 1 };
+    case 'count':
+      return { compatible: true, factor: 1, weight: extracted.label === (expected as { label: string }).label ? 1 : 0.85 };
+    default:
+      return { compatible: true, factor: 1, weight: 1 };
+  }
+}
+
+export function matchKPIDefinition(kpi: StoredKPIValue, definitions: KPIDefinition[]): KPIMatch | null {
+  let best: KPIMatch | null = null;
+
+  for (const definition of definitions) {
+    const units = unitCompatibility(kpi, definition.unit);
+    if (!units.compatible) continue;
+
+    for (const candidate of [definition.name, ...(definition.synonyms || [])]) {
+      const similarity = nameSimilarity(kpi.metric_name, candidate);
+      const confidence = Math.round(similarity * units.weight * 100) / 100;
+
+      if (confidence > 0 && (!best || confidence > best.confidence)) {
+        best = {
+          definition,
+          confidence,
+          value: kpi.value === null ? null : kpi.value * units.factor,
+          reason: `"${kpi.metric_name}" ~ ${candidate === definition.name ? 'name' : 'synonym'} "${candidate}" ` +
+            `(name ${similarity.toFixed(2)}, unit ${kpi.currency || kpi.unit || 'none'} vs ${definition.unit || 'none'})`,
+        };
+      }
+    }
+  }
+
+  return best;
+}
+
+// Submissions are weekly check-ins, so performance is recorded per ISO week (Monday to Sunday, UTC)
+export function submissionPeriod(createdAt: string): { period_start: string; period_end: string } {
+  const date = new Date(createdAt);
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  const end = new Date(start);
+  end.setUTCDate(start.getUTCDate() + 6);
+
+  return {
+    period_start: start.toISOString().slice(0, 10),
+    period_end: end.toISOString().slice(0, 10),
+  };
+}
+
+// Reprocessing replaces the extracted values, which removes their reviews; load
+// the decisions first so moveKPIMatchDecisions can move them to the new values
+export async function loadKPIMatchDecisions(
+  supabase: SupabaseClient,
+  submissionId: string
+): Promise<Map<string, KPIMatchDecision>> {
+  const { data, error } = await supabase
+    .from('kpi_match_reviews')
+    .select('id, suggested_kpi_id, confidence, reason, status, resolved_kpi_id, resolved_by, resolved_at, extracted_kpi_values(metric_name, value, unit, currency)')
+    .eq('submission_id', submissionId)
+    .neq('status', 'pending');
+
+  if (error) {
+    throw new Error(`Failed to load KPI match decisions: ${error.message}`);
+  }
+
+  const decisions = new Map<string, KPIMatchDecision>();
+  for (const { extracted_kpi_values: kpi, ...decision } of data || []) {
+    const value = (Array.isArray(kpi) ? kpi[0] : kpi) as Pick<StoredKPIValue, 'metric_name' | 'value' | 'unit' | 'currency'> | null;
+    if (value) decisions.set(kpiValueKey(value), decision as KPIMatchDecision);
+  }
+  return decisions;
+}
+
+// Points each decided review at the new value reporting the same metric, before the
+// previous values are removed. Returns the moved decisions by new value id.
+export async function moveKPIMatchDecisions(
+  supabase: SupabaseClient,
+  decisions: Map<string, KPIMatchDecision>,
+  kpis: StoredKPIValue[]
+): Promise<Map<string, KPIMatchDecision>> {
+  const moved = new Map<string, KPIMatchDecision>();
+
+  for (const kpi of kpis) {
+    const key = kpiValueKey(kpi);
+    const decision = decisions.get(key);
+    if (!decision) continue;
+    // A review belongs to one value; a repeated metric is matched like a new one
+    decisions.delete(key);
+
+    const { error } = await supabase
+      .from('kpi_match_reviews')
+      .update({ extracted_kpi_value_id: kpi.id })
+      .eq('id', decision.id);
+
+    if (error) {
+      throw new Error(`Failed to keep KPI match decision ${decision.id}: ${error.message}`);
+    }
+    moved.set(kpi.id, decision);
+  }
+
+  return moved;
+}
+
+// Matches a submission's KPI values and writes performance rows and review queue entries.
+// Values an admin already decided on (by value id, see moveKPIMatchDecisions) keep that
+// decision instead of being matched again.
+export async function syncKPIPerformance(
+  supabase: SupabaseClient,
+  submission: { id: string; user_id: string; created_at: string },
+  kpis: StoredKPIValue[],
+  decisions: Map<string, KPIMatchDecision> = new Map()
+) {
+  const { data: definitions, error: definitionsError } = await supabase
+    .from('kpi_definitions')
+    .select('id, name, synonyms, unit')
+    .eq('is_active', true);
+
+  if (definitionsError) {
+    throw new Error(`Failed to load KPI definitions: ${definitionsError.message}`);
+  }
+
+  // Values recorded from a previous analysis of this submission are replaced below
+  const { error: clearError } = await supabase
+    .from('user_kpi_performance')
+    .delete()
+    .eq('submission_id', submission.id);
+
+  if (clearError) {
+    throw new Error(`Failed to clear previous KPI performance: ${clearError.message}`);
+  }
+
+  const period = submissionPeriod(submission.created_at);
+  // KPI definition id -> value recorded for this submission
+  const performance = new Map<string, { value: number; confidence: number }>();
+  const reviews = [];
+  let queued = 0;
+  let carriedOver = 0;
+  let unmatched = 0;
+
+  const linkKPIValue = async (kpi: StoredKPIValue, definitionId: string | null, confidence: number) => {
+    const { error: linkError } = await supabase
+      .from('extracted_kpi_values')
+      .update({ kpi_definition_id: definitionId, match_confidence: confidence })
+      .eq('id', kpi.id);
+
+    if (linkError) {
+      console.error(`Failed to link KPI value ${kpi.id}:`, linkError);
+    }
+  };
+
+  // Keep the most confident value when several metrics map to the same KPI
+  const recordValue = (definitionId: string, value: number | null, confidence: number) => {
+    const existing = performance.get(definitionId);
+    if (value !== null && (!existing || confidence > existing.confidence)) {
+      performance.set(definitionId, { value, confidence });
+    }
+  };
+
+  for (const kpi of kpis) {
+    const decision = decisions.get(kpi.id);
+    if (decision) {
+      const approvedKPIId = decision.status === 'approved' ? decision.resolved_kpi_id : null;
+      await linkKPIValue(kpi, approvedKPIId, approvedKPIId ? 1 : decision.confidence);
+      // Approvals record the value as reported, as resolve_kpi_match_review does
+      if (approvedKPIId) recordValue(approvedKPIId, kpi.value, 1);
+      carriedOver++;
+      continue;
+    }
+
+    const match = matchKPIDefinition(kpi, (definitions || []) as KPIDefinition[]);
+
+    if (!match || match.confidence < REVIEW_MATCH_CONFIDENCE) {
+      unmatched++;
+      continue;
+    }
+
+    const isAutoMatch = match.confidence >= AUTO_MATCH_CONFIDENCE;
+    await linkKPIValue(kpi, isAutoMatch ? match.definition.id : null, match.confidence);
+
+    if (!isAutoMatch) {
+      reviews.push({
+        extracted_kpi_value_id: kpi.id,
+        submission_id: submission.id,
+        user_id: submission.user_id,
+        suggested_kpi_id: match.definition.id,
+        confidence: match.confidence,
+        reason: match.reason,
+        ...period,
+      });
+      queued++;
+      continue;
+    }
+
+    recordValue(match.definition.id, match.value, match.confidence);
+  }
+
+  if (performance.size > 0) {
+    const { error: performanceError } = await supabase
+      .from('user_kpi_performance')
+      .insert(
+        [...performance].map(([kpiId, { value }]) => ({
+          user_id: submission.user_id,
+          kpi_id: kpiId,
+          submission_id: submission.id,
+          value,
+          ...period,
+        }))
+      );
+
+    if (performanceError) {
+      throw new Error(`Failed to save KPI performance: ${performanceError.message}`);
+    }
+  }
+
+  if (reviews.length > 0) {
+    const { error: reviewError } = await supabase
+      .from('kpi_match_reviews')
+      .insert(reviews);
+
+    if (reviewError) {
+      throw new Error(`Failed to queue KPI matches for review: ${reviewError.message}`);
+    }
+  }
+
+  return { matched: performance.size, queued, carriedOver, unmatched };
+}
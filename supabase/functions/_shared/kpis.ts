@@ -0,0 +1,229 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import {
+  normalizeSourceRef,
+  normalizeVerificationStatus,
+  type SourceRef,
+  type VerificationStatus,
+} from './evidence.ts';
+
+// Structured KPI records extracted by the analysis model and stored in extracted_kpi_values
+
+export type KPISource = 'video' | 'docx' | 'notes';
+export type KPIDirection = 'increase' | 'decrease';
+
+export interface ExtractedKPI {
+  metric_name: string;
+  value: number | null;
+  unit: string | null;
+  currency: string | null;
+  period: string | null;
+  direction: KPIDirection | null;
+  source: KPISource | null;
+  quote: string | null;
+  // Model confidence from 0 to 1; null for analyses that did not score it
+  confidence: number | null;
+  // Set by the verification pass in evidence.ts
+  source_ref: SourceRef | null;
+  verification_status: VerificationStatus;
+  verification_issues: string[];
+}
+
+const KPI_SOURCES: KPISource[] = ['video', 'docx', 'notes'];
+const KPI_DIRECTIONS: KPIDirection[] = ['increase', 'decrease'];
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '$': 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '₹': 'INR',
+};
+
+const SCALE_SUFFIXES: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  m: 1e6,
+  mn: 1e6,
+  million: 1e6,
+  b: 1e9,
+  bn: 1e9,
+  billion: 1e9,
+};
+
+// Scores are stored with two decimals; anything outside 0..1 is treated as missing
+export function normalizeConfidence(value: unknown): number | null {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof number !== 'number' || !Number.isFinite(number) || number < 0 || number > 1) return null;
+  return Math.round(number * 100) / 100;
+}
+
+function optionalString(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  return trimmed && trimmed.toLowerCase() !== 'null' ? trimmed : null;
+}
+
+// Accepts numbers and loosely formatted strings such as "1,200", "$1.2M" or "-15%"
+export function parseKPINumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+
+  const match = value.match(/(-)?\s*[$€£₹]?\s*(\d[\d,]*(?:\.\d+)?)\s*(k|thousand|mn|m|million|bn|b|billion)?\b/i);
+  if (!match) return null;
+
+  const number = parseFloat(match[2].replace(/,/g, ''));
+  const scale = match[3] ? SCALE_SUFFIXES[match[3].toLowerCase()] : 1;
+  return (match[1] ? -1 : 1) * number * scale;
+}
+
+function detectCurrency(text: string): string | null {
+  for (const [symbol, code] of Object.entries(CURRENCY_SYMBOLS)) {
+    if (text.includes(symbol)) return code;
+  }
+  const codeMatch = text.match(/\b(USD|EUR|GBP|INR)\b/i);
+  return codeMatch ? codeMatch[1].toUpperCase() : null;
+}
+
+function detectDirection(text: string): KPIDirection | null {
+  if (/\b(increas|grew|growth|up\b|improv|rais|gain)/i.test(text)) return 'increase';
+  if (/\b(decreas|declin|down\b|reduc|drop|cut|fell)/i.test(text)) return 'decrease';
+  return null;
+}
+
+// Older analyses returned KPIs as "Metric Name: Value with Units" strings
+export function parseLegacyKPIString(text: string): ExtractedKPI | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  const separator = trimmed.indexOf(':');
+  const metricName = (separator > 0 ? trimmed.substring(0, separator) : trimmed).trim();
+  const valueText = separator > 0 ? trimmed.substring(separator + 1).trim() : trimmed;
+
+  return {
+    metric_name: metricName,
+    value: parseKPINumber(valueText),
+    unit: valueText.includes('%') ? '%' : null,
+    currency: detectCurrency(valueText),
+    period: null,
+    direction: detectDirection(valueText),
+    source: null,
+    quote: null,
+    confidence: null,
+    source_ref: null,
+    verification_status: 'unchecked',
+    verification_issues: [],
+  };
+}
+
+export function normalizeExtractedKPI(raw: unknown): ExtractedKPI | null {
+  if (typeof raw === 'string') return parseLegacyKPIString(raw);
+  if (!raw || typeof raw !== 'object') return null;
+
+  const kpi = raw as Record<string, unknown>;
+  const metricName = optionalString(kpi.metric_name ?? kpi.name);
+  if (!metricName) return null;
+
+  const direction = optionalString(kpi.direction)?.toLowerCase() as KPIDirection | undefined;
+  const source = optionalString(kpi.source)?.toLowerCase() as KPISource | undefined;
+  const currency = optionalString(kpi.currency);
+
+  return {
+    metric_name: metricName,
+    value: parseKPINumber(kpi.value),
+    unit: optionalString(kpi.unit),
+    currency: currency ? currency.toUpperCase() : null,
+    period: optionalString(kpi.period),
+    direction: direction && KPI_DIRECTIONS.includes(direction) ? direction : null,
+    source: source && KPI_SOURCES.includes(source) ? source : null,
+    quote: optionalString(kpi.quote),
+    confidence: normalizeConfidence(kpi.confidence),
+    source_ref: normalizeSourceRef(kpi.source_ref),
+    verification_status: normalizeVerificationStatus(kpi.verification_status),
+    verification_issues: Array.isArray(kpi.verification_issues)
+      ? kpi.verification_issues.filter((issue): issue is string => typeof issue === 'string')
+      : [],
+  };
+}
+
+export function normalizeExtractedKPIs(raw: unknown): ExtractedKPI[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map(normalizeExtractedKPI)
+    .filter((kpi): kpi is ExtractedKPI => kpi !== null);
+}
+
+// Human-readable form used in logs and response messages
+export function formatKPI(kpi: ExtractedKPI): string {
+  if (kpi.value === null) return kpi.metric_name;
+  const value = kpi.currency ? `${kpi.value} ${kpi.currency}` : `${kpi.value}`;
+  return `${kpi.metric_name}: ${value}${kpi.unit ? ` ${kpi.unit}` : ''}`;
+}
+
+export interface StoredKPIValue extends ExtractedKPI {
+  id: string;
+}
+
+// Identifies the same reported value across analysis runs
+export const kpiValueKey = (kpi: Pick<ExtractedKPI, 'metric_name' | 'value' | 'unit' | 'currency'>) =>
+  [kpi.metric_name.trim().replace(/\s+/g, ' ').toLowerCase(), kpi.value ?? '', kpi.unit || '', kpi.currency || ''].join('|');
+
+// Replaces all KPI rows of a submission with the given analysis result. Admin
+// confirmations carry over to new rows reporting the same metric and value.
+// The new rows are saved before the previous ones are removed; beforeClear runs
+// in between, so rows referencing the previous values can be moved over first.
+export async function replaceExtractedKPIs(
+  supabase: SupabaseClient,
+  submission: { id: string; user_id: string },
+  kpis: ExtractedKPI[],
+  beforeClear?: (stored: StoredKPIValue[]) => Promise<void>
+): Promise<StoredKPIValue[]> {
+  const { data: confirmed, error: confirmedError } = await supabase
+    .from('extracted_kpi_values')
+    .select('metric_name, value, unit, currency, confirmed_at, confirmed_by')
+    .eq('submission_id', submission.id)
+    .not('confirmed_at', 'is', null);
+
+  if (confirmedError) {
+    throw new Error(`Failed to load KPI confirmations: ${confirmedError.message}`);
+  }
+
+  const confirmations = new Map(
+    (confirmed || []).map(row => [kpiValueKey(row), { confirmed_at: row.confirmed_at, confirmed_by: row.confirmed_by }])
+  );
+
+  let stored: StoredKPIValue[] = [];
+  if (kpis.length > 0) {
+    const { data, error: insertError } = await supabase
+      .from('extracted_kpi_values')
+      .insert(kpis.map((kpi, position) => ({
+        ...kpi,
+        ...confirmations.get(kpiValueKey(kpi)),
+        submission_id: submission.id,
+        user_id: submission.user_id,
+        position,
+      })))
+      .select('id, metric_name, value, unit, currency, period, direction, source, quote, confidence, source_ref, verification_status, verification_issues');
+
+    if (insertError) {
+      throw new Error(`Failed to save KPI values: ${insertError.message}`);
+    }
+    stored = (data || []) as StoredKPIValue[];
+  }
+
+  if (beforeClear) await beforeClear(stored);
+
+  // A run that failed before this point left its rows behind; they are cleared here too
+  let previous = supabase
+    .from('extracted_kpi_values')
+    .delete()
+    .eq('submission_id', submission.id);
+  if (stored.length > 0) {
+    previous = previous.not('id', 'in', `(${stored.map(kpi => kpi.id).join(',')})`);
+  }
+  const { error: deleteError } = await previous;
+
+  if (deleteError) {
+    throw new Error(`Failed to clear previous KPI values: ${deleteError.message}`);
+  }
+
+  return stored;
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from 'vitest';
+import { prepareCanonicalTranscript, translateTranscript } from './language.ts';
+import type { ChatProvider } from './ai/types.ts';
+import type { StoredTranscript } from './transcript.ts';
+
+// Answers each completion with the next canned response
+const chat = (...responses: string[]) => {
+  const complete = vi.fn(async () => ({ content: responses.shift() ?? '', model: 'test-model' }));
+  return { provider: { name: 'test', chatModel: 'test-model', complete } as ChatProvider, complete };
+};
+
+const TRANSCRIPT: StoredTranscript = {
+  text: 'Hola a todos. Cerramos doce acuerdos.',
+  segments: [
+    { id: 0, start: 0, end: 2, text: 'Hola a todos.' },
+    { id: 1, start: 2, end: 5, text: 'Cerramos doce acuerdos.' },
+  ],
+  language: 'es',
+  duration: 5,
+};
+
+const TRANSLATION = JSON.stringify({
+  segments: [{ id: 0, text: 'Hi everyone.' }, { id: 1, text: 'We closed twelve deals.' }],
+});
+
+describe('translateTranscript', () => {
+  it('keeps the segment timestamps of the original', async () => {
+    const { provider } = chat(TRANSLATION);
+
+    expect(await translateTranscript(provider, TRANSCRIPT, 'es')).toEqual({
+      text: 'Hi everyone. We closed twelve deals.',
+      segments: [
+        { id: 0, start: 0, end: 2, text: 'Hi everyone.' },
+        { id: 1, start: 2, end: 5, text: 'We closed twelve deals.' },
+      ],
+      language: 'en',
+      duration: 5,
+    });
+  });
+
+  it('sends a batch with a missing segment again on its own', async () => {
+    const { provider, complete } = chat(JSON.stringify({ segments: [{ id: 0, text: 'Hi everyone.' }] }), TRANSLATION);
+
+    expect((await translateTranscript(provider, TRANSCRIPT, 'es'))?.text).toBe('Hi everyone. We closed twelve deals.');
+    expect(complete).toHaveBeenCalledTimes(2);
+  });
+
+  it('returns null when a batch stays unusable', async () => {
+    const { provider } = chat('not json', '{"segments": "nope"}');
+
+    expect(await translateTranscript(provider, TRANSCRIPT, 'es')).toBeNull();
+  });
+});
+
+describe('prepareCanonicalTranscript', () => {
+  it('falls back to the original transcript when the translation fails', async () => {
+    const { provider } = chat('not json', 'not json');
+
+    expect(await prepareCanonicalTranscript(provider, TRANSCRIPT)).toEqual({ language: 'es', translated: null });
+  });
+
+  it('does not translate English transcripts', async () => {
+    const { provider, complete } = chat();
+
+    expect(await prepareCanonicalTranscript(provider, { ...TRANSCRIPT, language: 'english' })).toEqual({ language: 'en', translated: null });
+    expect(complete).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,219 @@
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import type { ChatProvider, TranscriptSegment } from './ai/types.ts';
+import { cleanJsonResponse } from './analysisValidation.ts';
+import type { StoredTranscript } from './transcript.ts';
+
+// Analysis prompts are written in English. Transcripts in other languages are
+// translated segment by segment, so the English version keeps the original
+// timestamps and segment ids and evidence found in it points at the same
+// place in the original recording.
+
+export const CANONICAL_LANGUAGE = 'en';
+
+// Whisper reports the detected language by name ("german"); everything is stored as ISO 639-1
+const LANGUAGE_CODES: Record<string, string> = {
+  arabic: 'ar',
+  bengali: 'bn',
+  chinese: 'zh',
+  dutch: 'nl',
+  english: 'en',
+  french: 'fr',
+  german: 'de',
+  gujarati: 'gu',
+  hindi: 'hi',
+  indonesian: 'id',
+  italian: 'it',
+  japanese: 'ja',
+  kannada: 'kn',
+  korean: 'ko',
+  malayalam: 'ml',
+  marathi: 'mr',
+  polish: 'pl',
+  portuguese: 'pt',
+  punjabi: 'pa',
+  russian: 'ru',
+  spanish: 'es',
+  swedish: 'sv',
+  tamil: 'ta',
+  telugu: 'te',
+  turkish: 'tr',
+  ukrainian: 'uk',
+  urdu: 'ur',
+  vietnamese: 'vi',
+};
+
+export function normalizeLanguageCode(language: unknown): string | null {
+  if (typeof language !== 'string') return null;
+  const value = language.trim().toLowerCase();
+  if (/^[a-z]{2}$/.test(value)) return value;
+  // Regional tags such as "pt-BR" keep only the language
+  if (/^[a-z]{2}[-_][a-z0-9]+$/.test(value)) return value.slice(0, 2);
+  return LANGUAGE_CODES[value] || null;
+}
+
+// Enough text for the model to recognise the language
+const DETECTION_SAMPLE_CHARACTERS = 1500;
+
+// Falls back to the chat model when the transcription provider did not report a language
+export async function detectLanguage(ai: ChatProvider, text: string): Promise<string | null> {
+  if (!text.trim()) return null;
+
+  const response = await ai.complete({
+    task: 'language_detection',
+    messages: [
+      {
+        role: 'system',
+        content: 'Identify the language of the text. Respond with ONLY its two-letter ISO 639-1 code, e.g. "en", "de", "hi" or "pt".',
+      },
+      { role: 'user', content: text.slice(0, DETECTION_SAMPLE_CHARACTERS) },
+    ],
+    temperature: 0,
+  });
+
+  const code = normalizeLanguageCode(response.content.replace(/["'.\s]/g, ''));
+  if (!code) {
+    console.warn('Language detection returned an unusable response:', response.content);
+  }
+  return code;
+}
+
+// Segments are translated in batches; each batch must come back with the same ids
+const TRANSLATION_BATCH_CHARACTERS = 6000;
+
+// A batch whose response is unusable is sent again on its own this many times in total
+const TRANSLATION_BATCH_ATTEMPTS = 2;
+
+const translationResponseSchema = z.object({
+  segments: z.array(z.object({ id: z.number(), text: z.string() })),
+});
+
+const translationPrompt = (language: string) => `Translate each segment of this transcript from language "${language}" (ISO 639-1) into English.
+Translate faithfully: keep numbers, units, currencies and names exactly as they are, and keep placeholders such as [NAME] or [EMAIL] unchanged.
+The input is a JSON array of {"id", "text"} segments. Respond with ONLY a JSON object {"segments": [{"id": ..., "text": "..."}]} containing every id exactly once.`;
+
+function batchSegments<T extends { text: string }>(segments: T[]): T[][] {
+  const batches: T[][] = [];
+  let current: T[] = [];
+  let size = 0;
+  for (const segment of segments) {
+    if (current.length > 0 && size + segment.text.length > TRANSLATION_BATCH_CHARACTERS) {
+      batches.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(segment);
+    size += segment.text.length;
+  }
+  if (current.length > 0) batches.push(current);
+  return batches;
+}
+
+// Provider errors propagate; an unusable response is reported as null so the batch can be retried
+async function translateBatch(
+  ai: ChatProvider,
+  language: string,
+  batch: { id: number; text: string }[]
+): Promise<Map<number, string> | null> {
+  const response = await ai.complete({
+    task: 'translation',
+    messages: [
+      { role: 'system', content: translationPrompt(language) },
+      { role: 'user', content: JSON.stringify(batch) },
+    ],
+    temperature: 0,
+  });
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(cleanJsonResponse(response.content));
+  } catch (error) {
+    console.warn(`Translation returned invalid JSON: ${error.message}`);
+    return null;
+  }
+  const result = translationResponseSchema.safeParse(parsed);
+  if (!result.success) {
+    console.warn('Translation response did not list the translated segments');
+    return null;
+  }
+
+  const translated = new Map(result.data.segments.map(segment => [segment.id, segment.text.trim()]));
+  const missing = batch.filter(segment => !translated.has(segment.id));
+  if (missing.length > 0) {
+    console.warn(`Translation is missing ${missing.length} segment(s)`);
+    return null;
+  }
+  return translated;
+}
+
+// English version of a transcript in another language. Transcripts without
+// segments (older rows or providers without timestamps) are split into
+// sentences, which become the segments of the translation. Null when a batch
+// still comes back unusable after its retries.
+export async function translateTranscript(
+  ai: ChatProvider,
+  transcript: StoredTranscript | string,
+  language: string
+): Promise<StoredTranscript | null> {
+  const source: StoredTranscript = typeof transcript === 'string'
+    ? { text: transcript, segments: [], language, duration: null }
+    : transcript;
+
+  const segments = source.segments.length > 0
+    ? source.segments
+    : source.text
+      .split(/(?<=[.!?।])\s+/)
+      .map(sentence => sentence.trim())
+      .filter(Boolean)
+      .map((text, id) => ({ id, start: 0, end: 0, text }));
+
+  const translatedSegments: TranscriptSegment[] = [];
+  for (const [index, batch] of batchSegments(segments).entries()) {
+    let translated: Map<number, string> | null = null;
+    for (let attempt = 1; !translated && attempt <= TRANSLATION_BATCH_ATTEMPTS; attempt++) {
+      translated = await translateBatch(ai, language, batch.map(({ id, text }) => ({ id, text })));
+    }
+    if (!translated) {
+      console.warn(`Translation batch ${index} failed ${TRANSLATION_BATCH_ATTEMPTS} times`);
+      return null;
+    }
+    const texts = translated;
+    translatedSegments.push(...batch.map(segment => ({ ...segment, text: texts.get(segment.id)! })));
+  }
+
+  return {
+    text: translatedSegments.map(segment => segment.text).join(' '),
+    // Sentence splits of an untimed transcript have no timestamps to keep
+    segments: source.segments.length > 0 ? translatedSegments : [],
+    language: CANONICAL_LANGUAGE,
+    duration: source.duration,
+  };
+}
+
+export interface CanonicalTranscript {
+  language: string | null;
+  // Null when the transcript is already English, its language is unknown or
+  // the translation failed
+  translated: StoredTranscript | null;
+}
+
+// Detects the transcript's language and translates it into English when needed.
+// A failed translation falls back to analysing the original-language transcript.
+export async function prepareCanonicalTranscript(
+  ai: ChatProvider,
+  transcript: StoredTranscript | string
+): Promise<CanonicalTranscript> {
+  const text = typeof transcript === 'string' ? transcript : transcript.text;
+  const reported = typeof transcript === 'string' ? null : normalizeLanguageCode(transcript.language);
+  const language = reported || await detectLanguage(ai, text);
+
+  if (!language || language === CANONICAL_LANGUAGE) {
+    return { language, translated: null };
+  }
+
+  console.log(`Translating ${language} transcript into English...`);
+  const translated = await translateTranscript(ai, transcript, language);
+  if (!translated) {
+    console.warn(`Could not translate the ${language} transcript; analysing it in the original language`);
+  }
+  return { language, translated };
+}
@@ -0,0 +1,77 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import type { ChatMessage } from './ai/types.ts';
+
+// Prompts live in prompt_templates and are edited by admins. Templates use
+// {{placeholder}} markers that are filled in here before calling the model.
+// Keep the rendering in sync with src/lib/prompts.ts, which powers the preview.
+
+export const ANALYSIS_PROMPT = 'analysis';
+
+export const ANALYSIS_PLACEHOLDERS = ['transcript', 'docx', 'notes'] as const;
+
+export type AnalysisPlaceholder = typeof ANALYSIS_PLACEHOLDERS[number];
+
+// Keep very large documents from crowding the transcript out of the analysis prompt
+const MAX_DOCX_PROMPT_CHARS = 60000;
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  version: number;
+  system_prompt: string;
+  user_prompt: string;
+}
+
+export async function loadActivePromptTemplate(supabase: SupabaseClient, name: string): Promise<PromptTemplate> {
+  const { data, error } = await supabase
+    .from('prompt_templates')
+    .select('id, name, version, system_prompt, user_prompt')
+    .eq('name', name)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load the ${name} prompt template: ${error.message}`);
+  }
+  if (!data) {
+    throw new Error(`No active ${name} prompt template; activate one in the admin Prompts tab`);
+  }
+  return data as PromptTemplate;
+}
+
+// Stored with each analysis run, e.g. "analysis@v3"
+export function promptVersionLabel(template: Pick<PromptTemplate, 'name' | 'version'>): string {
+  return `${template.name}@v${template.version}`;
+}
+
+// Unknown placeholders are left in place so a typo shows up in the preview
+export function renderPromptTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (marker, key: string) =>
+    Object.prototype.hasOwnProperty.call(values, key) ? values[key] : marker
+  );
+}
+
+export function analysisPromptValues(content: {
+  transcript: string;
+  docx: string;
+  notes: string | null;
+}): Record<AnalysisPlaceholder, string> {
+  let docx = content.docx;
+  if (docx.length > MAX_DOCX_PROMPT_CHARS) {
+    console.warn(`DOCX text truncated from ${docx.length} to ${MAX_DOCX_PROMPT_CHARS} characters for analysis`);
+    docx = docx.substring(0, MAX_DOCX_PROMPT_CHARS);
+  }
+
+  return {
+    transcript: content.transcript || 'No video transcript available',
+    docx: docx || 'No DOCX content available',
+    notes: content.notes || 'No additional notes provided',
+  };
+}
+
+export function renderPromptMessages(template: PromptTemplate, values: Record<string, string>): ChatMessage[] {
+  return [
+    { role: 'system', content: renderPromptTemplate(template.system_prompt, values) },
+    { role: 'user', content: renderPromptTemplate(template.user_prompt, values) },
+  ];
+}
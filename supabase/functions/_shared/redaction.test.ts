@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { redactText, totalRedactions } from './redaction.ts';
+
+describe('redactText', () => {
+  it('replaces emails, phone numbers, card numbers and IDs', () => {
+    const { text, counts } = redactText(
+      'Mail jane.doe@example.com or call +44 20 7946 0958. Card 4111 1111 1111 1111, SSN 123-45-6789.'
+    );
+
+    expect(text).toBe('Mail [EMAIL] or call [PHONE]. Card [CARD], SSN [ID].');
+    expect(counts).toEqual({ email: 1, phone: 1, card: 1, id: 1 });
+  });
+
+  it('keeps the label of labelled identifiers', () => {
+    expect(redactText('Her customer number 48213 is on file').text).toBe('Her customer number [ID] is on file');
+  });
+
+  it('leaves business figures alone', () => {
+    const text = 'Revenue grew 12.5% to $1,250,000 in 2025, and we closed 340 deals on 03-04-2025.';
+
+    expect(redactText(text)).toEqual({ text, counts: {} });
+  });
+
+  it('skips digit runs that fail the card checksum', () => {
+    expect(redactText('Order 4111 1111 1111 1112 shipped').counts.card).toBeUndefined();
+  });
+
+  it('replaces named entities as whole words, longest first', () => {
+    const { text, counts } = redactText('Jane from Acme Corp met Acme and Janet.', {
+      names: ['Jane'],
+      companies: ['Acme', 'Acme Corp'],
+    });
+
+    expect(text).toBe('[NAME] from [COMPANY] met [COMPANY] and Janet.');
+    expect(totalRedactions(counts)).toBe(3);
+  });
+});
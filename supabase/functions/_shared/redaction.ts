@@ -0,0 +1,323 @@
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import type { ChatProvider } from './ai/types.ts';
+import type { AnalysisOutput } from './analyses.ts';
+import { cleanJsonResponse } from './analysisValidation.ts';
+import { renderDocxText, type ParsedDocx } from './docx.ts';
+import type { StoredTranscript } from './transcript.ts';
+
+// Removes personal data from transcripts, DOCX content and notes before they
+// are stored or sent for analysis. Emails, phone numbers, IDs and card
+// numbers are found with patterns; names and client companies optionally by
+// the chat model. Configured with:
+//   PII_REDACTION        on (default) | off
+//   PII_REDACTION_LLM    true to also detect names and companies with the model
+//   PII_KEEP_ORIGINALS   true to keep the unredacted text in submission_pii_originals
+
+export type PIIType = 'email' | 'phone' | 'id' | 'card' | 'name' | 'company';
+
+export type RedactionCounts = Partial<Record<PIIType, number>>;
+
+export interface RedactionSettings {
+  enabled: boolean;
+  llm: boolean;
+  keepOriginals: boolean;
+}
+
+// Stored in submissions.pii_redaction
+export interface RedactionSummary {
+  detectors: ('patterns' | 'llm')[];
+  counts: RedactionCounts;
+  redacted_at: string;
+}
+
+export interface NamedEntities {
+  names: string[];
+  companies: string[];
+}
+
+// A StoredTranscript, or a bare string for rows processed before segments were recorded
+type TranscriptValue = StoredTranscript | string | null;
+
+export interface RedactableSources<T extends TranscriptValue = TranscriptValue> {
+  transcript: T;
+  docx: ParsedDocx | null;
+  notes: string | null;
+}
+
+export interface RedactionResult<T extends TranscriptValue = TranscriptValue> {
+  sources: RedactableSources<T>;
+  summary: RedactionSummary;
+  entities: NamedEntities;
+}
+
+export const NO_ENTITIES: NamedEntities = { names: [], companies: [] };
+
+const PLACEHOLDERS: Record<PIIType, string> = {
+  email: '[EMAIL]',
+  phone: '[PHONE]',
+  id: '[ID]',
+  card: '[CARD]',
+  name: '[NAME]',
+  company: '[COMPANY]',
+};
+
+const flag = (name: string) => (Deno.env.get(name) || '').toLowerCase() === 'true';
+
+export function getRedactionSettings(): RedactionSettings {
+  return {
+    enabled: (Deno.env.get('PII_REDACTION') || 'on').toLowerCase() !== 'off',
+    llm: flag('PII_REDACTION_LLM'),
+    keepOriginals: flag('PII_KEEP_ORIGINALS'),
+  };
+}
+
+const digitCount = (text: string) => text.replace(/\D/g, '').length;
+
+function passesLuhn(text: string): boolean {
+  const digits = text.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+interface PatternDetector {
+  type: PIIType;
+  pattern: RegExp;
+  // Extra check on the match, e.g. a checksum
+  accept?: (match: string) => boolean;
+  // The first capture group is a label kept in front of the placeholder
+  keepsLabel?: boolean;
+}
+
+// Applied in order, so card numbers and IDs are replaced before the broader phone pattern sees them
+const PATTERN_DETECTORS: PatternDetector[] = [
+  { type: 'email', pattern: /[A-Z0-9._%+-]+@[A-Z0-9-]+(?:\.[A-Z0-9-]+)*\.[A-Z]{2,}/gi },
+  { type: 'card', pattern: /(?<![\w+])\d(?:[ -]?\d){12,18}(?!\w)/g, accept: passesLuhn },
+  // US social security numbers and IBANs
+  { type: 'id', pattern: /(?<!\w)\d{3}-\d{2}-\d{4}(?!\w)/g },
+  { type: 'id', pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){3,7}(?: ?[A-Z0-9]{1,3})?\b/g },
+  // Labelled identifiers such as "customer number 48213", "passport no. X1234567" or "ID: 88213"
+  {
+    type: 'id',
+    pattern: /\b((?:(?:passport|licen[cs]e|account|customer|client|member|policy|employee|tax|national insurance|social security)\s*(?:number|no\.?|#|id)|id|ssn)\s*[:#]?\s*)([A-Z0-9][A-Z0-9-]{4,})\b/gi,
+    accept: match => /\d/.test(match),
+    keepsLabel: true,
+  },
+  // Digits in groups separated by spaces or dashes, optionally with a country or area code.
+  // Nine digits at least, so years, dates and percentages are left alone, and an unbroken
+  // run of digits only counts with a country code, since it is more likely an amount.
+  {
+    type: 'phone',
+    pattern: /(?<![\w+.,])(?:\+\d{1,3}[ -]?)?(?:\(\d{1,4}\)[ -]?)?\d{2,4}(?:[ -]?\d{2,4}){1,4}(?![\w%]|[.,]\d)/g,
+    accept: match => digitCount(match) >= 9 && digitCount(match) <= 15 && /[ +()-]/.test(match),
+  },
+];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word, case-insensitive matches; longer entities first so "Acme Corp" wins over "Acme"
+function entityPatterns(entities: NamedEntities): { type: PIIType; pattern: RegExp }[] {
+  const typed = [
+    ...entities.names.map(text => ({ type: 'name' as const, text })),
+    ...entities.companies.map(text => ({ type: 'company' as const, text })),
+  ]
+    .map(entity => ({ ...entity, text: entity.text.trim() }))
+    .filter(entity => entity.text.length >= 2)
+    .sort((a, b) => b.text.length - a.text.length);
+
+  return typed.map(entity => ({
+    type: entity.type,
+    pattern: new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(entity.text)}(?![\\p{L}\\p{N}])`, 'giu'),
+  }));
+}
+
+function addCounts(target: RedactionCounts, source: RedactionCounts) {
+  for (const [type, count] of Object.entries(source) as [PIIType, number][]) {
+    target[type] = (target[type] || 0) + count;
+  }
+}
+
+// Redacts one piece of text and counts what was replaced
+export function redactText(text: string, entities: NamedEntities = NO_ENTITIES): { text: string; counts: RedactionCounts } {
+  const counts: RedactionCounts = {};
+  let redacted = text;
+
+  for (const detector of PATTERN_DETECTORS) {
+    redacted = redacted.replace(detector.pattern, (match: string, label?: string, value?: string) => {
+      const candidate = detector.keepsLabel ? value! : match;
+      if (detector.accept && !detector.accept(candidate)) return match;
+      counts[detector.type] = (counts[detector.type] || 0) + 1;
+      return detector.keepsLabel ? `${label}${PLACEHOLDERS[detector.type]}` : PLACEHOLDERS[detector.type];
+    });
+  }
+
+  for (const { type, pattern } of entityPatterns(entities)) {
+    redacted = redacted.replace(pattern, () => {
+      counts[type] = (counts[type] || 0) + 1;
+      return PLACEHOLDERS[type];
+    });
+  }
+
+  return { text: redacted, counts };
+}
+
+// The model is asked in chunks so long transcripts are not cut off
+const ENTITY_CHUNK_CHARACTERS = 12000;
+
+const ENTITY_PROMPT = `List every person name and every client or customer company name in the text below.
+Include each spelling and form that appears, e.g. a first name used on its own as well as the full name.
+Do not list product names, job titles, places or the names of well-known public companies mentioned only in passing.
+Respond with ONLY a JSON object: {"names": ["..."], "companies": ["..."]}, copying each entry exactly as written in the text.`;
+
+const entityResponseSchema = z.object({
+  names: z.array(z.string()),
+  companies: z.array(z.string()),
+});
+
+function splitIntoChunks(text: string): string[] {
+  const chunks: string[] = [];
+  let remaining = text;
+  while (remaining.length > ENTITY_CHUNK_CHARACTERS) {
+    // Cut at the last whitespace before the limit so no name is split in two
+    const cut = remaining.lastIndexOf(' ', ENTITY_CHUNK_CHARACTERS);
+    const end = cut > ENTITY_CHUNK_CHARACTERS / 2 ? cut : ENTITY_CHUNK_CHARACTERS;
+    chunks.push(remaining.slice(0, end));
+    remaining = remaining.slice(end);
+  }
+  if (remaining.trim()) chunks.push(remaining);
+  return chunks;
+}
+
+// Asks the chat model for names and client companies. Provider errors and
+// unusable responses throw, so nothing is stored unredacted.
+export async function detectNamedEntities(ai: ChatProvider, text: string): Promise<NamedEntities> {
+  const names = new Set<string>();
+  const companies = new Set<string>();
+
+  for (const chunk of splitIntoChunks(text)) {
+    const response = await ai.complete({
+      task: 'pii_detection',
+      messages: [
+        { role: 'system', content: ENTITY_PROMPT },
+        { role: 'user', content: chunk },
+      ],
+      temperature: 0,
+    });
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(cleanJsonResponse(response.content));
+    } catch (error) {
+      throw new Error(`Name detection returned invalid JSON: ${error.message}`);
+    }
+    const result = entityResponseSchema.safeParse(parsed);
+    if (!result.success) {
+      throw new Error('Name detection response did not list names and companies');
+    }
+
+    result.data.names.forEach(name => names.add(name));
+    result.data.companies.forEach(company => companies.add(company));
+  }
+
+  return { names: [...names], companies: [...companies] };
+}
+
+const transcriptText = (transcript: RedactableSources['transcript']) =>
+  typeof transcript === 'string' ? transcript : transcript?.text || '';
+
+// Redacts the transcript (text and segments), every DOCX block and the notes.
+// Counts come from the transcript text, DOCX blocks and notes, so segments
+// repeating the transcript text are not counted twice.
+export async function redactSources<T extends TranscriptValue>(
+  ai: ChatProvider,
+  sources: RedactableSources<T>,
+  settings: RedactionSettings
+): Promise<RedactionResult<T>> {
+  const entities: NamedEntities = settings.llm
+    ? await detectNamedEntities(ai, [transcriptText(sources.transcript), sources.docx?.text || '', sources.notes || ''].join('\n\n'))
+    : NO_ENTITIES;
+
+  const counts: RedactionCounts = {};
+  const redact = (text: string) => {
+    const result = redactText(text, entities);
+    addCounts(counts, result.counts);
+    return result.text;
+  };
+  // Segments are redacted on their own; a number split across two segments is only caught in the full text
+  const redactUncounted = (text: string) => redactText(text, entities).text;
+
+  const original: TranscriptValue = sources.transcript;
+  let transcript: TranscriptValue = original;
+  if (typeof original === 'string') {
+    transcript = redact(original);
+  } else if (original) {
+    transcript = {
+      ...original,
+      text: redact(original.text),
+      segments: original.segments.map(segment => ({ ...segment, text: redactUncounted(segment.text) })),
+    };
+  }
+
+  let docx = sources.docx;
+  if (docx) {
+    const blocks = docx.blocks.map(block => block.type === 'table'
+      ? { ...block, rows: block.rows.map(row => row.map(redact)) }
+      : { ...block, text: redact(block.text) });
+    docx = { text: renderDocxText(blocks), blocks };
+  }
+
+  return {
+    sources: {
+      // Same shape as the input: string in, string out
+      transcript: transcript as T,
+      docx,
+      notes: sources.notes ? redact(sources.notes) : sources.notes,
+    },
+    summary: {
+      detectors: settings.llm ? ['patterns', 'llm'] : ['patterns'],
+      counts,
+      redacted_at: new Date().toISOString(),
+    },
+    entities,
+  };
+}
+
+export const totalRedactions = (counts: RedactionCounts) =>
+  Object.values(counts).reduce((sum, count) => sum + (count || 0), 0);
+
+// Catches anything the model echoed back that the source redaction missed
+export function redactAnalysisOutput(output: AnalysisOutput, entities: NamedEntities): AnalysisOutput {
+  const redact = (text: string) => redactText(text, entities).text;
+  return {
+    ...output,
+    key_points: output.key_points.map(redact),
+    ai_quotes: output.ai_quotes.map(redact),
+    extracted_kpis: output.extracted_kpis.map(kpi => ({ ...kpi, quote: kpi.quote && redact(kpi.quote) })),
+    aspect_sentiments: output.aspect_sentiments.map(aspect => ({ ...aspect, quote: aspect.quote && redact(aspect.quote) })),
+  };
+}
+
+// Keeps the unredacted sources where only the service role can read them
+export async function storeOriginals(supabase: SupabaseClient, submissionId: string, originals: RedactableSources) {
+  const { error } = await supabase
+    .from('submission_pii_originals')
+    .upsert({
+      submission_id: submissionId,
+      transcript: originals.transcript,
+      docx_content: originals.docx,
+      notes: originals.notes,
+      created_at: new Date().toISOString(),
+    });
+
+  if (error) {
+    throw new Error(`Failed to store original text: ${error.message}`);
+  }
+}
@@ -0,0 +1,133 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+
+// Media retention: how long uploaded recordings and DOCX files stay in the
+// submissions bucket once a submission has been processed. Policies are set
+// per role in media_retention_policies; media_retention_policy_for() picks
+// the one for a user. Transcripts and parsed DOCX content are kept either way.
+
+const MEDIA_BUCKET = 'submissions';
+
+// Submissions in these states no longer need their files; failed ones keep them for retries
+export const FINISHED_STATUSES = ['completed', 'needs_review'];
+
+export type RetentionMode = 'delete_immediately' | 'keep_days' | 'keep_forever';
+
+export interface RetentionPolicy {
+  mode: RetentionMode;
+  retention_days: number | null;
+}
+
+export type CleanupReason = 'deleted_after_processing' | 'retention_expired';
+
+export interface MediaSubmission {
+  id: string;
+  user_id: string;
+  created_at: string;
+  video_files: unknown;
+  docx_file: string | null;
+}
+
+export interface MediaRemovalResult {
+  removed: string[];
+  // DOCX files shared with submissions from the same upload that are still processing
+  pending: string[];
+}
+
+export async function loadRetentionPolicy(supabase: SupabaseClient, userId: string): Promise<RetentionPolicy> {
+  const { data, error } = await supabase
+    .rpc('media_retention_policy_for', { p_user_id: userId })
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to load media retention policy: ${error?.message || 'no policy found'}`);
+  }
+  return data as RetentionPolicy;
+}
+
+// video_files holds one { path, name, ... } object; older rows may hold a list of them or of paths
+function videoPaths(videoFiles: unknown): string[] {
+  const entries = Array.isArray(videoFiles) ? videoFiles : [videoFiles];
+  return entries
+    .map(entry => typeof entry === 'string' ? entry : (entry as { path?: unknown } | null)?.path)
+    .filter((path): path is string => typeof path === 'string' && path !== '');
+}
+
+// "Delete after processing" only applies once the analysis succeeded; submissions
+// needing review keep their files until a keep_days period runs out
+function releasedStatuses(policy: RetentionPolicy): string[] {
+  return policy.mode === 'delete_immediately' ? ['completed'] : FINISHED_STATUSES;
+}
+
+async function docxStillNeeded(supabase: SupabaseClient, submission: MediaSubmission, policy: RetentionPolicy): Promise<boolean> {
+  const { count, error } = await supabase
+    .from('submissions')
+    .select('id', { count: 'exact', head: true })
+    .eq('docx_file', submission.docx_file)
+    .neq('id', submission.id)
+    .not('status', 'in', `(${releasedStatuses(policy).join(',')})`);
+
+  if (error) {
+    throw new Error(`Failed to check other submissions using ${submission.docx_file}: ${error.message}`);
+  }
+  return (count || 0) > 0;
+}
+
+// Removes a submission's files from storage, logs each removed file to
+// media_cleanup_log and marks the submission once nothing is left to remove.
+export async function removeSubmissionMedia(
+  supabase: SupabaseClient,
+  submission: MediaSubmission,
+  policy: RetentionPolicy,
+  reason: CleanupReason
+): Promise<MediaRemovalResult> {
+  const paths = videoPaths(submission.video_files);
+  const pending: string[] = [];
+
+  if (submission.docx_file) {
+    if (await docxStillNeeded(supabase, submission, policy)) {
+      pending.push(submission.docx_file);
+    } else {
+      paths.push(submission.docx_file);
+    }
+  }
+
+  let removed: string[] = [];
+  if (paths.length > 0) {
+    const { data, error } = await supabase.storage.from(MEDIA_BUCKET).remove(paths);
+    if (error) {
+      throw new Error(`Failed to remove media for submission ${submission.id}: ${error.message}`);
+    }
+    // Files already removed through another submission are not returned again
+    removed = (data || []).map(file => file.name);
+  }
+
+  if (removed.length > 0) {
+    const { error: logError } = await supabase
+      .from('media_cleanup_log')
+      .insert(removed.map(path => ({
+        submission_id: submission.id,
+        user_id: submission.user_id,
+        file_path: path,
+        reason,
+        policy_mode: policy.mode,
+        retention_days: policy.retention_days,
+      })));
+
+    if (logError) {
+      console.error(`Error logging media cleanup for ${submission.id}:`, logError);
+    }
+  }
+
+  if (pending.length === 0) {
+    const { error: updateError } = await supabase
+      .from('submissions')
+      .update({ media_deleted_at: new Date().toISOString() })
+      .eq('id', submission.id);
+
+    if (updateError) {
+      throw new Error(`Failed to mark media as deleted for ${submission.id}: ${updateError.message}`);
+    }
+  }
+
+  return { removed, pending };
+}
@@ -0,0 +1,80 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+
+// Numeric sentiment from -1 (very negative) to 1 (very positive), overall and
+// for a fixed set of workplace aspects. The overall label stays alongside the
+// score for existing charts. Aspect scores of the active analysis are stored in
+// submission_aspect_sentiments so they can be charted and queried per aspect.
+
+export const SENTIMENT_ASPECTS = [
+  'workload',
+  'client_relationships',
+  'team_morale',
+  'tooling',
+  'leadership_support',
+] as const;
+
+export type SentimentAspect = typeof SENTIMENT_ASPECTS[number];
+
+export interface AspectSentiment {
+  aspect: SentimentAspect;
+  score: number;
+  // The statement the score is based on
+  quote: string | null;
+}
+
+// Scores are stored with two decimals; anything outside -1..1 is treated as missing
+export function normalizeSentimentScore(value: unknown): number | null {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof number !== 'number' || !Number.isFinite(number) || number < -1 || number > 1) return null;
+  return Math.round(number * 100) / 100;
+}
+
+// Keeps known aspects with a valid score; the first entry wins when an aspect is repeated
+export function normalizeAspectSentiments(value: unknown): AspectSentiment[] {
+  if (!Array.isArray(value)) return [];
+
+  const aspects = new Map<SentimentAspect, AspectSentiment>();
+  for (const item of value) {
+    if (!item || typeof item !== 'object') continue;
+    const entry = item as { aspect?: unknown; score?: unknown; quote?: unknown };
+    const aspect = typeof entry.aspect === 'string' ? entry.aspect.trim().toLowerCase() as SentimentAspect : null;
+    const score = normalizeSentimentScore(entry.score);
+    if (!aspect || !SENTIMENT_ASPECTS.includes(aspect) || score === null || aspects.has(aspect)) continue;
+    aspects.set(aspect, {
+      aspect,
+      score,
+      quote: typeof entry.quote === 'string' && entry.quote.trim() ? entry.quote.trim() : null,
+    });
+  }
+  return [...aspects.values()];
+}
+
+// Mirrors the active analysis' aspect scores into submission_aspect_sentiments
+export async function replaceAspectSentiments(
+  supabase: SupabaseClient,
+  submission: { id: string; user_id: string },
+  aspects: AspectSentiment[]
+) {
+  const { error: deleteError } = await supabase
+    .from('submission_aspect_sentiments')
+    .delete()
+    .eq('submission_id', submission.id);
+
+  if (deleteError) {
+    throw new Error(`Failed to clear previous aspect sentiment: ${deleteError.message}`);
+  }
+
+  if (aspects.length === 0) return;
+
+  const { error: insertError } = await supabase
+    .from('submission_aspect_sentiments')
+    .insert(aspects.map(aspect => ({
+      ...aspect,
+      submission_id: submission.id,
+      user_id: submission.user_id,
+    })));
+
+  if (insertError) {
+    throw new Error(`Failed to save aspect sentiment: ${insertError.message}`);
+  }
+}
@@ -0,0 +1,278 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import type { ChatProvider } from './ai/types.ts';
+import { cleanJsonResponse } from './analysisValidation.ts';
+import type { InsightSourceType } from './embeddings.ts';
+
+// Recurring themes across submissions: the embedded key points and transcript
+// segments are grouped with k-means on cosine similarity, and the chat model
+// names each group from its most central statements. Every run replaces the
+// themes table; statements in groups too small to count as recurring keep no theme.
+// KPIs and notes are embedded for search only and are not clustered.
+
+export type ThemeSourceType = Extract<InsightSourceType, 'key_point' | 'transcript_segment'>;
+
+export const THEME_SOURCE_TYPES: ThemeSourceType[] = ['key_point', 'transcript_segment'];
+
+export interface EmbeddedInsight {
+  id: string;
+  submission_id: string;
+  user_id: string;
+  source_type: ThemeSourceType;
+  content: string;
+  start_seconds: number | null;
+  submitted_at: string;
+  // Unit length, so the dot product is the cosine similarity
+  embedding: Float32Array;
+}
+
+export interface ThemeQuote {
+  content: string;
+  submission_id: string;
+  user_id: string;
+  source_type: ThemeSourceType;
+  start_seconds: number | null;
+}
+
+export interface Theme {
+  label: string;
+  description: string | null;
+  item_ids: string[];
+  item_count: number;
+  submission_count: number;
+  user_ids: string[];
+  // Distinct submissions per week (weeks start on Monday)
+  weekly_counts: { week: string; submissions: number }[];
+  representative_quotes: ThemeQuote[];
+  centroid: number[];
+}
+
+const MAX_ITERATIONS = 25;
+const MAX_THEMES = 20;
+// A theme has to come up in at least this many submissions
+const MIN_THEME_SUBMISSIONS = 2;
+const REPRESENTATIVE_QUOTES = 3;
+// Statements shown to the model when naming a theme
+const LABEL_EXAMPLES = 12;
+
+export function normalizeVector(vector: ArrayLike<number>): Float32Array {
+  const result = Float32Array.from(vector);
+  let length = 0;
+  for (let i = 0; i < result.length; i++) length += result[i] * result[i];
+  length = Math.sqrt(length) || 1;
+  for (let i = 0; i < result.length; i++) result[i] /= length;
+  return result;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+// Deterministic, so the same embeddings always give the same themes
+function seededRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 2 ** 32;
+  };
+}
+
+// Grows with the square root of the number of statements, within 2..MAX_THEMES
+export function themeCount(items: number, configured?: number): number {
+  if (configured && configured > 0) return Math.min(configured, items);
+  return Math.max(2, Math.min(MAX_THEMES, Math.round(Math.sqrt(items / 2))));
+}
+
+// k-means++ seeding followed by spherical k-means; returns each item's cluster
+export function clusterEmbeddings(vectors: Float32Array[], k: number): { assignments: number[]; centroids: Float32Array[] } {
+  const random = seededRandom(vectors.length);
+  const centroids: Float32Array[] = [vectors[Math.floor(random() * vectors.length)]];
+
+  while (centroids.length < k) {
+    const distances = vectors.map(vector => Math.max(0, 1 - Math.max(...centroids.map(centroid => dot(vector, centroid)))));
+    const total = distances.reduce((sum, distance) => sum + distance, 0);
+    if (total === 0) break;
+    let target = random() * total;
+    const next = distances.findIndex(distance => (target -= distance) <= 0);
+    centroids.push(vectors[next === -1 ? vectors.length - 1 : next]);
+  }
+
+  let assignments = new Array(vectors.length).fill(-1);
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const next = vectors.map(vector => {
+      let best = 0;
+      let bestSimilarity = -Infinity;
+      centroids.forEach((centroid, index) => {
+        const similarity = dot(vector, centroid);
+        if (similarity > bestSimilarity) {
+          best = index;
+          bestSimilarity = similarity;
+        }
+      });
+      return best;
+    });
+
+    const changed = next.some((cluster, index) => cluster !== assignments[index]);
+    assignments = next;
+    if (!changed) break;
+
+    centroids.forEach((_, cluster) => {
+      const sum = new Float32Array(vectors[0].length);
+      vectors.forEach((vector, index) => {
+        if (assignments[index] !== cluster) return;
+        for (let i = 0; i < sum.length; i++) sum[i] += vector[i];
+      });
+      // Empty clusters keep their previous centroid
+      if (sum.some(value => value !== 0)) centroids[cluster] = normalizeVector(sum);
+    });
+  }
+
+  return { assignments, centroids };
+}
+
+// Monday of the week, as YYYY-MM-DD
+function weekStart(date: string): string {
+  const day = new Date(date);
+  day.setUTCHours(0, 0, 0, 0);
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  return day.toISOString().slice(0, 10);
+}
+
+function themeStats(members: EmbeddedInsight[], centroid: Float32Array): Omit<Theme, 'label' | 'description'> {
+  const central = [...members].sort((a, b) => dot(b.embedding, centroid) - dot(a.embedding, centroid));
+  const submissions = new Map(members.map(member => [member.submission_id, member.submitted_at]));
+
+  const weeks = new Map<string, number>();
+  submissions.forEach(submittedAt => {
+    const week = weekStart(submittedAt);
+    weeks.set(week, (weeks.get(week) || 0) + 1);
+  });
+
+  // Transcript segments are the speaker's own words; one quote per submission
+  const quotes: ThemeQuote[] = [];
+  const quotedSubmissions = new Set<string>();
+  for (const member of [...central.filter(m => m.source_type === 'transcript_segment'), ...central]) {
+    if (quotes.length >= REPRESENTATIVE_QUOTES) break;
+    if (quotedSubmissions.has(member.submission_id)) continue;
+    quotedSubmissions.add(member.submission_id);
+    quotes.push({
+      content: member.content,
+      submission_id: member.submission_id,
+      user_id: member.user_id,
+      source_type: member.source_type,
+      start_seconds: member.start_seconds,
+    });
+  }
+
+  return {
+    item_ids: members.map(member => member.id),
+    item_count: members.length,
+    submission_count: submissions.size,
+    user_ids: [...new Set(members.map(member => member.user_id))],
+    weekly_counts: [...weeks.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([week, count]) => ({ week, submissions: count })),
+    representative_quotes: quotes,
+    centroid: Array.from(centroid),
+  };
+}
+
+const themeLabelSchema = z.object({
+  label: z.string().trim().min(1).max(60),
+  description: z.string().trim().max(300).nullable().optional(),
+});
+
+async function labelTheme(ai: ChatProvider, examples: string[]): Promise<{ label: string; description: string | null }> {
+  const response = await ai.complete({
+    task: 'theme_labeling',
+    messages: [
+      {
+        role: 'system',
+        content: 'You name recurring themes in employee business updates. Given statements that belong to one theme, respond with ONLY a JSON object {"label": "...", "description": "..."}: a label of 2 to 5 words and a one-sentence description of what the statements have in common. Do not include names of people or companies.',
+      },
+      { role: 'user', content: examples.map(example => `- ${example}`).join('\n') },
+    ],
+    temperature: 0,
+  });
+
+  const result = themeLabelSchema.safeParse(JSON.parse(cleanJsonResponse(response.content)));
+  if (!result.success) {
+    throw new Error('Theme label response did not match the expected format');
+  }
+  return { label: result.data.label, description: result.data.description || null };
+}
+
+// Groups the statements into themes and names each one
+export async function buildThemes(ai: ChatProvider, items: EmbeddedInsight[], configuredCount?: number): Promise<Theme[]> {
+  if (items.length === 0) return [];
+
+  const { assignments, centroids } = clusterEmbeddings(items.map(item => item.embedding), themeCount(items.length, configuredCount));
+
+  const themes: Theme[] = [];
+  for (const [cluster, centroid] of centroids.entries()) {
+    const members = items.filter((_, index) => assignments[index] === cluster);
+    const stats = themeStats(members, centroid);
+    if (stats.submission_count < MIN_THEME_SUBMISSIONS) continue;
+
+    const examples = [...members]
+      .sort((a, b) => dot(b.embedding, centroid) - dot(a.embedding, centroid))
+      .slice(0, LABEL_EXAMPLES)
+      .map(member => member.content);
+
+    let name: { label: string; description: string | null };
+    try {
+      name = await labelTheme(ai, examples);
+    } catch (error) {
+      // An unnamed theme is still worth showing
+      console.error(`Error labeling theme ${cluster + 1}:`, error);
+      name = { label: `Theme ${themes.length + 1}`, description: null };
+    }
+    themes.push({ ...name, ...stats });
+  }
+
+  return themes.sort((a, b) => b.submission_count - a.submission_count || b.item_count - a.item_count);
+}
+
+// Assignments are written per theme in chunks to keep request URLs short
+const ASSIGNMENT_CHUNK_SIZE = 200;
+
+// Stores the new themes, points their statements at them and removes the previous run
+export async function replaceThemes(supabase: SupabaseClient, themes: Theme[]) {
+  const generatedAt = new Date().toISOString();
+
+  for (const theme of themes) {
+    const { item_ids, centroid, ...row } = theme;
+    const { data, error } = await supabase
+      .from('themes')
+      .insert({ ...row, centroid: JSON.stringify(centroid), generated_at: generatedAt })
+      .select('id')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save theme "${theme.label}": ${error.message}`);
+    }
+
+    for (let start = 0; start < item_ids.length; start += ASSIGNMENT_CHUNK_SIZE) {
+      const { error: assignError } = await supabase
+        .from('insight_embeddings')
+        .update({ theme_id: data.id })
+        .in('id', item_ids.slice(start, start + ASSIGNMENT_CHUNK_SIZE));
+
+      if (assignError) {
+        throw new Error(`Failed to assign statements to theme "${theme.label}": ${assignError.message}`);
+      }
+    }
+  }
+
+  // Statements of removed themes lose their theme through ON DELETE SET NULL
+  const { error: deleteError } = await supabase
+    .from('themes')
+    .delete()
+    .lt('generated_at', generatedAt);
+
+  if (deleteError) {
+    throw new Error(`Failed to remove previous themes: ${deleteError.message}`);
+  }
+}
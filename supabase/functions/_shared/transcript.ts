@@ -0,0 +1,35 @@
+import type { TranscriptionResult, TranscriptSegment } from './ai/types.ts';
+
+// Shape of submissions.transcript. Rows processed before segments were
+// recorded hold the transcript as a bare string instead.
+export interface StoredTranscript {
+  text: string;
+  segments: TranscriptSegment[];
+  language: string | null;
+  duration: number | null;
+}
+
+export function toStoredTranscript(result: TranscriptionResult): StoredTranscript {
+  return {
+    text: result.text || '',
+    segments: result.segments || [],
+    language: result.language || null,
+    duration: result.duration ?? null,
+  };
+}
+
+export function transcriptToText(transcript: unknown): string {
+  if (!transcript) return '';
+  if (typeof transcript === 'string') return transcript;
+
+  if (typeof transcript === 'object') {
+    const stored = transcript as Partial<StoredTranscript>;
+    if (typeof stored.text === 'string') return stored.text;
+    if (Array.isArray(stored.segments)) {
+      return stored.segments.map(segment => segment.text).join(' ');
+    }
+    return JSON.stringify(transcript);
+  }
+
+  return String(transcript);
+}
@@ -0,0 +1,73 @@
+import { createHmac } from 'node:crypto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { retryDelayMs, sendWebhook, signWebhook, SIGNATURE_HEADER, type WebhookDelivery } from './webhooks.ts';
+
+const SECRET = 'whsec_test_secret';
+
+const DELIVERY: WebhookDelivery = {
+  id: 'delivery-1',
+  endpoint_id: 'endpoint-1',
+  event_type: 'submission.completed',
+  payload: { submission_id: 'submission-1' },
+  attempts: 1,
+  max_attempts: 8,
+  created_at: '2025-07-26T10:00:00Z',
+};
+
+// What a receiver does with the shared secret
+const expectedSignature = (timestamp: string, body: string) =>
+  createHmac('sha256', SECRET).update(`${timestamp}.${body}`).digest('hex');
+
+describe('signWebhook', () => {
+  it('is an HMAC-SHA256 of "<timestamp>.<body>" in hex', async () => {
+    const body = JSON.stringify({ id: 'delivery-1', type: 'kpi_alert.created' });
+
+    expect(await signWebhook(SECRET, 1753524000, body)).toBe(expectedSignature('1753524000', body));
+  });
+
+  it('changes with the timestamp, so old signatures cannot be replayed', async () => {
+    expect(await signWebhook(SECRET, 1753524000, '{}')).not.toBe(await signWebhook(SECRET, 1753524001, '{}'));
+  });
+});
+
+describe('sendWebhook', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('posts the event with a signature the receiver can verify', async () => {
+    const fetchMock = vi.fn(async () => new Response('ok', { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await sendWebhook({ id: 'endpoint-1', url: 'https://example.com/hooks', secret: SECRET, is_active: true }, DELIVERY);
+
+    expect(result).toMatchObject({ ok: true, status: 200, body: 'ok', error: null });
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    const headers = init.headers as Record<string, string>;
+    const [, timestamp, signature] = headers[SIGNATURE_HEADER].match(/^t=(\d+),v1=([0-9a-f]{64})$/)!;
+
+    expect(url).toBe('https://example.com/hooks');
+    expect(signature).toBe(expectedSignature(timestamp, init.body as string));
+    expect(JSON.parse(init.body as string)).toEqual({
+      id: 'delivery-1',
+      type: 'submission.completed',
+      created_at: '2025-07-26T10:00:00Z',
+      data: { submission_id: 'submission-1' },
+    });
+  });
+
+  it('reports non-2xx responses as failed attempts', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('nope', { status: 500 })));
+
+    const result = await sendWebhook({ id: 'endpoint-1', url: 'https://example.com/hooks', secret: SECRET, is_active: true }, DELIVERY);
+
+    expect(result).toMatchObject({ ok: false, status: 500, error: 'Receiver responded with HTTP 500' });
+  });
+});
+
+describe('retryDelayMs', () => {
+  it('doubles from 30 seconds and stops at one hour', () => {
+    expect([1, 2, 3, 4].map(retryDelayMs)).toEqual([30000, 60000, 120000, 240000]);
+    expect(retryDelayMs(20)).toBe(60 * 60 * 1000);
+  });
+});
@@ -0,0 +1,167 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+
+// Outgoing webhooks. Database triggers queue a webhook_deliveries row per
+// subscribed endpoint; deliveries are POSTed as JSON with an HMAC-SHA256
+// signature over "<timestamp>.<body>" keyed with the endpoint's secret, so
+// receivers can verify the sender and reject replays.
+
+// Sent by the Send test button; endpoints never subscribe to it
+export const TEST_EVENT = 'webhook.test';
+
+export const SIGNATURE_HEADER = 'X-InfoSight-Signature';
+export const EVENT_HEADER = 'X-InfoSight-Event';
+export const DELIVERY_HEADER = 'X-InfoSight-Delivery';
+
+// A receiver that takes longer than this counts as a failed attempt
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+// Longest response body kept in the delivery log
+const MAX_RESPONSE_BODY = 2000;
+
+// Exponential backoff between attempts: 30s, 1m, 2m, 4m ... capped at 1 hour
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+export interface WebhookEndpoint {
+  id: string;
+  url: string;
+  secret: string;
+  is_active: boolean;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  event_type: string;
+  payload: unknown;
+  attempts: number;
+  max_attempts: number;
+  created_at: string;
+}
+
+export interface DeliveryResult {
+  ok: boolean;
+  status: number | null;
+  body: string | null;
+  error: string | null;
+  durationMs: number;
+}
+
+export function retryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+}
+
+export async function signWebhook(secret: string, timestamp: number, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+  return [...new Uint8Array(signature)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// The delivery id doubles as the event id, so receivers can ignore redelivered events
+export function webhookBody(delivery: WebhookDelivery): string {
+  return JSON.stringify({
+    id: delivery.id,
+    type: delivery.event_type,
+    created_at: delivery.created_at,
+    data: delivery.payload,
+  });
+}
+
+export async function sendWebhook(endpoint: WebhookEndpoint, delivery: WebhookDelivery): Promise<DeliveryResult> {
+  const body = webhookBody(delivery);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = await signWebhook(endpoint.secret, timestamp, body);
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), DELIVERY_TIMEOUT_MS);
+  const startedAt = Date.now();
+
+  try {
+    const response = await fetch(endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'InfoSight-Webhooks/1.0',
+        [SIGNATURE_HEADER]: `t=${timestamp},v1=${signature}`,
+        [EVENT_HEADER]: delivery.event_type,
+        [DELIVERY_HEADER]: delivery.id,
+      },
+      body,
+      signal: controller.signal,
+    });
+    const responseBody = (await response.text().catch(() => '')).slice(0, MAX_RESPONSE_BODY);
+
+    return {
+      ok: response.ok,
+      status: response.status,
+      body: responseBody,
+      error: response.ok ? null : `Receiver responded with HTTP ${response.status}`,
+      durationMs: Date.now() - startedAt,
+    };
+  } catch (error) {
+    const aborted = error instanceof DOMException && error.name === 'AbortError';
+    return {
+      ok: false,
+      status: null,
+      body: null,
+      error: aborted
+        ? `No response within ${DELIVERY_TIMEOUT_MS / 1000} seconds`
+        : error instanceof Error ? error.message : String(error),
+      durationMs: Date.now() - startedAt,
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+// Sends a claimed delivery and records the attempt; failures are retried until max_attempts
+export async function deliverWebhook(
+  supabase: SupabaseClient,
+  delivery: WebhookDelivery,
+  endpoint: WebhookEndpoint | null
+): Promise<DeliveryResult> {
+  const result: DeliveryResult = endpoint?.is_active
+    ? await sendWebhook(endpoint, delivery)
+    : { ok: false, status: null, body: null, error: 'The endpoint was disabled or deleted', durationMs: 0 };
+
+  const now = new Date();
+  const exhausted = !endpoint?.is_active || delivery.attempts >= delivery.max_attempts;
+  const update = {
+    status: result.ok ? 'succeeded' : exhausted ? 'failed' : 'pending',
+    response_status: result.status,
+    response_body: result.body,
+    duration_ms: result.durationMs,
+    last_error: result.error,
+    locked_at: null,
+    delivered_at: result.ok ? now.toISOString() : null,
+    next_attempt_at: result.ok || exhausted
+      ? now.toISOString()
+      : new Date(now.getTime() + retryDelayMs(delivery.attempts)).toISOString(),
+    updated_at: now.toISOString(),
+  };
+
+  if (!result.ok) {
+    console.warn(
+      `Webhook delivery ${delivery.id} (${delivery.event_type}) attempt ${delivery.attempts}/${delivery.max_attempts} failed` +
+        `${exhausted ? ' permanently' : `, retrying at ${update.next_attempt_at}`}:`,
+      result.error
+    );
+  }
+
+  const { error } = await supabase
+    .from('webhook_deliveries')
+    .update(update)
+    .eq('id', delivery.id);
+
+  if (error) {
+    throw new Error(`Failed to record webhook delivery ${delivery.id}: ${error.message}`);
+  }
+
+  return result;
+}
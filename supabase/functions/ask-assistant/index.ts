@@ -0,0 +1,201 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import { getAIProvider } from '../_shared/ai/index.ts';
+import { createUsageTracker } from '../_shared/aiUsage.ts';
+import { embedTexts } from '../_shared/embeddings.ts';
+import {
+  answerQuestion,
+  ASSISTANT_SOURCE_TYPES,
+  extractCitations,
+  HISTORY_TURNS,
+  NO_SOURCES_ANSWER,
+  planRetrieval,
+  type AssistantSource,
+  type ConversationTurn,
+} from '../_shared/assistant.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+
+// Passages retrieved per question and given to the model as sources
+const retrievalLimit = Number(Deno.env.get('ASSISTANT_SOURCE_COUNT') || '12');
+
+const MAX_QUESTION_LENGTH = 1000;
+const MAX_TITLE_LENGTH = 80;
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// Answers an admin's question from the submissions with citations and saves
+// both to the conversation, starting a new one when no conversationId is given
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { question: rawQuestion, conversationId } = await req.json();
+    const question = typeof rawQuestion === 'string' ? rawQuestion.trim() : '';
+
+    if (!question || question.length > MAX_QUESTION_LENGTH) {
+      return jsonResponse({ error: `Questions must be 1 to ${MAX_QUESTION_LENGTH} characters` }, 400);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: { user } } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+    if (!user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
+    const { data: adminRole } = await supabase
+      .from('user_roles')
+      .select('id')
+      .eq('user_id', user.id)
+      .eq('role', 'admin')
+      .maybeSingle();
+
+    if (!adminRole) {
+      return jsonResponse({ error: 'Only admins can use the assistant' }, 403);
+    }
+
+    let history: ConversationTurn[] = [];
+    if (conversationId) {
+      const { data: conversation } = await supabase
+        .from('assistant_conversations')
+        .select('id')
+        .eq('id', conversationId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (!conversation) {
+        return jsonResponse({ error: 'Conversation not found' }, 404);
+      }
+
+      const { data: previous, error: historyError } = await supabase
+        .from('assistant_messages')
+        .select('role, content')
+        .eq('conversation_id', conversationId)
+        .order('created_at', { ascending: false })
+        .limit(HISTORY_TURNS);
+
+      if (historyError) {
+        throw new Error(`Failed to load the conversation: ${historyError.message}`);
+      }
+      history = ((previous || []) as ConversationTurn[]).reverse();
+    }
+
+    const ai = createUsageTracker(supabase).track(getAIProvider(), {
+      functionName: 'ask-assistant',
+      userId: user.id,
+    });
+
+    const plan = await planRetrieval(ai, question, history);
+    console.log('Assistant search:', { query: plan.query, since: plan.since });
+
+    // Without an embedding the search falls back to full-text matches only
+    let embedding: number[] | null = null;
+    try {
+      [embedding] = await embedTexts(ai, [plan.query]);
+    } catch (embedError) {
+      console.error('Error embedding the assistant search:', embedError);
+    }
+
+    // Retrieval runs with the admin's token, like the Search tab
+    const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: `Bearer ${token}` } },
+      auth: { persistSession: false },
+    });
+
+    const { data: results, error: searchError } = await userClient.rpc('search_insights', {
+      p_query: plan.query,
+      p_query_embedding: embedding ? JSON.stringify(embedding) : null,
+      p_limit: retrievalLimit,
+      p_submitted_after: plan.since,
+      p_source_types: ASSISTANT_SOURCE_TYPES,
+    });
+
+    if (searchError) {
+      throw new Error(`Search failed: ${searchError.message}`);
+    }
+
+    const sources: AssistantSource[] = (results || []).map((result: AssistantSource) => ({
+      submission_id: result.submission_id,
+      user_id: result.user_id,
+      user_name: result.user_name,
+      source_type: result.source_type,
+      source_index: result.source_index,
+      segment_id: result.segment_id,
+      start_seconds: result.start_seconds === null ? null : Number(result.start_seconds),
+      content: result.content,
+      submitted_at: result.submitted_at,
+    }));
+    console.log(`Answering from ${sources.length} sources`);
+
+    const { answer, citations } = sources.length > 0
+      ? extractCitations(await answerQuestion(ai, question, history, sources), sources)
+      : { answer: NO_SOURCES_ANSWER, citations: [] };
+
+    let activeConversationId = conversationId;
+    if (!activeConversationId) {
+      const { data: conversation, error: conversationError } = await supabase
+        .from('assistant_conversations')
+        .insert({
+          user_id: user.id,
+          title: question.length > MAX_TITLE_LENGTH ? `${question.slice(0, MAX_TITLE_LENGTH - 1)}…` : question,
+        })
+        .select('id')
+        .single();
+
+      if (conversationError) {
+        throw new Error(`Failed to start a conversation: ${conversationError.message}`);
+      }
+      activeConversationId = conversation.id;
+    }
+
+    const now = Date.now();
+    const { data: messages, error: messagesError } = await supabase
+      .from('assistant_messages')
+      .insert([
+        { conversation_id: activeConversationId, role: 'user', content: question, created_at: new Date(now).toISOString() },
+        {
+          conversation_id: activeConversationId,
+          role: 'assistant',
+          content: answer,
+          citations,
+          search_query: plan.query,
+          // Keeps the answer after the question when both are ordered by time
+          created_at: new Date(now + 1).toISOString(),
+        },
+      ])
+      .select('*');
+
+    if (messagesError) {
+      throw new Error(`Failed to save the answer: ${messagesError.message}`);
+    }
+
+    await supabase
+      .from('assistant_conversations')
+      .update({ updated_at: new Date().toISOString() })
+      .eq('id', activeConversationId);
+
+    console.log(`Answered in conversation ${activeConversationId} with ${citations.length} citations`);
+
+    return jsonResponse({ conversationId: activeConversationId, messages });
+
+  } catch (error) {
+    console.error('Error in assistant:', error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
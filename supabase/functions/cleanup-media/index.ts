@@ -0,0 +1,96 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import { removeSubmissionMedia, type MediaSubmission, type RetentionPolicy } from '../_shared/retention.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+// Submissions handled per run; anything left over is picked up by the next run
+const batchSize = Number(Deno.env.get('MEDIA_CLEANUP_BATCH_SIZE') || '200');
+
+type CleanupCandidate = MediaSubmission & RetentionPolicy;
+
+// Removes recordings and DOCX files whose retention period has passed. Runs daily via pg_cron.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  // Deletes files for every user, so only the cron job (with the service role key) may run it
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (token !== supabaseServiceKey) {
+    return new Response(
+      JSON.stringify({ error: 'Media cleanup requires the service role key' }),
+      {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data, error } = await supabase.rpc('media_cleanup_candidates', { p_limit: batchSize });
+    if (error) {
+      console.error('Error loading media cleanup candidates:', error);
+      throw error;
+    }
+
+    const candidates = (data || []) as CleanupCandidate[];
+    console.log(`Found ${candidates.length} submissions with media due for removal`);
+
+    let filesRemoved = 0;
+    let submissionsCleaned = 0;
+    let pendingCount = 0;
+    let failedCount = 0;
+
+    for (const candidate of candidates) {
+      const policy: RetentionPolicy = { mode: candidate.mode, retention_days: candidate.retention_days };
+      try {
+        const { removed, pending } = await removeSubmissionMedia(
+          supabase,
+          candidate,
+          policy,
+          policy.mode === 'delete_immediately' ? 'deleted_after_processing' : 'retention_expired'
+        );
+        filesRemoved += removed.length;
+        if (pending.length > 0) {
+          pendingCount++;
+          console.log(`Submission ${candidate.id}: DOCX still used by other submissions, kept for now`);
+        } else {
+          submissionsCleaned++;
+        }
+        if (removed.length > 0) {
+          console.log(`Submission ${candidate.id}: removed`, removed);
+        }
+      } catch (removeError) {
+        failedCount++;
+        console.error(`Error removing media for submission ${candidate.id}:`, removeError);
+      }
+    }
+
+    const summary = { checked: candidates.length, filesRemoved, submissionsCleaned, pendingCount, failedCount };
+    console.log('Media cleanup completed:', summary);
+
+    return new Response(
+      JSON.stringify({ success: true, ...summary }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error in media cleanup:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
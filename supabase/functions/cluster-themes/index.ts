@@ -0,0 +1,168 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import { getAIProvider } from '../_shared/ai/index.ts';
+import { createUsageTracker } from '../_shared/aiUsage.ts';
+import { embedSubmission, parseVector, type EmbeddableSubmission } from '../_shared/embeddings.ts';
+import { buildThemes, normalizeVector, replaceThemes, THEME_SOURCE_TYPES, type EmbeddedInsight } from '../_shared/themes.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+// Submissions embedded per run; the rest are picked up by the next run
+const embeddingBatchSize = Number(Deno.env.get('THEME_EMBEDDING_BATCH_SIZE') || '50');
+// Most recent statements included in the clustering
+const maxItems = Number(Deno.env.get('THEME_MAX_ITEMS') || '3000');
+// Fixed number of themes; derived from the number of statements when unset
+const configuredThemeCount = Number(Deno.env.get('THEME_COUNT') || '0');
+
+// Fewer statements than this do not make meaningful themes
+const MIN_ITEMS = 10;
+const PAGE_SIZE = 1000;
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// The daily cron job calls with the service role key; admins can start a run from the Themes tab
+async function isAuthorized(supabase: SupabaseClient, req: Request): Promise<boolean> {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) return false;
+  if (token === supabaseServiceKey) return true;
+
+  const { data: { user } } = await supabase.auth.getUser(token);
+  if (!user) return false;
+
+  const { data: adminRole } = await supabase
+    .from('user_roles')
+    .select('id')
+    .eq('user_id', user.id)
+    .eq('role', 'admin')
+    .maybeSingle();
+
+  return !!adminRole;
+}
+
+async function loadEmbeddedInsights(supabase: SupabaseClient): Promise<EmbeddedInsight[]> {
+  const items: EmbeddedInsight[] = [];
+  for (let from = 0; from < maxItems; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('insight_embeddings')
+      .select('id, submission_id, user_id, source_type, content, start_seconds, embedding, created_at, submissions(created_at)')
+      .in('source_type', THEME_SOURCE_TYPES)
+      .order('created_at', { ascending: false })
+      .range(from, Math.min(from + PAGE_SIZE, maxItems) - 1);
+
+    if (error) {
+      throw new Error(`Failed to load embeddings: ${error.message}`);
+    }
+
+    for (const row of data || []) {
+      items.push({
+        id: row.id,
+        submission_id: row.submission_id,
+        user_id: row.user_id,
+        source_type: row.source_type,
+        content: row.content,
+        start_seconds: row.start_seconds === null ? null : Number(row.start_seconds),
+        submitted_at: row.submissions?.created_at || row.created_at,
+        embedding: normalizeVector(parseVector(row.embedding)),
+      });
+    }
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return items;
+}
+
+// Embeds submissions whose embeddings are missing or stale (processing and reprocessing
+// embed their own; rollbacks and failed attempts are caught up here), then rebuilds the
+// themes. Runs daily via pg_cron.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    if (!await isAuthorized(supabase, req)) {
+      return jsonResponse({ error: 'Only admins can rebuild themes' }, 403);
+    }
+
+    const ai = getAIProvider();
+    console.log(`Using AI provider ${ai.name} (chat: ${ai.chatModel}, embeddings: ${ai.embeddingModel})`);
+    const usage = createUsageTracker(supabase);
+
+    const { data: stale, error: staleError } = await supabase.rpc('submissions_needing_embeddings', {
+      p_limit: embeddingBatchSize,
+    });
+    if (staleError) {
+      throw new Error(`Failed to load submissions to embed: ${staleError.message}`);
+    }
+
+    const submissions = (stale || []) as EmbeddableSubmission[];
+    console.log(`Embedding ${submissions.length} submissions...`);
+
+    let embeddedSubmissions = 0;
+    let failedSubmissions = 0;
+    let embeddedItems = 0;
+    for (const submission of submissions) {
+      try {
+        const tracked = usage.track(ai, {
+          functionName: 'cluster-themes',
+          submissionId: submission.id,
+          userId: submission.user_id,
+        });
+        embeddedItems += await embedSubmission(supabase, tracked, submission);
+        embeddedSubmissions++;
+      } catch (embedError) {
+        failedSubmissions++;
+        console.error(`Error embedding submission ${submission.id}:`, embedError);
+      }
+    }
+
+    const items = await loadEmbeddedInsights(supabase);
+    console.log(`Clustering ${items.length} statements...`);
+
+    if (items.length < MIN_ITEMS) {
+      return jsonResponse({
+        success: true,
+        message: `Only ${items.length} statements embedded so far; themes need at least ${MIN_ITEMS}`,
+        embeddedSubmissions,
+        failedSubmissions,
+        embeddedItems,
+        items: items.length,
+        themes: 0,
+      });
+    }
+
+    const themes = await buildThemes(
+      usage.track(ai, { functionName: 'cluster-themes' }),
+      items,
+      configuredThemeCount
+    );
+    await replaceThemes(supabase, themes);
+
+    const summary = {
+      embeddedSubmissions,
+      failedSubmissions,
+      embeddedItems,
+      items: items.length,
+      themes: themes.length,
+    };
+    console.log('Theme clustering completed:', summary, themes.map(theme => `${theme.label} (${theme.submission_count})`));
+
+    return jsonResponse({ success: true, message: `Found ${themes.length} themes in ${items.length} statements`, ...summary });
+
+  } catch (error) {
+    console.error('Error in theme clustering:', error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
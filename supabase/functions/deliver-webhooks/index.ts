@@ -0,0 +1,188 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import { deliverWebhook, TEST_EVENT, type WebhookDelivery, type WebhookEndpoint } from '../_shared/webhooks.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+// Deliveries sent in parallel per invocation
+const batchSize = Number(Deno.env.get('WEBHOOK_BATCH_SIZE') || '20');
+
+// A delivery still marked as delivering after this long belongs to a worker that died
+const STALE_DELIVERY_SECONDS = 5 * 60;
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// The cron job calls with the service role key; admins send test deliveries and kick retries
+async function authorize(supabase: SupabaseClient, req: Request): Promise<{ authorized: boolean; userId: string | null }> {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) return { authorized: false, userId: null };
+  if (token === supabaseServiceKey) return { authorized: true, userId: null };
+
+  const { data: { user } } = await supabase.auth.getUser(token);
+  if (!user) return { authorized: false, userId: null };
+
+  const { data: adminRole } = await supabase
+    .from('user_roles')
+    .select('id')
+    .eq('user_id', user.id)
+    .eq('role', 'admin')
+    .maybeSingle();
+
+  return { authorized: !!adminRole, userId: user.id };
+}
+
+async function loadEndpoints(supabase: SupabaseClient, ids: string[]): Promise<Map<string, WebhookEndpoint>> {
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .select('id, url, secret, is_active')
+    .in('id', ids);
+
+  if (error) {
+    throw new Error(`Failed to load webhook endpoints: ${error.message}`);
+  }
+
+  return new Map(((data || []) as WebhookEndpoint[]).map(endpoint => [endpoint.id, endpoint]));
+}
+
+// Deliveries whose worker died on the final attempt can no longer be claimed; close them out
+async function failExhaustedStaleDeliveries(supabase: SupabaseClient) {
+  const staleBefore = new Date(Date.now() - STALE_DELIVERY_SECONDS * 1000).toISOString();
+
+  const { data: staleDeliveries, error } = await supabase
+    .from('webhook_deliveries')
+    .select('id, attempts, max_attempts')
+    .eq('status', 'delivering')
+    .lt('locked_at', staleBefore);
+
+  if (error) {
+    console.error('Error fetching stale webhook deliveries:', error);
+    return;
+  }
+
+  const exhausted = (staleDeliveries || [])
+    .filter(delivery => delivery.attempts >= delivery.max_attempts)
+    .map(delivery => delivery.id);
+  if (exhausted.length === 0) return;
+
+  await supabase
+    .from('webhook_deliveries')
+    .update({
+      status: 'failed',
+      last_error: 'Delivery did not finish before the worker stopped',
+      locked_at: null,
+      updated_at: new Date().toISOString(),
+    })
+    .in('id', exhausted);
+}
+
+// Sends a single signed test event to one endpoint right away, without retries
+async function sendTestDelivery(supabase: SupabaseClient, endpointId: string, userId: string | null) {
+  const endpoints = await loadEndpoints(supabase, [endpointId]);
+  const endpoint = endpoints.get(endpointId);
+  if (!endpoint) return null;
+
+  const { data: delivery, error } = await supabase
+    .from('webhook_deliveries')
+    .insert({
+      endpoint_id: endpointId,
+      event_type: TEST_EVENT,
+      payload: { message: 'Test delivery from InfoSight', endpoint_id: endpointId, sent_by: userId },
+      status: 'delivering',
+      attempts: 1,
+      max_attempts: 1,
+      locked_at: new Date().toISOString(),
+    })
+    .select('id, endpoint_id, event_type, payload, attempts, max_attempts, created_at')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to queue test delivery: ${error.message}`);
+  }
+
+  // A test should reach disabled endpoints too, so they can be checked before enabling
+  const result = await deliverWebhook(supabase, delivery as WebhookDelivery, { ...endpoint, is_active: true });
+  return { deliveryId: delivery.id, ...result };
+}
+
+// Drains due webhook deliveries. Runs every minute via pg_cron; admins can pass
+// testEndpointId to send a test event to one endpoint immediately.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { authorized, userId } = await authorize(supabase, req);
+    if (!authorized) {
+      return jsonResponse({ error: 'Only admins can deliver webhooks' }, 403);
+    }
+
+    const { testEndpointId } = await req.json().catch(() => ({}));
+    if (testEndpointId !== undefined) {
+      if (typeof testEndpointId !== 'string') {
+        return jsonResponse({ error: 'testEndpointId must be a string' }, 400);
+      }
+
+      const result = await sendTestDelivery(supabase, testEndpointId, userId);
+      if (!result) {
+        return jsonResponse({ error: 'Webhook endpoint not found' }, 404);
+      }
+      return jsonResponse({ success: true, ...result });
+    }
+
+    await failExhaustedStaleDeliveries(supabase);
+
+    const { data: claimed, error: claimError } = await supabase.rpc('claim_webhook_deliveries', {
+      p_limit: batchSize,
+      p_stale_seconds: STALE_DELIVERY_SECONDS,
+    });
+
+    if (claimError) {
+      console.error('Error claiming webhook deliveries:', claimError);
+      throw claimError;
+    }
+
+    const deliveries = (claimed || []) as WebhookDelivery[];
+    if (deliveries.length === 0) {
+      return jsonResponse({ success: true, succeeded: 0, failed: 0 });
+    }
+
+    const endpoints = await loadEndpoints(supabase, [...new Set(deliveries.map(delivery => delivery.endpoint_id))]);
+    const results = await Promise.allSettled(
+      deliveries.map(delivery => deliverWebhook(supabase, delivery, endpoints.get(delivery.endpoint_id) || null))
+    );
+
+    let succeeded = 0;
+    let failed = 0;
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled' && result.value.ok) {
+        succeeded++;
+      } else {
+        failed++;
+        if (result.status === 'rejected') {
+          console.error(`Error delivering webhook ${deliveries[index].id}:`, result.reason);
+        }
+      }
+    });
+
+    console.log(`Webhook deliveries finished: ${succeeded} succeeded, ${failed} failed`);
+    return jsonResponse({ success: true, succeeded, failed });
+
+  } catch (error) {
+    console.error('Error delivering webhooks:', error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
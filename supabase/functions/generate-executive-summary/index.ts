@@ -0,0 +1,130 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import { getAIProvider } from '../_shared/ai/index.ts';
+import { createUsageTracker } from '../_shared/aiUsage.ts';
+import { loadConfidenceThresholds } from '../_shared/confidence.ts';
+import {
+  aggregateReportKPIs,
+  lastCompletePeriod,
+  loadPeriodSubmissions,
+  previousPeriod,
+  reportPeriodFor,
+  saveGeneratedReport,
+  sentimentStats,
+  writeReport,
+} from '../_shared/executiveReports.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// The weekly cron job calls with the service role key; admins can generate a week from the Reports tab
+async function authorize(supabase: SupabaseClient, req: Request): Promise<{ authorized: boolean; userId: string | null }> {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) return { authorized: false, userId: null };
+  if (token === supabaseServiceKey) return { authorized: true, userId: null };
+
+  const { data: { user } } = await supabase.auth.getUser(token);
+  if (!user) return { authorized: false, userId: null };
+
+  const { data: adminRole } = await supabase
+    .from('user_roles')
+    .select('id')
+    .eq('user_id', user.id)
+    .eq('role', 'admin')
+    .maybeSingle();
+
+  return { authorized: !!adminRole, userId: user.id };
+}
+
+// Writes the executive summary of one reporting week (the last complete week by
+// default). A week that already has a report is left alone unless regenerate is
+// set, which adds a new generated version. Runs every Monday via pg_cron.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { authorized, userId } = await authorize(supabase, req);
+    if (!authorized) {
+      return jsonResponse({ error: 'Only admins can generate executive summaries' }, 403);
+    }
+
+    const { periodStart, regenerate } = await req.json().catch(() => ({}));
+    if (periodStart !== undefined && (typeof periodStart !== 'string' || Number.isNaN(Date.parse(periodStart)))) {
+      return jsonResponse({ error: 'periodStart must be a date' }, 400);
+    }
+
+    const period = periodStart ? reportPeriodFor(new Date(periodStart)) : lastCompletePeriod();
+    if (Date.parse(`${period.end}T00:00:00Z`) > Date.now()) {
+      return jsonResponse({ error: `The week of ${period.start} has not ended yet` }, 400);
+    }
+
+    const { data: existing } = await supabase
+      .from('executive_reports')
+      .select('id')
+      .eq('period_start', period.start)
+      .eq('period_end', period.end)
+      .maybeSingle();
+
+    if (existing && !regenerate) {
+      return jsonResponse({ success: true, message: `The week of ${period.start} already has a report`, reportId: existing.id, generated: false });
+    }
+
+    const thresholds = await loadConfidenceThresholds(supabase);
+    const submissions = await loadPeriodSubmissions(supabase, period, thresholds);
+    if (submissions.length === 0) {
+      return jsonResponse({ success: true, message: `No completed submissions in the week of ${period.start}`, generated: false });
+    }
+    const previous = await loadPeriodSubmissions(supabase, previousPeriod(period), thresholds);
+
+    const ai = getAIProvider();
+    console.log(`Using AI provider ${ai.name} (chat: ${ai.chatModel})`);
+    const usage = createUsageTracker(supabase);
+
+    const kpis = aggregateReportKPIs(submissions, previous);
+    const stats = sentimentStats(submissions, previous);
+    const { content, model } = await writeReport(
+      usage.track(ai, { functionName: 'generate-executive-summary', userId }),
+      period,
+      submissions,
+      kpis,
+      stats
+    );
+
+    const { reportId, version } = await saveGeneratedReport(supabase, period, {
+      content,
+      kpis,
+      stats,
+      model,
+      createdBy: userId,
+    });
+    console.log(`Executive summary for ${period.start} saved as version ${version} of report ${reportId}`);
+
+    return jsonResponse({
+      success: true,
+      message: `Generated version ${version} of the report for the week of ${period.start}`,
+      reportId,
+      version,
+      generated: true,
+    });
+
+  } catch (error) {
+    console.error('Error generating executive summary:', error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
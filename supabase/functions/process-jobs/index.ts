@@ -0,0 +1,274 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import { detectKPIAnomalies, saveKPIAlerts } from '../_shared/kpiAnomalies.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+// How many jobs a single worker invocation works through before returning
+const batchSize = Number(Deno.env.get('PROCESSING_BATCH_SIZE') || '1');
+
+// Hosted edge functions are stopped after 150 seconds (400 on paid plans), so a
+// worker waiting on a long process-submission call is stopped before it can record
+// the result. Set EDGE_FUNCTION_TIMEOUT_SECONDS to the limit of the deployment.
+const functionTimeoutSeconds = Number(Deno.env.get('EDGE_FUNCTION_TIMEOUT_SECONDS') || '150');
+
+// A running job whose lock is older than this belongs to a stopped worker. The margin
+// lets the process-submission call, started just after the worker, reach its own limit.
+const STALE_JOB_SECONDS = functionTimeoutSeconds + 60;
+
+// Exponential backoff between attempts: 30s, 1m, 2m, 4m ... capped at 30 minutes
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+
+interface ProcessingJob {
+  id: string;
+  submission_id: string;
+  job_type: string;
+  attempts: number;
+  max_attempts: number;
+}
+
+type JobHandler = (supabase: SupabaseClient, job: ProcessingJob) => Promise<void>;
+
+function retryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+}
+
+// Extract the error message returned by another edge function
+async function invokeErrorMessage(error: { message: string; context?: Response }): Promise<string> {
+  try {
+    const details = await error.context?.json();
+    return details?.error || error.message;
+  } catch {
+    return error.message;
+  }
+}
+
+// The cron job calls with the service role key; the upload page kicks the worker
+// with the signed-in user's token right after an upload
+async function isAuthorized(supabase: SupabaseClient, req: Request): Promise<boolean> {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) return false;
+  if (token === supabaseServiceKey) return true;
+
+  const { data: { user } } = await supabase.auth.getUser(token);
+  return !!user;
+}
+
+async function runProcessSubmission(supabase: SupabaseClient, job: ProcessingJob) {
+  const { data: submission, error: submissionError } = await supabase
+    .from('submissions')
+    .select('id, status')
+    .eq('id', job.submission_id)
+    .maybeSingle();
+
+  if (submissionError) {
+    throw new Error(`Failed to load submission: ${submissionError.message}`);
+  }
+
+  // A reclaimed job may belong to a run that actually finished after its worker died;
+  // submissions held for review are retried by an admin, not by the queue
+  if (!submission || submission.status === 'completed' || submission.status === 'needs_review') {
+    console.log(`Submission ${job.submission_id} needs no processing, skipping job ${job.id}`);
+    return;
+  }
+
+  const { error } = await supabase.functions.invoke('process-submission', {
+    body: { submissionId: job.submission_id }
+  });
+
+  if (error) {
+    throw new Error(await invokeErrorMessage(error));
+  }
+}
+
+// Enqueued whenever a submission gets a new active analysis (processing, reprocessing or a rollback)
+async function runDetectKPIAnomalies(supabase: SupabaseClient, job: ProcessingJob) {
+  const anomalies = await detectKPIAnomalies(supabase, job.submission_id);
+  const saved = await saveKPIAlerts(supabase, job.submission_id, anomalies);
+  console.log(`KPI anomaly check for ${job.submission_id}: ${anomalies.length} found, ${saved} new alerts`);
+}
+
+const JOB_HANDLERS: Record<string, JobHandler> = {
+  process_submission: runProcessSubmission,
+  detect_kpi_anomalies: runDetectKPIAnomalies,
+};
+
+async function markJobSucceeded(supabase: SupabaseClient, job: ProcessingJob) {
+  const now = new Date().toISOString();
+  await supabase
+    .from('processing_jobs')
+    .update({
+      status: 'succeeded',
+      last_error: null,
+      locked_at: null,
+      locked_by: null,
+      completed_at: now,
+      updated_at: now,
+    })
+    .eq('id', job.id);
+}
+
+async function markJobFailed(supabase: SupabaseClient, job: ProcessingJob, message: string) {
+  const now = new Date();
+  const exhausted = job.attempts >= job.max_attempts;
+
+  if (exhausted) {
+    console.error(`Job ${job.id} failed permanently after ${job.attempts} attempts:`, message);
+
+    await supabase
+      .from('processing_jobs')
+      .update({
+        status: 'failed',
+        last_error: message,
+        locked_at: null,
+        locked_by: null,
+        completed_at: now.toISOString(),
+        updated_at: now.toISOString(),
+      })
+      .eq('id', job.id);
+
+    if (job.job_type === 'process_submission') {
+      await supabase
+        .from('submissions')
+        .update({
+          status: 'failed',
+          processing_error: message,
+          updated_at: now.toISOString(),
+        })
+        .eq('id', job.submission_id);
+    }
+    return;
+  }
+
+  const runAfter = new Date(now.getTime() + retryDelayMs(job.attempts));
+  console.warn(`Job ${job.id} attempt ${job.attempts}/${job.max_attempts} failed, retrying at ${runAfter.toISOString()}:`, message);
+
+  await supabase
+    .from('processing_jobs')
+    .update({
+      status: 'queued',
+      last_error: message,
+      run_after: runAfter.toISOString(),
+      locked_at: null,
+      locked_by: null,
+      updated_at: now.toISOString(),
+    })
+    .eq('id', job.id);
+
+  if (job.job_type === 'process_submission') {
+    // Keep the submission in 'processing' while retries remain
+    await supabase
+      .from('submissions')
+      .update({
+        status: 'processing',
+        processing_error: `Attempt ${job.attempts} of ${job.max_attempts} failed: ${message}. Retrying automatically.`,
+        updated_at: now.toISOString(),
+      })
+      .eq('id', job.submission_id);
+  }
+}
+
+// Jobs whose worker died on the final attempt can no longer be claimed; close them out
+async function failExhaustedStaleJobs(supabase: SupabaseClient) {
+  const staleBefore = new Date(Date.now() - STALE_JOB_SECONDS * 1000).toISOString();
+
+  const { data: staleJobs, error } = await supabase
+    .from('processing_jobs')
+    .select('id, submission_id, job_type, attempts, max_attempts')
+    .eq('status', 'running')
+    .lt('locked_at', staleBefore);
+
+  if (error) {
+    console.error('Error fetching stale jobs:', error);
+    return;
+  }
+
+  for (const job of (staleJobs || []) as ProcessingJob[]) {
+    if (job.attempts >= job.max_attempts) {
+      await markJobFailed(supabase, job, 'Processing did not finish before the worker stopped');
+    }
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const workerId = crypto.randomUUID();
+
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    if (!await isAuthorized(supabase, req)) {
+      return new Response(
+        JSON.stringify({ error: 'Not authenticated' }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    await failExhaustedStaleJobs(supabase);
+
+    let succeeded = 0;
+    let failed = 0;
+
+    for (let i = 0; i < batchSize; i++) {
+      const { data: claimed, error: claimError } = await supabase.rpc('claim_processing_jobs', {
+        p_worker_id: workerId,
+        p_limit: 1,
+        p_stale_seconds: STALE_JOB_SECONDS,
+      });
+
+      if (claimError) {
+        console.error('Error claiming jobs:', claimError);
+        throw claimError;
+      }
+
+      const job = (claimed as ProcessingJob[] | null)?.[0];
+      if (!job) break;
+
+      console.log(`Worker ${workerId} claimed job ${job.id} (${job.job_type}) attempt ${job.attempts}/${job.max_attempts}`);
+
+      const handler = JOB_HANDLERS[job.job_type];
+
+      try {
+        if (!handler) {
+          throw new Error(`Unknown job type: ${job.job_type}`);
+        }
+        await handler(supabase, job);
+        await markJobSucceeded(supabase, job);
+        succeeded++;
+      } catch (error) {
+        await markJobFailed(supabase, job, error instanceof Error ? error.message : String(error));
+        failed++;
+      }
+    }
+
+    console.log(`Worker ${workerId} finished: ${succeeded} succeeded, ${failed} failed`);
+
+    return new Response(
+      JSON.stringify({ success: true, succeeded, failed }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error running processing worker:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
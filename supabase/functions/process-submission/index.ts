@@ -2,6 +2,35 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import { getAIProvider } from '../_shared/ai/index.ts';
+import { createUsageTracker } from '../_shared/aiUsage.ts';
+import { parseDocx, type ParsedDocx } from '../_shared/docx.ts';
+import { formatKPI } from '../_shared/kpis.ts';
+import { activateAnalysis, EMPTY_ANALYSIS_OUTPUT, recordAnalysis } from '../_shared/analyses.ts';
+import { completeValidatedAnalysis } from '../_shared/analysisValidation.ts';
+import { countFlaggedEvidence, verifyAnalysisEvidence } from '../_shared/evidence.ts';
+import {
+  getRedactionSettings,
+  NO_ENTITIES,
+  redactAnalysisOutput,
+  redactSources,
+  storeOriginals,
+  totalRedactions,
+  type RedactionSummary,
+} from '../_shared/redaction.ts';
+import {
+  ANALYSIS_PROMPT,
+  analysisPromptValues,
+  loadActivePromptTemplate,
+  promptVersionLabel,
+  renderPromptMessages,
+} from '../_shared/prompts.ts';
+import { toStoredTranscript, type StoredTranscript } from '../_shared/transcript.ts';
+import { transcribeRecording } from '../_shared/chunkedTranscription.ts';
+import { prepareCanonicalTranscript } from '../_shared/language.ts';
+import { recordDuplicates, sha256Hex } from '../_shared/duplicates.ts';
+import { loadRetentionPolicy, removeSubmissionMedia } from '../_shared/retention.ts';
+import { embedSubmission } from '../_shared/embeddings.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -10,7 +39,6 @@ const corsHeaders = {
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-const openaiApiKey = Deno.env.get('OPENAI_API_KEY')!;
 
 // Timeout wrapper for promises
 function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
@@ -22,117 +50,28 @@ function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
   ]);
 }
 
-// Enhanced function to clean JSON response from GPT (remove markdown formatting)
-function cleanJsonResponse(content: string): string {
-  let cleaned = content.trim();
-  
-  // Remove markdown code blocks if present
-  if (cleaned.startsWith('```json')) {
-    cleaned = cleaned.replace(/^```json\s*/, '');
-  }
-  if (cleaned.startsWith('```')) {
-    cleaned = cleaned.replace(/^```\s*/, '');
-  }
-  if (cleaned.endsWith('```')) {
-    cleaned = cleaned.replace(/\s*```$/, '');
-  }
-  
-  // Remove any leading/trailing whitespace
-  cleaned = cleaned.trim();
-  
-  // Find the first { and last } to extract just the JSON object
-  const firstBrace = cleaned.indexOf('{');
-  const lastBrace = cleaned.lastIndexOf('}');
-  
-  if (firstBrace !== -1 && lastBrace !== -1 && firstBrace < lastBrace) {
-    cleaned = cleaned.substring(firstBrace, lastBrace + 1);
-  }
-  
-  return cleaned;
-}
-
-// Improved DOCX text extraction using OpenAI directly
-async function extractDocxText(docxData: Blob): Promise<string> {
-  try {
-    console.log('Starting improved DOCX text extraction...');
-    console.log('DOCX file size:', docxData.size, 'bytes');
-    
-    // Convert DOCX to base64 for OpenAI processing
-    const arrayBuffer = await docxData.arrayBuffer();
-    const uint8Array = new Uint8Array(arrayBuffer);
-    
-    // Use only first 50KB to stay within reasonable limits
-    const maxSize = Math.min(50000, uint8Array.length);
-    const truncatedData = uint8Array.slice(0, maxSize);
-    const base64String = btoa(String.fromCharCode(...truncatedData));
-    
-    console.log('Sending DOCX to OpenAI for intelligent text extraction...');
-    
-    // Use OpenAI to intelligently extract text from the DOCX
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openaiApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o',
-        messages: [
-          {
-            role: 'system',
-            content: `You are a document processing expert. I will provide you with a base64-encoded portion of a DOCX file. Your task is to:
-
-1. Analyze the binary data and extract any readable text content
-2. Focus on finding business metrics, KPIs, numbers, financial data, percentages, and quantifiable information
-3. Look for structured data like tables, lists, and formatted content
-4. Return the extracted text in a clean, readable format
-5. If you find any business metrics or KPIs, preserve them exactly as they appear
-
-Please extract all readable text content from this DOCX file, focusing especially on numerical data and business metrics:`
-          },
-          {
-            role: 'user',
-            content: `Please extract readable text from this DOCX file data: ${base64String}`
-          }
-        ],
-        max_tokens: 2000,
-        temperature: 0.1,
-      }),
-    });
-
-    console.log('OpenAI DOCX processing response status:', response.status);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('OpenAI DOCX processing error:', errorText);
-      throw new Error(`OpenAI DOCX processing failed: ${errorText}`);
-    }
-
-    const result = await response.json();
-    const extractedText = result.choices[0]?.message?.content || '';
-    
-    if (extractedText && extractedText.length > 50) {
-      console.log('DOCX text successfully extracted via OpenAI:', extractedText.length, 'characters');
-      console.log('Sample extracted content:', extractedText.substring(0, 500) + '...');
-      return extractedText;
-    } else {
-      console.warn('OpenAI DOCX extraction returned minimal content');
-      return `DOCX processing: Limited text extraction. File size: ${docxData.size} bytes. Please ensure the document contains clear business metrics and readable text.`;
-    }
-    
-  } catch (error) {
-    console.error('DOCX text extraction error:', error);
-    return `DOCX processing error: ${error.message}. File size: ${docxData.size} bytes.`;
-  }
-}
-
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders });
   }
 
+  // Runs paid transcription and analysis, so only the process-jobs worker may call it
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (token !== supabaseServiceKey) {
+    return new Response(
+      JSON.stringify({ error: 'Processing requires the service role key' }),
+      {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  // Read once up front so the failure handler still knows which submission to mark
+  let submissionId: string | undefined;
+
   try {
-    const { submissionId } = await req.json();
+    ({ submissionId } = await req.json());
 
     if (!submissionId) {
       throw new Error('Submission ID is required');
@@ -140,9 +79,8 @@ serve(async (req) => {
 
     console.log('Processing submission:', submissionId);
 
-    if (!openaiApiKey) {
-      throw new Error('OpenAI API key not configured');
-    }
+    const provider = getAIProvider();
+    console.log(`Using AI provider ${provider.name} (chat: ${provider.chatModel}, transcription: ${provider.transcriptionModel})`);
 
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
@@ -162,303 +100,360 @@ serve(async (req) => {
     console.log('DOCX file present:', !!submission.docx_file);
     console.log('Video files present:', !!submission.video_files);
 
-    let fullTranscript = '';
-    const videoFile = submission.video_files;
+    // Every transcription and analysis call below is logged to ai_usage for this submission
+    const ai = createUsageTracker(supabase).track(provider, {
+      functionName: 'process-submission',
+      submissionId: submission.id,
+      userId: submission.user_id,
+    });
 
-    // Validate video file structure
-    if (!videoFile || !videoFile.path) {
-      throw new Error('Invalid video file structure');
-    }
+    // Load the prompt before the slow transcription so a missing template fails fast
+    const promptTemplate = await loadActivePromptTemplate(supabase, ANALYSIS_PROMPT);
+    console.log('Using analysis prompt:', promptVersionLabel(promptTemplate));
 
-    // Process the video file with timeout (10 minutes)
-    try {
-      console.log('Downloading video from:', videoFile.path);
-      
-      // Download video from storage
-      const { data: videoData, error: downloadError } = await supabase.storage
-        .from('submissions')
-        .download(videoFile.path);
+    let fullTranscript = '';
+    let storedTranscript: StoredTranscript | null = null;
+    let contentHash: string | null = submission.content_hash;
+    let docxText = '';
+    let docxContent: ParsedDocx | null = null;
+    let docxProcessingSuccess = false;
+    let notes: string | null = submission.notes;
+    let piiRedaction: RedactionSummary | null = null;
+    let redactedEntities = NO_ENTITIES;
+
+    // A retried job reuses the sources an earlier attempt saved instead of downloading
+    // and transcribing the recording again; they were redacted before they were saved
+    if (submission.transcript && typeof submission.transcript === 'object') {
+      console.log('Reusing the transcript saved by an earlier attempt');
+      storedTranscript = submission.transcript as StoredTranscript;
+      fullTranscript = storedTranscript.text;
+      docxContent = submission.docx_content as ParsedDocx | null;
+      docxText = docxContent?.text || '';
+      docxProcessingSuccess = !!docxText;
+      piiRedaction = submission.pii_redaction as RedactionSummary | null;
+    } else {
+      const videoFile = submission.video_files;
 
-      if (downloadError || !videoData) {
-        console.error('Error downloading video:', downloadError);
-        throw new Error(`Failed to download video file: ${downloadError?.message || 'Unknown error'}`);
+      // Validate video file structure
+      if (!videoFile || !videoFile.path) {
+        throw new Error('Invalid video file structure');
       }
 
-      console.log('Video downloaded successfully, size:', videoData.size);
+      // Process the video file with timeout (10 minutes)
+      try {
+        console.log('Downloading video from:', videoFile.path);
+      
+        // Download video from storage
+        const { data: videoData, error: downloadError } = await supabase.storage
+          .from('submissions')
+          .download(videoFile.path);
 
-      // Convert video blob to audio and send to Whisper with timeout
-      const formData = new FormData();
-      formData.append('file', videoData, videoFile.name || 'video.webm');
-      formData.append('model', 'whisper-1');
+        if (downloadError || !videoData) {
+          console.error('Error downloading video:', downloadError);
+          throw new Error(`Failed to download video file: ${downloadError?.message || 'Unknown error'}`);
+        }
 
-      console.log('Sending to OpenAI Whisper API...');
+        console.log('Video downloaded successfully, size:', videoData.size);
 
-      const transcriptionResponse = await withTimeout(
-        fetch('https://api.openai.com/v1/audio/transcriptions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${openaiApiKey}`,
-          },
-          body: formData,
-        }),
-        600000 // 10 minutes timeout
-      );
+        // Uploads from the browser are hashed already; fill in the hash for any that are not
+        if (!contentHash) {
+          contentHash = await sha256Hex(videoData);
+          await supabase.from('submissions').update({ content_hash: contentHash }).eq('id', submission.id);
+        }
 
-      console.log('Whisper API response status:', transcriptionResponse.status);
+        // Send the video to the transcription model with timeout; large recordings are chunked
+        console.log(`Sending to ${ai.name} transcription (${ai.transcriptionModel})...`);
 
-      if (!transcriptionResponse.ok) {
-        const errorText = await transcriptionResponse.text();
-        console.error('Whisper API error response:', errorText);
-        throw new Error(`Whisper API error (${transcriptionResponse.status}): ${errorText}`);
-      }
+        const transcriptionResult = await withTimeout(
+          transcribeRecording(ai, videoData, videoFile.name || 'video.webm'),
+          600000 // 10 minutes timeout
+        );
 
-      const transcriptionResult = await transcriptionResponse.json();
-      fullTranscript = transcriptionResult.text || '';
-      console.log('Transcription completed successfully, length:', fullTranscript.length);
+        storedTranscript = toStoredTranscript(transcriptionResult);
+        fullTranscript = storedTranscript.text;
+        console.log('Transcription completed successfully:', {
+          length: fullTranscript.length,
+          segments: storedTranscript.segments.length,
+          language: storedTranscript.language,
+          duration: storedTranscript.duration
+        });
       
-    } catch (error) {
-      console.error('Error processing video with Whisper:', error);
+      } catch (error) {
+        console.error('Error transcribing video:', error);
       
-      // Check if it's a timeout error
-      if (error.message.includes('timed out')) {
-        await supabase
-          .from('submissions')
-          .update({
-            status: 'failed',
-            processing_error: 'Processing timed out after 10 minutes. Please try with a shorter video.',
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', submissionId);
+        // Check if it's a timeout error
+        if (error.message.includes('timed out')) {
+          await supabase
+            .from('submissions')
+            .update({
+              status: 'failed',
+              processing_error: 'Processing timed out after 10 minutes. Please try with a shorter video.',
+              updated_at: new Date().toISOString(),
+            })
+            .eq('id', submissionId);
         
-        return new Response(
-          JSON.stringify({ error: 'Processing timed out after 10 minutes' }),
-          {
-            status: 408,
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          }
-        );
-      }
+          return new Response(
+            JSON.stringify({ error: 'Processing timed out after 10 minutes' }),
+            {
+              status: 408,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          );
+        }
       
-      throw new Error(`Video processing failed: ${error.message}`);
-    }
+        throw new Error(`Video processing failed: ${error.message}`);
+      }
 
-    // Improved DOCX processing with better text extraction
-    let docxText = '';
-    let docxProcessingSuccess = false;
-    
-    if (submission.docx_file) {
-      try {
-        console.log('Starting enhanced DOCX processing for file:', submission.docx_file);
-        const { data: docxData, error: docxError } = await supabase.storage
-          .from('submissions')
-          .download(submission.docx_file);
+      // Parse the DOCX locally: paragraphs, headings, lists and tables as rows and cells
+      if (submission.docx_file) {
+        try {
+          console.log('Starting DOCX parsing for file:', submission.docx_file);
+          const { data: docxData, error: docxError } = await supabase.storage
+            .from('submissions')
+            .download(submission.docx_file);
 
-        if (!docxError && docxData) {
-          console.log('DOCX downloaded successfully, size:', docxData.size);
+          if (!docxError && docxData) {
+            console.log('DOCX downloaded successfully, size:', docxData.size);
           
-          if (docxData.size === 0) {
-            console.error('DOCX file is empty');
-            docxText = 'DOCX file appears to be empty or corrupted.';
-          } else {
-            // Extract text from DOCX using the improved OpenAI approach
-            docxText = await extractDocxText(docxData);
-            
-            if (docxText && docxText.length > 200 && !docxText.includes('processing error') && !docxText.includes('Limited text extraction')) {
-              docxProcessingSuccess = true;
-              console.log('DOCX text extracted successfully via OpenAI, length:', docxText.length);
-              console.log('DOCX content preview:', docxText.substring(0, 300) + '...');
+            if (docxData.size === 0) {
+              console.error('DOCX file is empty');
+              docxText = 'DOCX file appears to be empty or corrupted.';
             } else {
-              console.warn('DOCX text extraction returned insufficient or error content');
-              console.log('Actual DOCX text received:', docxText);
+              docxContent = parseDocx(await docxData.arrayBuffer());
+              docxText = docxContent.text;
+            
+              if (docxText) {
+                docxProcessingSuccess = true;
+                console.log('DOCX parsed successfully:', {
+                  textLength: docxText.length,
+                  blocks: docxContent.blocks.length,
+                  tables: docxContent.blocks.filter(block => block.type === 'table').length
+                });
+              } else {
+                console.warn('DOCX contains no readable text');
+                docxText = 'DOCX document contains no readable text.';
+              }
             }
+          } else {
+            console.error('DOCX download failed:', docxError);
+            docxText = `DOCX download failed: ${docxError?.message || 'Unknown error'}`;
           }
-        } else {
-          console.error('DOCX download failed:', docxError);
-          docxText = `DOCX download failed: ${docxError?.message || 'Unknown error'}`;
+        } catch (error) {
+          console.error('Error parsing DOCX:', error);
+          docxText = `DOCX processing failed: ${error.message}`;
         }
-      } catch (error) {
-        console.error('Error in enhanced DOCX processing:', error);
-        docxText = `DOCX processing failed: ${error.message}`;
       }
-    }
-
-    // Enhanced analysis prompt with even stronger focus on KPI extraction
-    const analysisPrompt = `
-You are analyzing a comprehensive business submission with multiple content sources. Your PRIMARY GOAL is to extract specific, measurable KPIs and business metrics from ALL sources provided.
-
-CONTENT SOURCES:
 
-1. VIDEO TRANSCRIPT:
-${fullTranscript || 'No video transcript available'}
+      // Replace personal data before anything is stored or sent for analysis
+      const redactionSettings = getRedactionSettings();
 
-2. DOCX DOCUMENT CONTENT${docxProcessingSuccess ? ' (Successfully Extracted via AI - PRIORITIZE THIS CONTENT)' : ' (Processing Issues)'}:
-${docxText || 'No DOCX content available'}
+      if (redactionSettings.enabled) {
+        const redaction = await redactSources(ai, { transcript: storedTranscript, docx: docxContent, notes }, redactionSettings);
+        console.log('PII redaction:', redaction.summary);
 
-3. ADDITIONAL NOTES:
-${submission.notes || 'No additional notes provided'}
-
-CRITICAL ANALYSIS INSTRUCTIONS:
-
-You MUST extract comprehensive business metrics and insights from ALL content sources above. Focus heavily on:
-
-1. **NUMERICAL DATA EXTRACTION**: Find ALL numbers, percentages, monetary values, quantities, timeframes, and measurable metrics
-2. **FINANCIAL METRICS**: Revenue, sales, costs, profits, budgets, ROI, growth rates, market share, margins, targets
-3. **PERFORMANCE INDICATORS**: Customer metrics, conversion rates, efficiency scores, productivity measures, quality metrics, satisfaction scores, completion rates, response times
-4. **COMPARATIVE DATA**: Before/after comparisons, year-over-year growth, benchmarks, targets vs. actuals, variance analysis
-5. **TIME-BASED METRICS**: Quarterly results, monthly performance, annual figures, project timelines, deadlines
-6. **OPERATIONAL METRICS**: Process improvements, cost savings, time reductions, quality improvements, customer feedback scores
-
-EXTRACTION REQUIREMENTS:
-- Extract EVERY quantifiable metric you can find, no matter how small
-- Include the source context for each KPI (what it measures, time period, etc.)
-- Focus on business-relevant metrics that would be valuable for dashboard analytics
-- If you see any numbers, percentages, or measurable achievements, extract them as KPIs
-- Even simple metrics like "completed 3 tasks" should become "Tasks Completed: 3"
+        if (redactionSettings.keepOriginals && totalRedactions(redaction.summary.counts) > 0) {
+          await storeOriginals(supabase, submission.id, { transcript: storedTranscript, docx: docxContent, notes });
+          console.log('Stored unredacted originals for submission:', submission.id);
+        }
 
-You MUST respond with ONLY a valid JSON object. NO markdown formatting, NO code blocks, NO explanations outside the JSON.
+        storedTranscript = redaction.sources.transcript;
+        fullTranscript = storedTranscript?.text || '';
+        docxContent = redaction.sources.docx;
+        if (docxContent) docxText = docxContent.text;
+        notes = redaction.sources.notes;
+        piiRedaction = redaction.summary;
+        redactedEntities = redaction.entities;
+      }
 
-Format your response as this exact JSON structure:
-{
-  "key_points": ["Specific achievement or insight 1", "Specific achievement or insight 2", "Specific achievement or insight 3", "Specific achievement or insight 4", "Specific achievement or insight 5"],
-  "extracted_kpis": ["Metric Name: Specific Value with Units", "Another Metric: Quantified Result", "Performance Indicator: Measured Outcome", "Business Metric: Actual Number", "Achievement Metric: Concrete Result"],
-  "sentiment": "positive|negative|neutral",
-  "ai_quotes": ["Relevant quote from video or DOCX 1", "Important statement 2", "Key insight 3"]
-}
+      // Keep the redacted sources so a failure further on does not cost another transcription
+      const { error: sourcesError } = await supabase
+        .from('submissions')
+        .update({ transcript: storedTranscript, docx_content: docxContent, notes, pii_redaction: piiRedaction })
+        .eq('id', submission.id);
 
-CRITICAL: Extract ACTUAL NUMBERS and QUANTIFIABLE ACHIEVEMENTS. If there are any metrics, percentages, or measurable outcomes mentioned in any of the content sources, they MUST be extracted as KPIs. DO NOT return empty arrays unless there are truly no quantifiable metrics in the content.
-`;
+      if (sourcesError) {
+        console.error('Failed to save the transcript for retries:', sourcesError);
+      }
+    }
 
-    console.log('Sending enhanced analysis to GPT-4o with improved DOCX content...');
+    // Non-English transcripts are analysed in an English translation; both versions are stored
+    const canonical = storedTranscript
+      ? await prepareCanonicalTranscript(ai, storedTranscript)
+      : { language: null, translated: null };
+    console.log('Transcript language:', canonical.language, canonical.translated ? '(translated into English)' : '');
+    const analysisTranscript = canonical.translated || storedTranscript;
+
+    // Fill the active prompt template with the transcript, parsed DOCX and notes
+    const promptMessages = renderPromptMessages(promptTemplate, analysisPromptValues({
+      transcript: analysisTranscript?.text || '',
+      docx: docxText,
+      notes,
+    }));
+
+    console.log(`Sending enhanced analysis to ${ai.chatModel} with parsed DOCX content...`);
     console.log('Analysis input summary:', {
       transcriptLength: fullTranscript.length,
       docxTextLength: docxText.length,
       docxProcessed: docxProcessingSuccess,
-      notesLength: submission.notes?.length || 0
+      notesLength: notes?.length || 0
     });
 
-    const analysisResponse = await withTimeout(
-      fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${openaiApiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'gpt-4o',
-          messages: [
-            {
-              role: 'system',
-              content: 'You are an expert business analyst that specializes in extracting specific, measurable KPIs and metrics from various content sources including video transcripts, DOCX documents, and text notes. You MUST respond with valid JSON only, without any markdown formatting or code blocks. Your primary focus is finding concrete numbers, percentages, monetary values, and quantifiable business achievements from ALL provided content sources. You should extract EVERY quantifiable metric you find, no matter how small. Be thorough and aggressive in finding metrics - even simple accomplishments should be quantified.'
-            },
-            {
-              role: 'user',
-              content: analysisPrompt
-            }
-          ],
-          temperature: 0.1,
-        }),
-      }),
-      300000 // 5 minutes timeout for analysis
+    // Provider errors propagate so the submission is marked failed and the job retried;
+    // responses that stay invalid after the repair attempts go to review instead
+    const validated = await withTimeout(
+      completeValidatedAnalysis(ai, promptMessages, { temperature: 0.1 }),
+      300000 // 5 minutes timeout for analysis, including repair attempts
     );
+    // Only sizes are logged: DOCX text and model responses can contain personal data
+    console.log('Model response received:', {
+      length: validated.content.length,
+      repairAttempts: validated.repairAttempts,
+    });
 
-    console.log('GPT-4o analysis response status:', analysisResponse.status);
-
-    let analysisResult = {
-      key_points: ['Content processed successfully'],
-      extracted_kpis: [],
-      sentiment: 'neutral',
-      ai_quotes: []
+    const analysisRun = {
+      trigger: 'process-submission' as const,
+      promptVersion: promptVersionLabel(promptTemplate),
+      promptTemplateId: promptTemplate.id,
+      provider: ai.name,
+      model: ai.chatModel,
+      rawOutput: validated.content || null,
+      repairAttempts: validated.repairAttempts,
     };
 
-    if (!analysisResponse.ok) {
-      const errorText = await analysisResponse.text();
-      console.error('GPT-4o API error response:', errorText);
-      console.warn('Using default analysis result due to GPT-4o API error');
+    // Locate every KPI and quote in the transcript, DOCX and notes; anything not found is flagged
+    const analysis = validated.output && verifyAnalysisEvidence(redactAnalysisOutput(validated.output, redactedEntities), {
+      transcript: analysisTranscript,
+      docx: docxContent,
+      notes,
+    });
+    if (!analysis) {
+      console.error(`Analysis response still invalid after ${validated.repairAttempts} repair attempts:`, validated.errors);
+
+      // Keep the failed run for inspection without touching the submission's insights
+      const invalidAnalysis = await recordAnalysis(supabase, submission, {
+        ...analysisRun,
+        output: EMPTY_ANALYSIS_OUTPUT,
+        status: 'invalid',
+        validationErrors: validated.errors,
+      });
+      console.log(`Recorded invalid analysis version ${invalidAnalysis.version}:`, invalidAnalysis.id);
+
+      const { error: reviewError } = await supabase
+        .from('submissions')
+        .update({
+          transcript: storedTranscript,
+          transcript_translated: canonical.translated,
+          language: canonical.language,
+          docx_content: docxContent,
+          notes,
+          pii_redaction: piiRedaction,
+          status: 'needs_review',
+          processing_error: `AI response failed validation: ${validated.errors.slice(0, 3).join('; ')}`,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', submissionId);
+
+      if (reviewError) {
+        throw new Error(`Failed to mark submission for review: ${reviewError.message}`);
+      }
     } else {
-      try {
-        const gptResponse = await analysisResponse.json();
-        const content = gptResponse.choices[0]?.message?.content;
-        if (content) {
-          console.log('Raw GPT response content:', content);
-          
-          // Clean the JSON response to remove any markdown formatting
-          const cleanedContent = cleanJsonResponse(content);
-          console.log('Cleaned content for parsing:', cleanedContent);
-          
-          analysisResult = JSON.parse(cleanedContent);
-          console.log('Enhanced analysis completed successfully:', {
-            keyPointsCount: analysisResult.key_points?.length || 0,
-            kpisCount: analysisResult.extracted_kpis?.length || 0,
-            sentiment: analysisResult.sentiment,
-            quotesCount: analysisResult.ai_quotes?.length || 0
-          });
-          
-          if (analysisResult.extracted_kpis?.length > 0) {
-            console.log('Extracted KPIs:', analysisResult.extracted_kpis);
-          } else {
-            console.warn('WARNING: No KPIs were extracted from the content!');
-          }
-        } else {
-          console.error('No content in GPT-4o response');
-        }
-      } catch (parseError) {
-        console.error('Error parsing GPT response:', parseError);
-        console.log('Raw content that failed to parse:', content);
-        console.warn('Using default analysis result due to parsing error');
+      if (validated.repairAttempts > 0) {
+        console.log(`Analysis response repaired after ${validated.repairAttempts} attempt(s)`);
       }
-    }
-
-    // Update submission with results including enhanced DOCX processing status
-    console.log('Updating submission with enhanced results...');
-    const updateData = {
-      transcript: fullTranscript,
-      key_points: analysisResult.key_points,
-      extracted_kpis: analysisResult.extracted_kpis,
-      sentiment: analysisResult.sentiment,
-      ai_quotes: analysisResult.ai_quotes,
-      status: 'completed',
-      updated_at: new Date().toISOString(),
-    };
-
-    console.log('Final update data being saved:', {
-      transcriptLength: fullTranscript.length,
-      keyPointsCount: analysisResult.key_points?.length,
-      kpisCount: analysisResult.extracted_kpis?.length,
-      quotesCount: analysisResult.ai_quotes?.length,
-      sentiment: analysisResult.sentiment
-    });
+      if (analysis.extracted_kpis.length > 0) {
+        console.log('Extracted KPIs:', analysis.extracted_kpis.map(formatKPI));
+      } else {
+        console.warn('WARNING: No KPIs were extracted from the content!');
+      }
+      console.log('Evidence verification:', countFlaggedEvidence(analysis));
 
-    const { error: updateError } = await supabase
-      .from('submissions')
-      .update(updateData)
-      .eq('id', submissionId);
+      // Every run is kept in the analysis history; the submission shows the active one
+      const storedAnalysis = await recordAnalysis(supabase, submission, {
+        ...analysisRun,
+        output: analysis,
+      });
+      console.log(`Recorded analysis version ${storedAnalysis.version}:`, storedAnalysis.id);
 
-    if (updateError) {
-      console.error('Error updating submission:', updateError);
-      throw updateError;
+      console.log('Final update data being saved:', {
+        transcriptLength: fullTranscript.length,
+        keyPointsCount: analysis.key_points.length,
+        kpisCount: analysis.extracted_kpis.length,
+        quotesCount: analysis.ai_quotes.length,
+        sentiment: analysis.sentiment,
+        sentimentScore: analysis.sentiment_score,
+        aspects: analysis.aspect_sentiments.map(aspect => `${aspect.aspect}: ${aspect.score}`)
+      });
+
+      // Update submission with results including enhanced DOCX processing status
+      console.log('Updating submission with enhanced results...');
+      await activateAnalysis(supabase, submission, storedAnalysis, {
+        transcript: storedTranscript,
+        transcript_translated: canonical.translated,
+        language: canonical.language,
+        docx_content: docxContent,
+        notes,
+        pii_redaction: piiRedaction,
+        status: 'completed',
+        processing_error: null,
+      });
+
+      console.log('Submission updated successfully with enhanced processing');
+
+      // Make the submission searchable right away; the daily cluster-themes run retries failures
+      try {
+        const embeddedItems = await embedSubmission(supabase, ai, {
+          id: submission.id,
+          user_id: submission.user_id,
+          active_analysis_id: storedAnalysis.id,
+          key_points: analysis.key_points,
+          transcript: storedTranscript,
+          transcript_translated: canonical.translated,
+          notes,
+        });
+        console.log(`Embedded ${embeddedItems} statements for search`);
+      } catch (embedError) {
+        console.error('Error embedding submission for search:', embedError);
+      }
     }
 
-    console.log('Submission updated successfully with enhanced processing');
-
-    // Delete the video file after successful processing to save storage space
+    // Flag re-uploads for an admin to merge; a failed check must not fail the submission
     try {
-      console.log('Deleting video file to save storage space:', videoFile.path);
-      const { error: deleteError } = await supabase.storage
-        .from('submissions')
-        .remove([videoFile.path]);
+      const duplicates = await recordDuplicates(
+        supabase,
+        { id: submission.id, user_id: submission.user_id, created_at: submission.created_at, content_hash: contentHash },
+        fullTranscript
+      );
+      if (duplicates.length > 0) {
+        console.log('Possible duplicate of:', duplicates.map(match => `${match.duplicate_of_id} (${match.method}, ${match.similarity})`));
+      }
+    } catch (duplicateError) {
+      console.error('Error checking for duplicate submissions:', duplicateError);
+    }
 
-      if (deleteError) {
-        console.error('Error deleting video file:', deleteError);
+    // Apply the submitter's media retention policy; cleanup-media enforces the other modes later
+    try {
+      const retention = await loadRetentionPolicy(supabase, submission.user_id);
+      if (!analysis) {
+        console.log('Keeping media files while the submission needs review');
+      } else if (retention.mode === 'delete_immediately') {
+        const { removed, pending } = await removeSubmissionMedia(supabase, submission, retention, 'deleted_after_processing');
+        console.log('Deleted media files after processing:', removed);
+        if (pending.length > 0) {
+          console.log('Keeping DOCX still used by other submissions from the same upload:', pending);
+        }
       } else {
-        console.log('Video file deleted successfully');
+        console.log(`Keeping media files (${retention.mode}${retention.mode === 'keep_days' ? `, ${retention.retention_days} days` : ''})`);
       }
-    } catch (deleteError) {
-      console.error('Error during file deletion:', deleteError);
+    } catch (retentionError) {
+      console.error('Error applying media retention policy:', retentionError);
     }
 
-    const responseMessage = docxProcessingSuccess 
-      ? `Submission processed successfully with AI-powered DOCX analysis (${analysisResult.extracted_kpis?.length || 0} KPIs extracted)`
-      : `Submission processed with video analysis and limited DOCX processing (${analysisResult.extracted_kpis?.length || 0} KPIs extracted)`;
+    const kpisExtracted = analysis?.extracted_kpis.length || 0;
+    const responseMessage = !analysis
+      ? 'Submission needs review: the AI response failed validation'
+      : docxProcessingSuccess
+        ? `Submission processed successfully with parsed DOCX content (${kpisExtracted} KPIs extracted)`
+        : `Submission processed with video analysis and limited DOCX processing (${kpisExtracted} KPIs extracted)`;
 
     console.log('Enhanced processing completed:', responseMessage);
 
@@ -467,7 +462,8 @@ CRITICAL: Extract ACTUAL NUMBERS and QUANTIFIABLE ACHIEVEMENTS. If there are any
         success: true, 
         message: responseMessage,
         docxProcessed: docxProcessingSuccess,
-        kpisExtracted: analysisResult.extracted_kpis?.length || 0,
+        needsReview: !analysis,
+        kpisExtracted,
         videoProcessed: !!fullTranscript,
         transcriptLength: fullTranscript.length,
         docxContentLength: docxText.length
@@ -481,7 +477,6 @@ CRITICAL: Extract ACTUAL NUMBERS and QUANTIFIABLE ACHIEVEMENTS. If there are any
     // Update submission status to failed
     try {
       const supabase = createClient(supabaseUrl, supabaseServiceKey);
-      const { submissionId } = await req.json().catch(() => ({}));
       
       if (submissionId) {
         await supabase
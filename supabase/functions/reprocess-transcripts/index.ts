@@ -1,6 +1,34 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import { getAIProvider, type AIProvider } from '../_shared/ai/index.ts';
+import { createUsageTracker, type UsageTracker } from '../_shared/aiUsage.ts';
+import { formatKPI, type ExtractedKPI } from '../_shared/kpis.ts';
+import { activateAnalysis, EMPTY_ANALYSIS_OUTPUT, recordAnalysis } from '../_shared/analyses.ts';
+import { completeValidatedAnalysis, type ValidatedAnalysisResult } from '../_shared/analysisValidation.ts';
+import { countFlaggedEvidence, verifyAnalysisEvidence } from '../_shared/evidence.ts';
+import {
+  getRedactionSettings,
+  NO_ENTITIES,
+  redactAnalysisOutput,
+  redactSources,
+  storeOriginals,
+  totalRedactions,
+  type RedactableSources,
+  type RedactionSettings,
+} from '../_shared/redaction.ts';
+import {
+  ANALYSIS_PROMPT,
+  analysisPromptValues,
+  loadActivePromptTemplate,
+  promptVersionLabel,
+  renderPromptMessages,
+  type PromptTemplate,
+} from '../_shared/prompts.ts';
+import type { ParsedDocx } from '../_shared/docx.ts';
+import { transcriptToText, type StoredTranscript } from '../_shared/transcript.ts';
+import { CANONICAL_LANGUAGE, prepareCanonicalTranscript } from '../_shared/language.ts';
+import { embedSubmission } from '../_shared/embeddings.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -9,254 +37,503 @@ const corsHeaders = {
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-const openaiApiKey = Deno.env.get('OPENAI_API_KEY')!;
-
-// Enhanced function to clean JSON response from GPT
-function cleanJsonResponse(content: string): string {
-  let cleaned = content.trim();
-  
-  // Remove markdown code blocks if present
-  if (cleaned.startsWith('```json')) {
-    cleaned = cleaned.replace(/^```json\s*/, '');
-  }
-  if (cleaned.startsWith('```')) {
-    cleaned = cleaned.replace(/^```\s*/, '');
+
+interface ReprocessRequest {
+  submissionIds?: string[];
+  userIds?: string[];
+  // ISO timestamps, both inclusive
+  createdFrom?: string;
+  createdTo?: string;
+  onlyWithoutKPIs?: boolean;
+  // Run the analysis and report the differences without writing anything
+  dryRun?: boolean;
+}
+
+interface SubmissionRow {
+  id: string;
+  user_id: string;
+  created_at: string;
+  transcript: StoredTranscript | string | null;
+  transcript_translated: StoredTranscript | null;
+  language: string | null;
+  docx_content: ParsedDocx | null;
+  notes: string | null;
+  pii_redaction: unknown;
+  key_points: string[] | null;
+  sentiment: string | null;
+  ai_quotes: string[] | null;
+  extracted_kpi_values: { metric_name: string }[];
+}
+
+interface AnalysisSummary {
+  keyPoints: number;
+  kpis: number;
+  quotes: number;
+  sentiment: string | null;
+}
+
+type ReprocessStatus = 'updated' | 'would_update' | 'skipped' | 'failed';
+
+interface ReprocessItemResult {
+  submissionId: string;
+  userId: string;
+  createdAt: string;
+  status: ReprocessStatus;
+  message: string;
+  before: AnalysisSummary;
+  after: AnalysisSummary | null;
+  // Metric names gained and lost compared with the active analysis
+  addedKPIs: string[];
+  removedKPIs: string[];
+  version: number | null;
+}
+
+interface ReprocessContext {
+  supabase: SupabaseClient;
+  ai: AIProvider;
+  usage: UsageTracker;
+  promptTemplate: PromptTemplate;
+  redaction: RedactionSettings;
+  dryRun: boolean;
+}
+
+function stringArray(value: unknown, field: string): string[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    throw new Error(`${field} must be an array of strings`);
   }
-  if (cleaned.endsWith('```')) {
-    cleaned = cleaned.replace(/\s*```$/, '');
+  return value;
+}
+
+function parseRequest(body: Record<string, unknown>): ReprocessRequest {
+  for (const field of ['createdFrom', 'createdTo']) {
+    if (body[field] !== undefined && body[field] !== null && Number.isNaN(Date.parse(String(body[field])))) {
+      throw new Error(`${field} must be an ISO date`);
+    }
   }
-  
-  // Remove any leading/trailing whitespace
-  cleaned = cleaned.trim();
-  
-  // Find the first { and last } to extract just the JSON object
-  const firstBrace = cleaned.indexOf('{');
-  const lastBrace = cleaned.lastIndexOf('}');
-  
-  if (firstBrace !== -1 && lastBrace !== -1 && firstBrace < lastBrace) {
-    cleaned = cleaned.substring(firstBrace, lastBrace + 1);
+
+  return {
+    submissionIds: stringArray(body.submissionIds, 'submissionIds'),
+    userIds: stringArray(body.userIds, 'userIds'),
+    createdFrom: (body.createdFrom as string) || undefined,
+    createdTo: (body.createdTo as string) || undefined,
+    onlyWithoutKPIs: body.onlyWithoutKPIs === true,
+    dryRun: body.dryRun === true,
+  };
+}
+
+async function loadSubmissions(supabase: SupabaseClient, filters: ReprocessRequest): Promise<SubmissionRow[]> {
+  let query = supabase
+    .from('submissions')
+    .select('*, extracted_kpi_values(metric_name)')
+    // Submissions held for review have a transcript and can be retried here
+    .in('status', ['completed', 'needs_review'])
+    .not('transcript', 'is', null);
+
+  if (filters.submissionIds?.length) query = query.in('id', filters.submissionIds);
+  if (filters.userIds?.length) query = query.in('user_id', filters.userIds);
+  if (filters.createdFrom) query = query.gte('created_at', filters.createdFrom);
+  if (filters.createdTo) query = query.lte('created_at', filters.createdTo);
+
+  const { data, error } = await query.order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching submissions:', error);
+    throw error;
   }
-  
-  return cleaned;
+
+  const submissions = (data || []) as SubmissionRow[];
+  return filters.onlyWithoutKPIs
+    ? submissions.filter(submission => submission.extracted_kpi_values.length === 0)
+    : submissions;
 }
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders });
+const metricKey = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+function diffMetricNames(before: string[], after: ExtractedKPI[]) {
+  const beforeKeys = new Set(before.map(metricKey));
+  const afterKeys = new Set(after.map(kpi => metricKey(kpi.metric_name)));
+  return {
+    addedKPIs: after.map(kpi => kpi.metric_name).filter(name => !beforeKeys.has(metricKey(name))),
+    removedKPIs: before.filter(name => !afterKeys.has(metricKey(name))),
+  };
+}
+
+async function reprocessSubmission(context: ReprocessContext, submission: SubmissionRow): Promise<ReprocessItemResult> {
+  const { supabase, promptTemplate, dryRun } = context;
+  // Dry runs call the model too, so their usage is recorded as well
+  const ai = context.usage.track(context.ai, {
+    functionName: 'reprocess-transcripts',
+    submissionId: submission.id,
+    userId: submission.user_id,
+  });
+  const before: AnalysisSummary = {
+    keyPoints: submission.key_points?.length || 0,
+    kpis: submission.extracted_kpi_values.length,
+    quotes: submission.ai_quotes?.length || 0,
+    sentiment: submission.sentiment,
+  };
+  const result: ReprocessItemResult = {
+    submissionId: submission.id,
+    userId: submission.user_id,
+    createdAt: submission.created_at,
+    status: 'skipped',
+    message: '',
+    before,
+    after: null,
+    addedKPIs: [],
+    removedKPIs: [],
+    version: null,
+  };
+
+  console.log(`Processing submission ${submission.id}...`);
+
+  if (transcriptToText(submission.transcript).length < 50) {
+    console.log(`Skipping submission ${submission.id} - insufficient transcript data`);
+    return { ...result, message: 'Insufficient transcript data' };
   }
 
-  try {
-    console.log('Starting transcript reprocessing...');
+  // Submissions stored before redaction existed are redacted now; dry runs only redact in memory
+  let sources: RedactableSources = {
+    transcript: submission.transcript,
+    docx: submission.docx_content,
+    notes: submission.notes,
+  };
+  let redactedEntities = NO_ENTITIES;
+  const redactNow = context.redaction.enabled && !submission.pii_redaction;
+  if (redactNow) {
+    const redaction = await redactSources(ai, sources, context.redaction);
+    console.log(`PII redaction for ${submission.id}:`, redaction.summary);
+
+    if (!dryRun) {
+      if (context.redaction.keepOriginals && totalRedactions(redaction.summary.counts) > 0) {
+        await storeOriginals(supabase, submission.id, sources);
+      }
 
-    if (!openaiApiKey) {
-      throw new Error('OpenAI API key not configured');
+      const { error: redactionError } = await supabase
+        .from('submissions')
+        .update({
+          transcript: redaction.sources.transcript,
+          docx_content: redaction.sources.docx,
+          notes: redaction.sources.notes,
+          pii_redaction: redaction.summary,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', submission.id);
+
+      if (redactionError) {
+        throw new Error(`Failed to save redacted sources: ${redactionError.message}`);
+      }
     }
 
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    sources = redaction.sources;
+    redactedEntities = redaction.entities;
+  }
 
-    // Get all completed submissions that have transcripts but might need KPI re-extraction
-    const { data: submissions, error: submissionsError } = await supabase
-      .from('submissions')
-      .select('*')
-      .eq('status', 'completed')
-      .not('transcript', 'is', null)
-      .order('created_at', { ascending: false });
-
-    if (submissionsError) {
-      console.error('Error fetching submissions:', submissionsError);
-      throw submissionsError;
+  // Older submissions get their language detected and, when not English, a translation;
+  // a translation made before the transcript was redacted is made again
+  let translatedTranscript = submission.transcript_translated;
+  const needsTranslation = !submission.language ||
+    (submission.language !== CANONICAL_LANGUAGE && (!translatedTranscript || redactNow));
+  if (needsTranslation && sources.transcript) {
+    const canonical = await prepareCanonicalTranscript(ai, sources.transcript);
+    console.log(`Transcript language for ${submission.id}:`, canonical.language);
+    translatedTranscript = canonical.translated;
+
+    if (!dryRun) {
+      const { error: languageError } = await supabase
+        .from('submissions')
+        .update({
+          language: canonical.language,
+          transcript_translated: canonical.translated,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', submission.id);
+
+      if (languageError) {
+        throw new Error(`Failed to save transcript language: ${languageError.message}`);
+      }
     }
+  }
+  const analysisTranscript = translatedTranscript || sources.transcript;
 
-    console.log(`Found ${submissions?.length || 0} completed submissions with transcripts`);
+  // DOCX content parsed during the original processing run
+  const promptMessages = renderPromptMessages(promptTemplate, analysisPromptValues({
+    transcript: transcriptToText(analysisTranscript),
+    docx: sources.docx?.text || '',
+    notes: sources.notes,
+  }));
 
-    let processedCount = 0;
-    let updatedCount = 0;
+  console.log(`Sending analysis for submission ${submission.id} to ${ai.chatModel}...`);
 
-    for (const submission of submissions || []) {
-      try {
-        console.log(`Processing submission ${submission.id}...`);
+  let validated: ValidatedAnalysisResult;
+  try {
+    validated = await completeValidatedAnalysis(ai, promptMessages, { temperature: 0.1 });
+  } catch (analysisError) {
+    // The active analysis stays in place; nothing is recorded for a failed call
+    console.error(`${ai.chatModel} API error for submission ${submission.id}:`, analysisError);
+    return { ...result, status: 'failed', message: `Analysis failed: ${analysisError.message}` };
+  }
 
-        // Check if this submission already has good KPI data
-        const hasGoodKPIs = submission.extracted_kpis && submission.extracted_kpis.length > 0;
-        
-        // Get transcript text
-        let transcriptText = '';
-        if (typeof submission.transcript === 'string') {
-          transcriptText = submission.transcript;
-        } else if (submission.transcript && typeof submission.transcript === 'object') {
-          transcriptText = JSON.stringify(submission.transcript);
-        }
+  const { content } = validated;
+  console.log(`Model response for ${submission.id}: ${content.length} characters`);
+
+  const analysisRun = {
+    trigger: 'reprocess-transcripts' as const,
+    promptVersion: promptVersionLabel(promptTemplate),
+    promptTemplateId: promptTemplate.id,
+    provider: ai.name,
+    model: ai.chatModel,
+    rawOutput: content,
+    repairAttempts: validated.repairAttempts,
+  };
+
+  const analysis = validated.output && verifyAnalysisEvidence(redactAnalysisOutput(validated.output, redactedEntities), {
+    ...sources,
+    transcript: analysisTranscript,
+  });
+  if (!analysis) {
+    console.error(`Analysis response for ${submission.id} still invalid after repairs:`, validated.errors);
+    console.log(`Keeping the active analysis for submission ${submission.id}`);
+
+    let version: number | null = null;
+    if (!dryRun) {
+      const invalidAnalysis = await recordAnalysis(supabase, submission, {
+        ...analysisRun,
+        output: EMPTY_ANALYSIS_OUTPUT,
+        status: 'invalid',
+        validationErrors: validated.errors,
+      });
+      version = invalidAnalysis.version;
+    }
 
-        if (!transcriptText || transcriptText.length < 50) {
-          console.log(`Skipping submission ${submission.id} - insufficient transcript data`);
-          continue;
-        }
+    return {
+      ...result,
+      status: 'failed',
+      message: `Model response failed validation after ${validated.repairAttempts} repair attempt(s): ${validated.errors.slice(0, 3).join('; ')}`,
+      version,
+    };
+  }
 
-        // Enhanced analysis prompt focused on KPI extraction
-        const analysisPrompt = `
-You are analyzing a business submission transcript. Your PRIMARY GOAL is to extract specific, measurable KPIs and business metrics.
+  const changes = {
+    ...result,
+    after: {
+      keyPoints: analysis.key_points.length,
+      kpis: analysis.extracted_kpis.length,
+      quotes: analysis.ai_quotes.length,
+      sentiment: analysis.sentiment,
+    },
+    ...diffMetricNames(submission.extracted_kpi_values.map(kpi => kpi.metric_name), analysis.extracted_kpis),
+  };
+
+  console.log(`${dryRun ? 'Dry-run analysis' : 'New analysis'} for ${submission.id}:`, {
+    keyPointsCount: analysis.key_points.length,
+    kpisCount: analysis.extracted_kpis.length,
+    kpis: analysis.extracted_kpis.map(formatKPI),
+    sentiment: analysis.sentiment,
+    sentimentScore: analysis.sentiment_score,
+    quotesCount: analysis.ai_quotes.length,
+    ...countFlaggedEvidence(analysis),
+  });
+
+  if (dryRun) {
+    return { ...changes, status: 'would_update', message: 'Would record and activate a new analysis version' };
+  }
 
-TRANSCRIPT CONTENT:
-${transcriptText}
+  // Each run becomes a new version and is activated; admins can roll back from the history
+  const storedAnalysis = await recordAnalysis(supabase, submission, {
+    ...analysisRun,
+    output: analysis,
+  });
 
-ADDITIONAL NOTES:
-${submission.notes || 'No additional notes provided'}
+  try {
+    await activateAnalysis(supabase, submission, storedAnalysis, { status: 'completed', processing_error: null });
+    console.log(`Successfully updated submission ${submission.id} to analysis version ${storedAnalysis.version}`);
+  } catch (updateError) {
+    console.error(`Error updating submission ${submission.id}:`, updateError);
+    return {
+      ...changes,
+      status: 'failed',
+      message: `Analysis version ${storedAnalysis.version} was recorded but could not be activated: ${updateError.message}`,
+      version: storedAnalysis.version,
+    };
+  }
 
-CRITICAL ANALYSIS INSTRUCTIONS:
+  // Keep search results in line with the new analysis; the daily cluster-themes run retries failures
+  try {
+    await embedSubmission(supabase, ai, {
+      id: submission.id,
+      user_id: submission.user_id,
+      active_analysis_id: storedAnalysis.id,
+      key_points: analysis.key_points,
+      transcript: sources.transcript,
+      transcript_translated: translatedTranscript,
+      notes: sources.notes,
+    });
+  } catch (embedError) {
+    console.error(`Error embedding submission ${submission.id} for search:`, embedError);
+  }
 
-You MUST extract comprehensive business metrics and insights from the content above. Focus heavily on:
+  return {
+    ...changes,
+    status: 'updated',
+    message: `Activated analysis version ${storedAnalysis.version}`,
+    version: storedAnalysis.version,
+  };
+}
 
-1. **NUMERICAL DATA EXTRACTION**: Find ALL numbers, percentages, monetary values, quantities, timeframes, and measurable metrics
-2. **FINANCIAL METRICS**: Revenue, sales, costs, profits, budgets, ROI, growth rates, market share, margins, targets
-3. **PERFORMANCE INDICATORS**: Customer metrics, conversion rates, efficiency scores, productivity measures, quality metrics, satisfaction scores, completion rates, response times
-4. **COMPARATIVE DATA**: Before/after comparisons, year-over-year growth, benchmarks, targets vs. actuals, variance analysis
-5. **TIME-BASED METRICS**: Quarterly results, monthly performance, annual figures, project timelines, deadlines
-6. **OPERATIONAL METRICS**: Process improvements, cost savings, time reductions, quality improvements, customer feedback scores
+// Reprocesses the matching submissions one by one, reporting each result as it finishes
+async function runReprocessing(
+  context: ReprocessContext,
+  submissions: SubmissionRow[],
+  onResult: (result: ReprocessItemResult, index: number) => void
+) {
+  const counts = { processedCount: 0, updatedCount: 0, skippedCount: 0, failedCount: 0 };
+
+  for (const [index, submission] of submissions.entries()) {
+    let result: ReprocessItemResult;
+    try {
+      result = await reprocessSubmission(context, submission);
+    } catch (error) {
+      console.error(`Error processing submission ${submission.id}:`, error);
+      result = {
+        submissionId: submission.id,
+        userId: submission.user_id,
+        createdAt: submission.created_at,
+        status: 'failed',
+        message: error.message,
+        before: { keyPoints: 0, kpis: 0, quotes: 0, sentiment: null },
+        after: null,
+        addedKPIs: [],
+        removedKPIs: [],
+        version: null,
+      };
+    }
 
-EXTRACTION REQUIREMENTS:
-- Extract EVERY quantifiable metric you can find, no matter how small
-- Include the source context for each KPI (what it measures, time period, etc.)
-- Focus on business-relevant metrics that would be valuable for dashboard analytics
-- If you see any numbers, percentages, or measurable achievements, extract them as KPIs
-- Even simple metrics like "completed 3 tasks" should become "Tasks Completed: 3"
+    if (result.status === 'skipped') {
+      counts.skippedCount++;
+    } else {
+      counts.processedCount++;
+      if (result.status === 'failed') counts.failedCount++;
+      else counts.updatedCount++;
+    }
+    onResult(result, index);
 
-You MUST respond with ONLY a valid JSON object. NO markdown formatting, NO code blocks, NO explanations outside the JSON.
+    // Small delay to avoid overwhelming the API
+    if (result.status !== 'skipped' && index < submissions.length - 1) {
+      await new Promise(resolve => setTimeout(resolve, 1000));
+    }
+  }
 
-Format your response as this exact JSON structure:
-{
-  "key_points": ["Specific achievement or insight 1", "Specific achievement or insight 2", "Specific achievement or insight 3", "Specific achievement or insight 4", "Specific achievement or insight 5"],
-  "extracted_kpis": ["Metric Name: Specific Value with Units", "Another Metric: Quantified Result", "Performance Indicator: Measured Outcome", "Business Metric: Actual Number", "Achievement Metric: Concrete Result"],
-  "sentiment": "positive|negative|neutral",
-  "ai_quotes": ["Relevant quote from transcript 1", "Important statement 2", "Key insight 3"]
+  console.log(`Reprocessing completed${context.dryRun ? ' (dry run)' : ''}:`, counts);
+  return counts;
 }
 
-CRITICAL: Extract ACTUAL NUMBERS and QUANTIFIABLE ACHIEVEMENTS. If there are any metrics, percentages, or measurable outcomes mentioned in the transcript, they MUST be extracted as KPIs. DO NOT return empty arrays unless there are truly no quantifiable metrics in the content.
-`;
-
-        console.log(`Sending analysis for submission ${submission.id} to GPT-4o...`);
-
-        const analysisResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${openaiApiKey}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            model: 'gpt-4o',
-            messages: [
-              {
-                role: 'system',
-                content: 'You are an expert business analyst that specializes in extracting specific, measurable KPIs and metrics from transcripts. You MUST respond with valid JSON only, without any markdown formatting or code blocks. Your primary focus is finding concrete numbers, percentages, monetary values, and quantifiable business achievements. You should extract EVERY quantifiable metric you find, no matter how small. Be thorough and aggressive in finding metrics - even simple accomplishments should be quantified.'
-              },
-              {
-                role: 'user',
-                content: analysisPrompt
-              }
-            ],
-            temperature: 0.1,
-          }),
-        });
-
-        let analysisResult = {
-          key_points: hasGoodKPIs ? submission.key_points : ['Content reprocessed successfully'],
-          extracted_kpis: hasGoodKPIs ? submission.extracted_kpis : [],
-          sentiment: submission.sentiment || 'neutral',
-          ai_quotes: submission.ai_quotes || []
-        };
-
-        if (!analysisResponse.ok) {
-          const errorText = await analysisResponse.text();
-          console.error(`GPT-4o API error for submission ${submission.id}:`, errorText);
-          
-          // If we have good existing KPIs, don't overwrite them
-          if (hasGoodKPIs) {
-            console.log(`Keeping existing KPIs for submission ${submission.id}`);
-            processedCount++;
-            continue;
-          }
-        } else {
-          try {
-            const gptResponse = await analysisResponse.json();
-            const content = gptResponse.choices[0]?.message?.content;
-            if (content) {
-              console.log(`Raw GPT response for ${submission.id}:`, content.substring(0, 200) + '...');
-              
-              // Clean the JSON response to remove any markdown formatting
-              const cleanedContent = cleanJsonResponse(content);
-              console.log(`Cleaned content for ${submission.id}:`, cleanedContent.substring(0, 200) + '...');
-              
-              const newAnalysisResult = JSON.parse(cleanedContent);
-              
-              // Only update if we got better results or if we didn't have good KPIs before
-              if (!hasGoodKPIs || (newAnalysisResult.extracted_kpis?.length > (submission.extracted_kpis?.length || 0))) {
-                analysisResult = newAnalysisResult;
-                console.log(`New analysis for ${submission.id}:`, {
-                  keyPointsCount: analysisResult.key_points?.length || 0,
-                  kpisCount: analysisResult.extracted_kpis?.length || 0,
-                  sentiment: analysisResult.sentiment,
-                  quotesCount: analysisResult.ai_quotes?.length || 0
-                });
-              } else {
-                console.log(`Keeping existing better KPIs for submission ${submission.id}`);
-              }
-            }
-          } catch (parseError) {
-            console.error(`Error parsing GPT response for ${submission.id}:`, parseError);
-            // Keep existing data if we can't parse new results
-            if (hasGoodKPIs) {
-              console.log(`Keeping existing KPIs due to parse error for submission ${submission.id}`);
-              processedCount++;
-              continue;
-            }
-          }
-        }
+// Reprocessing rewrites analyses in bulk and spends AI credits, so only the
+// service role key and admins (from the admin dashboard) may call it
+async function isAuthorized(supabase: SupabaseClient, req: Request): Promise<boolean> {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) return false;
+  if (token === supabaseServiceKey) return true;
 
-        // Update submission with results
-        const updateData = {
-          key_points: analysisResult.key_points,
-          extracted_kpis: analysisResult.extracted_kpis,
-          sentiment: analysisResult.sentiment,
-          ai_quotes: analysisResult.ai_quotes,
-          updated_at: new Date().toISOString(),
-        };
-
-        console.log(`Updating submission ${submission.id} with:`, {
-          keyPointsCount: analysisResult.key_points?.length,
-          kpisCount: analysisResult.extracted_kpis?.length,
-          sentiment: analysisResult.sentiment
-        });
-
-        const { error: updateError } = await supabase
-          .from('submissions')
-          .update(updateData)
-          .eq('id', submission.id);
-
-        if (updateError) {
-          console.error(`Error updating submission ${submission.id}:`, updateError);
-        } else {
-          console.log(`Successfully updated submission ${submission.id}`);
-          updatedCount++;
-        }
+  const { data: { user } } = await supabase.auth.getUser(token);
+  if (!user) return false;
 
-        processedCount++;
+  const { data: adminRole } = await supabase
+    .from('user_roles')
+    .select('id')
+    .eq('user_id', user.id)
+    .eq('role', 'admin')
+    .maybeSingle();
 
-        // Small delay to avoid overwhelming the API
-        await new Promise(resolve => setTimeout(resolve, 1000));
+  return !!adminRole;
+}
 
-      } catch (error) {
-        console.error(`Error processing submission ${submission.id}:`, error);
-        // Continue with next submission
-      }
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    if (!await isAuthorized(supabase, req)) {
+      return new Response(
+        JSON.stringify({ error: 'Only admins can reprocess transcripts' }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const filters = parseRequest(await req.json().catch(() => ({})));
+    const dryRun = !!filters.dryRun;
+    console.log('Starting transcript reprocessing...', filters);
+
+    const ai = getAIProvider();
+    console.log(`Using AI provider ${ai.name} (chat: ${ai.chatModel})`);
+
+    const promptTemplate = await loadActivePromptTemplate(supabase, ANALYSIS_PROMPT);
+    console.log('Using analysis prompt:', promptVersionLabel(promptTemplate));
+
+    const submissions = await loadSubmissions(supabase, filters);
+    console.log(`Found ${submissions.length} completed submissions matching the filters`);
+
+    const context: ReprocessContext = {
+      supabase,
+      ai,
+      usage: createUsageTracker(supabase),
+      promptTemplate,
+      redaction: getRedactionSettings(),
+      dryRun,
+    };
+    const summaryMessage = (counts: { processedCount: number; updatedCount: number }) => dryRun
+      ? `Dry run completed: ${counts.processedCount} submissions analyzed, ${counts.updatedCount} would be updated`
+      : `Reprocessing completed: ${counts.processedCount} submissions processed, ${counts.updatedCount} updated`;
+
+    // Clients that accept server-sent events get one event per submission as it finishes
+    if (req.headers.get('Accept')?.includes('text/event-stream')) {
+      const encoder = new TextEncoder();
+      const stream = new ReadableStream({
+        async start(controller) {
+          const send = (event: Record<string, unknown>) =>
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+
+          try {
+            send({ type: 'start', total: submissions.length, dryRun, promptVersion: promptVersionLabel(promptTemplate) });
+            const counts = await runReprocessing(context, submissions, (result, index) =>
+              send({ type: 'item', index, total: submissions.length, result })
+            );
+            send({ type: 'done', dryRun, message: summaryMessage(counts), ...counts });
+          } catch (error) {
+            console.error('Error in transcript reprocessing:', error);
+            send({ type: 'error', error: error.message });
+          } finally {
+            controller.close();
+          }
+        },
+      });
+
+      return new Response(stream, {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+        },
+      });
     }
 
-    console.log(`Reprocessing completed: ${processedCount} processed, ${updatedCount} updated`);
+    const results: ReprocessItemResult[] = [];
+    const counts = await runReprocessing(context, submissions, result => results.push(result));
 
     return new Response(
       JSON.stringify({ 
         success: true, 
-        message: `Reprocessing completed: ${processedCount} submissions processed, ${updatedCount} updated`,
-        processedCount,
-        updatedCount
+        message: summaryMessage(counts),
+        dryRun,
+        ...counts,
+        results
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
@@ -0,0 +1,89 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import { activateAnalysis, loadAnalysis } from '../_shared/analyses.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// Makes an earlier analysis run the active one for its submission (admins only)
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { submissionId, analysisId } = await req.json();
+
+    if (!submissionId || !analysisId) {
+      throw new Error('Submission ID and analysis ID are required');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: { user } } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+    if (!user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
+    const { data: adminRole } = await supabase
+      .from('user_roles')
+      .select('id')
+      .eq('user_id', user.id)
+      .eq('role', 'admin')
+      .maybeSingle();
+
+    if (!adminRole) {
+      return jsonResponse({ error: 'Only admins can roll back analyses' }, 403);
+    }
+
+    const analysis = await loadAnalysis(supabase, analysisId);
+    if (!analysis || analysis.submission_id !== submissionId) {
+      return jsonResponse({ error: 'Analysis not found for this submission' }, 404);
+    }
+    if (analysis.status !== 'valid') {
+      return jsonResponse({ error: 'Analyses that failed validation cannot be activated' }, 400);
+    }
+
+    const { data: submission, error: submissionError } = await supabase
+      .from('submissions')
+      .select('id, user_id, created_at, status')
+      .eq('id', submissionId)
+      .single();
+
+    if (submissionError || !submission) {
+      throw new Error('Submission not found');
+    }
+    // Activating would bring a merged copy's KPIs back into the aggregates
+    if (submission.status === 'merged') {
+      return jsonResponse({ error: 'Merged submissions cannot be rolled back' }, 400);
+    }
+
+    console.log(`Rolling back submission ${submissionId} to analysis version ${analysis.version} (requested by ${user.id})`);
+    // Activating a valid run also clears a needs_review or failed state left by a later attempt
+    const storedKPIs = await activateAnalysis(supabase, submission, analysis, { status: 'completed', processing_error: null });
+
+    return jsonResponse({
+      success: true,
+      message: `Analysis version ${analysis.version} is now active`,
+      version: analysis.version,
+      kpisRestored: storedKPIs.length,
+    });
+
+  } catch (error) {
+    console.error('Error rolling back analysis:', error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
@@ -0,0 +1,88 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import { getAIProvider } from '../_shared/ai/index.ts';
+import { createUsageTracker } from '../_shared/aiUsage.ts';
+import { embedTexts } from '../_shared/embeddings.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+
+const MIN_QUERY_LENGTH = 2;
+const MAX_QUERY_LENGTH = 500;
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// Hybrid full-text and embedding search over transcripts, key points, KPIs and
+// notes. The search runs with the caller's token, so row level security limits
+// users to their own submissions while admins search everyone's.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { query: rawQuery, limit: rawLimit } = await req.json();
+    const query = typeof rawQuery === 'string' ? rawQuery.trim() : '';
+
+    if (query.length < MIN_QUERY_LENGTH || query.length > MAX_QUERY_LENGTH) {
+      return jsonResponse({ error: `Search for ${MIN_QUERY_LENGTH} to ${MAX_QUERY_LENGTH} characters` }, 400);
+    }
+    const limit = Math.min(Math.max(Math.floor(Number(rawLimit) || DEFAULT_LIMIT), 1), MAX_LIMIT);
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: { user } } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+    if (!user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
+    // Without an embedding the search falls back to full-text matches only
+    let embedding: number[] | null = null;
+    try {
+      const ai = createUsageTracker(supabase).track(getAIProvider(), {
+        functionName: 'search-insights',
+        userId: user.id,
+      });
+      [embedding] = await embedTexts(ai, [query]);
+    } catch (embedError) {
+      console.error('Error embedding search query:', embedError);
+    }
+
+    const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: `Bearer ${token}` } },
+      auth: { persistSession: false },
+    });
+
+    const { data: results, error: searchError } = await userClient.rpc('search_insights', {
+      p_query: query,
+      p_query_embedding: embedding ? JSON.stringify(embedding) : null,
+      p_limit: limit,
+    });
+
+    if (searchError) {
+      throw new Error(`Search failed: ${searchError.message}`);
+    }
+
+    console.log(`Search by ${user.id}: ${results?.length || 0} results${embedding ? '' : ' (full-text only)'}`);
+
+    return jsonResponse({ results: results || [], semantic: !!embedding });
+
+  } catch (error) {
+    console.error('Error in search:', error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
@@ -0,0 +1,4 @@
+// The shared modules read their configuration through Deno.env; under Node it is backed by process.env
+(globalThis as unknown as { Deno: unknown }).Deno = {
+  env: { get: (name: string) => process.env[name] },
+};
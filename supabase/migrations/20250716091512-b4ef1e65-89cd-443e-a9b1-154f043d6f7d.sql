@@ -0,0 +1,128 @@
+-- Durable queue for server-side submission processing.
+-- Uploading only enqueues a job; the process-jobs worker claims jobs,
+-- tracks attempts and retries with backoff, so a submission finishes
+-- even if the submitter closes the browser mid-batch.
+CREATE TABLE public.processing_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  submission_id UUID NOT NULL REFERENCES public.submissions(id) ON DELETE CASCADE,
+  job_type TEXT NOT NULL DEFAULT 'process_submission',
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  run_after TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  locked_at TIMESTAMP WITH TIME ZONE,
+  locked_by TEXT,
+  last_error TEXT,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX processing_jobs_claim_idx ON public.processing_jobs (status, run_after);
+CREATE INDEX processing_jobs_submission_id_idx ON public.processing_jobs (submission_id);
+
+-- Only one open job of each type per submission
+CREATE UNIQUE INDEX processing_jobs_open_job_idx
+  ON public.processing_jobs (submission_id, job_type)
+  WHERE status IN ('queued', 'running');
+
+ALTER TABLE public.processing_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view jobs for their own submissions" 
+  ON public.processing_jobs FOR SELECT 
+  USING (EXISTS (
+    SELECT 1 FROM public.submissions 
+    WHERE submissions.id = processing_jobs.submission_id AND submissions.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Admins can view all processing jobs" 
+  ON public.processing_jobs FOR SELECT 
+  USING (EXISTS (
+    SELECT 1 FROM public.user_roles 
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ));
+
+-- Enqueue a processing job whenever a submission is created
+CREATE OR REPLACE FUNCTION public.enqueue_submission_processing()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.status = 'processing' THEN
+    INSERT INTO public.processing_jobs (submission_id, job_type)
+    VALUES (NEW.id, 'process_submission')
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_submission_created_enqueue_processing
+  AFTER INSERT ON public.submissions
+  FOR EACH ROW EXECUTE FUNCTION public.enqueue_submission_processing();
+
+-- Atomically claim due jobs. Jobs left running by a worker that died are
+-- reclaimed once their lock is older than p_stale_seconds.
+CREATE OR REPLACE FUNCTION public.claim_processing_jobs(
+  p_worker_id TEXT,
+  p_limit INTEGER DEFAULT 1,
+  p_stale_seconds INTEGER DEFAULT 900
+)
+RETURNS SETOF public.processing_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.processing_jobs AS jobs
+  SET status = 'running',
+      attempts = jobs.attempts + 1,
+      locked_at = now(),
+      locked_by = p_worker_id,
+      updated_at = now()
+  WHERE jobs.id IN (
+    SELECT candidate.id
+    FROM public.processing_jobs AS candidate
+    WHERE candidate.attempts < candidate.max_attempts
+      AND (
+        (candidate.status = 'queued' AND candidate.run_after <= now())
+        OR (candidate.status = 'running' AND candidate.locked_at < now() - make_interval(secs => p_stale_seconds))
+      )
+    ORDER BY candidate.run_after, candidate.created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING jobs.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_processing_jobs(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Submissions left stuck in 'processing' by the old browser-driven loop get a job too
+INSERT INTO public.processing_jobs (submission_id, job_type)
+SELECT id, 'process_submission'
+FROM public.submissions
+WHERE status = 'processing'
+ON CONFLICT DO NOTHING;
+
+-- Run the worker every minute. Requires the 'project_url' and
+-- 'service_role_key' secrets to be stored in Supabase Vault.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'process-jobs-every-minute',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/process-jobs',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,4 @@
+-- Store the parsed DOCX (clean text plus headings, lists and tables as rows/cells)
+-- so analysis reruns can reuse it without downloading and parsing the file again
+ALTER TABLE public.submissions 
+ADD COLUMN docx_content JSONB;
@@ -0,0 +1,101 @@
+-- Structured KPI values extracted from each submission, replacing the "Name: Value" strings
+CREATE TABLE public.extracted_kpi_values (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  submission_id UUID NOT NULL REFERENCES public.submissions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  metric_name TEXT NOT NULL,
+  value NUMERIC,
+  unit TEXT,
+  currency TEXT,
+  period TEXT,
+  direction TEXT CHECK (direction IN ('increase', 'decrease')),
+  source TEXT CHECK (source IN ('video', 'docx', 'notes')),
+  quote TEXT,
+  -- Original "Name: Value" string for rows backfilled from submissions.extracted_kpis
+  raw_text TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_extracted_kpi_values_submission_id ON public.extracted_kpi_values(submission_id, position);
+CREATE INDEX idx_extracted_kpi_values_user_id ON public.extracted_kpi_values(user_id);
+CREATE INDEX idx_extracted_kpi_values_metric_name ON public.extracted_kpi_values(lower(metric_name));
+
+ALTER TABLE public.extracted_kpi_values ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own KPI values"
+  ON public.extracted_kpi_values FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all KPI values"
+  ON public.extracted_kpi_values FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ));
+
+-- Backfill from the legacy string array. Values are parsed best-effort:
+-- the first number in the value part, scaled by k/M/B suffixes, with %
+-- and currency symbols mapped to unit and currency.
+WITH legacy AS (
+  SELECT
+    s.id AS submission_id,
+    s.user_id,
+    (kpi.ordinality - 1)::INTEGER AS position,
+    trim(kpi.raw_text) AS raw_text,
+    CASE WHEN strpos(kpi.raw_text, ':') > 1
+      THEN trim(split_part(kpi.raw_text, ':', 1))
+      ELSE trim(kpi.raw_text)
+    END AS metric_name,
+    CASE WHEN strpos(kpi.raw_text, ':') > 1
+      THEN trim(substring(kpi.raw_text FROM strpos(kpi.raw_text, ':') + 1))
+      ELSE trim(kpi.raw_text)
+    END AS value_text
+  FROM public.submissions s
+  CROSS JOIN LATERAL unnest(s.extracted_kpis) WITH ORDINALITY AS kpi(raw_text, ordinality)
+  WHERE s.extracted_kpis IS NOT NULL
+    AND trim(kpi.raw_text) <> ''
+),
+parsed AS (
+  SELECT
+    legacy.*,
+    substring(value_text FROM '(-?)\s*[$€£₹]?\s*[0-9]') AS sign,
+    replace(substring(value_text FROM '[0-9][0-9,]*(?:\.[0-9]+)?'), ',', '') AS number_text,
+    lower(substring(value_text FROM '[0-9]\s*(k|thousand|mn|m|million|bn|b|billion)\M')) AS scale_suffix
+  FROM legacy
+)
+INSERT INTO public.extracted_kpi_values (
+  submission_id, user_id, position, metric_name, value, unit, currency, direction, raw_text
+)
+SELECT
+  submission_id,
+  user_id,
+  position,
+  metric_name,
+  CASE WHEN number_text IS NOT NULL AND number_text <> '' THEN
+    number_text::NUMERIC
+      * CASE WHEN sign = '-' THEN -1 ELSE 1 END
+      * CASE
+          WHEN scale_suffix IN ('k', 'thousand') THEN 1000
+          WHEN scale_suffix IN ('m', 'mn', 'million') THEN 1000000
+          WHEN scale_suffix IN ('b', 'bn', 'billion') THEN 1000000000
+          ELSE 1
+        END
+  END,
+  CASE WHEN value_text LIKE '%\%%' THEN '%' END,
+  CASE
+    WHEN value_text LIKE '%$%' OR value_text ~* '\musd\M' THEN 'USD'
+    WHEN value_text LIKE '%€%' OR value_text ~* '\meur\M' THEN 'EUR'
+    WHEN value_text LIKE '%£%' OR value_text ~* '\mgbp\M' THEN 'GBP'
+    WHEN value_text LIKE '%₹%' OR value_text ~* '\minr\M' THEN 'INR'
+  END,
+  CASE
+    WHEN value_text ~* '\m(increas|grew|growth|up\M|improv|rais|gain)' THEN 'increase'
+    WHEN value_text ~* '\m(decreas|declin|down\M|reduc|drop|cut|fell)' THEN 'decrease'
+  END,
+  raw_text
+FROM parsed
+WHERE metric_name <> '';
+
+COMMENT ON COLUMN public.submissions.extracted_kpis IS
+  'Deprecated: KPI values are stored in public.extracted_kpi_values. Kept for reference only and no longer written.';
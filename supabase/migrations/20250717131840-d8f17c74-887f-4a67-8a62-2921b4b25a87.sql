@@ -0,0 +1,125 @@
+-- Alternative names the analysis model may use for a KPI definition
+ALTER TABLE public.kpi_definitions ADD COLUMN synonyms TEXT[] NOT NULL DEFAULT '{}';
+
+-- Link extracted values to the KPI definition they were matched to
+ALTER TABLE public.extracted_kpi_values
+  ADD COLUMN kpi_definition_id UUID REFERENCES public.kpi_definitions(id) ON DELETE SET NULL,
+  ADD COLUMN match_confidence NUMERIC;
+
+CREATE INDEX idx_extracted_kpi_values_kpi_definition_id ON public.extracted_kpi_values(kpi_definition_id);
+
+-- Keep one performance row per submission and KPI so submissions in the same
+-- week never overwrite each other; weekly values are read from the view below
+ALTER TABLE public.user_kpi_performance
+  DROP CONSTRAINT user_kpi_performance_user_id_kpi_id_period_start_period_end_key,
+  ADD CONSTRAINT user_kpi_performance_submission_id_kpi_id_key UNIQUE (submission_id, kpi_id);
+
+CREATE INDEX idx_user_kpi_performance_period ON public.user_kpi_performance(user_id, kpi_id, period_start);
+
+-- Weekly KPI values: the most recent submission of the week that reported the KPI wins
+CREATE VIEW public.user_kpi_weekly_performance
+WITH (security_invoker = true) AS
+SELECT DISTINCT ON (performance.user_id, performance.kpi_id, performance.period_start)
+  performance.user_id,
+  performance.kpi_id,
+  performance.submission_id,
+  performance.value,
+  performance.period_start,
+  performance.period_end
+FROM public.user_kpi_performance performance
+LEFT JOIN public.submissions submission ON submission.id = performance.submission_id
+ORDER BY performance.user_id, performance.kpi_id, performance.period_start,
+  submission.created_at DESC NULLS LAST, performance.created_at DESC;
+
+-- Low-confidence matches waiting for an admin decision
+CREATE TABLE public.kpi_match_reviews (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  extracted_kpi_value_id UUID NOT NULL REFERENCES public.extracted_kpi_values(id) ON DELETE CASCADE,
+  submission_id UUID NOT NULL REFERENCES public.submissions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  suggested_kpi_id UUID REFERENCES public.kpi_definitions(id) ON DELETE SET NULL,
+  confidence NUMERIC NOT NULL,
+  reason TEXT,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  resolved_kpi_id UUID REFERENCES public.kpi_definitions(id) ON DELETE SET NULL,
+  resolved_by UUID REFERENCES auth.users(id),
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+  UNIQUE(extracted_kpi_value_id)
+);
+
+CREATE INDEX idx_kpi_match_reviews_status ON public.kpi_match_reviews(status, created_at);
+
+ALTER TABLE public.kpi_match_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view KPI match reviews"
+  ON public.kpi_match_reviews FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ));
+
+-- Resolve a review: approve with a KPI definition (writing the performance
+-- record for the review's period) or reject it by leaving out the KPI
+CREATE OR REPLACE FUNCTION public.resolve_kpi_match_review(p_review_id UUID, p_kpi_id UUID DEFAULT NULL)
+RETURNS public.kpi_match_reviews
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  review public.kpi_match_reviews;
+  kpi_value NUMERIC;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can resolve KPI match reviews';
+  END IF;
+
+  SELECT * INTO review
+  FROM public.kpi_match_reviews
+  WHERE id = p_review_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'KPI match review % not found', p_review_id;
+  END IF;
+
+  IF review.status <> 'pending' THEN
+    RAISE EXCEPTION 'KPI match review % was already %', p_review_id, review.status;
+  END IF;
+
+  IF p_kpi_id IS NOT NULL THEN
+    UPDATE public.extracted_kpi_values
+    SET kpi_definition_id = p_kpi_id,
+        match_confidence = 1
+    WHERE id = review.extracted_kpi_value_id
+    RETURNING value INTO kpi_value;
+
+    IF kpi_value IS NOT NULL THEN
+      INSERT INTO public.user_kpi_performance (user_id, kpi_id, submission_id, value, period_start, period_end)
+      VALUES (review.user_id, p_kpi_id, review.submission_id, kpi_value, review.period_start, review.period_end)
+      ON CONFLICT (submission_id, kpi_id)
+      DO UPDATE SET value = EXCLUDED.value;
+    END IF;
+  END IF;
+
+  UPDATE public.kpi_match_reviews
+  SET status = CASE WHEN p_kpi_id IS NULL THEN 'rejected' ELSE 'approved' END,
+      resolved_kpi_id = p_kpi_id,
+      resolved_by = auth.uid(),
+      resolved_at = now()
+  WHERE id = p_review_id
+  RETURNING * INTO review;
+
+  RETURN review;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_kpi_match_review(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.resolve_kpi_match_review(UUID, UUID) TO authenticated;
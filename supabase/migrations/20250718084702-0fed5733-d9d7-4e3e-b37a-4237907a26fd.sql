@@ -0,0 +1,6 @@
+-- Match the transcription API limit. Recordings over 25MB need ffmpeg to be split,
+-- which the hosted Edge Runtime cannot run; deployments whose functions have ffmpeg
+-- can raise this together with VITE_MAX_UPLOAD_MB (see "Large Recordings" in the README)
+UPDATE storage.buckets
+SET file_size_limit = 25 * 1024 * 1024
+WHERE id = 'submissions';
@@ -0,0 +1,76 @@
+-- Every analysis run of a submission, so reprocessing never overwrites earlier results
+CREATE TABLE public.submission_analyses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  submission_id UUID NOT NULL REFERENCES public.submissions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  -- What produced the run: process-submission, reprocess-transcripts or legacy (backfilled)
+  trigger TEXT NOT NULL,
+  prompt_version TEXT,
+  provider TEXT,
+  model TEXT,
+  key_points TEXT[] NOT NULL DEFAULT '{}',
+  extracted_kpis JSONB NOT NULL DEFAULT '[]'::jsonb,
+  sentiment TEXT,
+  ai_quotes TEXT[] NOT NULL DEFAULT '{}',
+  raw_output TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+  UNIQUE(submission_id, version)
+);
+
+CREATE INDEX idx_submission_analyses_submission_id ON public.submission_analyses(submission_id, version DESC);
+
+ALTER TABLE public.submissions
+  ADD COLUMN active_analysis_id UUID REFERENCES public.submission_analyses(id) ON DELETE SET NULL;
+
+ALTER TABLE public.submission_analyses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view analyses of their own submissions"
+  ON public.submission_analyses FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all submission analyses"
+  ON public.submission_analyses FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ));
+
+-- Record the current results of processed submissions as their first version
+INSERT INTO public.submission_analyses (
+  submission_id, user_id, version, trigger, prompt_version, key_points, extracted_kpis, sentiment, ai_quotes, created_at
+)
+SELECT
+  s.id,
+  s.user_id,
+  1,
+  'legacy',
+  'legacy',
+  COALESCE(s.key_points, '{}'),
+  COALESCE((
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'metric_name', k.metric_name,
+        'value', k.value,
+        'unit', k.unit,
+        'currency', k.currency,
+        'period', k.period,
+        'direction', k.direction,
+        'source', k.source,
+        'quote', k.quote
+      ) ORDER BY k.position
+    )
+    FROM public.extracted_kpi_values k
+    WHERE k.submission_id = s.id
+  ), '[]'::jsonb),
+  s.sentiment,
+  COALESCE(s.ai_quotes, '{}'),
+  s.updated_at
+FROM public.submissions s
+WHERE s.status = 'completed';
+
+UPDATE public.submissions s
+SET active_analysis_id = a.id
+FROM public.submission_analyses a
+WHERE a.submission_id = s.id AND a.version = 1;
@@ -0,0 +1,144 @@
+-- Analysis prompts, editable by admins. Each edit is a new version of the named
+-- template; exactly one version per name is active and rendered by the edge functions.
+CREATE TABLE public.prompt_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  system_prompt TEXT NOT NULL,
+  -- Uses {{transcript}}, {{docx}} and {{notes}} placeholders
+  user_prompt TEXT NOT NULL,
+  change_note TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  activated_at TIMESTAMP WITH TIME ZONE,
+
+  UNIQUE(name, version)
+);
+
+CREATE UNIQUE INDEX idx_prompt_templates_active ON public.prompt_templates(name) WHERE is_active;
+
+ALTER TABLE public.prompt_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view prompt templates"
+  ON public.prompt_templates FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ));
+
+-- New versions are inserted inactive; activation goes through activate_prompt_template
+CREATE POLICY "Admins can create prompt template versions"
+  ON public.prompt_templates FOR INSERT
+  WITH CHECK (
+    NOT is_active AND EXISTS (
+      SELECT 1 FROM public.user_roles
+      WHERE user_id = auth.uid() AND role = 'admin'
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.activate_prompt_template(p_template_id UUID)
+RETURNS public.prompt_templates
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  template public.prompt_templates;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can activate prompt templates';
+  END IF;
+
+  SELECT * INTO template
+  FROM public.prompt_templates
+  WHERE id = p_template_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Prompt template % not found', p_template_id;
+  END IF;
+
+  UPDATE public.prompt_templates
+  SET is_active = false
+  WHERE name = template.name AND is_active AND id <> p_template_id;
+
+  UPDATE public.prompt_templates
+  SET is_active = true,
+      activated_at = now()
+  WHERE id = p_template_id
+  RETURNING * INTO template;
+
+  RETURN template;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.activate_prompt_template(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.activate_prompt_template(UUID) TO authenticated;
+
+-- The prompt previously hard-coded in process-submission, now shared by reprocess-transcripts too
+INSERT INTO public.prompt_templates (name, version, system_prompt, user_prompt, change_note, is_active, activated_at)
+VALUES (
+  'analysis',
+  1,
+  $prompt$You are an expert business analyst that specializes in extracting specific, measurable KPIs and metrics from various content sources including video transcripts, DOCX documents, and text notes. You MUST respond with valid JSON only, without any markdown formatting or code blocks. Your primary focus is finding concrete numbers, percentages, monetary values, and quantifiable business achievements from ALL provided content sources. You should extract EVERY quantifiable metric you find, no matter how small. Be thorough and aggressive in finding metrics - even simple accomplishments should be quantified.$prompt$,
+  $prompt$You are analyzing a comprehensive business submission with multiple content sources. Your PRIMARY GOAL is to extract specific, measurable KPIs and business metrics from ALL sources provided.
+
+CONTENT SOURCES:
+
+1. VIDEO TRANSCRIPT:
+{{transcript}}
+
+2. DOCX DOCUMENT CONTENT (Parsed from the document; tables are shown as rows and cells - PRIORITIZE THIS CONTENT):
+{{docx}}
+
+3. ADDITIONAL NOTES:
+{{notes}}
+
+CRITICAL ANALYSIS INSTRUCTIONS:
+
+You MUST extract comprehensive business metrics and insights from ALL content sources above. Focus heavily on:
+
+1. **NUMERICAL DATA EXTRACTION**: Find ALL numbers, percentages, monetary values, quantities, timeframes, and measurable metrics
+2. **FINANCIAL METRICS**: Revenue, sales, costs, profits, budgets, ROI, growth rates, market share, margins, targets
+3. **PERFORMANCE INDICATORS**: Customer metrics, conversion rates, efficiency scores, productivity measures, quality metrics, satisfaction scores, completion rates, response times
+4. **COMPARATIVE DATA**: Before/after comparisons, year-over-year growth, benchmarks, targets vs. actuals, variance analysis
+5. **TIME-BASED METRICS**: Quarterly results, monthly performance, annual figures, project timelines, deadlines
+6. **OPERATIONAL METRICS**: Process improvements, cost savings, time reductions, quality improvements, customer feedback scores
+
+EXTRACTION REQUIREMENTS:
+- Extract EVERY quantifiable metric you can find, no matter how small
+- Include the source context for each KPI (what it measures, time period, etc.)
+- Focus on business-relevant metrics that would be valuable for dashboard analytics
+- If you see any numbers, percentages, or measurable achievements, extract them as KPIs
+- Even simple metrics like "completed 3 tasks" should become {"metric_name": "Tasks Completed", "value": 3, "unit": "tasks"}
+- "value" MUST be a plain number (no units, symbols or thousands separators); write 1.2 million as 1200000
+- Put the currency as an ISO code in "currency" (e.g. "USD") and any other unit (%, hours, deals, customers) in "unit"
+- "period" is the time span the value covers as stated in the content (e.g. "this week", "Q3 2025"), or null
+- "direction" is "increase" or "decrease" when the content describes a change, otherwise null
+- "source" is where the metric was found: "video", "docx" or "notes"
+- "quote" is the exact sentence or table row the metric was taken from
+
+You MUST respond with ONLY a valid JSON object. NO markdown formatting, NO code blocks, NO explanations outside the JSON.
+
+Format your response as this exact JSON structure:
+{
+  "key_points": ["Specific achievement or insight 1", "Specific achievement or insight 2", "Specific achievement or insight 3", "Specific achievement or insight 4", "Specific achievement or insight 5"],
+  "extracted_kpis": [
+    {"metric_name": "Metric Name", "value": 12, "unit": "deals|%|hours|null", "currency": "USD|null", "period": "this week|null", "direction": "increase|decrease|null", "source": "video|docx|notes", "quote": "Exact supporting quote"}
+  ],
+  "sentiment": "positive|negative|neutral",
+  "ai_quotes": ["Relevant quote from video or DOCX 1", "Important statement 2", "Key insight 3"]
+}
+
+CRITICAL: Extract ACTUAL NUMBERS and QUANTIFIABLE ACHIEVEMENTS. If there are any metrics, percentages, or measurable outcomes mentioned in any of the content sources, they MUST be extracted as KPIs. DO NOT return empty arrays unless there are truly no quantifiable metrics in the content.$prompt$,
+  'Initial version, moved from the edge functions',
+  true,
+  now()
+);
+
+-- Runs recorded before templates existed keep their prompt_version label
+ALTER TABLE public.submission_analyses
+  ADD COLUMN prompt_template_id UUID REFERENCES public.prompt_templates(id) ON DELETE SET NULL;
@@ -0,0 +1,69 @@
+-- Prices used to estimate the cost of AI calls, editable by admins in the AI Usage tab.
+-- Models are matched exactly or by prefix, so "gpt-4o" also prices "gpt-4o-2024-08-06".
+CREATE TABLE public.ai_model_prices (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  model TEXT NOT NULL UNIQUE,
+  -- USD per million tokens
+  input_per_million NUMERIC NOT NULL DEFAULT 0,
+  output_per_million NUMERIC NOT NULL DEFAULT 0,
+  -- USD per minute of transcribed audio
+  audio_per_minute NUMERIC NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One row per AI call made by the edge functions
+CREATE TABLE public.ai_usage (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- Kept when the submission is deleted so past costs stay accurate
+  submission_id UUID REFERENCES public.submissions(id) ON DELETE SET NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  function_name TEXT NOT NULL,
+  -- transcription, or the task of a chat completion (analysis, ...)
+  operation TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  input_tokens INTEGER,
+  output_tokens INTEGER,
+  audio_seconds NUMERIC,
+  -- Estimated with the prices at the time of the call; null when the model has no price
+  estimated_cost NUMERIC(12, 6),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_ai_usage_created_at ON public.ai_usage(created_at);
+CREATE INDEX idx_ai_usage_user_id ON public.ai_usage(user_id);
+CREATE INDEX idx_ai_usage_submission_id ON public.ai_usage(submission_id);
+
+ALTER TABLE public.ai_model_prices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ai_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage AI model prices"
+  ON public.ai_model_prices FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ));
+
+CREATE POLICY "Admins can view AI usage"
+  ON public.ai_usage FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ));
+
+-- Published OpenAI list prices (July 2025); the fake provider is free
+INSERT INTO public.ai_model_prices (model, input_per_million, output_per_million, audio_per_minute) VALUES
+  ('gpt-4o', 2.50, 10.00, 0),
+  ('gpt-4o-mini', 0.15, 0.60, 0),
+  ('gpt-4.1', 2.00, 8.00, 0),
+  ('gpt-4.1-mini', 0.40, 1.60, 0),
+  ('whisper-1', 0, 0, 0.006),
+  ('gpt-4o-transcribe', 0, 0, 0.006),
+  ('gpt-4o-mini-transcribe', 0, 0, 0.003),
+  ('fake-chat', 0, 0, 0),
+  ('fake-transcription', 0, 0, 0);
@@ -0,0 +1,11 @@
+-- Analyses that still fail schema validation after the repair attempts are kept
+-- for inspection but never activated; their submission waits for admin review
+ALTER TABLE public.submission_analyses
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'valid' CHECK (status IN ('valid', 'invalid')),
+  ADD COLUMN validation_errors TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN repair_attempts INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.submissions DROP CONSTRAINT IF EXISTS submissions_status_check;
+ALTER TABLE public.submissions
+  ADD CONSTRAINT submissions_status_check
+  CHECK (status IN ('processing', 'completed', 'failed', 'needs_review'));
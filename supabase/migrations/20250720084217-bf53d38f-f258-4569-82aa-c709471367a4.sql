@@ -0,0 +1,86 @@
+-- Source references and verification results for extracted KPIs and quotes.
+-- source_ref points at a transcript segment, DOCX paragraph or table cell, or
+-- a character range of the notes; rows stored before verification stay 'unchecked'.
+ALTER TABLE public.extracted_kpi_values
+  ADD COLUMN source_ref JSONB,
+  ADD COLUMN verification_status TEXT NOT NULL DEFAULT 'unchecked'
+    CHECK (verification_status IN ('verified', 'flagged', 'unchecked')),
+  ADD COLUMN verification_issues TEXT[] NOT NULL DEFAULT '{}';
+
+-- One entry per ai_quotes item, in the same order
+ALTER TABLE public.submissions
+  ADD COLUMN quote_evidence JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.submission_analyses
+  ADD COLUMN quote_evidence JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Replace the "aggressive" extraction prompt: only explicitly stated numbers,
+-- quoted verbatim so the verification pass can find them in the sources
+-- Switch over only while the newest seeded version is still active; a prompt saved
+-- by an admin, or an older version they went back to, stays active and the new
+-- version is added inactive for them to review
+UPDATE public.prompt_templates
+SET is_active = false
+WHERE name = 'analysis' AND is_active AND created_by IS NULL
+  AND version = (
+    SELECT MAX(version) FROM public.prompt_templates
+    WHERE name = 'analysis' AND created_by IS NULL
+  );
+
+INSERT INTO public.prompt_templates (name, version, system_prompt, user_prompt, change_note, is_active, activated_at)
+SELECT
+  'analysis',
+  COALESCE(MAX(version), 0) + 1,
+  $prompt$You are an expert business analyst that extracts specific, measurable KPIs and metrics from video transcripts, DOCX documents and text notes. You MUST respond with valid JSON only, without any markdown formatting or code blocks. Only report numbers that are explicitly stated in the content. Never estimate, infer, calculate or round numbers that are not written in the content, and never quantify achievements that were described without a number. Every KPI and quote must be copied word for word from the content so it can be checked against the source.$prompt$,
+  $prompt$You are analyzing a business submission with multiple content sources. Your goal is to extract the measurable KPIs and business metrics that the sources explicitly state.
+
+CONTENT SOURCES:
+
+1. VIDEO TRANSCRIPT:
+{{transcript}}
+
+2. DOCX DOCUMENT CONTENT (Parsed from the document; tables are shown as rows and cells):
+{{docx}}
+
+3. ADDITIONAL NOTES:
+{{notes}}
+
+ANALYSIS INSTRUCTIONS:
+
+Look for explicitly stated metrics in ALL content sources, for example:
+
+1. **FINANCIAL METRICS**: Revenue, sales, costs, profits, budgets, ROI, growth rates, margins, targets
+2. **PERFORMANCE INDICATORS**: Customer metrics, conversion rates, efficiency, productivity, quality, satisfaction scores, completion rates, response times
+3. **COMPARATIVE DATA**: Before/after comparisons, year-over-year growth, targets vs. actuals
+4. **TIME-BASED METRICS**: Quarterly, monthly and annual figures, project timelines
+5. **OPERATIONAL METRICS**: Cost savings, time reductions, quality improvements
+
+EXTRACTION REQUIREMENTS:
+- Only extract a KPI when its number is written in the content; a statement such as "completed 3 tasks" becomes {"metric_name": "Tasks Completed", "value": 3, "unit": "tasks"}
+- Do NOT invent, estimate or derive numbers, and do NOT turn statements without a number into KPIs
+- "value" MUST be a plain number (no units, symbols or thousands separators); write 1.2 million as 1200000
+- Put the currency as an ISO code in "currency" (e.g. "USD") and any other unit (%, hours, deals, customers) in "unit"
+- "period" is the time span the value covers as stated in the content (e.g. "this week", "Q3 2025"), or null
+- "direction" is "increase" or "decrease" when the content describes a change, otherwise null
+- "source" is where the metric was found: "video", "docx" or "notes"
+- "quote" is the sentence or table row the metric was taken from, copied word for word, and must contain the value
+- Every entry in "ai_quotes" must be copied word for word from the content
+
+You MUST respond with ONLY a valid JSON object. NO markdown formatting, NO code blocks, NO explanations outside the JSON.
+
+Format your response as this exact JSON structure:
+{
+  "key_points": ["Specific achievement or insight 1", "Specific achievement or insight 2", "Specific achievement or insight 3"],
+  "extracted_kpis": [
+    {"metric_name": "Metric Name", "value": 12, "unit": "deals|%|hours|null", "currency": "USD|null", "period": "this week|null", "direction": "increase|decrease|null", "source": "video|docx|notes", "quote": "Exact supporting quote"}
+  ],
+  "sentiment": "positive|negative|neutral",
+  "ai_quotes": ["Exact quote from the content 1", "Exact quote 2", "Exact quote 3"]
+}
+
+Return an empty "extracted_kpis" array when the content states no numbers. Extracted values are checked against the source text and unsupported ones are flagged.$prompt$,
+  'Extract only explicitly stated numbers and quote sources verbatim for evidence verification',
+  NOT COALESCE(bool_or(is_active), false),
+  CASE WHEN COALESCE(bool_or(is_active), false) THEN NULL ELSE now() END
+FROM public.prompt_templates
+WHERE name = 'analysis';
@@ -0,0 +1,161 @@
+-- Model confidence (0 to 1) for every KPI, key point and sentiment label. Items
+-- scoring below the admin-configured threshold stay out of aggregate charts
+-- until an admin confirms them; items without a score (older analyses) are shown.
+ALTER TABLE public.extracted_kpi_values
+  ADD COLUMN confidence NUMERIC(3,2) CHECK (confidence BETWEEN 0 AND 1),
+  ADD COLUMN confirmed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN confirmed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- key_point_confidences is aligned with key_points. Confirmations store the
+-- confirmed text, so they lapse when a new analysis changes the item.
+ALTER TABLE public.submissions
+  ADD COLUMN key_point_confidences NUMERIC[] NOT NULL DEFAULT '{}',
+  ADD COLUMN sentiment_confidence NUMERIC(3,2) CHECK (sentiment_confidence BETWEEN 0 AND 1),
+  ADD COLUMN confirmed_key_points TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN confirmed_sentiment TEXT;
+
+ALTER TABLE public.submission_analyses
+  ADD COLUMN key_point_confidences NUMERIC[] NOT NULL DEFAULT '{}',
+  ADD COLUMN sentiment_confidence NUMERIC(3,2);
+
+CREATE TABLE public.confidence_thresholds (
+  item_type TEXT NOT NULL PRIMARY KEY CHECK (item_type IN ('kpi', 'key_point', 'sentiment')),
+  threshold NUMERIC(3,2) NOT NULL DEFAULT 0.7 CHECK (threshold BETWEEN 0 AND 1),
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.confidence_thresholds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view confidence thresholds"
+  ON public.confidence_thresholds FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ));
+
+CREATE POLICY "Admins can update confidence thresholds"
+  ON public.confidence_thresholds FOR UPDATE
+  USING (EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ));
+
+INSERT INTO public.confidence_thresholds (item_type, threshold)
+VALUES ('kpi', 0.7), ('key_point', 0.6), ('sentiment', 0.6);
+
+-- Marks a low-confidence item as checked by an admin. p_item is the KPI value id
+-- for 'kpi', the key point text for 'key_point' and ignored for 'sentiment'.
+CREATE OR REPLACE FUNCTION public.confirm_insight(p_submission_id UUID, p_item_type TEXT, p_item TEXT DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can confirm insights';
+  END IF;
+
+  IF p_item_type = 'kpi' THEN
+    UPDATE public.extracted_kpi_values
+    SET confirmed_at = now(),
+        confirmed_by = auth.uid()
+    WHERE id = p_item::UUID AND submission_id = p_submission_id;
+  ELSIF p_item_type = 'key_point' THEN
+    UPDATE public.submissions
+    SET confirmed_key_points = CASE
+          WHEN p_item = ANY(confirmed_key_points) THEN confirmed_key_points
+          ELSE array_append(confirmed_key_points, p_item)
+        END
+    WHERE id = p_submission_id AND p_item = ANY(key_points);
+  ELSIF p_item_type = 'sentiment' THEN
+    UPDATE public.submissions
+    SET confirmed_sentiment = sentiment
+    WHERE id = p_submission_id AND sentiment IS NOT NULL;
+  ELSE
+    RAISE EXCEPTION 'Unknown insight type %', p_item_type;
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Insight not found on submission %', p_submission_id;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.confirm_insight(UUID, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.confirm_insight(UUID, TEXT, TEXT) TO authenticated;
+
+-- New prompt version asking for the scores
+-- (activated only while the newest seeded version is active, as in 20250720084217)
+UPDATE public.prompt_templates
+SET is_active = false
+WHERE name = 'analysis' AND is_active AND created_by IS NULL
+  AND version = (
+    SELECT MAX(version) FROM public.prompt_templates
+    WHERE name = 'analysis' AND created_by IS NULL
+  );
+
+INSERT INTO public.prompt_templates (name, version, system_prompt, user_prompt, change_note, is_active, activated_at)
+SELECT
+  'analysis',
+  COALESCE(MAX(version), 0) + 1,
+  $prompt$You are an expert business analyst that extracts specific, measurable KPIs and metrics from video transcripts, DOCX documents and text notes. You MUST respond with valid JSON only, without any markdown formatting or code blocks. Only report numbers that are explicitly stated in the content. Never estimate, infer, calculate or round numbers that are not written in the content, and never quantify achievements that were described without a number. Every KPI and quote must be copied word for word from the content so it can be checked against the source. Give an honest confidence score between 0 and 1 for every KPI, key point and the sentiment label.$prompt$,
+  $prompt$You are analyzing a business submission with multiple content sources. Your goal is to extract the measurable KPIs and business metrics that the sources explicitly state.
+
+CONTENT SOURCES:
+
+1. VIDEO TRANSCRIPT:
+{{transcript}}
+
+2. DOCX DOCUMENT CONTENT (Parsed from the document; tables are shown as rows and cells):
+{{docx}}
+
+3. ADDITIONAL NOTES:
+{{notes}}
+
+ANALYSIS INSTRUCTIONS:
+
+Look for explicitly stated metrics in ALL content sources, for example:
+
+1. **FINANCIAL METRICS**: Revenue, sales, costs, profits, budgets, ROI, growth rates, margins, targets
+2. **PERFORMANCE INDICATORS**: Customer metrics, conversion rates, efficiency, productivity, quality, satisfaction scores, completion rates, response times
+3. **COMPARATIVE DATA**: Before/after comparisons, year-over-year growth, targets vs. actuals
+4. **TIME-BASED METRICS**: Quarterly, monthly and annual figures, project timelines
+5. **OPERATIONAL METRICS**: Cost savings, time reductions, quality improvements
+
+EXTRACTION REQUIREMENTS:
+- Only extract a KPI when its number is written in the content; a statement such as "completed 3 tasks" becomes {"metric_name": "Tasks Completed", "value": 3, "unit": "tasks"}
+- Do NOT invent, estimate or derive numbers, and do NOT turn statements without a number into KPIs
+- "value" MUST be a plain number (no units, symbols or thousands separators); write 1.2 million as 1200000
+- Put the currency as an ISO code in "currency" (e.g. "USD") and any other unit (%, hours, deals, customers) in "unit"
+- "period" is the time span the value covers as stated in the content (e.g. "this week", "Q3 2025"), or null
+- "direction" is "increase" or "decrease" when the content describes a change, otherwise null
+- "source" is where the metric was found: "video", "docx" or "notes"
+- "quote" is the sentence or table row the metric was taken from, copied word for word, and must contain the value
+- Every entry in "ai_quotes" must be copied word for word from the content
+- "confidence" is a number from 0 to 1 for how certain you are that the item is correct and stated in the content: close to 1 when it is stated explicitly and unambiguously, below 0.5 when it is vague, partial or you are unsure
+- Give every key point and the sentiment label a confidence in the same way
+
+You MUST respond with ONLY a valid JSON object. NO markdown formatting, NO code blocks, NO explanations outside the JSON.
+
+Format your response as this exact JSON structure:
+{
+  "key_points": [{"text": "Specific achievement or insight 1", "confidence": 0.9}, {"text": "Specific achievement or insight 2", "confidence": 0.7}],
+  "extracted_kpis": [
+    {"metric_name": "Metric Name", "value": 12, "unit": "deals|%|hours|null", "currency": "USD|null", "period": "this week|null", "direction": "increase|decrease|null", "source": "video|docx|notes", "quote": "Exact supporting quote", "confidence": 0.95}
+  ],
+  "sentiment": "positive|negative|neutral",
+  "sentiment_confidence": 0.8,
+  "ai_quotes": ["Exact quote from the content 1", "Exact quote 2", "Exact quote 3"]
+}
+
+Return an empty "extracted_kpis" array when the content states no numbers. Extracted values are checked against the source text and unsupported ones are flagged.$prompt$,
+  'Ask for confidence scores on KPIs, key points and sentiment',
+  NOT COALESCE(bool_or(is_active), false),
+  CASE WHEN COALESCE(bool_or(is_active), false) THEN NULL ELSE now() END
+FROM public.prompt_templates
+WHERE name = 'analysis';
@@ -0,0 +1,20 @@
+-- Transcripts, DOCX content and notes are stored with personal data replaced
+-- by placeholders such as [EMAIL] and [NAME]. pii_redaction records which
+-- detectors ran and how many items were replaced; NULL means the submission
+-- was stored before redaction and is redacted on its next reprocess.
+ALTER TABLE public.submissions
+  ADD COLUMN pii_redaction JSONB;
+
+-- Unredacted sources, kept only when PII_KEEP_ORIGINALS is enabled. RLS is on
+-- with no policies, so only the service role can read or write them.
+CREATE TABLE public.submission_pii_originals (
+  submission_id UUID NOT NULL PRIMARY KEY REFERENCES public.submissions(id) ON DELETE CASCADE,
+  transcript JSONB,
+  docx_content JSONB,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.submission_pii_originals ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON public.submission_pii_originals FROM anon, authenticated;
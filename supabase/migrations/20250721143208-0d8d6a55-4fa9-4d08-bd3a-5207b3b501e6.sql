@@ -0,0 +1,10 @@
+-- Detected transcript language (ISO 639-1) and, for non-English recordings,
+-- the English translation the analysis runs on. transcript keeps the original.
+ALTER TABLE public.submissions
+  ADD COLUMN language TEXT,
+  ADD COLUMN transcript_translated JSONB;
+
+-- Whisper reports the language by name; the rest are detected on reprocess
+UPDATE public.submissions
+SET language = 'en'
+WHERE transcript ->> 'language' IN ('en', 'english');
@@ -0,0 +1,160 @@
+-- Media retention: how long uploaded recordings and DOCX files are kept once
+-- a submission has been processed. One policy per role plus a default for
+-- users whose roles have none. Days are counted from the upload.
+CREATE TABLE public.media_retention_policies (
+  applies_to TEXT NOT NULL PRIMARY KEY CHECK (applies_to IN ('default', 'admin', 'team_lead', 'user')),
+  mode TEXT NOT NULL CHECK (mode IN ('delete_immediately', 'keep_days', 'keep_forever')),
+  retention_days INTEGER CHECK (retention_days > 0),
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((mode = 'keep_days') = (retention_days IS NOT NULL))
+);
+
+ALTER TABLE public.media_retention_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view media retention policies"
+  ON public.media_retention_policies FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ));
+
+CREATE POLICY "Admins can create media retention policies"
+  ON public.media_retention_policies FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ));
+
+CREATE POLICY "Admins can update media retention policies"
+  ON public.media_retention_policies FOR UPDATE
+  USING (EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ));
+
+-- Removing a role's policy falls back to the default, which must stay
+CREATE POLICY "Admins can delete role media retention policies"
+  ON public.media_retention_policies FOR DELETE
+  USING (applies_to <> 'default' AND EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ));
+
+-- Matches the previous behaviour of deleting the video right after processing
+INSERT INTO public.media_retention_policies (applies_to, mode)
+VALUES ('default', 'delete_immediately');
+
+ALTER TABLE public.submissions
+  ADD COLUMN media_deleted_at TIMESTAMP WITH TIME ZONE;
+
+-- One row per file removed from the submissions bucket
+CREATE TABLE public.media_cleanup_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  submission_id UUID REFERENCES public.submissions(id) ON DELETE SET NULL,
+  user_id UUID,
+  file_path TEXT NOT NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('deleted_after_processing', 'retention_expired')),
+  policy_mode TEXT NOT NULL,
+  retention_days INTEGER,
+  removed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_media_cleanup_log_removed_at ON public.media_cleanup_log (removed_at DESC);
+
+ALTER TABLE public.media_cleanup_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view the media cleanup log"
+  ON public.media_cleanup_log FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ));
+
+-- The policy of the user's most senior role that has one, otherwise the default.
+-- Users can look up their own policy, admins anyone's.
+CREATE OR REPLACE FUNCTION public.media_retention_policy_for(p_user_id UUID)
+RETURNS TABLE (mode TEXT, retention_days INTEGER)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id AND NOT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can look up other users'' retention policies';
+  END IF;
+
+  RETURN QUERY
+  SELECT p.mode, p.retention_days
+  FROM public.media_retention_policies p
+  WHERE p.applies_to = COALESCE((
+    SELECT r.role::TEXT
+    FROM public.user_roles r
+    JOIN public.media_retention_policies rp ON rp.applies_to = r.role::TEXT
+    WHERE r.user_id = p_user_id
+    ORDER BY CASE r.role WHEN 'admin' THEN 1 WHEN 'team_lead' THEN 2 ELSE 3 END
+    LIMIT 1
+  ), 'default');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.media_retention_policy_for(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.media_retention_policy_for(UUID) TO authenticated, service_role;
+
+-- Processed submissions whose files are due for removal under their owner's policy
+CREATE OR REPLACE FUNCTION public.media_cleanup_candidates(p_limit INTEGER DEFAULT 200)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  video_files JSONB,
+  docx_file TEXT,
+  mode TEXT,
+  retention_days INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT s.id, s.user_id, s.created_at, s.video_files, s.docx_file, p.mode, p.retention_days
+  FROM public.submissions s
+  CROSS JOIN LATERAL public.media_retention_policy_for(s.user_id) p
+  WHERE s.media_deleted_at IS NULL
+    AND (
+      -- Submissions needing review keep their files so an admin can check the source
+      (p.mode = 'delete_immediately' AND s.status = 'completed')
+      OR (
+        p.mode = 'keep_days'
+        AND s.status IN ('completed', 'needs_review')
+        AND s.created_at + make_interval(days => p.retention_days) <= now()
+      )
+    )
+  ORDER BY s.created_at
+  LIMIT p_limit;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.media_cleanup_candidates(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Enforce the policies once a day. Uses the same Vault secrets as process-jobs.
+SELECT cron.schedule(
+  'cleanup-media-daily',
+  '15 3 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/cleanup-media',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,114 @@
+-- Numeric sentiment from -1 (very negative) to 1 (very positive), overall and
+-- per aspect. The sentiment label is kept for existing charts and filters.
+ALTER TABLE public.submissions
+  ADD COLUMN sentiment_score NUMERIC(3,2) CHECK (sentiment_score BETWEEN -1 AND 1);
+
+ALTER TABLE public.submission_analyses
+  ADD COLUMN sentiment_score NUMERIC(3,2),
+  ADD COLUMN aspect_sentiments JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Aspect scores of each submission's active analysis, replaced on every
+-- (re)activation like extracted_kpi_values
+CREATE TABLE public.submission_aspect_sentiments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  submission_id UUID NOT NULL REFERENCES public.submissions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  aspect TEXT NOT NULL CHECK (aspect IN ('workload', 'client_relationships', 'team_morale', 'tooling', 'leadership_support')),
+  score NUMERIC(3,2) NOT NULL CHECK (score BETWEEN -1 AND 1),
+  quote TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (submission_id, aspect)
+);
+
+CREATE INDEX idx_submission_aspect_sentiments_user_id ON public.submission_aspect_sentiments(user_id);
+CREATE INDEX idx_submission_aspect_sentiments_aspect ON public.submission_aspect_sentiments(aspect);
+
+ALTER TABLE public.submission_aspect_sentiments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own aspect sentiment"
+  ON public.submission_aspect_sentiments FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all aspect sentiment"
+  ON public.submission_aspect_sentiments FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ));
+
+-- New prompt version asking for the sentiment scores
+-- (activated only while the newest seeded version is active, as in 20250720084217)
+UPDATE public.prompt_templates
+SET is_active = false
+WHERE name = 'analysis' AND is_active AND created_by IS NULL
+  AND version = (
+    SELECT MAX(version) FROM public.prompt_templates
+    WHERE name = 'analysis' AND created_by IS NULL
+  );
+
+INSERT INTO public.prompt_templates (name, version, system_prompt, user_prompt, change_note, is_active, activated_at)
+SELECT
+  'analysis',
+  COALESCE(MAX(version), 0) + 1,
+  $prompt$You are an expert business analyst that extracts specific, measurable KPIs and metrics from video transcripts, DOCX documents and text notes. You MUST respond with valid JSON only, without any markdown formatting or code blocks. Only report numbers that are explicitly stated in the content. Never estimate, infer, calculate or round numbers that are not written in the content, and never quantify achievements that were described without a number. Every KPI and quote must be copied word for word from the content so it can be checked against the source. Give an honest confidence score between 0 and 1 for every KPI, key point and the sentiment label, and score sentiment on a scale from -1 to 1.$prompt$,
+  $prompt$You are analyzing a business submission with multiple content sources. Your goal is to extract the measurable KPIs and business metrics that the sources explicitly state.
+
+CONTENT SOURCES:
+
+1. VIDEO TRANSCRIPT:
+{{transcript}}
+
+2. DOCX DOCUMENT CONTENT (Parsed from the document; tables are shown as rows and cells):
+{{docx}}
+
+3. ADDITIONAL NOTES:
+{{notes}}
+
+ANALYSIS INSTRUCTIONS:
+
+Look for explicitly stated metrics in ALL content sources, for example:
+
+1. **FINANCIAL METRICS**: Revenue, sales, costs, profits, budgets, ROI, growth rates, margins, targets
+2. **PERFORMANCE INDICATORS**: Customer metrics, conversion rates, efficiency, productivity, quality, satisfaction scores, completion rates, response times
+3. **COMPARATIVE DATA**: Before/after comparisons, year-over-year growth, targets vs. actuals
+4. **TIME-BASED METRICS**: Quarterly, monthly and annual figures, project timelines
+5. **OPERATIONAL METRICS**: Cost savings, time reductions, quality improvements
+
+EXTRACTION REQUIREMENTS:
+- Only extract a KPI when its number is written in the content; a statement such as "completed 3 tasks" becomes {"metric_name": "Tasks Completed", "value": 3, "unit": "tasks"}
+- Do NOT invent, estimate or derive numbers, and do NOT turn statements without a number into KPIs
+- "value" MUST be a plain number (no units, symbols or thousands separators); write 1.2 million as 1200000
+- Put the currency as an ISO code in "currency" (e.g. "USD") and any other unit (%, hours, deals, customers) in "unit"
+- "period" is the time span the value covers as stated in the content (e.g. "this week", "Q3 2025"), or null
+- "direction" is "increase" or "decrease" when the content describes a change, otherwise null
+- "source" is where the metric was found: "video", "docx" or "notes"
+- "quote" is the sentence or table row the metric was taken from, copied word for word, and must contain the value
+- Every entry in "ai_quotes" must be copied word for word from the content
+- "confidence" is a number from 0 to 1 for how certain you are that the item is correct and stated in the content: close to 1 when it is stated explicitly and unambiguously, below 0.5 when it is vague, partial or you are unsure
+- Give every key point and the sentiment label a confidence in the same way
+- "sentiment_score" is the overall sentiment from -1 (very negative) through 0 (neutral) to 1 (very positive) and must agree with "sentiment"
+- "aspect_sentiments" scores the same way each of these aspects the content actually talks about: "workload", "client_relationships", "team_morale", "tooling", "leadership_support". Leave out aspects that are not discussed, and give each one the quote it is based on, copied word for word
+
+You MUST respond with ONLY a valid JSON object. NO markdown formatting, NO code blocks, NO explanations outside the JSON.
+
+Format your response as this exact JSON structure:
+{
+  "key_points": [{"text": "Specific achievement or insight 1", "confidence": 0.9}, {"text": "Specific achievement or insight 2", "confidence": 0.7}],
+  "extracted_kpis": [
+    {"metric_name": "Metric Name", "value": 12, "unit": "deals|%|hours|null", "currency": "USD|null", "period": "this week|null", "direction": "increase|decrease|null", "source": "video|docx|notes", "quote": "Exact supporting quote", "confidence": 0.95}
+  ],
+  "sentiment": "positive|negative|neutral",
+  "sentiment_confidence": 0.8,
+  "sentiment_score": 0.4,
+  "aspect_sentiments": [
+    {"aspect": "workload|client_relationships|team_morale|tooling|leadership_support", "score": -0.5, "quote": "Exact supporting quote"}
+  ],
+  "ai_quotes": ["Exact quote from the content 1", "Exact quote 2", "Exact quote 3"]
+}
+
+Return an empty "extracted_kpis" array when the content states no numbers. Extracted values are checked against the source text and unsupported ones are flagged.$prompt$,
+  'Ask for a numeric sentiment score and sentiment per aspect',
+  NOT COALESCE(bool_or(is_active), false),
+  CASE WHEN COALESCE(bool_or(is_active), false) THEN NULL ELSE now() END
+FROM public.prompt_templates
+WHERE name = 'analysis';
@@ -0,0 +1,116 @@
+-- Recurring themes across submissions. Key points and transcript segments are
+-- embedded with pgvector and clustered into named themes by the cluster-themes
+-- edge function, which replaces the themes on every run.
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+-- The analysis whose statements are in insight_embeddings; differs from
+-- active_analysis_id after reprocessing or a rollback until embedded again
+ALTER TABLE public.submissions
+  ADD COLUMN embedded_analysis_id UUID REFERENCES public.submission_analyses(id) ON DELETE SET NULL;
+
+CREATE TABLE public.themes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  label TEXT NOT NULL,
+  description TEXT,
+  item_count INTEGER NOT NULL,
+  submission_count INTEGER NOT NULL,
+  user_ids UUID[] NOT NULL DEFAULT '{}',
+  -- [{ "week": "2025-07-14", "submissions": 3 }, ...]
+  weekly_counts JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- [{ "content", "submission_id", "user_id", "source_type", "start_seconds" }, ...]
+  representative_quotes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  centroid extensions.vector(1536),
+  generated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.themes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view themes"
+  ON public.themes FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ));
+
+CREATE TABLE public.insight_embeddings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  submission_id UUID NOT NULL REFERENCES public.submissions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  source_type TEXT NOT NULL CHECK (source_type IN ('key_point', 'transcript_segment')),
+  -- Position in key_points, or the transcript segment id
+  source_index INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  start_seconds NUMERIC,
+  embedding extensions.vector(1536) NOT NULL,
+  model TEXT NOT NULL,
+  theme_id UUID REFERENCES public.themes(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (submission_id, source_type, source_index)
+);
+
+CREATE INDEX idx_insight_embeddings_theme_id ON public.insight_embeddings(theme_id);
+CREATE INDEX idx_insight_embeddings_created_at ON public.insight_embeddings(created_at DESC);
+
+ALTER TABLE public.insight_embeddings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own insight embeddings"
+  ON public.insight_embeddings FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all insight embeddings"
+  ON public.insight_embeddings FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ));
+
+-- Completed submissions whose active analysis has not been embedded yet
+CREATE OR REPLACE FUNCTION public.submissions_needing_embeddings(p_limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  active_analysis_id UUID,
+  key_points TEXT[],
+  transcript JSONB,
+  transcript_translated JSONB
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT s.id, s.user_id, s.active_analysis_id, s.key_points, s.transcript, s.transcript_translated
+  FROM public.submissions s
+  WHERE s.status = 'completed'
+    AND s.active_analysis_id IS NOT NULL
+    AND s.embedded_analysis_id IS DISTINCT FROM s.active_analysis_id
+  ORDER BY s.created_at DESC
+  LIMIT p_limit;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.submissions_needing_embeddings(INTEGER) FROM PUBLIC, anon, authenticated;
+
+INSERT INTO public.ai_model_prices (model, input_per_million, output_per_million, audio_per_minute) VALUES
+  ('text-embedding-3-small', 0.02, 0, 0),
+  ('text-embedding-3-large', 0.13, 0, 0),
+  ('fake-embedding', 0, 0, 0)
+ON CONFLICT (model) DO NOTHING;
+
+-- Rebuild the themes once a day. Uses the same Vault secrets as process-jobs.
+SELECT cron.schedule(
+  'cluster-themes-daily',
+  '45 3 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/cluster-themes',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
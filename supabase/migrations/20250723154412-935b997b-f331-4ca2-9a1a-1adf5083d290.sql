@@ -0,0 +1,136 @@
+-- Search across all transcripts and insights. insight_embeddings becomes the
+-- search index: besides key points and transcript segments it holds KPIs and
+-- notes paragraphs, and a full-text column sits next to each embedding.
+-- search_insights ranks both and runs as the caller, so row level security
+-- limits users to their own submissions while admins search everyone's.
+ALTER TABLE public.insight_embeddings DROP CONSTRAINT insight_embeddings_source_type_check;
+ALTER TABLE public.insight_embeddings ADD CONSTRAINT insight_embeddings_source_type_check
+  CHECK (source_type IN ('key_point', 'transcript_segment', 'kpi', 'note'));
+
+ALTER TABLE public.insight_embeddings
+  -- Transcript segment the statement comes from, for links into the transcript
+  ADD COLUMN segment_id INTEGER,
+  ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (to_tsvector('english'::regconfig, content)) STORED;
+
+UPDATE public.insight_embeddings SET segment_id = source_index WHERE source_type = 'transcript_segment';
+
+CREATE INDEX idx_insight_embeddings_search_vector ON public.insight_embeddings USING GIN (search_vector);
+CREATE INDEX idx_insight_embeddings_embedding ON public.insight_embeddings
+  USING hnsw (embedding extensions.vector_cosine_ops);
+CREATE INDEX idx_insight_embeddings_user_id ON public.insight_embeddings(user_id);
+
+-- Embed every submission again so existing KPIs and notes become searchable
+UPDATE public.submissions SET embedded_analysis_id = NULL WHERE embedded_analysis_id IS NOT NULL;
+
+-- Notes are embedded as well
+DROP FUNCTION public.submissions_needing_embeddings(INTEGER);
+
+CREATE FUNCTION public.submissions_needing_embeddings(p_limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  active_analysis_id UUID,
+  key_points TEXT[],
+  transcript JSONB,
+  transcript_translated JSONB,
+  notes TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT s.id, s.user_id, s.active_analysis_id, s.key_points, s.transcript, s.transcript_translated, s.notes
+  FROM public.submissions s
+  WHERE s.status = 'completed'
+    AND s.active_analysis_id IS NOT NULL
+    AND s.embedded_analysis_id IS DISTINCT FROM s.active_analysis_id
+  ORDER BY s.created_at DESC
+  LIMIT p_limit;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.submissions_needing_embeddings(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Full-text and nearest-neighbour matches are merged with reciprocal rank
+-- fusion, so a statement found both ways ranks above one found either way.
+-- Without a query embedding only full-text matches are returned. Row level
+-- security filters the nearest neighbours after the index scan; the larger
+-- ef_search keeps enough candidates for users who only see their own rows.
+CREATE OR REPLACE FUNCTION public.search_insights(
+  p_query TEXT,
+  p_query_embedding extensions.vector(1536) DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  id UUID,
+  submission_id UUID,
+  user_id UUID,
+  user_name TEXT,
+  source_type TEXT,
+  source_index INTEGER,
+  segment_id INTEGER,
+  start_seconds NUMERIC,
+  content TEXT,
+  -- Content around the matched words, which are wrapped in <mark></mark>
+  snippet TEXT,
+  score DOUBLE PRECISION,
+  submitted_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = ''
+SET hnsw.ef_search = 200
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english'::regconfig, p_query) AS tsquery
+  ),
+  text_matches AS (
+    SELECT e.id, row_number() OVER (ORDER BY ts_rank_cd(e.search_vector, q.tsquery) DESC) AS rank
+    FROM public.insight_embeddings e, query q
+    WHERE e.search_vector @@ q.tsquery
+    ORDER BY rank
+    LIMIT 100
+  ),
+  vector_matches AS (
+    SELECT e.id, row_number() OVER (ORDER BY e.embedding OPERATOR(extensions.<=>) p_query_embedding) AS rank
+    FROM public.insight_embeddings e
+    WHERE p_query_embedding IS NOT NULL
+    ORDER BY e.embedding OPERATOR(extensions.<=>) p_query_embedding
+    LIMIT 100
+  ),
+  fused AS (
+    SELECT
+      COALESCE(t.id, v.id) AS id,
+      COALESCE(1.0 / (60 + t.rank), 0) + COALESCE(1.0 / (60 + v.rank), 0) AS score
+    FROM text_matches t
+    FULL OUTER JOIN vector_matches v ON v.id = t.id
+  )
+  SELECT
+    e.id,
+    e.submission_id,
+    e.user_id,
+    p.name,
+    e.source_type,
+    e.source_index,
+    e.segment_id,
+    e.start_seconds,
+    e.content,
+    ts_headline('english'::regconfig, e.content, q.tsquery,
+      'StartSel=<mark>, StopSel=</mark>, MinWords=15, MaxWords=35, MaxFragments=2'),
+    f.score::DOUBLE PRECISION,
+    s.created_at
+  FROM fused f
+  JOIN public.insight_embeddings e ON e.id = f.id
+  JOIN public.submissions s ON s.id = e.submission_id
+  LEFT JOIN public.profiles p ON p.id = e.user_id
+  CROSS JOIN query q
+  ORDER BY f.score DESC, s.created_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 50);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.search_insights(TEXT, extensions.vector, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.search_insights(TEXT, extensions.vector, INTEGER) TO authenticated;
@@ -0,0 +1,145 @@
+-- Ask-your-data assistant for admins. The ask-assistant edge function answers
+-- questions from passages found with search_insights and cites them; each
+-- admin's conversations are kept so they can be continued later.
+CREATE TABLE public.assistant_conversations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_assistant_conversations_user_id ON public.assistant_conversations(user_id, updated_at DESC);
+
+ALTER TABLE public.assistant_conversations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view their own assistant conversations"
+  ON public.assistant_conversations FOR SELECT
+  USING (auth.uid() = user_id AND EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ));
+
+CREATE POLICY "Admins can delete their own assistant conversations"
+  ON public.assistant_conversations FOR DELETE
+  USING (auth.uid() = user_id AND EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ));
+
+CREATE TABLE public.assistant_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id UUID NOT NULL REFERENCES public.assistant_conversations(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  -- Sources cited in an answer as [1], [2], ...:
+  -- [{ "ref", "submission_id", "user_id", "user_name", "source_type", "source_index",
+  --    "segment_id", "start_seconds", "content", "submitted_at" }, ...]
+  citations JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- Search the answer's sources were retrieved with
+  search_query TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_assistant_messages_conversation_id ON public.assistant_messages(conversation_id, created_at);
+
+ALTER TABLE public.assistant_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view messages of their own assistant conversations"
+  ON public.assistant_messages FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.assistant_conversations c
+    WHERE c.id = conversation_id AND c.user_id = auth.uid()
+  ) AND EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ));
+
+-- The assistant searches a period ("in the last month") and only the sources it can cite
+DROP FUNCTION public.search_insights(TEXT, extensions.vector, INTEGER);
+
+CREATE FUNCTION public.search_insights(
+  p_query TEXT,
+  p_query_embedding extensions.vector(1536) DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_submitted_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_source_types TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  submission_id UUID,
+  user_id UUID,
+  user_name TEXT,
+  source_type TEXT,
+  source_index INTEGER,
+  segment_id INTEGER,
+  start_seconds NUMERIC,
+  content TEXT,
+  -- Content around the matched words, which are wrapped in <mark></mark>
+  snippet TEXT,
+  score DOUBLE PRECISION,
+  submitted_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = ''
+SET hnsw.ef_search = 200
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english'::regconfig, p_query) AS tsquery
+  ),
+  -- Inlined into both searches so the indexes can still be used
+  candidates AS NOT MATERIALIZED (
+    SELECT e.*
+    FROM public.insight_embeddings e
+    JOIN public.submissions s ON s.id = e.submission_id
+    WHERE (p_submitted_after IS NULL OR s.created_at >= p_submitted_after)
+      AND (p_source_types IS NULL OR e.source_type = ANY (p_source_types))
+  ),
+  text_matches AS (
+    SELECT e.id, row_number() OVER (ORDER BY ts_rank_cd(e.search_vector, q.tsquery) DESC) AS rank
+    FROM candidates e, query q
+    WHERE e.search_vector @@ q.tsquery
+    ORDER BY rank
+    LIMIT 100
+  ),
+  vector_matches AS (
+    SELECT e.id, row_number() OVER (ORDER BY e.embedding OPERATOR(extensions.<=>) p_query_embedding) AS rank
+    FROM candidates e
+    WHERE p_query_embedding IS NOT NULL
+    ORDER BY e.embedding OPERATOR(extensions.<=>) p_query_embedding
+    LIMIT 100
+  ),
+  fused AS (
+    SELECT
+      COALESCE(t.id, v.id) AS id,
+      COALESCE(1.0 / (60 + t.rank), 0) + COALESCE(1.0 / (60 + v.rank), 0) AS score
+    FROM text_matches t
+    FULL OUTER JOIN vector_matches v ON v.id = t.id
+  )
+  SELECT
+    e.id,
+    e.submission_id,
+    e.user_id,
+    p.name,
+    e.source_type,
+    e.source_index,
+    e.segment_id,
+    e.start_seconds,
+    e.content,
+    ts_headline('english'::regconfig, e.content, q.tsquery,
+      'StartSel=<mark>, StopSel=</mark>, MinWords=15, MaxWords=35, MaxFragments=2'),
+    f.score::DOUBLE PRECISION,
+    s.created_at
+  FROM fused f
+  JOIN public.insight_embeddings e ON e.id = f.id
+  JOIN public.submissions s ON s.id = e.submission_id
+  LEFT JOIN public.profiles p ON p.id = e.user_id
+  CROSS JOIN query q
+  ORDER BY f.score DESC, s.created_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 50);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.search_insights(TEXT, extensions.vector, INTEGER, TIMESTAMP WITH TIME ZONE, TEXT[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.search_insights(TEXT, extensions.vector, INTEGER, TIMESTAMP WITH TIME ZONE, TEXT[]) TO authenticated;
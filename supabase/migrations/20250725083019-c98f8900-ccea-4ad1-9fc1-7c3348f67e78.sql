@@ -0,0 +1,190 @@
+-- Weekly executive summaries across all team leads. The generate-executive-summary
+-- edge function writes one report per Monday-to-Sunday week (UTC); every
+-- generation and every admin edit adds a version, and admins publish the
+-- version they approved.
+CREATE TABLE public.executive_reports (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  period_start DATE NOT NULL,
+  -- The day after the last day of the period
+  period_end DATE NOT NULL,
+  current_version_id UUID,
+  published_version_id UUID,
+  published_at TIMESTAMP WITH TIME ZONE,
+  published_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (period_start, period_end),
+  CHECK (period_end > period_start)
+);
+
+CREATE TABLE public.executive_report_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  report_id UUID NOT NULL REFERENCES public.executive_reports(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('generated', 'edited')),
+  headline TEXT NOT NULL,
+  overview TEXT NOT NULL DEFAULT '',
+  achievements TEXT[] NOT NULL DEFAULT '{}',
+  risks TEXT[] NOT NULL DEFAULT '{}',
+  sentiment_summary TEXT NOT NULL DEFAULT '',
+  -- [{ "text", "submission_id", "user_id", "user_name" }, ...]
+  quotes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- Computed from the period's submissions when the version was generated and
+  -- carried over unchanged by edits:
+  -- [{ "name", "unit", "currency", "count", "value", "previous_value" }, ...]
+  kpis JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- { "submissions", "submitters", "previous_submissions", "average_score",
+  --   "previous_average_score", "aspects": [{ "aspect", "average", "previous_average" }] }
+  stats JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Chat model that wrote the generated version the content is based on
+  model TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (report_id, version)
+);
+
+ALTER TABLE public.executive_reports
+  ADD CONSTRAINT executive_reports_current_version_id_fkey
+    FOREIGN KEY (current_version_id) REFERENCES public.executive_report_versions(id) ON DELETE SET NULL,
+  ADD CONSTRAINT executive_reports_published_version_id_fkey
+    FOREIGN KEY (published_version_id) REFERENCES public.executive_report_versions(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_executive_reports_period_start ON public.executive_reports(period_start DESC);
+
+ALTER TABLE public.executive_reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.executive_report_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view executive reports"
+  ON public.executive_reports FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ));
+
+CREATE POLICY "Admins can view executive report versions"
+  ON public.executive_report_versions FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ));
+
+-- Saves an admin's edit (or a restored older version) as the report's new current version
+CREATE OR REPLACE FUNCTION public.save_executive_report_edit(
+  p_report_id UUID,
+  p_headline TEXT,
+  p_overview TEXT,
+  p_achievements TEXT[],
+  p_risks TEXT[],
+  p_sentiment_summary TEXT,
+  p_quotes JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_current public.executive_report_versions%ROWTYPE;
+  v_version_id UUID;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can edit executive reports';
+  END IF;
+
+  IF btrim(COALESCE(p_headline, '')) = '' THEN
+    RAISE EXCEPTION 'A report needs a headline';
+  END IF;
+
+  SELECT v.* INTO v_current
+  FROM public.executive_reports r
+  JOIN public.executive_report_versions v ON v.id = r.current_version_id
+  WHERE r.id = p_report_id
+  FOR UPDATE OF r;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Executive report % not found', p_report_id;
+  END IF;
+
+  INSERT INTO public.executive_report_versions (
+    report_id, version, source, headline, overview, achievements, risks,
+    sentiment_summary, quotes, kpis, stats, model, created_by
+  )
+  SELECT
+    p_report_id,
+    MAX(version) + 1,
+    'edited',
+    btrim(p_headline),
+    btrim(COALESCE(p_overview, '')),
+    COALESCE(p_achievements, '{}'),
+    COALESCE(p_risks, '{}'),
+    btrim(COALESCE(p_sentiment_summary, '')),
+    COALESCE(p_quotes, '[]'::jsonb),
+    v_current.kpis,
+    v_current.stats,
+    v_current.model,
+    auth.uid()
+  FROM public.executive_report_versions
+  WHERE report_id = p_report_id
+  RETURNING id INTO v_version_id;
+
+  UPDATE public.executive_reports
+  SET current_version_id = v_version_id,
+      updated_at = now()
+  WHERE id = p_report_id;
+
+  RETURN v_version_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_executive_report_edit(UUID, TEXT, TEXT, TEXT[], TEXT[], TEXT, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_executive_report_edit(UUID, TEXT, TEXT, TEXT[], TEXT[], TEXT, JSONB) TO authenticated;
+
+-- Publishes the report's current version
+CREATE OR REPLACE FUNCTION public.publish_executive_report(p_report_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can publish executive reports';
+  END IF;
+
+  UPDATE public.executive_reports
+  SET published_version_id = current_version_id,
+      published_at = now(),
+      published_by = auth.uid(),
+      updated_at = now()
+  WHERE id = p_report_id AND current_version_id IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Executive report % not found', p_report_id;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.publish_executive_report(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.publish_executive_report(UUID) TO authenticated;
+
+-- Summarises the week that just ended every Monday morning
+SELECT cron.schedule(
+  'executive-summary-weekly',
+  '0 6 * * 1',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/generate-executive-summary',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,108 @@
+-- KPI anomaly alerts. Whenever a completed submission gets a new active analysis
+-- (processing, reprocessing or a rollback) a detect_kpi_anomalies job checks its
+-- KPIs against the submitter's and the whole team's earlier reports of the same
+-- metric; anything unusual lands in the admin alerts inbox.
+CREATE TABLE public.kpi_alerts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  submission_id UUID NOT NULL REFERENCES public.submissions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- KPI rows are replaced when a submission is reprocessed
+  kpi_value_id UUID REFERENCES public.extracted_kpi_values(id) ON DELETE SET NULL,
+  kpi_definition_id UUID REFERENCES public.kpi_definitions(id) ON DELETE SET NULL,
+  -- 'user' compares with the submitter's own reports, 'team' with everyone's
+  scope TEXT NOT NULL CHECK (scope IN ('user', 'team')),
+  -- The KPI definition, or the normalised metric name, unit and currency
+  metric_key TEXT NOT NULL,
+  metric_name TEXT NOT NULL,
+  unit TEXT,
+  currency TEXT,
+  anomaly_type TEXT NOT NULL CHECK (anomaly_type IN ('deviation', 'sign_flip')),
+  severity TEXT NOT NULL CHECK (severity IN ('warning', 'critical')),
+  value NUMERIC NOT NULL,
+  -- Median of the previous reports the value was compared with
+  baseline NUMERIC NOT NULL,
+  baseline_points INTEGER NOT NULL,
+  -- Robust z-score; null when the previous reports were all identical
+  score NUMERIC,
+  message TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'acknowledged', 'dismissed')),
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (submission_id, scope, metric_key, anomaly_type)
+);
+
+CREATE INDEX idx_kpi_alerts_status ON public.kpi_alerts(status, created_at DESC);
+
+ALTER TABLE public.kpi_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view KPI alerts"
+  ON public.kpi_alerts FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ));
+
+-- Marks an alert as acknowledged or dismissed; 'open' reopens it
+CREATE OR REPLACE FUNCTION public.resolve_kpi_alert(p_alert_id UUID, p_status TEXT)
+RETURNS public.kpi_alerts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  alert public.kpi_alerts;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can resolve KPI alerts';
+  END IF;
+
+  IF p_status NOT IN ('open', 'acknowledged', 'dismissed') THEN
+    RAISE EXCEPTION 'Unknown alert status %', p_status;
+  END IF;
+
+  UPDATE public.kpi_alerts
+  SET status = p_status,
+      resolved_by = CASE WHEN p_status = 'open' THEN NULL ELSE auth.uid() END,
+      resolved_at = CASE WHEN p_status = 'open' THEN NULL ELSE now() END
+  WHERE id = p_alert_id
+  RETURNING * INTO alert;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'KPI alert % not found', p_alert_id;
+  END IF;
+
+  RETURN alert;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_kpi_alert(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.resolve_kpi_alert(UUID, TEXT) TO authenticated;
+
+-- Queue an anomaly check whenever a completed submission's KPIs change
+CREATE OR REPLACE FUNCTION public.enqueue_kpi_anomaly_detection()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  INSERT INTO public.processing_jobs (submission_id, job_type)
+  VALUES (NEW.id, 'detect_kpi_anomalies')
+  ON CONFLICT DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_submission_analysis_activated_detect_anomalies
+  AFTER UPDATE OF active_analysis_id, status ON public.submissions
+  FOR EACH ROW
+  WHEN (
+    NEW.status = 'completed'
+    AND NEW.active_analysis_id IS NOT NULL
+    AND (NEW.active_analysis_id IS DISTINCT FROM OLD.active_analysis_id OR OLD.status IS DISTINCT FROM 'completed')
+  )
+  EXECUTE FUNCTION public.enqueue_kpi_anomaly_detection();
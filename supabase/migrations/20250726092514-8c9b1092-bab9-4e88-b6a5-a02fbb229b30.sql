@@ -0,0 +1,141 @@
+-- Duplicate and re-upload detection. Uploads carry the SHA-256 of the video so
+-- the browser can warn about re-uploads before processing; processed submissions
+-- are also compared by transcript. Possible duplicates wait for an admin, who
+-- merges them into the original so they stop counting towards KPI aggregates.
+ALTER TABLE public.submissions
+  ADD COLUMN content_hash TEXT,
+  ADD COLUMN merged_into_id UUID REFERENCES public.submissions(id) ON DELETE SET NULL,
+  ADD COLUMN merged_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN merged_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_submissions_content_hash ON public.submissions(user_id, content_hash)
+  WHERE content_hash IS NOT NULL;
+
+ALTER TABLE public.submissions DROP CONSTRAINT IF EXISTS submissions_status_check;
+ALTER TABLE public.submissions
+  ADD CONSTRAINT submissions_status_check
+  CHECK (status IN ('processing', 'completed', 'failed', 'needs_review', 'merged'));
+
+CREATE TABLE public.submission_duplicates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- The newer submission, which is the one merged away
+  submission_id UUID NOT NULL REFERENCES public.submissions(id) ON DELETE CASCADE,
+  duplicate_of_id UUID NOT NULL REFERENCES public.submissions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  method TEXT NOT NULL CHECK (method IN ('content_hash', 'transcript')),
+  -- Share of transcript phrases in common; 1 for identical files
+  similarity NUMERIC(4, 3) NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'merged', 'dismissed')),
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (submission_id, duplicate_of_id)
+);
+
+CREATE INDEX idx_submission_duplicates_status ON public.submission_duplicates(status, created_at DESC);
+
+ALTER TABLE public.submission_duplicates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own duplicate submissions"
+  ON public.submission_duplicates FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view duplicate submissions"
+  ON public.submission_duplicates FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ));
+
+-- Resolve a possible duplicate: merge the newer submission into the original or
+-- dismiss the pair. A merged submission keeps its files and analysis but leaves
+-- every aggregate, including weekly KPI performance.
+CREATE OR REPLACE FUNCTION public.resolve_submission_duplicate(p_duplicate_id UUID, p_merge BOOLEAN)
+RETURNS public.submission_duplicates
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  duplicate public.submission_duplicates;
+  original public.submissions;
+  merged_status TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can resolve duplicate submissions';
+  END IF;
+
+  SELECT * INTO duplicate
+  FROM public.submission_duplicates
+  WHERE id = p_duplicate_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Duplicate % not found', p_duplicate_id;
+  END IF;
+
+  IF duplicate.status <> 'pending' THEN
+    RAISE EXCEPTION 'Duplicate % was already %', p_duplicate_id, duplicate.status;
+  END IF;
+
+  IF p_merge THEN
+    SELECT status INTO merged_status
+    FROM public.submissions
+    WHERE id = duplicate.submission_id
+    FOR UPDATE;
+
+    IF merged_status = 'processing' THEN
+      RAISE EXCEPTION 'Submission % is still processing', duplicate.submission_id;
+    END IF;
+
+    SELECT * INTO original
+    FROM public.submissions
+    WHERE id = duplicate.duplicate_of_id;
+
+    IF original.status = 'merged' THEN
+      RAISE EXCEPTION 'Submission % was itself merged into another submission', duplicate.duplicate_of_id;
+    END IF;
+
+    UPDATE public.submissions
+    SET status = 'merged',
+        merged_into_id = duplicate.duplicate_of_id,
+        merged_at = now(),
+        merged_by = auth.uid(),
+        updated_at = now()
+    WHERE id = duplicate.submission_id;
+
+    -- Keep the merged copy out of search, alerts and the review queue
+    DELETE FROM public.insight_embeddings WHERE submission_id = duplicate.submission_id;
+    DELETE FROM public.kpi_alerts WHERE submission_id = duplicate.submission_id;
+    DELETE FROM public.kpi_match_reviews
+    WHERE submission_id = duplicate.submission_id AND status = 'pending';
+
+    -- Without the copy's performance rows the original's weekly values count again
+    DELETE FROM public.user_kpi_performance WHERE submission_id = duplicate.submission_id;
+
+    -- Any other pairs involving the merged copy no longer need a decision
+    UPDATE public.submission_duplicates
+    SET status = 'dismissed',
+        resolved_by = auth.uid(),
+        resolved_at = now()
+    WHERE status = 'pending'
+      AND id <> p_duplicate_id
+      AND (submission_id = duplicate.submission_id OR duplicate_of_id = duplicate.submission_id);
+  END IF;
+
+  UPDATE public.submission_duplicates
+  SET status = CASE WHEN p_merge THEN 'merged' ELSE 'dismissed' END,
+      resolved_by = auth.uid(),
+      resolved_at = now()
+  WHERE id = p_duplicate_id
+  RETURNING * INTO duplicate;
+
+  RETURN duplicate;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_submission_duplicate(UUID, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.resolve_submission_duplicate(UUID, BOOLEAN) TO authenticated;
@@ -0,0 +1,328 @@
+-- Outgoing webhooks. Admins register HTTP endpoints and pick the events they
+-- want; database triggers queue one delivery per subscribed endpoint and the
+-- deliver-webhooks function posts them, signed with the endpoint's secret, and
+-- retries failures with backoff. Every delivery is kept as the delivery log.
+CREATE TABLE public.webhook_endpoints (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  url TEXT NOT NULL CHECK (url ~* '^https?://'),
+  -- Key for the HMAC-SHA256 signature sent with every delivery
+  secret TEXT NOT NULL DEFAULT 'whsec_' || replace(gen_random_uuid()::TEXT || gen_random_uuid()::TEXT, '-', ''),
+  events TEXT[] NOT NULL CHECK (
+    cardinality(events) > 0
+    AND events <@ ARRAY['submission.created', 'submission.completed', 'submission.failed', 'kpi.alert', 'report.published']
+  ),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.webhook_deliveries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  endpoint_id UUID NOT NULL REFERENCES public.webhook_endpoints(id) ON DELETE CASCADE,
+  -- One of the endpoint events, or 'webhook.test' for test deliveries
+  event_type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivering', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 8,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  locked_at TIMESTAMP WITH TIME ZONE,
+  -- Outcome of the latest attempt
+  response_status INTEGER,
+  response_body TEXT,
+  duration_ms INTEGER,
+  last_error TEXT,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_webhook_deliveries_claim ON public.webhook_deliveries(status, next_attempt_at);
+CREATE INDEX idx_webhook_deliveries_endpoint ON public.webhook_deliveries(endpoint_id, created_at DESC);
+
+ALTER TABLE public.webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage webhook endpoints"
+  ON public.webhook_endpoints FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ));
+
+CREATE POLICY "Admins can view webhook deliveries"
+  ON public.webhook_deliveries FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ));
+
+-- Queue a delivery of the event to every active endpoint subscribed to it
+CREATE OR REPLACE FUNCTION public.enqueue_webhook_event(p_event_type TEXT, p_payload JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  queued INTEGER;
+BEGIN
+  INSERT INTO public.webhook_deliveries (endpoint_id, event_type, payload)
+  SELECT id, p_event_type, p_payload
+  FROM public.webhook_endpoints
+  WHERE is_active AND p_event_type = ANY(events);
+
+  GET DIAGNOSTICS queued = ROW_COUNT;
+  RETURN queued;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_webhook_event(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Atomically claim due deliveries. Deliveries left 'delivering' by a worker
+-- that died are reclaimed once their lock is older than p_stale_seconds.
+CREATE OR REPLACE FUNCTION public.claim_webhook_deliveries(
+  p_limit INTEGER DEFAULT 20,
+  p_stale_seconds INTEGER DEFAULT 300
+)
+RETURNS SETOF public.webhook_deliveries
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.webhook_deliveries AS deliveries
+  SET status = 'delivering',
+      attempts = deliveries.attempts + 1,
+      locked_at = now(),
+      updated_at = now()
+  WHERE deliveries.id IN (
+    SELECT candidate.id
+    FROM public.webhook_deliveries AS candidate
+    WHERE candidate.attempts < candidate.max_attempts
+      AND (
+        (candidate.status = 'pending' AND candidate.next_attempt_at <= now())
+        OR (candidate.status = 'delivering' AND candidate.locked_at < now() - make_interval(secs => p_stale_seconds))
+      )
+    ORDER BY candidate.next_attempt_at, candidate.created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING deliveries.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_webhook_deliveries(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Send a failed delivery again with a fresh set of attempts
+CREATE OR REPLACE FUNCTION public.retry_webhook_delivery(p_delivery_id UUID)
+RETURNS public.webhook_deliveries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  delivery public.webhook_deliveries;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can retry webhook deliveries';
+  END IF;
+
+  UPDATE public.webhook_deliveries
+  SET status = 'pending',
+      attempts = 0,
+      next_attempt_at = now(),
+      locked_at = NULL,
+      updated_at = now()
+  WHERE id = p_delivery_id AND status = 'failed'
+  RETURNING * INTO delivery;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Failed webhook delivery % not found', p_delivery_id;
+  END IF;
+
+  RETURN delivery;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.retry_webhook_delivery(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.retry_webhook_delivery(UUID) TO authenticated;
+
+-- submission.created, submission.completed and submission.failed
+CREATE OR REPLACE FUNCTION public.enqueue_submission_webhooks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  event_type TEXT;
+  payload JSONB;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    event_type := 'submission.created';
+  ELSIF NEW.status = 'completed' THEN
+    event_type := 'submission.completed';
+  ELSIF NEW.status = 'failed' THEN
+    -- A failed attempt is retried by the queue; only report the final failure
+    IF EXISTS (
+      SELECT 1 FROM public.processing_jobs
+      WHERE submission_id = NEW.id
+        AND job_type = 'process_submission'
+        AND status IN ('queued', 'running')
+    ) THEN
+      RETURN NEW;
+    END IF;
+    event_type := 'submission.failed';
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  payload := jsonb_build_object(
+    'submission_id', NEW.id,
+    'user_id', NEW.user_id,
+    'status', NEW.status,
+    'created_at', NEW.created_at,
+    'video_name', NEW.video_files->>'name',
+    'question_index', (NEW.video_files->>'question_index')::INTEGER
+  );
+
+  IF event_type = 'submission.completed' THEN
+    -- KPI rows are written before the submission is marked completed
+    payload := payload || jsonb_build_object(
+      'language', NEW.language,
+      'key_points', to_jsonb(COALESCE(NEW.key_points, '{}'::TEXT[])),
+      'sentiment', NEW.sentiment,
+      'sentiment_score', NEW.sentiment_score,
+      'kpis', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object(
+          'metric_name', kpi.metric_name,
+          'value', kpi.value,
+          'unit', kpi.unit,
+          'currency', kpi.currency,
+          'period', kpi.period,
+          'direction', kpi.direction,
+          'kpi_definition_id', kpi.kpi_definition_id,
+          'confidence', kpi.confidence
+        ) ORDER BY kpi.position)
+        FROM public.extracted_kpi_values kpi
+        WHERE kpi.submission_id = NEW.id
+      ), '[]'::jsonb)
+    );
+  ELSIF event_type = 'submission.failed' THEN
+    payload := payload || jsonb_build_object('error', NEW.processing_error);
+  END IF;
+
+  PERFORM public.enqueue_webhook_event(event_type, payload);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_submission_created_webhooks
+  AFTER INSERT ON public.submissions
+  FOR EACH ROW EXECUTE FUNCTION public.enqueue_submission_webhooks();
+
+-- The worker marks a submission failed again after its last attempt, when
+-- process-submission may already have set 'failed' while the job was running
+CREATE TRIGGER on_submission_finished_webhooks
+  AFTER UPDATE OF status ON public.submissions
+  FOR EACH ROW
+  WHEN (
+    (NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed')
+    OR NEW.status = 'failed'
+  )
+  EXECUTE FUNCTION public.enqueue_submission_webhooks();
+
+-- kpi.alert
+CREATE OR REPLACE FUNCTION public.enqueue_kpi_alert_webhooks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  PERFORM public.enqueue_webhook_event('kpi.alert', jsonb_build_object(
+    'alert_id', NEW.id,
+    'submission_id', NEW.submission_id,
+    'user_id', NEW.user_id,
+    'kpi_definition_id', NEW.kpi_definition_id,
+    'scope', NEW.scope,
+    'metric_name', NEW.metric_name,
+    'unit', NEW.unit,
+    'currency', NEW.currency,
+    'anomaly_type', NEW.anomaly_type,
+    'severity', NEW.severity,
+    'value', NEW.value,
+    'baseline', NEW.baseline,
+    'score', NEW.score,
+    'message', NEW.message,
+    'created_at', NEW.created_at
+  ));
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_kpi_alert_created_webhooks
+  AFTER INSERT ON public.kpi_alerts
+  FOR EACH ROW EXECUTE FUNCTION public.enqueue_kpi_alert_webhooks();
+
+-- report.published
+CREATE OR REPLACE FUNCTION public.enqueue_report_webhooks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  published public.executive_report_versions;
+BEGIN
+  SELECT * INTO published
+  FROM public.executive_report_versions
+  WHERE id = NEW.published_version_id;
+
+  PERFORM public.enqueue_webhook_event('report.published', jsonb_build_object(
+    'report_id', NEW.id,
+    'version', published.version,
+    'period_start', NEW.period_start,
+    -- Last day of the period, unlike the exclusive period_end column
+    'period_end', NEW.period_end - 1,
+    'published_at', NEW.published_at,
+    'headline', published.headline,
+    'overview', published.overview,
+    'achievements', to_jsonb(published.achievements),
+    'risks', to_jsonb(published.risks),
+    'sentiment_summary', published.sentiment_summary,
+    'kpis', published.kpis,
+    'stats', published.stats
+  ));
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_report_published_webhooks
+  AFTER UPDATE OF published_version_id ON public.executive_reports
+  FOR EACH ROW
+  WHEN (NEW.published_version_id IS NOT NULL AND NEW.published_version_id IS DISTINCT FROM OLD.published_version_id)
+  EXECUTE FUNCTION public.enqueue_report_webhooks();
+
+-- Deliver queued webhooks every minute. Requires the 'project_url' and
+-- 'service_role_key' secrets to be stored in Supabase Vault.
+SELECT cron.schedule(
+  'deliver-webhooks-every-minute',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/deliver-webhooks',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
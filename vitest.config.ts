@@ -0,0 +1,16 @@
+import { defineConfig } from "vitest/config";
+
+// Tests for the edge function modules. They are written for Deno, so the
+// remote imports are mapped onto the same packages installed from npm.
+export default defineConfig({
+  resolve: {
+    alias: {
+      "https://deno.land/x/zod@v3.22.4/mod.ts": "zod",
+      "https://esm.sh/fflate@0.8.2": "fflate",
+    },
+  },
+  test: {
+    include: ["supabase/functions/**/*.test.ts"],
+    setupFiles: ["supabase/functions/vitest.setup.ts"],
+  },
+});